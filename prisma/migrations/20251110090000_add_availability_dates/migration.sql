@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "teacher_availabilities_teacherId_dayOfWeek_startTime_key";
+
+-- AlterTable
+ALTER TABLE "teacher_availabilities" ADD COLUMN     "date" DATE,
+ADD COLUMN     "endDate" DATE;
+
+-- CreateIndex
+CREATE INDEX "teacher_availabilities_teacherId_dayOfWeek_idx" ON "teacher_availabilities"("teacherId", "dayOfWeek");
+
+-- CreateIndex
+CREATE INDEX "teacher_availabilities_teacherId_date_idx" ON "teacher_availabilities"("teacherId", "date");
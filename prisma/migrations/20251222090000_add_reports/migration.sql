@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "ReportTargetType" AS ENUM ('TEACHER', 'STUDENT', 'REVIEW', 'MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "ReportReason" AS ENUM ('SPAM', 'HARASSMENT', 'INAPPROPRIATE_CONTENT', 'FRAUD', 'MISCONDUCT', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('PENDING', 'IN_REVIEW', 'RESOLVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "ModerationActionType" AS ENUM ('STATUS_CHANGED', 'SUSPEND_TEACHER', 'DEACTIVATE_USER', 'HIDE_REVIEW', 'REMOVE_MESSAGE', 'REMOVE_CONVERSATION');
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "hiddenAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "reports" (
+    "id" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "targetType" "ReportTargetType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reportedUserId" TEXT,
+    "reason" "ReportReason" NOT NULL,
+    "notes" TEXT,
+    "status" "ReportStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectedReason" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "moderation_actions" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT,
+    "adminId" TEXT NOT NULL,
+    "action" "ModerationActionType" NOT NULL,
+    "targetType" "ReportTargetType",
+    "targetId" TEXT,
+    "note" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderation_actions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reports_status_createdAt_idx" ON "reports"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "reports_targetType_targetId_idx" ON "reports"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "moderation_actions_reportId_idx" ON "moderation_actions"("reportId");
+
+-- CreateIndex
+CREATE INDEX "moderation_actions_targetType_targetId_idx" ON "moderation_actions"("targetType", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reportedUserId_fkey" FOREIGN KEY ("reportedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "saved_teachers" (
+    "id" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "notifyOnNewSlots" BOOLEAN NOT NULL DEFAULT false,
+    "lastNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_teachers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saved_teachers_studentId_teacherId_key" ON "saved_teachers"("studentId", "teacherId");
+
+-- CreateIndex
+CREATE INDEX "saved_teachers_teacherId_notifyOnNewSlots_idx" ON "saved_teachers"("teacherId", "notifyOnNewSlots");
+
+-- AddForeignKey
+ALTER TABLE "saved_teachers" ADD CONSTRAINT "saved_teachers_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_teachers" ADD CONSTRAINT "saved_teachers_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "teachers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "EarningSource" AS ENUM ('LESSON_PACKAGE', 'COURSE', 'TRIAL_LESSON', 'REGULAR_LESSON');
+
+-- CreateEnum
+CREATE TYPE "EarningStatus" AS ENUM ('HELD', 'AVAILABLE', 'PAID', 'REVERSED');
+
+-- CreateEnum
+CREATE TYPE "PayoutBatchStatus" AS ENUM ('PENDING_APPROVAL', 'APPROVED', 'PAID', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'APPROVED', 'PAID', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "teacher_earnings" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "source" "EarningSource" NOT NULL,
+    "grossAmount" DECIMAL(10,2) NOT NULL,
+    "commissionRate" DECIMAL(5,2) NOT NULL,
+    "commissionAmount" DECIMAL(10,2) NOT NULL,
+    "netAmount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'VND',
+    "status" "EarningStatus" NOT NULL DEFAULT 'HELD',
+    "availableAt" TIMESTAMP(3),
+    "payoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "teacher_earnings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_batches" (
+    "id" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "status" "PayoutBatchStatus" NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "totalAmount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'VND',
+    "createdBy" TEXT,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "teacher_payouts" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'VND',
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectedReason" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "teacher_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teacher_earnings_bookingId_key" ON "teacher_earnings"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "teacher_earnings_teacherId_status_idx" ON "teacher_earnings"("teacherId", "status");
+
+-- CreateIndex
+CREATE INDEX "teacher_earnings_status_availableAt_idx" ON "teacher_earnings"("status", "availableAt");
+
+-- CreateIndex
+CREATE INDEX "payout_batches_status_createdAt_idx" ON "payout_batches"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teacher_payouts_batchId_teacherId_key" ON "teacher_payouts"("batchId", "teacherId");
+
+-- CreateIndex
+CREATE INDEX "teacher_payouts_teacherId_createdAt_idx" ON "teacher_payouts"("teacherId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "teacher_earnings" ADD CONSTRAINT "teacher_earnings_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "teachers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "teacher_earnings" ADD CONSTRAINT "teacher_earnings_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "teacher_earnings" ADD CONSTRAINT "teacher_earnings_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "teacher_payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "teacher_payouts" ADD CONSTRAINT "teacher_payouts_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "payout_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "teacher_payouts" ADD CONSTRAINT "teacher_payouts_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "teachers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,155 @@
+-- CreateTable
+CREATE TABLE "booking_metadata" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "learningGoals" JSONB,
+    "howFoundTeacher" TEXT,
+    "contactInfo" JSONB,
+    "confirmationCode" TEXT,
+    "confirmationNotes" TEXT,
+    "confirmedAt" TIMESTAMP(3),
+    "teacherResponse" TEXT,
+    "teacherMessage" TEXT,
+    "declineReason" TEXT,
+    "preLessonInstructions" TEXT,
+    "alternativeSlots" JSONB,
+    "respondedAt" TIMESTAMP(3),
+    "meetingUrl" TEXT,
+    "trialCompletion" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_metadata_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_metadata_bookingId_key" ON "booking_metadata"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "booking_metadata_confirmationCode_idx" ON "booking_metadata"("confirmationCode");
+
+-- CreateIndex
+CREATE INDEX "booking_metadata_teacherResponse_idx" ON "booking_metadata"("teacherResponse");
+
+-- AddForeignKey
+ALTER TABLE "booking_metadata" ADD CONSTRAINT "booking_metadata_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the data the booking flows appended to "notes" into booking_metadata,
+-- leaving only what students and teachers wrote themselves
+DO $$
+DECLARE
+    b RECORD;
+    remaining TEXT;
+    completion TEXT;
+    parsed JSONB;
+    m TEXT[];
+    v_goals JSONB;
+    v_how TEXT;
+    v_contact JSONB;
+    v_confirmation_notes TEXT;
+    v_response TEXT;
+    v_message TEXT;
+    v_decline TEXT;
+    v_trial JSONB;
+BEGIN
+    FOR b IN
+        SELECT "id", "notes", "isTrialLesson", "updatedAt"
+        FROM "bookings"
+        WHERE "notes" ~ '(Metadata: \{|Confirmation notes: |Teacher response: |Declined by teacher\. Reason: |Learning Goals: |Teacher Response \((ACCEPTED|DECLINED)\): |--- LESSON COMPLETED ---)'
+           OR ("isTrialLesson" AND "notes" LIKE 'Notes: %')
+    LOOP
+        remaining := b."notes";
+        v_goals := NULL;
+        v_how := NULL;
+        v_contact := NULL;
+        v_confirmation_notes := NULL;
+        v_response := NULL;
+        v_message := NULL;
+        v_decline := NULL;
+        v_trial := NULL;
+
+        -- Trial completion notes run to the end of the text
+        completion := substring(remaining from '--- LESSON COMPLETED ---\n(.*)$');
+        IF completion IS NOT NULL THEN
+            v_trial := jsonb_strip_nulls(jsonb_build_object(
+                'teacherFeedback', substring(completion from '(?n)Teacher Feedback: (.*)$'),
+                'performanceNotes', substring(completion from '(?n)Performance Notes: (.*)$'),
+                'recommendations', substring(completion from '(?n)Recommendations: (.*)$')
+            ));
+            remaining := regexp_replace(remaining, '\n?--- LESSON COMPLETED ---.*$', '');
+        END IF;
+
+        m := regexp_match(remaining, '(?n)Metadata: (\{.*\})$');
+        IF m IS NOT NULL THEN
+            BEGIN
+                parsed := m[1]::jsonb;
+                v_goals := parsed->'learningGoals';
+                v_how := parsed->>'howFoundTeacher';
+                v_contact := parsed->'contactInfo';
+                remaining := regexp_replace(remaining, '(?n)\n?Metadata: \{.*\}$', '', 'g');
+            EXCEPTION WHEN others THEN
+                -- Leave malformed metadata in the notes
+                NULL;
+            END;
+        END IF;
+
+        m := regexp_match(remaining, '(?n)Confirmation notes: (.*)$');
+        IF m IS NOT NULL THEN
+            v_confirmation_notes := m[1];
+            remaining := regexp_replace(remaining, '(?n)\n?Confirmation notes: .*$', '', 'g');
+        END IF;
+
+        m := regexp_match(remaining, '(?n)Teacher response: (.*)$');
+        IF m IS NOT NULL THEN
+            v_response := 'ACCEPTED';
+            v_message := m[1];
+            remaining := regexp_replace(remaining, '(?n)\n?Teacher response: .*$', '', 'g');
+        END IF;
+
+        m := regexp_match(remaining, '(?n)Declined by teacher\. Reason: (.*)$');
+        IF m IS NOT NULL THEN
+            v_response := 'DECLINED';
+            v_decline := NULLIF(m[1], 'No reason provided');
+            remaining := regexp_replace(remaining, '(?n)\n?Declined by teacher\. Reason: .*$', '', 'g');
+        END IF;
+
+        m := regexp_match(remaining, '(?n)Teacher Response \((ACCEPTED|DECLINED)\): (.*)$');
+        IF m IS NOT NULL THEN
+            v_response := m[1];
+            IF m[1] = 'ACCEPTED' THEN
+                v_message := NULLIF(m[2], 'No message provided');
+            ELSE
+                v_decline := NULLIF(m[2], 'No message provided');
+            END IF;
+            remaining := regexp_replace(remaining, '(?n)\n?Teacher Response \((ACCEPTED|DECLINED)\): .*$', '', 'g');
+        END IF;
+
+        m := regexp_match(remaining, '(?n)Learning Goals: (.*)$');
+        IF m IS NOT NULL THEN
+            v_goals := COALESCE(v_goals, to_jsonb(m[1]));
+            remaining := regexp_replace(remaining, '(?n)\n?Learning Goals: .*$', '', 'g');
+        END IF;
+
+        IF b."isTrialLesson" THEN
+            remaining := regexp_replace(remaining, '^Notes: ', '');
+        END IF;
+
+        UPDATE "bookings"
+        SET "notes" = NULLIF(btrim(remaining, E' \n'), '')
+        WHERE "id" = b."id";
+
+        IF v_goals IS NOT NULL OR v_how IS NOT NULL OR v_contact IS NOT NULL
+            OR v_confirmation_notes IS NOT NULL OR v_response IS NOT NULL OR v_trial IS NOT NULL THEN
+            INSERT INTO "booking_metadata" (
+                "id", "bookingId", "learningGoals", "howFoundTeacher", "contactInfo",
+                "confirmationNotes", "teacherResponse", "teacherMessage", "declineReason",
+                "respondedAt", "trialCompletion", "updatedAt"
+            ) VALUES (
+                md5(b."id" || ':metadata'), b."id", v_goals, v_how, v_contact,
+                v_confirmation_notes, v_response, v_message, v_decline,
+                CASE WHEN v_response IS NOT NULL THEN b."updatedAt" END, v_trial, CURRENT_TIMESTAMP
+            )
+            ON CONFLICT ("bookingId") DO NOTHING;
+        END IF;
+    END LOOP;
+END $$;
@@ -0,0 +1,110 @@
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN     "title" TEXT,
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "learningObjectives" TEXT[],
+ADD COLUMN     "materials" TEXT[],
+ADD COLUMN     "prerequisites" TEXT[],
+ADD COLUMN     "sequenceNumber" INTEGER,
+ADD COLUMN     "isAvailableForBooking" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "maxStudents" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "progress" JSONB,
+ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "lesson_templates" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT,
+    "duration" INTEGER NOT NULL DEFAULT 60,
+    "learningObjectives" TEXT[],
+    "materials" TEXT[],
+    "prerequisites" TEXT[],
+    "homework" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lesson_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lessons_courseId_sequenceNumber_idx" ON "lessons"("courseId", "sequenceNumber");
+
+-- CreateIndex
+CREATE INDEX "lesson_templates_teacherId_category_idx" ON "lesson_templates"("teacherId", "category");
+
+-- AddForeignKey
+ALTER TABLE "lessons" ADD CONSTRAINT "lessons_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "lesson_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lesson_templates" ADD CONSTRAINT "lesson_templates_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "teachers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+UPDATE "lessons" SET
+  "learningObjectives" = ARRAY[]::TEXT[],
+  "materials" = ARRAY[]::TEXT[],
+  "prerequisites" = ARRAY[]::TEXT[];
+
+-- Move the JSON that LessonService packed into "notes" into the new columns,
+-- leaving only the teacher's own notes behind. Notes that are not JSON, or JSON
+-- without LessonService keys (such as package lesson feedback), are kept as
+-- they are.
+CREATE FUNCTION pg_temp.json_text_array(value JSONB) RETURNS TEXT[] AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(value) = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(value))
+    ELSE ARRAY[]::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+DO $$
+DECLARE
+  lesson RECORD;
+  meta JSONB;
+BEGIN
+  FOR lesson IN SELECT "id", "notes" FROM "lessons" WHERE "notes" LIKE '{%' LOOP
+    BEGIN
+      meta := lesson."notes"::JSONB;
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+
+    IF jsonb_typeof(meta) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    IF NOT (meta ? 'title' OR meta ? 'learningObjectives' OR meta ? 'teacherNotes') THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE "lessons" SET
+      "title" = meta->>'title',
+      "description" = meta->>'description',
+      "learningObjectives" = pg_temp.json_text_array(meta->'learningObjectives'),
+      "materials" = pg_temp.json_text_array(meta->'materials'),
+      "prerequisites" = pg_temp.json_text_array(meta->'prerequisites'),
+      "sequenceNumber" = CASE
+        WHEN jsonb_typeof(meta->'sequenceNumber') = 'number'
+          THEN (meta->>'sequenceNumber')::NUMERIC::INTEGER
+      END,
+      "isAvailableForBooking" = COALESCE(meta->'isAvailableForBooking' <> 'false'::JSONB, true),
+      "maxStudents" = CASE
+        WHEN jsonb_typeof(meta->'maxStudents') = 'number'
+          THEN (meta->>'maxStudents')::NUMERIC::INTEGER
+        ELSE 1
+      END,
+      "progress" = NULLIF(
+        jsonb_strip_nulls(jsonb_build_object(
+          'studentFeedback', meta->'studentFeedback',
+          'topicsCovered', meta->'topicsCovered',
+          'strengths', meta->'strengths',
+          'improvementAreas', meta->'improvementAreas',
+          'nextLessonFocus', meta->'nextLessonFocus'
+        )),
+        '{}'::JSONB
+      ),
+      "notes" = NULLIF(meta->>'teacherNotes', '')
+    WHERE "id" = lesson."id";
+  END LOOP;
+END $$;
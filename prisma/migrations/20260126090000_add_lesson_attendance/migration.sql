@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "AttendanceRole" AS ENUM ('TEACHER', 'STUDENT');
+
+-- CreateEnum
+CREATE TYPE "AttendanceEventType" AS ENUM ('JOINED', 'LEFT');
+
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('ON_TIME', 'LATE', 'ABSENT');
+
+-- CreateEnum
+CREATE TYPE "AttendanceOutcome" AS ENUM ('ATTENDED', 'STUDENT_NO_SHOW', 'TEACHER_NO_SHOW', 'BOTH_NO_SHOW');
+
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN     "attendanceOutcome" "AttendanceOutcome",
+ADD COLUMN     "attendanceFinalizedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "lesson_attendance_events" (
+    "id" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "AttendanceRole" NOT NULL,
+    "type" "AttendanceEventType" NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'APP',
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lesson_attendance_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lesson_participants" (
+    "id" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "AttendanceRole" NOT NULL,
+    "status" "AttendanceStatus" NOT NULL DEFAULT 'ABSENT',
+    "firstJoinedAt" TIMESTAMP(3),
+    "lastLeftAt" TIMESTAMP(3),
+    "minutesAttended" INTEGER NOT NULL DEFAULT 0,
+    "lateMinutes" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lesson_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lesson_attendance_events_lessonId_occurredAt_idx" ON "lesson_attendance_events"("lessonId", "occurredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lesson_participants_lessonId_userId_key" ON "lesson_participants"("lessonId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "lesson_attendance_events" ADD CONSTRAINT "lesson_attendance_events_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lesson_participants" ADD CONSTRAINT "lesson_participants_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "BookingPolicyCase" AS ENUM ('STUDENT_CANCELLATION', 'STUDENT_LATE_CANCELLATION', 'TEACHER_CANCELLATION', 'TEACHER_LATE_CANCELLATION', 'ADMIN_CANCELLATION', 'STUDENT_NO_SHOW', 'TEACHER_NO_SHOW', 'BOTH_NO_SHOW');
+
+-- CreateEnum
+CREATE TYPE "PolicyFaultParty" AS ENUM ('STUDENT', 'TEACHER', 'NONE');
+
+-- CreateTable
+CREATE TABLE "booking_policy_decisions" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "policyCase" "BookingPolicyCase" NOT NULL,
+    "faultParty" "PolicyFaultParty" NOT NULL,
+    "hoursBeforeStart" DECIMAL(8,2),
+    "lessonPackageId" TEXT,
+    "packageLessonConsumed" BOOLEAN NOT NULL DEFAULT false,
+    "feeAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "creditedLessons" INTEGER NOT NULL DEFAULT 0,
+    "teacherCompensated" BOOLEAN NOT NULL DEFAULT false,
+    "rule" JSONB NOT NULL,
+    "decidedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_policy_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_policy_decisions_bookingId_key" ON "booking_policy_decisions"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "booking_policy_decisions_policyCase_createdAt_idx" ON "booking_policy_decisions"("policyCase", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "booking_policy_decisions" ADD CONSTRAINT "booking_policy_decisions_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
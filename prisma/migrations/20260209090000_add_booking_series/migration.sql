@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "BookingSeriesStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_series" (
+    "id" TEXT NOT NULL,
+    "lessonPackageId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[],
+    "startTime" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "startDate" DATE NOT NULL,
+    "weeks" INTEGER NOT NULL,
+    "status" "BookingSeriesStatus" NOT NULL DEFAULT 'ACTIVE',
+    "stoppedReason" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_seriesId_idx" ON "bookings"("seriesId");
+
+-- CreateIndex
+CREATE INDEX "booking_series_studentId_status_idx" ON "booking_series"("studentId", "status");
+
+-- CreateIndex
+CREATE INDEX "booking_series_teacherId_status_idx" ON "booking_series"("teacherId", "status");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "booking_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_lessonPackageId_fkey" FOREIGN KEY ("lessonPackageId") REFERENCES "lesson_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
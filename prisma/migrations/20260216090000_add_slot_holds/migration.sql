@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "SlotHoldStatus" AS ENUM ('ACTIVE', 'CONVERTED', 'RELEASED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "slot_holds" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "holderId" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "status" "SlotHoldStatus" NOT NULL DEFAULT 'ACTIVE',
+    "paymentId" TEXT,
+    "bookingId" TEXT,
+    "lessonId" TEXT,
+    "releasedReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "slot_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "slot_holds_teacherId_status_startsAt_idx" ON "slot_holds"("teacherId", "status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "slot_holds_status_expiresAt_idx" ON "slot_holds"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "slot_holds_paymentId_idx" ON "slot_holds"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "teachers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Not managed by Prisma: two active holds of the same teacher may not overlap
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_valid_range" CHECK ("startsAt" < "endsAt");
+
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_active_no_overlap" EXCLUDE USING gist ("teacherId" WITH =, tsrange("startsAt", "endsAt") WITH &&) WHERE ("status" = 'ACTIVE');
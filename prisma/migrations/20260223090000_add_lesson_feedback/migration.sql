@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN     "feedback" JSONB;
+
+-- Package lesson feedback used to be written into "notes" as JSON. Move it to
+-- the new column and keep the teacher's written feedback as the note.
+DO $$
+DECLARE
+  lesson RECORD;
+  meta JSONB;
+BEGIN
+  FOR lesson IN SELECT "id", "notes" FROM "lessons" WHERE "notes" LIKE '{%' LOOP
+    BEGIN
+      meta := lesson."notes"::JSONB;
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+
+    IF jsonb_typeof(meta) <> 'object' OR NOT (meta ? 'teacherFeedback' AND meta ? 'timestamp') THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE "lessons" SET
+      "feedback" = meta,
+      "notes" = NULLIF(meta->>'teacherFeedback', '')
+    WHERE "id" = lesson."id";
+  END LOOP;
+END $$;
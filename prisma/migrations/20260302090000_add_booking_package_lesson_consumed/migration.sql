@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "packageLessonConsumedAt" TIMESTAMP(3);
+
+-- Bookings whose package lesson was already taken by a no-show decision or by
+-- attendance finalization
+UPDATE "bookings" AS b SET "packageLessonConsumedAt" = d."createdAt"
+FROM "booking_policy_decisions" AS d
+WHERE d."bookingId" = b."id" AND d."packageLessonConsumed";
+
+UPDATE "bookings" AS b SET "packageLessonConsumedAt" = l."attendanceFinalizedAt"
+FROM "lessons" AS l
+WHERE l."bookingId" = b."id"
+  AND l."attendanceOutcome" = 'ATTENDED'
+  AND l."attendanceFinalizedAt" IS NOT NULL
+  AND b."lessonPackageId" IS NOT NULL
+  AND b."packageLessonConsumedAt" IS NULL;
+
+-- Package lessons completed without going through attendance never left the
+-- package. Take them now so the package capacity is right.
+WITH "unconsumed" AS (
+  SELECT "lessonPackageId", COUNT(*)::INTEGER AS "lessons"
+  FROM "bookings"
+  WHERE "status" = 'COMPLETED'
+    AND "lessonPackageId" IS NOT NULL
+    AND "packageLessonConsumedAt" IS NULL
+  GROUP BY "lessonPackageId"
+)
+UPDATE "lesson_packages" AS p SET
+  "usedLessons" = p."usedLessons" + LEAST(u."lessons", GREATEST(p."remainingLessons", 0)),
+  "remainingLessons" = GREATEST(p."remainingLessons" - u."lessons", 0)
+FROM "unconsumed" AS u
+WHERE p."id" = u."lessonPackageId";
+
+UPDATE "bookings" SET "packageLessonConsumedAt" = "updatedAt"
+WHERE "status" = 'COMPLETED'
+  AND "lessonPackageId" IS NOT NULL
+  AND "packageLessonConsumedAt" IS NULL;
@@ -1,12 +1,26 @@
 import { Controller, Get, Post, Body, Patch, Param, Delete, Query } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { AccountFilterDto, UpdateAccountDto } from './dto/account.dto';
-// Note: Report and Conversation imports commented out until models are added
-// import { ReportFilterDto, UpdateReportDto } from './dto/report.dto';
-// import { ConversationFilterDto, DeleteConversationDto } from './dto/conversation.dto';
+import {
+  ModerationActionFilterDto,
+  ReportFilterDto,
+  UpdateReportDto,
+} from './dto/report.dto';
+import {
+  ConversationFilterDto,
+  ConversationMessageFilterDto,
+  DeleteConversationDto,
+} from './dto/conversation.dto';
 import { AccountListVM, AccountVM } from './vm/account.vm';
-// import { ReportListVM, ReportVM } from './vm/report.vm';
-// import { ConversationListVM, ConversationVM } from './vm/conversation.vm';
+import { ModerationActionListVM, ReportListVM, ReportVM } from './vm/report.vm';
+import {
+  ConversationListVM,
+  ConversationMessageListVM,
+} from './vm/conversation.vm';
+import { Roles } from '../decorators/roles.decorator';
+import { Role } from '../roles/role.enum';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { TAccountRequest } from '../decorators/account-request.decorator';
 
 @Controller('admin')
 export class AdminController {
@@ -25,32 +39,64 @@ export class AdminController {
     return this.adminService.updateAccount(updateAccountDto);
   }
 
-  /* 
-  // Note: Report and Conversation management methods are commented out
-  // until the respective models are added to the Prisma schema
-  
   // Report Management
   @Get('reports')
+  @Roles(Role.ADMIN)
   async getReports(@Query() filter: ReportFilterDto): Promise<ReportListVM> {
     return this.adminService.getReports(filter);
   }
 
   @Patch('reports')
+  @Roles(Role.ADMIN)
   async updateReport(
     @Body() updateReportDto: UpdateReportDto,
+    @CurrentUser() user: TAccountRequest,
   ): Promise<ReportVM> {
-    return this.adminService.updateReport(updateReportDto.id, updateReportDto);
+    return this.adminService.updateReport(updateReportDto, user.id);
+  }
+
+  @Get('moderation-actions')
+  @Roles(Role.ADMIN)
+  async getModerationActions(
+    @Query() filter: ModerationActionFilterDto,
+  ): Promise<ModerationActionListVM> {
+    return this.adminService.getModerationActions(filter);
   }
 
   // Conversation Management
   @Get('conversations')
+  @Roles(Role.ADMIN)
   async getConversations(@Query() filter: ConversationFilterDto): Promise<ConversationListVM> {
     return this.adminService.getConversations(filter);
   }
 
+  @Get('conversations/:id/messages')
+  @Roles(Role.ADMIN)
+  async getConversationMessages(
+    @Param('id') id: string,
+    @Query() filter: ConversationMessageFilterDto,
+  ): Promise<ConversationMessageListVM> {
+    return this.adminService.getConversationMessages(id, filter);
+  }
+
   @Delete('conversations')
-  async deleteConversation(@Body() deleteConversationDto: DeleteConversationDto): Promise<void> {
-    return this.adminService.deleteConversation(deleteConversationDto.id);
+  @Roles(Role.ADMIN)
+  async deleteConversation(
+    @Body() deleteConversationDto: DeleteConversationDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<void> {
+    return this.adminService.deleteConversation(
+      deleteConversationDto.id,
+      user.id,
+    );
+  }
+
+  @Delete('conversations/messages/:messageId')
+  @Roles(Role.ADMIN)
+  async deleteMessage(
+    @Param('messageId') messageId: string,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<void> {
+    return this.adminService.deleteMessage(messageId, user.id);
   }
-  */
 }
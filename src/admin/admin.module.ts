@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { AdminController } from './admin.controller';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module.new';
+import { TeacherModule } from '../teacher/teacher.module';
 import { PrismaService } from '../common/prisma/prisma.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule, TeacherModule],
   controllers: [AdminController],
   providers: [
     AdminService,
@@ -1,17 +1,56 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { SessionService } from '../auth/session.service';
+import { TeacherService } from '../teacher/teacher.service';
 import { AccountFilterDto, UpdateAccountDto } from './dto/account.dto';
-// Note: Report and Conversation DTOs/VMs are commented out until models are added
-// import { ReportFilterDto, UpdateReportDto } from './dto/report.dto';
-// import { ConversationFilterDto } from './dto/conversation.dto';
+import {
+  ModerationActionFilterDto,
+  ReportAction,
+  ReportFilterDto,
+  UpdateReportDto,
+} from './dto/report.dto';
+import {
+  ConversationFilterDto,
+  ConversationMessageFilterDto,
+} from './dto/conversation.dto';
 import { AccountListVM, AccountVM } from './vm/account.vm';
-// import { ReportListVM, ReportVM } from './vm/report.vm';
-// import { ConversationListVM, ConversationVM } from './vm/conversation.vm';
-import { Prisma } from '@prisma/client';
+import {
+  ModerationActionListVM,
+  ReportListVM,
+  ReportUserVM,
+  ReportVM,
+} from './vm/report.vm';
+import {
+  ConversationListVM,
+  ConversationMessageListVM,
+} from './vm/conversation.vm';
+import {
+  ModerationActionType,
+  Prisma,
+  Report,
+  ReportStatus,
+  ReportTargetType,
+  TeacherStatus,
+} from '@prisma/client';
+
+const reportUserSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+};
 
 @Injectable()
 export class AdminService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private sessionService: SessionService,
+    private teacherService: TeacherService,
+  ) {}
 
   // Account Management
   async getAccounts(filter: AccountFilterDto): Promise<AccountListVM> {
@@ -124,6 +163,11 @@ export class AdminService {
       },
     });
 
+    // A deactivated user is logged out everywhere right away
+    if (dto.isActive === false) {
+      await this.sessionService.revokeAllSessions(updatedUser.id);
+    }
+
     // Transform to AccountVM
     return {
       id: updatedUser.id,
@@ -139,57 +183,62 @@ export class AdminService {
     };
   }
 
-  // Note: Report and Conversation models don't exist in the current schema
-  // These methods would need to be implemented when the models are added
-  
-  /* 
   // Report Management
   async getReports(filter: ReportFilterDto): Promise<ReportListVM> {
-    // Define searchable fields for the report search
-    const searchableFields = [
-      'report_type',
-      'notes',
-      'status'
-    ];
-
-    // Field mapping from camelCase to snake_case
+    // Field mapping - Report model uses camelCase
     const fieldMapping: Record<string, string> = {
-      reportType: 'report_type',
-      rejectedReason: 'rejected_reason',
-      createdAt: 'created_at',
-      updatedAt: 'updated_at'
+      status: 'status',
+      reason: 'reason',
+      createdAt: 'createdAt',
+      updatedAt: 'updatedAt',
+      resolvedAt: 'resolvedAt',
     };
 
     // Build the where clause
     const where: Prisma.ReportWhereInput = {
       AND: [
         // Apply search filter if search term is provided
-        filter.search && filter.searchFields?.length ? {
-          OR: filter.searchFields
-            .filter(field => searchableFields.includes(fieldMapping[field] || field))
-            .map(field => ({
-              [fieldMapping[field] || field]: { contains: filter.search, mode: 'insensitive' }
-            }))
-        } : filter.search ? {
-          OR: [
-            { report_type: { contains: filter.search, mode: 'insensitive' } },
-            { notes: { contains: filter.search, mode: 'insensitive' } },
-          ],
-        } : {},
+        filter.search
+          ? {
+              OR: [
+                { notes: { contains: filter.search, mode: 'insensitive' } },
+                {
+                  reporter: {
+                    firstName: { contains: filter.search, mode: 'insensitive' },
+                  },
+                },
+                {
+                  reporter: {
+                    lastName: { contains: filter.search, mode: 'insensitive' },
+                  },
+                },
+                {
+                  reporter: {
+                    email: { contains: filter.search, mode: 'insensitive' },
+                  },
+                },
+              ],
+            }
+          : {},
         // Apply individual filters
         {
           ...(filter.status && { status: filter.status }),
-        }
-      ].filter(Boolean) as Prisma.ReportWhereInput[]
+          ...(filter.targetType && { targetType: filter.targetType }),
+          ...(filter.reason && { reason: filter.reason }),
+          ...(filter.reportedUserId && {
+            reportedUserId: filter.reportedUserId,
+          }),
+        },
+      ].filter(Boolean) as Prisma.ReportWhereInput[],
     };
 
-    // Set default ordering if not provided
+    // Oldest first by default so the queue is worked in order
     const orderBy: Record<string, 'asc' | 'desc'> = filter.order
       ? {
-          [fieldMapping[filter.order.split(',')[0]] || filter.order.split(',')[0]]: 
-            filter.order.split(',')[1] === 'asc' ? 'asc' : 'desc'
+          [fieldMapping[filter.order.split(',')[0]] || 'createdAt']:
+            filter.order.split(',')[1] === 'asc' ? 'asc' : 'desc',
         }
-      : { created_at: 'desc' };
+      : { createdAt: 'asc' };
 
     const skip = (filter.page - 1) * filter.size;
     const take = filter.size;
@@ -201,22 +250,8 @@ export class AdminService {
         take,
         orderBy,
         include: {
-          user: {
-            select: {
-              id: true,
-              first_name: true,
-              last_name: true,
-              email: true,
-            },
-          },
-          participant: {
-            select: {
-              id: true,
-              first_name: true,
-              last_name: true,
-              email: true,
-            },
-          },
+          reporter: { select: reportUserSelect },
+          reportedUser: { select: reportUserSelect },
         },
       }),
       this.prisma.report.count({ where }),
@@ -224,32 +259,8 @@ export class AdminService {
 
     const totalPages = Math.ceil(total / take);
 
-    // Transform snake_case to camelCase
-    const transformedItems = items.map(item => ({
-      id: item.id,
-      userId: item.user_id,
-      participantId: item.participant_id,
-      reportType: item.report_type,
-      notes: item.notes,
-      status: item.status,
-      createdAt: item.created_at,
-      rejectedReason: item.rejected_reason,
-      user: {
-        id: item.user.id,
-        firstName: item.user.first_name,
-        lastName: item.user.last_name,
-        email: item.user.email,
-      },
-      participant: {
-        id: item.participant.id,
-        firstName: item.participant.first_name,
-        lastName: item.participant.last_name,
-        email: item.participant.email,
-      },
-    }));
-
-    return { 
-      items: transformedItems, 
+    return {
+      items: items.map((item) => this.toReportVM(item)),
       total,
       page: filter.page,
       size: filter.size,
@@ -257,93 +268,284 @@ export class AdminService {
     };
   }
 
-  async updateReport(id: number, dto: UpdateReportDto): Promise<ReportVM> {
-    const updatedReport = await this.prisma.report.update({
-      where: { id },
+  /**
+   * Move a report through the queue, optionally taking an action against the
+   * reported content. Status changes and actions are written to the
+   * moderation log.
+   */
+  async updateReport(dto: UpdateReportDto, adminId: string): Promise<ReportVM> {
+    const report = await this.prisma.report.findUnique({
+      where: { id: dto.id },
+    });
+
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+
+    const status =
+      dto.status ?? (dto.action ? ReportStatus.RESOLVED : report.status);
+    const rejectedReason = dto.rejectedReason ?? report.rejectedReason;
+
+    if (status === ReportStatus.REJECTED) {
+      if (dto.action) {
+        throw new BadRequestException(
+          'A rejected report cannot have an action',
+        );
+      }
+      if (!rejectedReason) {
+        throw new BadRequestException('A rejection reason is required');
+      }
+    }
+
+    if (dto.action) {
+      await this.applyReportAction(report, dto.action, adminId, dto.note);
+    }
+
+    const isClosed =
+      status === ReportStatus.RESOLVED || status === ReportStatus.REJECTED;
+
+    await this.prisma.report.update({
+      where: { id: report.id },
       data: {
-        status: dto.status,
-        rejected_reason: dto.rejectedReason,
+        status,
+        rejectedReason,
+        resolvedAt: isClosed ? report.resolvedAt ?? new Date() : null,
+        resolvedBy: isClosed ? report.resolvedBy ?? adminId : null,
       },
+    });
+
+    if (status !== report.status) {
+      await this.recordModerationAction({
+        adminId,
+        reportId: report.id,
+        action: ModerationActionType.STATUS_CHANGED,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        note: dto.note,
+        metadata: { from: report.status, to: status, rejectedReason },
+      });
+    }
+
+    const updatedReport = await this.prisma.report.findUnique({
+      where: { id: report.id },
       include: {
-        user: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            email: true,
-          },
-        },
-        participant: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            email: true,
-          },
-        },
+        reporter: { select: reportUserSelect },
+        reportedUser: { select: reportUserSelect },
       },
     });
 
-    // Transform snake_case to camelCase
+    return this.toReportVM(updatedReport);
+  }
+
+  async getModerationActions(
+    filter: ModerationActionFilterDto,
+  ): Promise<ModerationActionListVM> {
+    const where: Prisma.ModerationActionWhereInput = {
+      ...(filter.reportId && { reportId: filter.reportId }),
+      ...(filter.adminId && { adminId: filter.adminId }),
+      ...(filter.targetId && { targetId: filter.targetId }),
+    };
+
+    const skip = (filter.page - 1) * filter.size;
+    const take = filter.size;
+
+    const [items, total] = await Promise.all([
+      this.prisma.moderationAction.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: { admin: { select: reportUserSelect } },
+      }),
+      this.prisma.moderationAction.count({ where }),
+    ]);
+
     return {
-      id: updatedReport.id,
-      userId: updatedReport.user_id,
-      participantId: updatedReport.participant_id,
-      reportType: updatedReport.report_type,
-      notes: updatedReport.notes,
-      status: updatedReport.status,
-      createdAt: updatedReport.created_at,
-      rejectedReason: updatedReport.rejected_reason,
-      user: {
-        id: updatedReport.user.id,
-        firstName: updatedReport.user.first_name,
-        lastName: updatedReport.user.last_name,
-        email: updatedReport.user.email,
-      },
-      participant: {
-        id: updatedReport.participant.id,
-        firstName: updatedReport.participant.first_name,
-        lastName: updatedReport.participant.last_name,
-        email: updatedReport.participant.email,
+      items: items.map((item) => ({
+        id: item.id,
+        reportId: item.reportId,
+        adminId: item.adminId,
+        action: item.action,
+        targetType: item.targetType,
+        targetId: item.targetId,
+        note: item.note,
+        metadata: item.metadata as Record<string, any>,
+        createdAt: item.createdAt,
+        admin: item.admin,
+      })),
+      total,
+      page: filter.page,
+      size: filter.size,
+      totalPages: Math.ceil(total / take),
+    };
+  }
+
+  private async applyReportAction(
+    report: Report,
+    action: ReportAction,
+    adminId: string,
+    note?: string,
+  ): Promise<void> {
+    switch (action) {
+      case ModerationActionType.SUSPEND_TEACHER: {
+        const teacher = report.reportedUserId
+          ? await this.prisma.teacher.findUnique({
+              where: { id: report.reportedUserId },
+            })
+          : null;
+        if (!teacher) {
+          throw new BadRequestException('The reported user is not a teacher');
+        }
+
+        // A suspended teacher is hidden from search and cannot be booked
+        await this.prisma.teacher.update({
+          where: { id: teacher.id },
+          data: { status: TeacherStatus.SUSPENDED, isLive: false },
+        });
+        await this.recordModerationAction({
+          adminId,
+          reportId: report.id,
+          action,
+          targetType: ReportTargetType.TEACHER,
+          targetId: teacher.id,
+          note,
+          metadata: { previousStatus: teacher.status },
+        });
+        return;
+      }
+
+      case ModerationActionType.DEACTIVATE_USER: {
+        if (!report.reportedUserId) {
+          throw new BadRequestException('The report has no user to deactivate');
+        }
+
+        await this.prisma.user.update({
+          where: { id: report.reportedUserId },
+          data: { isActive: false },
+        });
+        await this.sessionService.revokeAllSessions(report.reportedUserId);
+        await this.recordModerationAction({
+          adminId,
+          reportId: report.id,
+          action,
+          targetId: report.reportedUserId,
+          note,
+        });
+        return;
+      }
+
+      case ModerationActionType.HIDE_REVIEW: {
+        if (report.targetType !== ReportTargetType.REVIEW) {
+          throw new BadRequestException('Only reported reviews can be hidden');
+        }
+
+        const review = await this.prisma.review.update({
+          where: { id: report.targetId },
+          data: { hiddenAt: new Date() },
+        });
+        // The hidden rating no longer counts towards the teacher's average
+        await this.teacherService.updateTeacherRating(review.teacherId);
+        await this.recordModerationAction({
+          adminId,
+          reportId: report.id,
+          action,
+          targetType: ReportTargetType.REVIEW,
+          targetId: review.id,
+          note,
+        });
+        return;
+      }
+
+      case ModerationActionType.REMOVE_MESSAGE: {
+        if (report.targetType !== ReportTargetType.MESSAGE) {
+          throw new BadRequestException(
+            'Only reported messages can be removed',
+          );
+        }
+
+        await this.removeMessage(report.targetId, adminId, note, report.id);
+        return;
+      }
+    }
+  }
+
+  private async recordModerationAction(data: {
+    adminId: string;
+    action: ModerationActionType;
+    reportId?: string;
+    targetType?: ReportTargetType;
+    targetId?: string;
+    note?: string;
+    metadata?: Record<string, any>;
+  }): Promise<void> {
+    await this.prisma.moderationAction.create({
+      data: {
+        ...data,
+        metadata: data.metadata as Prisma.InputJsonValue,
       },
+    });
+  }
+
+  private toReportVM(
+    report: Report & {
+      reporter: ReportUserVM;
+      reportedUser?: ReportUserVM | null;
+    },
+  ): ReportVM {
+    return {
+      id: report.id,
+      reporterId: report.reporterId,
+      reportedUserId: report.reportedUserId,
+      targetType: report.targetType,
+      targetId: report.targetId,
+      reason: report.reason,
+      notes: report.notes,
+      status: report.status,
+      rejectedReason: report.rejectedReason,
+      resolvedAt: report.resolvedAt,
+      resolvedBy: report.resolvedBy,
+      createdAt: report.createdAt,
+      updatedAt: report.updatedAt,
+      reporter: report.reporter,
+      reportedUser: report.reportedUser || undefined,
     };
   }
 
   // Conversation Management
   async getConversations(filter: ConversationFilterDto): Promise<ConversationListVM> {
-    // Define searchable fields for the conversation search
-    const searchableFields = [
-      'title'
-    ];
-
-    // Field mapping from camelCase to snake_case
+    // Field mapping - Conversation model uses camelCase
     const fieldMapping: Record<string, string> = {
-      creatorId: 'creator_id',
-      channelId: 'channel_id',
-      avatarUrl: 'avatar_url',
-      createdAt: 'created_at',
-      updatedAt: 'updated_at',
-      deletedAt: 'deleted_at'
+      lastMessageAt: 'lastMessageAt',
+      createdAt: 'createdAt',
+      updatedAt: 'updatedAt',
+      deletedAt: 'deletedAt',
     };
 
+    const participantSearch = (search: string): Prisma.UserWhereInput => ({
+      OR: [
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ],
+    });
+
     // Build the where clause
     const where: Prisma.ConversationWhereInput = {
       AND: [
-        // Apply search filter if search term is provided
-        filter.search && filter.searchFields?.length ? {
-          OR: filter.searchFields
-            .filter(field => searchableFields.includes(fieldMapping[field] || field))
-            .map(field => ({
-              [fieldMapping[field] || field]: { contains: filter.search, mode: 'insensitive' }
-            }))
-        } : filter.search ? {
-          OR: [
-            { title: { contains: filter.search, mode: 'insensitive' } },
-          ],
-        } : {},
+        // Apply search filter on either participant if search term is provided
+        filter.search
+          ? {
+              OR: [
+                { student: { user: participantSearch(filter.search) } },
+                { teacher: { user: participantSearch(filter.search) } },
+              ],
+            }
+          : {},
         // Apply individual filters
         {
-          ...(filter.creator_id && { creator_id: parseInt(filter.creator_id) }),
+          ...(filter.studentId && { studentId: filter.studentId }),
+          ...(filter.teacherId && { teacherId: filter.teacherId }),
+          ...(!filter.includeDeleted && { deletedAt: null }),
         }
       ].filter(Boolean) as Prisma.ConversationWhereInput[]
     };
@@ -351,14 +553,27 @@ export class AdminService {
     // Set default ordering if not provided
     const orderBy: Record<string, 'asc' | 'desc'> = filter.order
       ? {
-          [fieldMapping[filter.order.split(',')[0]] || filter.order.split(',')[0]]: 
-            filter.order.split(',')[1] === 'asc' ? 'asc' : 'desc'
+          [fieldMapping[filter.order.split(',')[0]] || 'lastMessageAt']:
+            filter.order.split(',')[1] === 'asc' ? 'asc' : 'desc',
         }
-      : { created_at: 'desc' };
+      : { createdAt: 'desc' };
 
     const skip = (filter.page - 1) * filter.size;
     const take = filter.size;
 
+    const participantSelect = {
+      select: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    };
+
     const [items, total] = await Promise.all([
       this.prisma.conversation.findMany({
         where,
@@ -366,26 +581,9 @@ export class AdminService {
         take,
         orderBy,
         include: {
-          creator: {
-            select: {
-              id: true,
-              first_name: true,
-              last_name: true,
-              email: true,
-            },
-          },
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  first_name: true,
-                  last_name: true,
-                  email: true,
-                },
-              },
-            },
-          },
+          student: participantSelect,
+          teacher: participantSelect,
+          _count: { select: { messages: true } },
         },
       }),
       this.prisma.conversation.count({ where }),
@@ -393,42 +591,20 @@ export class AdminService {
 
     const totalPages = Math.ceil(total / take);
 
-    // Transform snake_case to camelCase
-    const transformedItems = items.map(item => ({
-      id: item.id,
-      title: item.title,
-      creatorId: item.creator_id,
-      channelId: item.channel_id,
-      createdAt: item.created_at,
-      updatedAt: item.updated_at,
-      deletedAt: item.deleted_at,
-      avatarUrl: item.avatar_url,
-      creator: {
-        id: item.creator.id,
-        firstName: item.creator.first_name,
-        lastName: item.creator.last_name,
-        email: item.creator.email,
-      },
-      participants: item.participants.map(participant => ({
-        id: participant.id,
-        conversationId: participant.conversation_id,
-        userId: participant.user_id,
-        type: participant.type,
-        status: participant.status,
-        createdAt: participant.created_at,
-        updatedAt: participant.updated_at,
-        verifiedBy: participant.verified_by,
-        user: {
-          id: participant.user.id,
-          firstName: participant.user.first_name,
-          lastName: participant.user.last_name,
-          email: participant.user.email,
-        },
+    return {
+      items: items.map((item) => ({
+        id: item.id,
+        studentId: item.studentId,
+        teacherId: item.teacherId,
+        lastMessageAt: item.lastMessageAt,
+        messageCount: item._count.messages,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+        deletedAt: item.deletedAt,
+        deletedBy: item.deletedBy,
+        student: item.student.user,
+        teacher: item.teacher.user,
       })),
-    }));
-
-    return { 
-      items: transformedItems, 
       total,
       page: filter.page,
       size: filter.size,
@@ -436,11 +612,95 @@ export class AdminService {
     };
   }
 
-  async deleteConversation(id: number): Promise<void> {
-    await this.prisma.conversation.update({
+  async getConversationMessages(
+    id: string,
+    filter: ConversationMessageFilterDto,
+  ): Promise<ConversationMessageListVM> {
+    const conversation = await this.prisma.conversation.findUnique({
       where: { id },
-      data: { deleted_at: new Date() },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    const skip = (filter.page - 1) * filter.size;
+    const take = filter.size;
+
+    const [items, total] = await Promise.all([
+      this.prisma.message.findMany({
+        where: { conversationId: id },
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.message.count({ where: { conversationId: id } }),
+    ]);
+
+    return {
+      items: items.map((item) => ({
+        id: item.id,
+        senderId: item.senderId,
+        body: item.body,
+        bookingId: item.bookingId,
+        attachments: (item.attachments as Record<string, any>[]) || [],
+        readAt: item.readAt,
+        createdAt: item.createdAt,
+        deletedAt: item.deletedAt,
+        deletedBy: item.deletedBy,
+      })),
+      total,
+      page: filter.page,
+      size: filter.size,
+      totalPages: Math.ceil(total / take),
+    };
+  }
+
+  // Hides the conversation from both participants, messages are kept for review
+  async deleteConversation(id: string, adminId: string): Promise<void> {
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date(), deletedBy: adminId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    await this.recordModerationAction({
+      adminId,
+      action: ModerationActionType.REMOVE_CONVERSATION,
+      targetId: id,
+    });
+  }
+
+  async deleteMessage(id: string, adminId: string): Promise<void> {
+    await this.removeMessage(id, adminId);
+  }
+
+  private async removeMessage(
+    id: string,
+    adminId: string,
+    note?: string,
+    reportId?: string,
+  ): Promise<void> {
+    const { count } = await this.prisma.message.updateMany({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date(), deletedBy: adminId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Message not found');
+    }
+
+    await this.recordModerationAction({
+      adminId,
+      reportId,
+      action: ModerationActionType.REMOVE_MESSAGE,
+      targetType: ReportTargetType.MESSAGE,
+      targetId: id,
+      note,
     });
   }
-  */
 }
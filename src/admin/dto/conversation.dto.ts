@@ -1,12 +1,7 @@
-import { IsOptional, IsString, IsNumber } from 'class-validator';
-import { Type } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString, IsNumber } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 
 export class ConversationFilterDto {
-
-  // @Type(() => Number)
-  // @IsNumber({}, { message: 'ID must be a number' })
-  // id?: number;
-
   @Type(() => Number)
   @IsNumber({}, { message: 'Page must be a number' })
   page: number = 1;
@@ -16,24 +11,42 @@ export class ConversationFilterDto {
   @IsNumber({}, { message: 'Size must be a number' })
   size: number = 10;
 
+  // Matches the name or email of either participant
   @IsOptional()
   @IsString()
   search?: string;
 
   @IsOptional()
   @IsString()
-  creator_id?: string;
+  studentId?: string;
+
+  @IsOptional()
+  @IsString()
+  teacherId?: string;
+
+  // Include conversations already removed by a moderator
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  includeDeleted?: boolean;
 
   @IsOptional()
   @IsString()
   order?: string;
+}
+
+export class ConversationMessageFilterDto {
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  page = 1;
 
   @IsOptional()
-  @IsString({ each: true, message: 'Search fields must be an array of strings' })
-  searchFields?: string[];
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Size must be a number' })
+  size = 50;
 }
 
 export class DeleteConversationDto {
-  @IsNumber({}, { message: 'ID must be a number' })
-  id: number;
+  @IsString({ message: 'ID must be a string' })
+  id: string;
 }
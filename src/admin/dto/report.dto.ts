@@ -1,25 +1,45 @@
-import { IsEnum, IsNumber, IsOptional, IsString } from 'class-validator';
+import { IsEnum, IsIn, IsNumber, IsOptional, IsString } from 'class-validator';
 import { Type } from 'class-transformer';
+import {
+  ModerationActionType,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from '@prisma/client';
 
-// Note: ReportStatus enum doesn't exist in current schema
-// This is a placeholder until the Report model is added
-export enum ReportStatus {
-  PENDING = 'PENDING',
-  APPROVED = 'APPROVED',
-  REJECTED = 'REJECTED'
-}
+// Actions an admin can take while handling a report
+export const REPORT_ACTIONS = [
+  ModerationActionType.SUSPEND_TEACHER,
+  ModerationActionType.DEACTIVATE_USER,
+  ModerationActionType.HIDE_REVIEW,
+  ModerationActionType.REMOVE_MESSAGE,
+] as const;
+
+export type ReportAction = typeof REPORT_ACTIONS[number];
 
 export class UpdateReportDto {
 
-  @IsNumber()
-  id?: number;
+  @IsString()
+  id: string;
 
+  // Defaults to RESOLVED when an action is taken
+  @IsOptional()
   @IsEnum(ReportStatus)
-  status: ReportStatus;
+  status?: ReportStatus;
 
+  // Required when rejecting
   @IsOptional()
   @IsString()
   rejectedReason?: string;
+
+  @IsOptional()
+  @IsIn(REPORT_ACTIONS)
+  action?: ReportAction;
+
+  // Internal note stored with the moderation log
+  @IsOptional()
+  @IsString()
+  note?: string;
 }
 
 export class ReportFilterDto {
@@ -36,15 +56,47 @@ export class ReportFilterDto {
   @IsEnum(ReportStatus)
   status?: ReportStatus;
 
+  @IsOptional()
+  @IsEnum(ReportTargetType)
+  targetType?: ReportTargetType;
+
+  @IsOptional()
+  @IsEnum(ReportReason)
+  reason?: ReportReason;
+
   @IsOptional()
   @IsString()
-  search?: string;
+  reportedUserId?: string;
 
+  // Matches the notes, or the name or email of the reporter
   @IsOptional()
-  @IsString({ each: true, message: 'Search fields must be an array of strings' })
-  searchFields?: string[];
+  @IsString()
+  search?: string;
 
   @IsOptional()
   @IsString()
   order?: string;
-} 
+}
+
+export class ModerationActionFilterDto {
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  page = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Size must be a number' })
+  size = 20;
+
+  @IsOptional()
+  @IsString()
+  reportId?: string;
+
+  @IsOptional()
+  @IsString()
+  adminId?: string;
+
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+}
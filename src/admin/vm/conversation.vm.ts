@@ -1,48 +1,22 @@
-// Note: These enums don't exist in current schema
-// These are placeholders until the Conversation model is added
-export enum ParticipantStatus {
-  ACTIVE = 'ACTIVE',
-  INACTIVE = 'INACTIVE',
-  BANNED = 'BANNED'
-}
-
-export enum ParticipantType {
-  MEMBER = 'MEMBER',
-  ADMIN = 'ADMIN',
-  MODERATOR = 'MODERATOR'
+export class ConversationParticipantVM {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
 }
 
 export class ConversationVM {
-  id: number;
-  title: string;
-  creatorId: number;
-  channelId: number;
+  id: string;
+  studentId: string;
+  teacherId: string;
+  lastMessageAt?: Date;
+  messageCount: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt?: Date;
-  avatarUrl: string;
-  creator: {
-    id: number;
-    firstName: string;
-    lastName: string;
-    email: string;
-  };
-  participants: {
-    id: number;
-    conversationId: number;
-    userId: number;
-    type: ParticipantType;
-    status: ParticipantStatus;
-    createdAt: Date;
-    updatedAt: Date;
-    verifiedBy?: number;
-    user: {
-      id: number;
-      firstName: string;
-      lastName: string;
-      email: string;
-    };
-  }[];
+  deletedBy?: string;
+  student: ConversationParticipantVM;
+  teacher: ConversationParticipantVM;
 }
 
 export class ConversationListVM {
@@ -51,4 +25,25 @@ export class ConversationListVM {
   page: number;
   size: number;
   totalPages: number;
-} 
+}
+
+// Moderators see the original content of removed messages
+export class ConversationMessageVM {
+  id: string;
+  senderId: string;
+  body: string;
+  bookingId?: string;
+  attachments: Record<string, any>[];
+  readAt?: Date;
+  createdAt: Date;
+  deletedAt?: Date;
+  deletedBy?: string;
+}
+
+export class ConversationMessageListVM {
+  items: ConversationMessageVM[];
+  total: number;
+  page: number;
+  size: number;
+  totalPages: number;
+}
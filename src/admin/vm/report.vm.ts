@@ -1,32 +1,33 @@
-// Note: ReportStatus enum doesn't exist in current schema
-// This is a placeholder until the Report model is added
-export enum ReportStatus {
-  PENDING = 'PENDING',
-  APPROVED = 'APPROVED',
-  REJECTED = 'REJECTED'
+import {
+  ModerationActionType,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from '@prisma/client';
+
+export class ReportUserVM {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
 }
 
 export class ReportVM {
-  id: number;
-  userId: number;
-  participantId: number;
-  reportType: string;
+  id: string;
+  reporterId: string;
+  reportedUserId?: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
   notes?: string;
   status: ReportStatus;
-  createdAt: Date;
   rejectedReason?: string;
-  user: {
-    id: number;
-    firstName: string;
-    lastName: string;
-    email: string;
-  };
-  participant: {
-    id: number;
-    firstName: string;
-    lastName: string;
-    email: string;
-  };
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  reporter: ReportUserVM;
+  reportedUser?: ReportUserVM;
 }
 
 export class ReportListVM {
@@ -35,4 +36,25 @@ export class ReportListVM {
   page: number;
   size: number;
   totalPages: number;
-} 
+}
+
+export class ModerationActionVM {
+  id: string;
+  reportId?: string;
+  adminId: string;
+  action: ModerationActionType;
+  targetType?: ReportTargetType;
+  targetId?: string;
+  note?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  admin: ReportUserVM;
+}
+
+export class ModerationActionListVM {
+  items: ModerationActionVM[];
+  total: number;
+  page: number;
+  size: number;
+  totalPages: number;
+}
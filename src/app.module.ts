@@ -8,6 +8,7 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './common/prisma/prisma.module';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
+import { RateLimitModule } from './common/throttler';
 
 // Feature modules
 import { AuthModule } from './auth/auth.module.new';
@@ -23,6 +24,15 @@ import { CourseModule } from './course/course.module';
 import { EnrollmentModule } from './enrollment/enrollment.module';
 import { SchedulingModule } from './scheduling/scheduling.module';
 import { LessonModule } from './lesson';
+import { NotificationModule } from './notification/notification.module';
+import { CouponModule } from './coupon/coupon.module';
+import { MessagingModule } from './messaging/messaging.module';
+import { ReportModule } from './report/report.module';
+import { EarningsModule } from './earnings/earnings.module';
+import { MeetingModule } from './meeting/meeting.module';
+import { AttendanceModule } from './attendance/attendance.module';
+import { BookingPolicyModule } from './booking-policy/booking-policy.module';
+import { SlotHoldModule } from './slot-hold/slot-hold.module';
 
 @Module({
   imports: [
@@ -51,6 +61,9 @@ import { LessonModule } from './lesson';
 
     // Database and Cache
     PrismaModule,
+
+    // Rate limiting, counters shared through Redis
+    RateLimitModule,
     // RedisModule.forRootAsync({
     //   imports: [ConfigModule],
     //   useFactory: (configService: ConfigService) => ({
@@ -82,6 +95,15 @@ import { LessonModule } from './lesson';
     CourseModule,
     EnrollmentModule,
     SchedulingModule,
+    NotificationModule,
+    CouponModule,
+    MessagingModule,
+    ReportModule,
+    EarningsModule,
+    MeetingModule,
+    AttendanceModule,
+    BookingPolicyModule,
+    SlotHoldModule,
   ],
   controllers: [AppController],
   providers: [
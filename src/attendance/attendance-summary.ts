@@ -0,0 +1,92 @@
+import {
+  AttendanceEventType,
+  AttendanceStatus,
+  LessonAttendanceEvent,
+} from '@prisma/client';
+
+// Joining later than this after the scheduled start counts as late
+export const LATE_ARRIVAL_THRESHOLD_MINUTES = 5;
+
+export interface ParticipantAttendanceSummary {
+  status: AttendanceStatus;
+  firstJoinedAt: Date | null;
+  lastLeftAt: Date | null;
+  minutesAttended: number;
+  lateMinutes: number;
+  present: boolean;
+}
+
+/**
+ * Folds one participant's join/leave events into the time they spent in the
+ * lesson. Only time between the scheduled start and end counts, and a session
+ * that is still open is counted up to `until`.
+ */
+export function summarizeAttendance(
+  events: Pick<LessonAttendanceEvent, 'type' | 'occurredAt'>[],
+  lesson: { scheduledAt: Date; duration: number },
+  until: Date = new Date(),
+): ParticipantAttendanceSummary {
+  const lessonStart = new Date(lesson.scheduledAt).getTime();
+  const lessonEnd = lessonStart + lesson.duration * 60 * 1000;
+  const sorted = [...events].sort(
+    (a, b) => a.occurredAt.getTime() - b.occurredAt.getTime(),
+  );
+
+  let firstJoinedAt: Date | null = null;
+  let lastLeftAt: Date | null = null;
+  let openedAt: number | null = null;
+  let attendedMs = 0;
+
+  const close = (closedAt: number) => {
+    const from = Math.max(openedAt, lessonStart);
+    const to = Math.min(closedAt, lessonEnd);
+    if (to > from) {
+      attendedMs += to - from;
+    }
+    openedAt = null;
+  };
+
+  for (const event of sorted) {
+    const occurredAt = event.occurredAt.getTime();
+    if (event.type === AttendanceEventType.JOINED) {
+      firstJoinedAt = firstJoinedAt || event.occurredAt;
+      if (openedAt === null) {
+        openedAt = occurredAt;
+      }
+    } else {
+      lastLeftAt = event.occurredAt;
+      if (openedAt !== null) {
+        close(occurredAt);
+      }
+    }
+  }
+
+  const present = openedAt !== null;
+  if (present) {
+    close(until.getTime());
+  }
+
+  const lateMinutes = firstJoinedAt
+    ? Math.max(
+        0,
+        Math.floor((firstJoinedAt.getTime() - lessonStart) / (60 * 1000)),
+      )
+    : 0;
+
+  let status: AttendanceStatus = AttendanceStatus.ABSENT;
+  if (firstJoinedAt) {
+    status =
+      lateMinutes > LATE_ARRIVAL_THRESHOLD_MINUTES
+        ? AttendanceStatus.LATE
+        : AttendanceStatus.ON_TIME;
+  }
+
+  return {
+    status,
+    firstJoinedAt,
+    lastLeftAt,
+    minutesAttended: Math.floor(attendedMs / (60 * 1000)),
+    lateMinutes,
+    present,
+  };
+}
@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AttendanceEventType } from '@prisma/client';
+import { AttendanceService } from './attendance.service';
+import { LessonAttendanceVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Lesson Attendance')
+@Controller('lessons/:lessonId/attendance')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiParam({
+  name: 'lessonId',
+  type: String,
+  description: 'Lesson ID',
+  example: 'cm3lesson123abc456',
+})
+export class AttendanceController {
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  @Post('join')
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.STUDENT, Role.TEACHER)
+  @ApiOperation({
+    summary: 'Report joining the lesson room',
+    description:
+      'Called by the client when the current user enters the lesson room. Only accepted while the room is open, from 15 minutes before the start until 15 minutes after the end.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Join recorded successfully',
+    type: LessonAttendanceVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Room is not open or attendance is closed',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a participant of this lesson',
+  })
+  @ResponseMessage('Join recorded successfully')
+  async join(
+    @Param('lessonId') lessonId: string,
+    @CurrentUser() user: any,
+  ): Promise<LessonAttendanceVm> {
+    return this.attendanceService.recordEvent(
+      lessonId,
+      user.id,
+      AttendanceEventType.JOINED,
+    );
+  }
+
+  @Post('leave')
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.STUDENT, Role.TEACHER)
+  @ApiOperation({
+    summary: 'Report leaving the lesson room',
+    description:
+      'Called by the client when the current user leaves the room or disconnects. Sessions that are never left are closed when the room closes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Leave recorded successfully',
+    type: LessonAttendanceVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a participant of this lesson',
+  })
+  @ResponseMessage('Leave recorded successfully')
+  async leave(
+    @Param('lessonId') lessonId: string,
+    @CurrentUser() user: any,
+  ): Promise<LessonAttendanceVm> {
+    return this.attendanceService.recordEvent(
+      lessonId,
+      user.id,
+      AttendanceEventType.LEFT,
+    );
+  }
+
+  @Get()
+  @Roles(Role.STUDENT, Role.TEACHER, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Get lesson attendance',
+    description:
+      'Minutes attended, late arrival and no-show outcome per participant, with the full join/leave log for disputes. Available to the participants and admins.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attendance retrieved successfully',
+    type: LessonAttendanceVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lesson not found',
+  })
+  @ResponseMessage('Attendance retrieved successfully')
+  async getAttendance(
+    @Param('lessonId') lessonId: string,
+    @CurrentUser() user: any,
+  ): Promise<LessonAttendanceVm> {
+    return this.attendanceService.getAttendance(lessonId, user.id, user.role);
+  }
+}
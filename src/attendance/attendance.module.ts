@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { BookingPolicyModule } from '../booking-policy/booking-policy.module';
+import { MeetingModule } from '../meeting/meeting.module';
+import { NotificationModule } from '../notification/notification.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AttendanceController } from './attendance.controller';
+import { AttendanceService } from './attendance.service';
+
+@Module({
+  imports: [
+    PrismaModule,
+    BookingPolicyModule,
+    MeetingModule,
+    NotificationModule,
+    RealtimeModule,
+  ],
+  controllers: [AttendanceController],
+  providers: [AttendanceService],
+  exports: [AttendanceService],
+})
+export class AttendanceModule {}
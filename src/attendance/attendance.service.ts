@@ -0,0 +1,541 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  AttendanceEventType,
+  AttendanceOutcome,
+  AttendanceRole,
+  AttendanceStatus,
+  BookingPolicyCase,
+  BookingStatus,
+  Lesson,
+  LessonAttendanceEvent,
+  LessonParticipant,
+  LessonStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { BookingPolicyService } from '../booking-policy/booking-policy.service';
+import { consumePackageLesson } from '../booking/lesson-package-capacity';
+import { MeetingService } from '../meeting/meeting.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import {
+  ParticipantAttendanceSummary,
+  summarizeAttendance,
+} from './attendance-summary';
+import { LessonAttendanceVm } from './vm';
+
+// A participant who has not joined this long after the start is a no-show
+export const NO_SHOW_GRACE_MINUTES = 15;
+
+const ATTENDANCE_BATCH_SIZE = 200;
+
+type AttendanceLesson = Lesson & {
+  booking?: { studentId: string; lessonPackageId: string | null } | null;
+};
+
+/**
+ * Attendance of booked lessons, built from the join and leave events reported
+ * by the lesson room. The events are kept as evidence for disputes; the
+ * per-participant summary, the lesson's startedAt/endedAt, no-show detection
+ * and package usage are all derived from them.
+ */
+@Injectable()
+export class AttendanceService {
+  private readonly logger = new Logger(AttendanceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly meetingService: MeetingService,
+    private readonly bookingPolicyService: BookingPolicyService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  async recordEvent(
+    lessonId: string,
+    userId: string,
+    type: AttendanceEventType,
+    source = 'APP',
+  ): Promise<LessonAttendanceVm> {
+    const lesson = await this.findLesson(lessonId);
+    const role = this.getRole(lesson, userId);
+    if (!role) {
+      throw new ForbiddenException('You are not a participant of this lesson');
+    }
+
+    if (
+      lesson.status === LessonStatus.CANCELLED ||
+      lesson.attendanceFinalizedAt
+    ) {
+      throw new BadRequestException(
+        'Attendance can no longer be recorded for this lesson',
+      );
+    }
+
+    const now = new Date();
+    const window = this.meetingService.getJoinWindow(
+      lesson.scheduledAt,
+      lesson.duration,
+    );
+    if (
+      type === AttendanceEventType.JOINED &&
+      (now < window.opensAt || now > window.closesAt)
+    ) {
+      throw new BadRequestException(
+        `The lesson room is open from ${window.opensAt.toISOString()} to ${window.closesAt.toISOString()}`,
+      );
+    }
+
+    await this.prisma.lessonAttendanceEvent.create({
+      data: { lessonId, userId, role, type, source, occurredAt: now },
+    });
+
+    const summaries = await this.refreshParticipants(lesson, now);
+
+    if (type === AttendanceEventType.JOINED) {
+      await this.markStartedIfEveryonePresent(lesson, summaries, now);
+    } else if (lesson.startedAt && !this.anyonePresent(summaries)) {
+      await this.prisma.lesson.update({
+        where: { id: lessonId },
+        data: { endedAt: now },
+      });
+    }
+
+    this.logger.log(
+      `Recorded ${type} of ${role.toLowerCase()} ${userId} for lesson ${lessonId}`,
+    );
+    return this.getAttendance(lessonId, userId);
+  }
+
+  async getAttendance(
+    lessonId: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<LessonAttendanceVm> {
+    const lesson = await this.prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        booking: { select: { studentId: true, lessonPackageId: true } },
+        participants: { orderBy: { role: 'asc' } },
+        attendanceEvents: { orderBy: { occurredAt: 'asc' } },
+      },
+    });
+
+    if (!lesson) {
+      throw new NotFoundException('Lesson not found');
+    }
+
+    if (userRole !== UserRole.ADMIN && !this.getRole(lesson, userId)) {
+      throw new ForbiddenException(
+        'You can only view attendance of your own lessons',
+      );
+    }
+
+    return this.toLessonAttendanceVm(
+      lesson,
+      lesson.participants,
+      lesson.attendanceEvents,
+    );
+  }
+
+  /**
+   * Decide who showed up once the grace period after the start has passed.
+   * A lesson where anyone is missing is cancelled; otherwise it is marked as
+   * attended and finalized after it ends.
+   */
+  async checkNoShow(lessonId: string): Promise<AttendanceOutcome | null> {
+    const lesson = await this.findLesson(lessonId);
+    const now = new Date();
+
+    if (
+      lesson.attendanceOutcome ||
+      (lesson.status !== LessonStatus.SCHEDULED &&
+        lesson.status !== LessonStatus.IN_PROGRESS) ||
+      !this.getStudentId(lesson) ||
+      now.getTime() < this.getNoShowCheckTime(lesson).getTime()
+    ) {
+      return null;
+    }
+
+    const summaries = await this.refreshParticipants(lesson, now);
+    const outcome = this.getOutcome(summaries);
+
+    if (outcome === AttendanceOutcome.ATTENDED) {
+      await this.prisma.lesson.updateMany({
+        where: { id: lessonId, attendanceOutcome: null },
+        data: { attendanceOutcome: outcome },
+      });
+      return outcome;
+    }
+
+    const { count } = await this.prisma.lesson.updateMany({
+      where: {
+        id: lessonId,
+        attendanceOutcome: null,
+        status: { in: [LessonStatus.SCHEDULED, LessonStatus.IN_PROGRESS] },
+      },
+      data: {
+        attendanceOutcome: outcome,
+        attendanceFinalizedAt: now,
+        status: LessonStatus.CANCELLED,
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    if (lesson.bookingId) {
+      await this.prisma.booking.update({
+        where: { id: lesson.bookingId },
+        data: { status: BookingStatus.CANCELLED },
+      });
+      await this.bookingPolicyService.applyNoShow(
+        lesson.bookingId,
+        BookingPolicyCase[outcome],
+      );
+    }
+
+    await this.notifyNoShow(lesson, outcome);
+    this.logger.log(`Lesson ${lessonId} marked as ${outcome}`);
+    return outcome;
+  }
+
+  /**
+   * Close attendance of an attended lesson after its room has closed: end any
+   * session that was never left, fix the summary and endedAt, and consume one
+   * lesson of the package the booking was paid with.
+   */
+  async finalizeAttendance(lessonId: string): Promise<boolean> {
+    const lesson = await this.findLesson(lessonId);
+    const closesAt = this.meetingService.getJoinWindow(
+      lesson.scheduledAt,
+      lesson.duration,
+    ).closesAt;
+
+    if (
+      lesson.attendanceOutcome !== AttendanceOutcome.ATTENDED ||
+      lesson.attendanceFinalizedAt ||
+      closesAt > new Date()
+    ) {
+      return false;
+    }
+
+    const openSessions = (await this.refreshParticipants(lesson, closesAt))
+      .filter((summary) => summary.present)
+      .map((summary) => ({
+        lessonId,
+        userId: summary.userId,
+        role: summary.role,
+        type: AttendanceEventType.LEFT,
+        source: 'SYSTEM',
+        occurredAt: closesAt,
+      }));
+    if (openSessions.length > 0) {
+      await this.prisma.lessonAttendanceEvent.createMany({
+        data: openSessions,
+      });
+    }
+
+    const summaries = await this.refreshParticipants(lesson, closesAt);
+    const lastLeftAt = summaries
+      .map((summary) => summary.lastLeftAt)
+      .filter(Boolean)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    const { count } = await this.prisma.lesson.updateMany({
+      where: { id: lessonId, attendanceFinalizedAt: null },
+      data: {
+        attendanceFinalizedAt: new Date(),
+        endedAt: lastLeftAt || lesson.endedAt,
+      },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    if (lesson.booking?.lessonPackageId) {
+      await this.prisma.$transaction((tx) =>
+        consumePackageLesson(tx, lesson.bookingId),
+      );
+    }
+
+    this.logger.log(`Finalized attendance of lesson ${lessonId}`);
+    return true;
+  }
+
+  /**
+   * Safety net for the per-lesson jobs: runs the no-show check and the
+   * finalization for every lesson that is due
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async processDueLessons(): Promise<void> {
+    const checkBefore = new Date(
+      Date.now() - NO_SHOW_GRACE_MINUTES * 60 * 1000,
+    );
+
+    const unchecked = await this.prisma.lesson.findMany({
+      where: {
+        attendanceOutcome: null,
+        status: { in: [LessonStatus.SCHEDULED, LessonStatus.IN_PROGRESS] },
+        scheduledAt: { lte: checkBefore },
+        OR: [{ studentId: { not: null } }, { bookingId: { not: null } }],
+      },
+      select: { id: true },
+      take: ATTENDANCE_BATCH_SIZE,
+    });
+
+    const attended = await this.prisma.lesson.findMany({
+      where: {
+        attendanceOutcome: AttendanceOutcome.ATTENDED,
+        attendanceFinalizedAt: null,
+        scheduledAt: { lte: checkBefore },
+      },
+      select: { id: true },
+      take: ATTENDANCE_BATCH_SIZE,
+    });
+
+    let noShows = 0;
+    let finalized = 0;
+    for (const { id } of unchecked) {
+      try {
+        const outcome = await this.checkNoShow(id);
+        if (outcome && outcome !== AttendanceOutcome.ATTENDED) {
+          noShows++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to check attendance of lesson ${id}`, error);
+      }
+    }
+    for (const { id } of attended) {
+      try {
+        if (await this.finalizeAttendance(id)) {
+          finalized++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to finalize attendance of lesson ${id}`,
+          error,
+        );
+      }
+    }
+
+    if (noShows > 0 || finalized > 0) {
+      this.logger.log(
+        `Attendance: ${noShows} no-show(s), ${finalized} lesson(s) finalized`,
+      );
+    }
+  }
+
+  getNoShowCheckTime(lesson: { scheduledAt: Date }): Date {
+    return new Date(
+      new Date(lesson.scheduledAt).getTime() +
+        NO_SHOW_GRACE_MINUTES * 60 * 1000,
+    );
+  }
+
+  private async findLesson(lessonId: string): Promise<AttendanceLesson> {
+    const lesson = await this.prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        booking: { select: { studentId: true, lessonPackageId: true } },
+      },
+    });
+
+    if (!lesson) {
+      throw new NotFoundException('Lesson not found');
+    }
+
+    return lesson;
+  }
+
+  /**
+   * Recompute the summary of both participants from their events, so a
+   * participant who never joined still gets an ABSENT row
+   */
+  private async refreshParticipants(
+    lesson: AttendanceLesson,
+    until: Date,
+  ): Promise<
+    (ParticipantAttendanceSummary & { userId: string; role: AttendanceRole })[]
+  > {
+    const events = await this.prisma.lessonAttendanceEvent.findMany({
+      where: { lessonId: lesson.id },
+      orderBy: { occurredAt: 'asc' },
+    });
+
+    const participants = [
+      { userId: lesson.teacherId, role: AttendanceRole.TEACHER },
+      { userId: this.getStudentId(lesson), role: AttendanceRole.STUDENT },
+    ].filter((participant) => participant.userId);
+
+    const summaries = [];
+    for (const participant of participants) {
+      const summary = summarizeAttendance(
+        events.filter((event) => event.userId === participant.userId),
+        lesson,
+        until,
+      );
+      const data = {
+        role: participant.role,
+        status: summary.status,
+        firstJoinedAt: summary.firstJoinedAt,
+        lastLeftAt: summary.lastLeftAt,
+        minutesAttended: summary.minutesAttended,
+        lateMinutes: summary.lateMinutes,
+      };
+
+      await this.prisma.lessonParticipant.upsert({
+        where: {
+          lessonId_userId: { lessonId: lesson.id, userId: participant.userId },
+        },
+        create: { lessonId: lesson.id, userId: participant.userId, ...data },
+        update: data,
+      });
+      summaries.push({ ...summary, ...participant });
+    }
+
+    return summaries;
+  }
+
+  private async markStartedIfEveryonePresent(
+    lesson: AttendanceLesson,
+    summaries: ParticipantAttendanceSummary[],
+    now: Date,
+  ): Promise<void> {
+    if (
+      lesson.startedAt ||
+      summaries.length < 2 ||
+      summaries.some((summary) => !summary.present)
+    ) {
+      return;
+    }
+
+    const { count } = await this.prisma.lesson.updateMany({
+      where: { id: lesson.id, startedAt: null },
+      data: {
+        startedAt: now,
+        ...(lesson.status === LessonStatus.SCHEDULED && {
+          status: LessonStatus.IN_PROGRESS,
+        }),
+      },
+    });
+
+    if (count > 0 && lesson.status === LessonStatus.SCHEDULED) {
+      this.realtimeService.lessonStarted({
+        ...lesson,
+        status: LessonStatus.IN_PROGRESS,
+      });
+    }
+  }
+
+  private getOutcome(
+    summaries: (ParticipantAttendanceSummary & { role: AttendanceRole })[],
+  ): AttendanceOutcome {
+    const absent = (role: AttendanceRole) =>
+      summaries.find((summary) => summary.role === role)?.status ===
+      AttendanceStatus.ABSENT;
+    const teacherAbsent = absent(AttendanceRole.TEACHER);
+    const studentAbsent = absent(AttendanceRole.STUDENT);
+
+    if (teacherAbsent && studentAbsent) {
+      return AttendanceOutcome.BOTH_NO_SHOW;
+    }
+    if (teacherAbsent) {
+      return AttendanceOutcome.TEACHER_NO_SHOW;
+    }
+    if (studentAbsent) {
+      return AttendanceOutcome.STUDENT_NO_SHOW;
+    }
+    return AttendanceOutcome.ATTENDED;
+  }
+
+  private anyonePresent(summaries: ParticipantAttendanceSummary[]): boolean {
+    return summaries.some((summary) => summary.present);
+  }
+
+  private getStudentId(lesson: AttendanceLesson): string | null {
+    return lesson.studentId || lesson.booking?.studentId || null;
+  }
+
+  private getRole(
+    lesson: AttendanceLesson,
+    userId: string,
+  ): AttendanceRole | null {
+    if (lesson.teacherId === userId) {
+      return AttendanceRole.TEACHER;
+    }
+    if (this.getStudentId(lesson) === userId) {
+      return AttendanceRole.STUDENT;
+    }
+    return null;
+  }
+
+  private async notifyNoShow(
+    lesson: AttendanceLesson,
+    outcome: AttendanceOutcome,
+  ): Promise<void> {
+    const messages: Record<string, string> = {
+      [AttendanceOutcome.TEACHER_NO_SHOW]:
+        'The teacher did not join the lesson, so it has been cancelled.',
+      [AttendanceOutcome.STUDENT_NO_SHOW]:
+        'The student did not join the lesson, so it has been cancelled.',
+      [AttendanceOutcome.BOTH_NO_SHOW]:
+        'Nobody joined the lesson, so it has been cancelled.',
+    };
+
+    for (const userId of [lesson.teacherId, this.getStudentId(lesson)]) {
+      if (!userId) {
+        continue;
+      }
+      await this.notificationInboxService.create({
+        userId,
+        type: 'LESSON_NO_SHOW',
+        title: 'Lesson marked as no-show',
+        message: messages[outcome],
+        priority: 'high',
+        bookingId: lesson.bookingId,
+        metadata: { lessonId: lesson.id, outcome },
+      });
+    }
+  }
+
+  private toLessonAttendanceVm(
+    lesson: Lesson,
+    participants: LessonParticipant[],
+    events: LessonAttendanceEvent[],
+  ): LessonAttendanceVm {
+    return {
+      lessonId: lesson.id,
+      scheduledAt: lesson.scheduledAt,
+      duration: lesson.duration,
+      startedAt: lesson.startedAt,
+      endedAt: lesson.endedAt,
+      outcome: lesson.attendanceOutcome,
+      finalizedAt: lesson.attendanceFinalizedAt,
+      participants: participants.map((participant) => ({
+        userId: participant.userId,
+        role: participant.role,
+        status: participant.status,
+        firstJoinedAt: participant.firstJoinedAt,
+        lastLeftAt: participant.lastLeftAt,
+        minutesAttended: participant.minutesAttended,
+        lateMinutes: participant.lateMinutes,
+      })),
+      events: events.map((event) => ({
+        id: event.id,
+        userId: event.userId,
+        role: event.role,
+        type: event.type,
+        source: event.source,
+        occurredAt: event.occurredAt,
+      })),
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export * from './attendance-summary';
+export * from './attendance.service';
+export * from './attendance.controller';
+export * from './attendance.module';
+export * from './vm';
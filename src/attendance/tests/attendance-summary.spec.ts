@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals';
+import { AttendanceEventType, AttendanceStatus } from '@prisma/client';
+import { summarizeAttendance } from '../attendance-summary';
+
+const lesson = {
+  scheduledAt: new Date('2030-03-04T03:00:00.000Z'),
+  duration: 60,
+};
+
+const at = (minutesAfterStart: number) =>
+  new Date(lesson.scheduledAt.getTime() + minutesAfterStart * 60 * 1000);
+const joined = (minute: number) => ({
+  type: AttendanceEventType.JOINED,
+  occurredAt: at(minute),
+});
+const left = (minute: number) => ({
+  type: AttendanceEventType.LEFT,
+  occurredAt: at(minute),
+});
+
+describe('summarizeAttendance', () => {
+  it('should mark a participant without events as absent', () => {
+    expect(summarizeAttendance([], lesson, at(70))).toEqual({
+      status: AttendanceStatus.ABSENT,
+      firstJoinedAt: null,
+      lastLeftAt: null,
+      minutesAttended: 0,
+      lateMinutes: 0,
+      present: false,
+    });
+  });
+
+  it('should count a join within five minutes of the start as on time', () => {
+    const summary = summarizeAttendance([joined(5), left(60)], lesson);
+
+    expect(summary.status).toBe(AttendanceStatus.ON_TIME);
+    expect(summary.lateMinutes).toBe(5);
+    expect(summary.minutesAttended).toBe(55);
+  });
+
+  it('should count a later join as late', () => {
+    const summary = summarizeAttendance([joined(6), left(60)], lesson);
+
+    expect(summary.status).toBe(AttendanceStatus.LATE);
+    expect(summary.lateMinutes).toBe(6);
+  });
+
+  it('should add up the minutes of every session across rejoins', () => {
+    const summary = summarizeAttendance(
+      [joined(0), left(20), joined(25), left(40), joined(50), left(60)],
+      lesson,
+    );
+
+    expect(summary.minutesAttended).toBe(45);
+    expect(summary.firstJoinedAt).toEqual(at(0));
+    expect(summary.lastLeftAt).toEqual(at(60));
+    expect(summary.present).toBe(false);
+  });
+
+  it('should sort events before folding them', () => {
+    const summary = summarizeAttendance(
+      [left(40), joined(30), left(20), joined(0)],
+      lesson,
+    );
+
+    expect(summary.minutesAttended).toBe(30);
+    expect(summary.firstJoinedAt).toEqual(at(0));
+  });
+
+  it('should only count time inside the scheduled lesson', () => {
+    const summary = summarizeAttendance([joined(-10), left(75)], lesson);
+
+    expect(summary.minutesAttended).toBe(60);
+    expect(summary.status).toBe(AttendanceStatus.ON_TIME);
+    expect(summary.lateMinutes).toBe(0);
+  });
+
+  it('should ignore a repeated join while a session is open', () => {
+    const summary = summarizeAttendance(
+      [joined(0), joined(10), left(30)],
+      lesson,
+    );
+
+    expect(summary.minutesAttended).toBe(30);
+  });
+
+  it('should count an open session up to the given time', () => {
+    const summary = summarizeAttendance([joined(0)], lesson, at(25));
+
+    expect(summary.present).toBe(true);
+    expect(summary.minutesAttended).toBe(25);
+    expect(summary.lastLeftAt).toBeNull();
+  });
+});
@@ -0,0 +1,324 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AttendanceEventType,
+  AttendanceOutcome,
+  AttendanceRole,
+  BookingPolicyCase,
+  BookingStatus,
+  LessonStatus,
+} from '@prisma/client';
+import { BookingPolicyService } from '../../booking-policy/booking-policy.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { MeetingService } from '../../meeting/meeting.service';
+import { NotificationInboxService } from '../../notification/notification-inbox.service';
+import { RealtimeService } from '../../realtime/realtime.service';
+import { AttendanceService } from '../attendance.service';
+
+describe('AttendanceService', () => {
+  let service: AttendanceService;
+
+  const mockPrismaService = {
+    lesson: {
+      findUnique: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+    lessonAttendanceEvent: {
+      findMany: jest.fn<any>(),
+      createMany: jest.fn<any>(),
+    },
+    lessonParticipant: { upsert: jest.fn<any>() },
+    booking: {
+      update: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+    },
+    lessonPackage: { updateMany: jest.fn<any>() },
+    $transaction: jest.fn<any>(),
+  };
+
+  const mockBookingPolicyService = {
+    applyNoShow: jest.fn<any>(),
+  };
+
+  const mockNotificationInboxService = {
+    create: jest.fn<any>(),
+  };
+
+  // Started two hours ago, so the no-show check and the room have both passed
+  const scheduledAt = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  const closesAt = new Date(scheduledAt.getTime() + 40 * 60 * 1000);
+  const at = (minutesAfterStart: number) =>
+    new Date(scheduledAt.getTime() + minutesAfterStart * 60 * 1000);
+
+  const lesson = (overrides = {}) => ({
+    id: 'lesson-id',
+    bookingId: 'booking-id',
+    teacherId: 'teacher-id',
+    studentId: 'student-id',
+    scheduledAt,
+    duration: 30,
+    status: LessonStatus.SCHEDULED,
+    startedAt: null,
+    endedAt: null,
+    attendanceOutcome: null,
+    attendanceFinalizedAt: null,
+    booking: { studentId: 'student-id', lessonPackageId: 'package-id' },
+    ...overrides,
+  });
+
+  const event = (
+    userId: string,
+    type: AttendanceEventType,
+    minutesAfterStart: number,
+  ) => ({
+    userId,
+    type,
+    role:
+      userId === 'teacher-id' ? AttendanceRole.TEACHER : AttendanceRole.STUDENT,
+    occurredAt: at(minutesAfterStart),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((run: any) =>
+      run(mockPrismaService),
+    );
+    mockPrismaService.lesson.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.lessonAttendanceEvent.findMany.mockResolvedValue([]);
+    mockPrismaService.booking.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.booking.findUnique.mockResolvedValue({
+      lessonPackageId: 'package-id',
+    });
+    mockPrismaService.lessonPackage.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttendanceService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: MeetingService,
+          useValue: {
+            getJoinWindow: (start: Date, duration: number) => ({
+              opensAt: new Date(start.getTime() - 10 * 60 * 1000),
+              closesAt: new Date(start.getTime() + (duration + 10) * 60 * 1000),
+            }),
+          },
+        },
+        { provide: BookingPolicyService, useValue: mockBookingPolicyService },
+        {
+          provide: NotificationInboxService,
+          useValue: mockNotificationInboxService,
+        },
+        { provide: RealtimeService, useValue: { lessonStarted: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<AttendanceService>(AttendanceService);
+  });
+
+  describe('checkNoShow', () => {
+    it('should mark a lesson both joined as attended without cancelling it', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(lesson());
+      mockPrismaService.lessonAttendanceEvent.findMany.mockResolvedValue([
+        event('teacher-id', AttendanceEventType.JOINED, 0),
+        event('student-id', AttendanceEventType.JOINED, 8),
+      ]);
+
+      await expect(service.checkNoShow('lesson-id')).resolves.toBe(
+        AttendanceOutcome.ATTENDED,
+      );
+      expect(mockPrismaService.lesson.updateMany).toHaveBeenCalledWith({
+        where: { id: 'lesson-id', attendanceOutcome: null },
+        data: { attendanceOutcome: AttendanceOutcome.ATTENDED },
+      });
+      expect(mockPrismaService.booking.update).not.toHaveBeenCalled();
+      expect(mockBookingPolicyService.applyNoShow).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [
+        'the student',
+        [event('teacher-id', AttendanceEventType.JOINED, 0)],
+        AttendanceOutcome.STUDENT_NO_SHOW,
+      ],
+      [
+        'the teacher',
+        [event('student-id', AttendanceEventType.JOINED, 0)],
+        AttendanceOutcome.TEACHER_NO_SHOW,
+      ],
+      ['both', [], AttendanceOutcome.BOTH_NO_SHOW],
+    ])(
+      'should cancel the lesson when %s did not join',
+      async (_, events, outcome) => {
+        mockPrismaService.lesson.findUnique.mockResolvedValue(lesson());
+        mockPrismaService.lessonAttendanceEvent.findMany.mockResolvedValue(
+          events,
+        );
+
+        await expect(service.checkNoShow('lesson-id')).resolves.toBe(outcome);
+        expect(mockPrismaService.lesson.updateMany).toHaveBeenCalledWith({
+          where: {
+            id: 'lesson-id',
+            attendanceOutcome: null,
+            status: {
+              in: [LessonStatus.SCHEDULED, LessonStatus.IN_PROGRESS],
+            },
+          },
+          data: {
+            attendanceOutcome: outcome,
+            attendanceFinalizedAt: expect.any(Date),
+            status: LessonStatus.CANCELLED,
+          },
+        });
+        expect(mockPrismaService.booking.update).toHaveBeenCalledWith({
+          where: { id: 'booking-id' },
+          data: { status: BookingStatus.CANCELLED },
+        });
+        expect(mockBookingPolicyService.applyNoShow).toHaveBeenCalledWith(
+          'booking-id',
+          BookingPolicyCase[outcome],
+        );
+        expect(mockNotificationInboxService.create).toHaveBeenCalledTimes(2);
+      },
+    );
+
+    it('should count a participant who joined and left as present', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(lesson());
+      mockPrismaService.lessonAttendanceEvent.findMany.mockResolvedValue([
+        event('teacher-id', AttendanceEventType.JOINED, 0),
+        event('student-id', AttendanceEventType.JOINED, 2),
+        event('student-id', AttendanceEventType.LEFT, 4),
+      ]);
+
+      await expect(service.checkNoShow('lesson-id')).resolves.toBe(
+        AttendanceOutcome.ATTENDED,
+      );
+    });
+
+    it('should wait for the grace period after the start', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(
+        lesson({ scheduledAt: new Date(Date.now() - 5 * 60 * 1000) }),
+      );
+
+      await expect(service.checkNoShow('lesson-id')).resolves.toBeNull();
+      expect(mockPrismaService.lesson.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should decide a lesson only once', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(
+        lesson({ attendanceOutcome: AttendanceOutcome.ATTENDED }),
+      );
+
+      await expect(service.checkNoShow('lesson-id')).resolves.toBeNull();
+
+      mockPrismaService.lesson.findUnique.mockResolvedValue(lesson());
+      mockPrismaService.lesson.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.checkNoShow('lesson-id')).resolves.toBeNull();
+      expect(mockPrismaService.booking.update).not.toHaveBeenCalled();
+      expect(mockBookingPolicyService.applyNoShow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('finalizeAttendance', () => {
+    const attendedLesson = (overrides = {}) =>
+      lesson({
+        status: LessonStatus.IN_PROGRESS,
+        attendanceOutcome: AttendanceOutcome.ATTENDED,
+        ...overrides,
+      });
+
+    it('should close open sessions when the room closes', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(attendedLesson());
+      mockPrismaService.lessonAttendanceEvent.findMany.mockResolvedValue([
+        event('teacher-id', AttendanceEventType.JOINED, 0),
+        event('student-id', AttendanceEventType.JOINED, 0),
+        event('student-id', AttendanceEventType.LEFT, 30),
+      ]);
+
+      await expect(service.finalizeAttendance('lesson-id')).resolves.toBe(true);
+      expect(
+        mockPrismaService.lessonAttendanceEvent.createMany,
+      ).toHaveBeenCalledWith({
+        data: [
+          {
+            lessonId: 'lesson-id',
+            userId: 'teacher-id',
+            role: AttendanceRole.TEACHER,
+            type: AttendanceEventType.LEFT,
+            source: 'SYSTEM',
+            occurredAt: closesAt,
+          },
+        ],
+      });
+    });
+
+    it('should take one lesson from the package of the booking', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(attendedLesson());
+
+      await service.finalizeAttendance('lesson-id');
+
+      expect(mockPrismaService.booking.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'booking-id',
+          lessonPackageId: { not: null },
+          packageLessonConsumedAt: null,
+        },
+        data: { packageLessonConsumedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.lessonPackage.updateMany).toHaveBeenCalledWith({
+        where: { id: 'package-id', remainingLessons: { gt: 0 } },
+        data: {
+          usedLessons: { increment: 1 },
+          remainingLessons: { decrement: 1 },
+        },
+      });
+    });
+
+    it('should not take a lesson the booking already used', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(attendedLesson());
+      mockPrismaService.booking.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.finalizeAttendance('lesson-id')).resolves.toBe(true);
+      expect(mockPrismaService.lessonPackage.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should finalize a lesson only once', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(
+        attendedLesson({ attendanceFinalizedAt: new Date() }),
+      );
+
+      await expect(service.finalizeAttendance('lesson-id')).resolves.toBe(
+        false,
+      );
+
+      mockPrismaService.lesson.findUnique.mockResolvedValue(attendedLesson());
+      mockPrismaService.lesson.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.finalizeAttendance('lesson-id')).resolves.toBe(
+        false,
+      );
+      expect(mockPrismaService.lessonPackage.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should leave lessons that were not attended or are still open', async () => {
+      mockPrismaService.lesson.findUnique.mockResolvedValue(
+        attendedLesson({ attendanceOutcome: null }),
+      );
+
+      await expect(service.finalizeAttendance('lesson-id')).resolves.toBe(
+        false,
+      );
+
+      mockPrismaService.lesson.findUnique.mockResolvedValue(
+        attendedLesson({ scheduledAt: new Date() }),
+      );
+
+      await expect(service.finalizeAttendance('lesson-id')).resolves.toBe(
+        false,
+      );
+      expect(mockPrismaService.lesson.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
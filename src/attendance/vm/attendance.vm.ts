@@ -0,0 +1,98 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  AttendanceEventType,
+  AttendanceOutcome,
+  AttendanceRole,
+  AttendanceStatus,
+} from '@prisma/client';
+
+export class AttendanceEventVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'clk987654321' })
+  userId: string;
+
+  @ApiProperty({ enum: AttendanceRole, example: AttendanceRole.STUDENT })
+  role: AttendanceRole;
+
+  @ApiProperty({
+    enum: AttendanceEventType,
+    example: AttendanceEventType.JOINED,
+  })
+  type: AttendanceEventType;
+
+  @ApiProperty({
+    description:
+      'APP when reported by a client, SYSTEM when closed automatically',
+    example: 'APP',
+  })
+  source: string;
+
+  @ApiProperty()
+  occurredAt: Date;
+}
+
+export class LessonParticipantVm {
+  @ApiProperty({ example: 'clk987654321' })
+  userId: string;
+
+  @ApiProperty({ enum: AttendanceRole, example: AttendanceRole.STUDENT })
+  role: AttendanceRole;
+
+  @ApiProperty({ enum: AttendanceStatus, example: AttendanceStatus.ON_TIME })
+  status: AttendanceStatus;
+
+  @ApiPropertyOptional()
+  firstJoinedAt?: Date;
+
+  @ApiPropertyOptional()
+  lastLeftAt?: Date;
+
+  @ApiProperty({
+    description:
+      'Minutes spent in the lesson between its scheduled start and end',
+    example: 55,
+  })
+  minutesAttended: number;
+
+  @ApiProperty({
+    description: 'Minutes between the scheduled start and the first join',
+    example: 0,
+  })
+  lateMinutes: number;
+}
+
+export class LessonAttendanceVm {
+  @ApiProperty({ example: 'clk123456789' })
+  lessonId: string;
+
+  @ApiProperty()
+  scheduledAt: Date;
+
+  @ApiProperty({ example: 60 })
+  duration: number;
+
+  @ApiPropertyOptional({ description: 'When both participants were present' })
+  startedAt?: Date;
+
+  @ApiPropertyOptional({ description: 'When the last participant left' })
+  endedAt?: Date;
+
+  @ApiPropertyOptional({
+    enum: AttendanceOutcome,
+    description: 'Empty until the no-show check has run',
+  })
+  outcome?: AttendanceOutcome;
+
+  @ApiPropertyOptional({
+    description: 'When attendance was closed and the package lesson consumed',
+  })
+  finalizedAt?: Date;
+
+  @ApiProperty({ type: [LessonParticipantVm] })
+  participants: LessonParticipantVm[];
+
+  @ApiProperty({ type: [AttendanceEventVm] })
+  events: AttendanceEventVm[];
+}
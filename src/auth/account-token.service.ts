@@ -0,0 +1,88 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountTokenType } from '@prisma/client';
+import { createHmac, randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma/prisma.service';
+
+/**
+ * How long an emailed link stays valid, per token type
+ */
+export const ACCOUNT_TOKEN_TTL_MS: Record<AccountTokenType, number> = {
+  [AccountTokenType.EMAIL_VERIFICATION]: 48 * 60 * 60 * 1000,
+  [AccountTokenType.PASSWORD_RESET]: 60 * 60 * 1000,
+  [AccountTokenType.SET_INITIAL_PASSWORD]: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * One-time tokens delivered by email. Only an HMAC of the token is stored, so
+ * neither a database dump nor a guessed id can be turned into a valid link.
+ */
+@Injectable()
+export class AccountTokenService {
+  private readonly secret: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.secret =
+      configService.get<string>('ACCOUNT_TOKEN_SECRET') ||
+      configService.get<string>('JWT_ACCESS_TOKEN') ||
+      'sdfafahjwehbbjhbadshcajsskdfgajhsd';
+  }
+
+  /**
+   * Create a token for `userId`, invalidating earlier unused ones of the same
+   * type so only the latest email works
+   */
+  async issueToken(userId: string, type: AccountTokenType): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.accountToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.accountToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: this.sign(token),
+          expiresAt: new Date(now.getTime() + ACCOUNT_TOKEN_TTL_MS[type]),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Mark a token as used and return the user it was issued to
+   */
+  async consumeToken(token: string, type: AccountTokenType): Promise<string> {
+    const record = await this.prisma.accountToken.findUnique({
+      where: { tokenHash: this.sign(token) },
+    });
+
+    if (!record || record.type !== type || record.expiresAt <= new Date()) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    // Conditional update so two concurrent requests cannot both use the token
+    const { count } = await this.prisma.accountToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('This link has already been used');
+    }
+
+    return record.userId;
+  }
+
+  private sign(token: string): string {
+    return createHmac('sha256', this.secret).update(token).digest('hex');
+  }
+}
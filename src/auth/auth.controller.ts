@@ -2,6 +2,11 @@ import {
   Body, 
   Controller, 
   Post, 
+  Get,
+  Delete,
+  Param,
+  Headers,
+  Ip,
   HttpCode, 
   HttpStatus,
   UsePipes,
@@ -12,7 +17,8 @@ import {
   InternalServerErrorException,
   BadRequestException,
   ConflictException,
-  UnauthorizedException
+  UnauthorizedException,
+  HttpException,
 } from '@nestjs/common';
 import { 
   ApiTags, 
@@ -24,19 +30,41 @@ import {
   ApiUnauthorizedResponse,
   ApiOkResponse,
   ApiResponse,
-  ApiProperty
+  ApiProperty,
+  ApiBearerAuth,
+  ApiNotFoundResponse,
+  ApiTooManyRequestsResponse,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { Public } from '../decorators/public.decorator';
+import { RateLimit } from '../decorators/rate-limit.decorator';
 import { AuthService } from './auth.service';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { CreateStudentAccountDto } from './dto/create-student-account.dto';
 import { CreateTeacherAccountDto } from './dto/create-teacher-account.dto';
 import { StudentAccountResponseDto, TeacherAccountResponseDto } from './dto/account-response.dto';
 import { LoginRequest } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorEnableChallengeDto,
+  TwoFactorLoginDto,
+} from './dto/two-factor.dto';
+import {
+  TwoFactorChallengeResponseDto,
+  TwoFactorSetupResponseDto,
+} from './dto/two-factor-response.dto';
 import { ResponseMessage } from '../decorators/response-message.decorator';
 import { UserResponseDto } from '../users/dto/user-response.dto';
-import { LoginResponse } from './types/auth.types';
+import { LoginResponse, TwoFactorChallengeResponse } from './types/auth.types';
 import { mapUserToDto } from './utils/user.mapper';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { TAccountRequest } from '../decorators/account-request.decorator';
 
 // Response DTO for login
 class LoginResponseDto {
@@ -46,6 +74,18 @@ class LoginResponseDto {
   })
   accessToken: string;
 
+  @ApiProperty({
+    description:
+      'Rotating refresh token, exchange it at /auth/refresh-token for a new token pair',
+    example: 'cm123abc.Yk9wZ0lQb2x6dGh3Q1RjbXh...',
+  })
+  refreshToken: string;
+
+  @ApiProperty({
+    description: 'Refresh token expiration time',
+  })
+  refreshTokenExpiresAt: Date;
+
   @ApiProperty({
     description: 'User information',
     type: UserResponseDto,
@@ -60,7 +100,7 @@ class LoginResponseDto {
 
   @ApiProperty({
     description: 'Token expiration time in seconds',
-    example: 3600,
+    example: 900,
   })
   expiresIn: number;
 }
@@ -82,6 +122,7 @@ export class AuthController {
    * Creates a new user account
    */
   @Public()
+  @RateLimit('auth')
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ 
@@ -138,6 +179,7 @@ export class AuthController {
    * Authenticates a user and returns an access token
    */
   @Public()
+  @RateLimit('auth')
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
@@ -148,10 +190,17 @@ export class AuthController {
     description: 'User credentials',
     type: LoginRequest 
   })
+  @ApiExtraModels(LoginResponseDto, TwoFactorChallengeResponseDto)
   @ApiResponse({ 
     status: 200,
-    description: 'User successfully logged in',
-    type: LoginResponseDto,
+    description:
+      'User successfully logged in, or a two-factor challenge when the account uses 2FA',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(LoginResponseDto) },
+        { $ref: getSchemaPath(TwoFactorChallengeResponseDto) },
+      ],
+    },
   })
   @ApiBadRequestResponse({ 
     description: 'Invalid request body',
@@ -173,16 +222,29 @@ export class AuthController {
       }
     }
   })
+  @ApiTooManyRequestsResponse({
+    description:
+      'Too many login attempts from this IP, or the account is temporarily locked after repeated failures',
+  })
   @ResponseMessage('Login successful')
   async login(
-    @Body() loginRequest: LoginRequest
-  ): Promise<LoginResponse> {
+    @Body() loginRequest: LoginRequest,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse | TwoFactorChallengeResponse> {
     try {
-      const loginResponse = await this.authService.login(loginRequest);
+      const loginResponse = await this.authService.login(loginRequest, {
+        ipAddress,
+        userAgent,
+      });
       return loginResponse;
     } catch (error) {
       this.logger.error(`Login failed for user ${loginRequest.email}`, error.stack);
-      if (error instanceof UnauthorizedException) {
+      if (
+        error instanceof UnauthorizedException ||
+        (error instanceof HttpException &&
+          error.getStatus() === HttpStatus.TOO_MANY_REQUESTS)
+      ) {
         throw error;
       }
       throw new BadRequestException('Invalid credentials');
@@ -191,13 +253,15 @@ export class AuthController {
 
   /**
    * User Logout
-   * Handles user logout (client should discard the token)
+   * Revokes the session of the current access token
    */
   @Post('logout')
   @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
   @ApiOperation({ 
     summary: 'User Logout',
-    description: 'Logs out the current user',
+    description:
+      'Logs out the current device. Its refresh token and access token stop working immediately',
   })
   @ApiOkResponse({ 
     description: 'Successfully logged out',
@@ -219,9 +283,11 @@ export class AuthController {
     }
   })
   @ResponseMessage('Logout successful')
-  async logout(): Promise<{ message: string }> {
+  async logout(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<{ message: string }> {
     try {
-      return await this.authService.logout();
+      return await this.authService.logout(user.id, user.sessionId);
     } catch (error) {
       this.logger.error('Logout failed', error.stack);
       throw new InternalServerErrorException('Failed to process logout');
@@ -233,11 +299,13 @@ export class AuthController {
    * Creates a new student account with student profile
    */
   @Public()
+  @RateLimit('auth')
   @Post('register/student')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ 
     summary: 'Register a new student account',
-    description: 'Creates a new student user account with student profile and saves to both users and students tables'
+    description:
+      'Creates a new student user account with student profile and saves to both users and students tables. A verification link is emailed; bookings are blocked until the email is verified.',
   })
   @ApiBody({ 
     description: 'Student registration data',
@@ -288,11 +356,13 @@ export class AuthController {
    * Creates a new teacher account with teacher profile
    */
   @Public()
+  @RateLimit('auth')
   @Post('register/teacher')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ 
     summary: 'Register a new teacher account',
-    description: 'Creates a new teacher user account with teacher profile and saves to both users and teachers tables. Teacher will be in PENDING status initially.'
+    description:
+      'Creates a new teacher user account with teacher profile and saves to both users and teachers tables. Teacher will be in PENDING status initially. A verification link is emailed.',
   })
   @ApiBody({ 
     description: 'Teacher registration data',
@@ -338,14 +408,324 @@ export class AuthController {
     }
   }
 
-  // Add refresh token endpoint if needed
-  // @Public()
-  // @Post('refresh-token')
-  // @HttpCode(HttpStatus.OK)
-  // @ApiOperation({ summary: 'Refresh Access Token' })
-  // @ApiResponse({ status: 200, description: 'Token refreshed successfully' })
-  // @ApiUnauthorizedResponse({ description: 'Invalid refresh token' })
-  // async refreshToken(@Body() refreshTokenDto: RefreshTokenDto) {
-  //   return this.authService.refreshToken(refreshTokenDto.refreshToken);
-  // }
+  /**
+   * Refresh Access Token
+   * Rotates the refresh token and issues a new access token
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('refresh-token')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh Access Token',
+    description:
+      'Exchanges a refresh token for a new access token and refresh token. The old refresh token cannot be used again; presenting it revokes the session',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Token refreshed successfully',
+    type: LoginResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid, expired or revoked refresh token',
+  })
+  @ResponseMessage('Token refreshed successfully')
+  async refreshToken(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse> {
+    return this.authService.refreshToken(refreshTokenDto.refreshToken, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  /**
+   * Active Sessions
+   * Lists the devices the current user is logged in on
+   */
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List active sessions',
+    description:
+      'Returns the devices the current user is logged in on, most recently used first',
+  })
+  @ApiOkResponse({
+    description: 'Active sessions',
+    type: [SessionResponseDto],
+  })
+  @ResponseMessage('Sessions retrieved successfully')
+  async getSessions(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<SessionResponseDto[]> {
+    return this.authService.getSessions(user.id, user.sessionId);
+  }
+
+  /**
+   * Revoke All Sessions
+   * Logs the current user out on every device
+   */
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke all sessions',
+    description:
+      'Logs the current user out on every device, including this one',
+  })
+  @ApiOkResponse({
+    description: 'Sessions revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        revoked: { type: 'number', example: 3 },
+      },
+    },
+  })
+  @ResponseMessage('All sessions revoked')
+  async revokeAllSessions(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<{ revoked: number }> {
+    return this.authService.revokeAllSessions(user.id);
+  }
+
+  /**
+   * Revoke Session
+   * Logs the current user out on one device
+   */
+  @Delete('sessions/:sessionId')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke a session',
+    description: 'Logs the current user out on one of their devices',
+  })
+  @ApiOkResponse({ description: 'Session revoked' })
+  @ApiNotFoundResponse({ description: 'Session not found or already revoked' })
+  @ResponseMessage('Session revoked')
+  async revokeSession(
+    @CurrentUser() user: TAccountRequest,
+    @Param('sessionId') sessionId: string,
+  ): Promise<{ message: string }> {
+    return this.authService.revokeSession(user.id, sessionId);
+  }
+
+  /**
+   * Verify Email
+   * Confirms the email address from the link sent at registration
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify email address',
+    description:
+      'Marks the email of the account as verified using the token from the verification email',
+  })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiOkResponse({ description: 'Email verified' })
+  @ApiBadRequestResponse({
+    description: 'Invalid, expired or already used token',
+  })
+  @ResponseMessage('Email verified successfully')
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<{ message: string }> {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  /**
+   * Resend Verification Email
+   * Sends a new verification link to the current user
+   */
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Resend verification email',
+    description: 'Sends a new verification link; earlier links stop working',
+  })
+  @ApiOkResponse({ description: 'Verification email sent' })
+  @ApiBadRequestResponse({ description: 'Email is already verified' })
+  @ResponseMessage('Verification email sent')
+  async resendVerification(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<{ message: string }> {
+    return this.authService.sendEmailVerification(user.id);
+  }
+
+  /**
+   * Forgot Password
+   * Emails a one-time password reset link
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a password reset',
+    description:
+      'Emails a password reset link valid for one hour. The response is the same whether or not the email has an account',
+  })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiOkResponse({ description: 'Reset link sent if the account exists' })
+  @ResponseMessage('Password reset requested')
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<{ message: string }> {
+    return this.authService.requestPasswordReset(forgotPasswordDto.email);
+  }
+
+  /**
+   * Reset Password
+   * Sets a new password from a reset link and logs out every device
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset password',
+    description:
+      'Sets a new password using the token from the reset email. All sessions of the account are revoked',
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiOkResponse({ description: 'Password reset' })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid, expired or already used token, or passwords do not match',
+  })
+  @ResponseMessage('Password reset successfully')
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    return this.authService.resetPassword(resetPasswordDto);
+  }
+
+  /**
+   * Set Initial Password
+   * Lets accounts created during a guest checkout choose their first password
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('set-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Set initial password',
+    description:
+      'Sets the first password of an account created at guest checkout, using the token emailed after payment. Also verifies the email',
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiOkResponse({ description: 'Password set' })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid, expired or already used token, or a password is already set',
+  })
+  @ResponseMessage('Password set successfully')
+  async setInitialPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    return this.authService.setInitialPassword(resetPasswordDto);
+  }
+
+  /**
+   * Two-Factor Login
+   * Completes a login that returned a two-factor challenge
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Second login step',
+    description:
+      'Exchanges the challenge token from login and a TOTP code (or a recovery code) for an access token and refresh token',
+  })
+  @ApiBody({ type: TwoFactorLoginDto })
+  @ApiResponse({
+    status: 200,
+    description: 'User successfully logged in',
+    type: LoginResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid code, or the challenge has expired',
+  })
+  @ApiTooManyRequestsResponse({ description: 'Too many attempts' })
+  @ResponseMessage('Login successful')
+  async loginWithTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse> {
+    return this.authService.loginWithTwoFactor(twoFactorLoginDto, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  /**
+   * Required Two-Factor Setup
+   * Starts enrollment for accounts that cannot log in without 2FA
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('login/2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start required two-factor setup',
+    description:
+      'For a login challenge with twoFactorSetupRequired: returns the TOTP secret and otpauth URL to show as a QR code',
+  })
+  @ApiBody({ type: TwoFactorChallengeDto })
+  @ApiOkResponse({ type: TwoFactorSetupResponseDto })
+  @ApiUnauthorizedResponse({
+    description: 'The challenge is invalid or has expired',
+  })
+  @ResponseMessage('Two-factor setup started')
+  async startRequiredTwoFactorSetup(
+    @Body() challengeDto: TwoFactorChallengeDto,
+  ): Promise<TwoFactorSetupResponseDto> {
+    return this.authService.startChallengeTwoFactorSetup(
+      challengeDto.challengeToken,
+    );
+  }
+
+  /**
+   * Required Two-Factor Setup Confirmation
+   * Enables 2FA with the first code and completes the login
+   */
+  @Public()
+  @RateLimit('auth')
+  @Post('login/2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm required two-factor setup',
+    description:
+      'Enables 2FA with the first code from the authenticator app, then logs in. The response includes the recovery codes, shown only once',
+  })
+  @ApiBody({ type: TwoFactorEnableChallengeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor enabled and user logged in',
+    type: LoginResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid code, or the challenge has expired',
+  })
+  @ResponseMessage('Two-factor authentication enabled')
+  async completeRequiredTwoFactorSetup(
+    @Body() enableDto: TwoFactorEnableChallengeDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse & { recoveryCodes: string[] }> {
+    return this.authService.completeChallengeTwoFactorSetup(
+      enableDto.challengeToken,
+      enableDto.code,
+      { ipAddress, userAgent },
+    );
+  }
 }
@@ -5,28 +5,57 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import ms from 'ms';
 
 import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { AccountTokenService } from './account-token.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { CLOCK, SystemClock, TestClock } from '../common/clock';
 import { LocalStrategy } from './passport/local.strategy';
 import { JwtStrategy } from './passport/jwt.strategy';
 import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
+import { EmailModule } from '../email/email.module';
 
 @Module({
   imports: [
     UsersModule,
+    EmailModule,
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_ACCESS_TOKEN') || "sdfafahjwehbbjhbadshcajsskdfgajhsd",
         signOptions: { 
-          expiresIn: ms(configService.get<string>('JWT_ACCESS_EXPIRED') || '9999999s') 
+          // jsonwebtoken reads a numeric expiresIn as seconds
+          expiresIn: Math.floor(
+            ms(configService.get<string>('JWT_ACCESS_EXPIRED') || '15m') / 1000,
+          ),
         },
       }),
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, LocalStrategy, JwtStrategy],
-  exports: [AuthService, JwtModule],
+  controllers: [AuthController, TwoFactorController],
+  providers: [
+    AuthService,
+    SessionService,
+    AccountTokenService,
+    TwoFactorService,
+    LocalStrategy,
+    JwtStrategy,
+    {
+      provide: CLOCK,
+      useFactory: (configService: ConfigService) => {
+        // TWO_FACTOR_TEST_CLOCK freezes time (ISO date) so TOTP codes can be precomputed offline
+        const testClock = configService.get<string>('TWO_FACTOR_TEST_CLOCK');
+        if (testClock && configService.get('NODE_ENV') !== 'production') {
+          return new TestClock(new Date(testClock));
+        }
+        return new SystemClock();
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [AuthService, SessionService, JwtModule],
 })
 export class AuthModule {}
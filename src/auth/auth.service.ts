@@ -1,11 +1,16 @@
 import {
   BadRequestException,
+  HttpException,
+  HttpStatus,
   Injectable,
+  Logger,
   NotFoundException,
   UnauthorizedException,
   ConflictException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import ms from 'ms';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { UserService } from '../users/users.service';
 import { SecutiryUtils } from '../utils/security.util';
@@ -13,15 +18,57 @@ import { AuthDto } from './dto/auth.dto';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { CreateStudentAccountDto } from './dto/create-student-account.dto';
 import { CreateTeacherAccountDto } from './dto/create-teacher-account.dto';
-import { UserRole, User, EnglishLevel, TeacherStatus } from '@prisma/client';
+import {
+  AccountTokenType,
+  UserRole,
+  User,
+  EnglishLevel,
+  TeacherStatus,
+} from '@prisma/client';
 import { LoginRequest } from './dto/login.dto';
+import { LoginResponse, TwoFactorChallengeResponse } from './types/auth.types';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorLoginDto } from './dto/two-factor.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import {
+  ACCOUNT_TOKEN_TTL_MS,
+  AccountTokenService,
+} from './account-token.service';
+import { EmailService } from '../email/email.service';
+import { EmailTemplateName } from '../email/templates';
+import {
+  IssuedSession,
+  SessionMetadata,
+  SessionService,
+} from './session.service';
+
+const DEFAULT_ACCESS_TOKEN_TTL = '15m';
+
+/**
+ * Failed logins allowed before an account is locked. Each failure after that
+ * doubles the lock, starting at one minute and capped at one hour.
+ */
+const LOGIN_LOCKOUT_THRESHOLD = 5;
+const LOGIN_LOCKOUT_BASE_MS = 60 * 1000;
+const LOGIN_LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const TWO_FACTOR_CHALLENGE_PURPOSE = '2fa-challenge';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly jwtService: JwtService,
     private readonly userService: UserService,
     private readonly prismaService: PrismaService,
+    private readonly sessionService: SessionService,
+    private readonly configService: ConfigService,
+    private readonly accountTokenService: AccountTokenService,
+    private readonly emailService: EmailService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   async emailExist(email: string, id?: string): Promise<boolean> {
@@ -73,54 +120,506 @@ export class AuthService {
       throw new NotFoundException('User not found');
     }
 
+    this.assertLoginNotLocked(user);
+
+    // Guest buyers have no password until they follow the emailed setup link
+    if (!user.password) {
+      throw new UnauthorizedException(
+        'Password has not been set yet, use the link sent to your email',
+      );
+    }
+
     const isPasswordValid = await SecutiryUtils.decodePassword(
       password,
       user.password,
     );
     if (!isPasswordValid) {
+      await this.recordFailedLogin(user.id);
       throw new UnauthorizedException('Password is incorrect');
     }
 
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.prismaService.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+    }
+
     const { password: _, ...result } = user;
     return result;
   }
 
-  async login(loginRequest: LoginRequest) {
+  private assertLoginNotLocked(user: Pick<User, 'lockedUntil'>): void {
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      const minutes = Math.ceil(
+        (user.lockedUntil.getTime() - Date.now()) / 60000,
+      );
+      throw new HttpException(
+        `Too many failed login attempts, try again in ${minutes} minute(s)`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async recordFailedLogin(userId: string): Promise<void> {
+    // Increment in the database so parallel attempts are all counted
+    const { failedLoginAttempts } = await this.prismaService.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    if (failedLoginAttempts < LOGIN_LOCKOUT_THRESHOLD) {
+      return;
+    }
+
+    const lockMs = Math.min(
+      LOGIN_LOCKOUT_BASE_MS *
+        2 ** (failedLoginAttempts - LOGIN_LOCKOUT_THRESHOLD),
+      LOGIN_LOCKOUT_MAX_MS,
+    );
+
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: { lockedUntil: new Date(Date.now() + lockMs) },
+    });
+    this.logger.warn(
+      `Locked login for user ${userId} for ${
+        lockMs / 1000
+      }s after ${failedLoginAttempts} failed attempts`,
+    );
+  }
+
+  /**
+   * Password step of the login. Accounts with 2FA, or whose role requires it,
+   * get a challenge token for the second step instead of a session.
+   */
+  async login(
+    loginRequest: LoginRequest,
+    metadata?: SessionMetadata,
+  ): Promise<LoginResponse | TwoFactorChallengeResponse> {
     const user = await this.validateUser(
       loginRequest.email,
       loginRequest.password,
     );
 
-    // Generate JWT token
-    const accessToken = this.jwtService.sign({
-      firstName: user.firstName,
-      lastName: user.lastName,
-      sub: user.id,
-      email: user.email,
-      id: user.id,
-      type: user.role.valueOf(),
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return this.buildTwoFactorChallenge(user.id, false);
+    }
+    if (this.twoFactorService.isRequiredFor(user.role)) {
+      return this.buildTwoFactorChallenge(user.id, true);
+    }
+
+    return this.completeLogin(user, metadata);
+  }
+
+  /**
+   * Second login step: a TOTP or recovery code for the challenge from login
+   */
+  async loginWithTwoFactor(
+    twoFactorLoginDto: TwoFactorLoginDto,
+    metadata?: SessionMetadata,
+  ): Promise<LoginResponse> {
+    const user = await this.getChallengedUser(twoFactorLoginDto.challengeToken);
+    this.assertLoginNotLocked(user);
+
+    try {
+      await this.twoFactorService.verify(user.id, {
+        code: twoFactorLoginDto.code,
+        recoveryCode: twoFactorLoginDto.recoveryCode,
+      });
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.recordFailedLogin(user.id);
+      }
+      throw error;
+    }
+
+    return this.completeLogin(user, metadata);
+  }
+
+  /**
+   * Enrollment for accounts that must use 2FA but have not set it up yet,
+   * authorized by the login challenge since they cannot get a session
+   */
+  async startChallengeTwoFactorSetup(challengeToken: string) {
+    const user = await this.getChallengedUser(challengeToken);
+    return this.twoFactorService.startEnrollment(user.id);
+  }
+
+  async completeChallengeTwoFactorSetup(
+    challengeToken: string,
+    code: string,
+    metadata?: SessionMetadata,
+  ): Promise<LoginResponse & { recoveryCodes: string[] }> {
+    const user = await this.getChallengedUser(challengeToken);
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      user.id,
+      code,
+    );
+
+    return { ...(await this.completeLogin(user, metadata)), recoveryCodes };
+  }
+
+  private async completeLogin(
+    user: Omit<User, 'password'>,
+    metadata?: SessionMetadata,
+  ): Promise<LoginResponse> {
+    const issued = await this.sessionService.createSession(user.id, metadata);
+
+    await this.prismaService.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() },
     });
 
+    return this.buildTokenResponse(user, issued);
+  }
+
+  private buildTwoFactorChallenge(
+    userId: string,
+    setupRequired: boolean,
+  ): TwoFactorChallengeResponse {
+    // Signed with the access token key but without a session, so JwtStrategy
+    // never accepts it as an access token
+    const challengeToken = this.jwtService.sign(
+      { sub: userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS },
+    );
+
+    return {
+      twoFactorRequired: true,
+      twoFactorSetupRequired: setupRequired,
+      challengeToken,
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  private async getChallengedUser(challengeToken: string): Promise<User> {
+    let payload: { sub: string; purpose: string };
+    try {
+      payload = this.jwtService.verify(challengeToken);
+    } catch {
+      payload = undefined;
+    }
+
+    if (payload?.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE) {
+      throw new UnauthorizedException(
+        'Two-factor challenge is invalid or has expired, log in again',
+      );
+    }
+
+    const user = await this.prismaService.user.findFirst({
+      where: { id: payload.sub, isActive: true },
+    });
+    if (!user) {
+      throw new UnauthorizedException(
+        'Two-factor challenge is invalid or has expired, log in again',
+      );
+    }
+    return user;
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token for its session
+   */
+  async refreshToken(
+    refreshToken: string,
+    metadata?: SessionMetadata,
+  ): Promise<LoginResponse> {
+    const issued = await this.sessionService.rotateSession(
+      refreshToken,
+      metadata,
+    );
+
+    const user = await this.prismaService.user.findUnique({
+      where: { id: issued.session.userId },
+    });
+
+    return this.buildTokenResponse(user, issued);
+  }
+
+  /**
+   * Revoke the session the access token belongs to. The access token itself is
+   * rejected from now on as well, since JwtStrategy checks its session.
+   */
+  async logout(
+    userId: string,
+    sessionId: string,
+  ): Promise<{ message: string }> {
+    if (sessionId) {
+      await this.sessionService.revokeSession(userId, sessionId);
+    }
+    return { message: 'Logout successful' };
+  }
+
+  async getSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionService.getActiveSessions(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      isCurrent: session.id === currentSessionId,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+    }));
+  }
+
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<{ message: string }> {
+    const revoked = await this.sessionService.revokeSession(userId, sessionId);
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
+    return { message: 'Session revoked' };
+  }
+
+  /**
+   * Log out everywhere, including the device making the request
+   */
+  async revokeAllSessions(userId: string): Promise<{ revoked: number }> {
+    const revoked = await this.sessionService.revokeAllSessions(userId);
+    return { revoked };
+  }
+
+  private buildTokenResponse(
+    user: Omit<User, 'password'>,
+    issued: IssuedSession,
+  ): LoginResponse {
+    const expiresIn = Math.floor(
+      ms(
+        this.configService.get<string>('JWT_ACCESS_EXPIRED') ||
+          DEFAULT_ACCESS_TOKEN_TTL,
+      ) / 1000,
+    );
+
+    const accessToken = this.jwtService.sign(
+      {
+        firstName: user.firstName,
+        lastName: user.lastName,
+        sub: user.id,
+        email: user.email,
+        id: user.id,
+        type: user.role.valueOf(),
+        sid: issued.session.id,
+      },
+      { expiresIn },
+    );
+
     return {
       accessToken,
+      refreshToken: issued.refreshToken,
+      tokenType: 'Bearer',
+      expiresIn,
+      refreshTokenExpiresAt: issued.session.expiresAt,
       user: {
         id: user.id,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
         isActive: user.isActive,
+        emailVerified: !!user.emailVerifiedAt,
       },
     };
   }
 
   /**
-   * Simple logout - In a stateless JWT system, the client should discard the token
-   * This is a placeholder for any future cleanup that might be needed
+   * Email a verification link. Registration sends one automatically, this is
+   * also used to resend it.
    */
-  async logout(): Promise<{ message: string }> {
-    // In a stateless JWT system, the client should discard the token
-    // If you need to invalidate tokens, you would need to implement a token blacklist
-    return { message: 'Logout successful' };
+  async sendEmailVerification(userId: string): Promise<{ message: string }> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    const token = await this.accountTokenService.issueToken(
+      user.id,
+      AccountTokenType.EMAIL_VERIFICATION,
+    );
+
+    await this.deliverAccountEmail(user, 'email-verification', {
+      verifyUrl: `${process.env.FRONTEND_URL}/verify-email?token=${token}`,
+      expiresInHours:
+        ACCOUNT_TOKEN_TTL_MS[AccountTokenType.EMAIL_VERIFICATION] / 3600000,
+    });
+
+    return { message: 'Verification email sent' };
+  }
+
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    const userId = await this.accountTokenService.consumeToken(
+      token,
+      AccountTokenType.EMAIL_VERIFICATION,
+    );
+
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return { message: 'Email verified successfully' };
+  }
+
+  /**
+   * Always answers the same way so the endpoint cannot be used to find out
+   * which emails have an account
+   */
+  async requestPasswordReset(email: string): Promise<{ message: string }> {
+    const user = await this.prismaService.user.findFirst({
+      where: { email: email.toLowerCase(), isActive: true },
+    });
+
+    if (user && !user.password) {
+      // A guest buyer who lost the setup email gets a new one
+      await this.sendInitialPasswordSetup(user.id);
+    } else if (user) {
+      const token = await this.accountTokenService.issueToken(
+        user.id,
+        AccountTokenType.PASSWORD_RESET,
+      );
+
+      await this.deliverAccountEmail(user, 'password-reset', {
+        resetUrl: `${process.env.FRONTEND_URL}/reset-password?token=${token}`,
+        expiresInMinutes:
+          ACCOUNT_TOKEN_TTL_MS[AccountTokenType.PASSWORD_RESET] / 60000,
+      });
+    }
+
+    return {
+      message:
+        'If an account exists for this email, a reset link has been sent',
+    };
+  }
+
+  /**
+   * Set a new password from a reset link and log out every device
+   */
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    this.assertPasswordsMatch(resetPasswordDto);
+
+    const userId = await this.accountTokenService.consumeToken(
+      resetPasswordDto.token,
+      AccountTokenType.PASSWORD_RESET,
+    );
+
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: {
+        password: await SecutiryUtils.hashingPassword(
+          resetPasswordDto.newPassword,
+        ),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      },
+    });
+    await this.sessionService.revokeAllSessions(userId);
+
+    return { message: 'Password reset successfully' };
+  }
+
+  /**
+   * Email the link guest buyers use to choose their first password
+   */
+  async sendInitialPasswordSetup(userId: string): Promise<void> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || user.password) {
+      return;
+    }
+
+    const token = await this.accountTokenService.issueToken(
+      user.id,
+      AccountTokenType.SET_INITIAL_PASSWORD,
+    );
+
+    await this.deliverAccountEmail(user, 'set-initial-password', {
+      setPasswordUrl: `${process.env.FRONTEND_URL}/set-password?token=${token}`,
+      expiresInDays:
+        ACCOUNT_TOKEN_TTL_MS[AccountTokenType.SET_INITIAL_PASSWORD] / 86400000,
+    });
+  }
+
+  /**
+   * Following the emailed link proves the guest owns the address, so the
+   * email is marked verified as well
+   */
+  async setInitialPassword(
+    resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    this.assertPasswordsMatch(resetPasswordDto);
+
+    const userId = await this.accountTokenService.consumeToken(
+      resetPasswordDto.token,
+      AccountTokenType.SET_INITIAL_PASSWORD,
+    );
+
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (user.password) {
+      throw new BadRequestException(
+        'A password is already set for this account, use forgot password instead',
+      );
+    }
+
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: {
+        password: await SecutiryUtils.hashingPassword(
+          resetPasswordDto.newPassword,
+        ),
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+      },
+    });
+
+    return { message: 'Password set successfully' };
+  }
+
+  private assertPasswordsMatch(resetPasswordDto: ResetPasswordDto): void {
+    if (resetPasswordDto.newPassword !== resetPasswordDto.confirmNewPassword) {
+      throw new BadRequestException('New passwords do not match');
+    }
+  }
+
+  /**
+   * Delivery failures are logged, the user can ask for the email again
+   */
+  private async deliverAccountEmail(
+    user: User,
+    template: EmailTemplateName,
+    data: Record<string, any>,
+  ): Promise<void> {
+    try {
+      await this.emailService.sendTemplate({
+        to: user.email,
+        template,
+        data: { name: `${user.firstName} ${user.lastName}`.trim(), ...data },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${template} email to ${user.email}:`,
+        error,
+      );
+    }
   }
 
   /**
@@ -165,6 +664,8 @@ export class AuthService {
         return { user, student };
       });
 
+      await this.sendEmailVerification(result.user.id);
+
       return {
         id: result.user.id,
         email: result.user.email,
@@ -246,6 +747,8 @@ export class AuthService {
         return { user, teacher };
       });
 
+      await this.sendEmailVerification(result.user.id);
+
       return {
         id: result.user.id,
         email: result.user.email,
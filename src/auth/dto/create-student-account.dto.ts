@@ -9,6 +9,7 @@ import {
   IsString,
   Matches,
   MinLength,
+  IsTimeZone,
 } from 'class-validator';
 
 export class CreateStudentAccountDto {
@@ -104,6 +105,6 @@ export class CreateStudentAccountDto {
     required: false,
   })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 }
@@ -16,6 +16,7 @@ import {
   Max,
   ArrayNotEmpty,
   ArrayUnique,
+  IsTimeZone,
 } from 'class-validator';
 
 export class CreateTeacherAccountDto {
@@ -165,7 +166,7 @@ export class CreateTeacherAccountDto {
     required: false,
   })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 
   @ApiProperty({
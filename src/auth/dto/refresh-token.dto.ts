@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by login or the previous refresh',
+    example: 'cm123abc.Yk9wZ0lQb2x6dGh3Q1RjbXh...',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -0,0 +1,38 @@
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Used both to reset a forgotten password and by guest buyers setting their
+ * first password; the token decides which
+ */
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Token from the emailed link',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password',
+    minLength: 6,
+    example: 'password123',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(6)
+  newPassword: string;
+
+  @ApiProperty({
+    description: 'Confirm new password',
+    minLength: 6,
+    example: 'password123',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(6)
+  confirmNewPassword: string;
+}
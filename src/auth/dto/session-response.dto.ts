@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'Session ID',
+    example: 'cm123abc',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'User agent of the device that logged in',
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+  })
+  userAgent?: string;
+
+  @ApiPropertyOptional({
+    description: 'IP address the session was last used from',
+    example: '203.0.113.10',
+  })
+  ipAddress?: string;
+
+  @ApiProperty({
+    description: 'Whether this is the session of the current access token',
+    example: true,
+  })
+  isCurrent: boolean;
+
+  @ApiProperty({
+    description: 'Last time the refresh token was used',
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description: 'When the refresh token expires unless renewed',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Login time',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorStatusResponseDto {
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Whether the account role cannot log in without 2FA',
+    example: false,
+  })
+  required: boolean;
+
+  @ApiProperty({ example: 10 })
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({
+    description: 'Base32 secret, for manual entry in the authenticator app',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth:// URI to render as a QR code',
+    example:
+      'otpauth://totp/Antoree%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Antoree',
+  })
+  otpauthUrl: string;
+}
+
+export class TwoFactorRecoveryCodesResponseDto {
+  @ApiProperty({
+    description: 'One-time recovery codes, shown only once',
+    example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'],
+  })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({ example: true })
+  twoFactorRequired: boolean;
+
+  @ApiProperty({
+    description:
+      'The account must enroll before logging in (roles that require 2FA)',
+    example: false,
+  })
+  twoFactorSetupRequired: boolean;
+
+  @ApiProperty({
+    description: 'Short-lived token for the second login step',
+  })
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Challenge token expiration time in seconds',
+    example: 300,
+  })
+  expiresIn: number;
+}
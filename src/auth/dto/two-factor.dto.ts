@@ -0,0 +1,84 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: '6-digit code from the authenticator app',
+    example: '123456',
+    required: true,
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({
+    description:
+      'Challenge token returned by login when a second step is needed',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class TwoFactorEnableChallengeDto extends TwoFactorChallengeDto {
+  @ApiProperty({
+    description:
+      'First code from the authenticator app, proving the setup worked',
+    example: '123456',
+    required: true,
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorChallengeDto {
+  @ApiPropertyOptional({
+    description: '6-digit code from the authenticator app',
+    example: '123456',
+  })
+  @ValidateIf((dto) => !dto.recoveryCode)
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'One of the recovery codes, when the authenticator is not available',
+    example: 'a1b2c-3d4e5',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(11, 11)
+  recoveryCode?: string;
+}
+
+export class DisableTwoFactorDto {
+  @ApiPropertyOptional({
+    description: '6-digit code from the authenticator app',
+    example: '123456',
+  })
+  @ValidateIf((dto) => !dto.recoveryCode)
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({
+    description: 'One of the recovery codes',
+    example: 'a1b2c-3d4e5',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(11, 11)
+  recoveryCode?: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Token from the verification email',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -1,12 +1,14 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { SessionService } from '../session.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    configService: ConfigService
+    configService: ConfigService,
+    private readonly sessionService: SessionService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -15,6 +17,15 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
   async validate(payload: any) {
-    return { id: payload.id, name: payload.name, type: payload.role };
+    // Tokens of logged out, revoked or deactivated sessions are denied
+    if (!(await this.sessionService.isSessionActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    return {
+      id: payload.id,
+      name: payload.name,
+      type: payload.role,
+      sessionId: payload.sid,
+    };
   }
 }
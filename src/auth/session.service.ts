@@ -0,0 +1,191 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserSession } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import ms from 'ms';
+import { PrismaService } from '../common/prisma/prisma.service';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  session: UserSession;
+  refreshToken: string;
+}
+
+const DEFAULT_REFRESH_TOKEN_TTL = '30d';
+
+/**
+ * Device sessions backing refresh tokens. A refresh token is
+ * `<sessionId>.<secret>`; only a hash of the secret is stored and it changes
+ * on every refresh, so a replayed token revokes the whole session.
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createSession(
+    userId: string,
+    metadata: SessionMetadata = {},
+  ): Promise<IssuedSession> {
+    const secret = this.generateSecret();
+
+    const session = await this.prisma.userSession.create({
+      data: {
+        userId,
+        refreshTokenHash: this.hashSecret(secret),
+        userAgent: metadata.userAgent?.slice(0, 512),
+        ipAddress: metadata.ipAddress,
+        expiresAt: this.getRefreshExpiry(),
+      },
+    });
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one on the same session
+   */
+  async rotateSession(
+    refreshToken: string,
+    metadata: SessionMetadata = {},
+  ): Promise<IssuedSession> {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: sessionId },
+      include: { user: { select: { isActive: true } } },
+    });
+
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      !session.user.isActive
+    ) {
+      throw new UnauthorizedException(
+        'Refresh token has expired or been revoked',
+      );
+    }
+
+    // Comparing hashes leaks nothing usable about the secret through timing
+    const presentedHash = this.hashSecret(secret);
+    if (presentedHash !== session.refreshTokenHash) {
+      return this.handleTokenReuse(session);
+    }
+
+    const nextSecret = this.generateSecret();
+
+    // Only the request still holding the current hash rotates it, so two
+    // concurrent refreshes with one token cannot both get a new token
+    const { count } = await this.prisma.userSession.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: this.hashSecret(nextSecret),
+        lastUsedAt: new Date(),
+        expiresAt: this.getRefreshExpiry(),
+        userAgent: metadata.userAgent?.slice(0, 512) ?? session.userAgent,
+        ipAddress: metadata.ipAddress ?? session.ipAddress,
+      },
+    });
+    if (count === 0) {
+      return this.handleTokenReuse(session);
+    }
+
+    const updated = await this.prisma.userSession.findUnique({
+      where: { id: session.id },
+    });
+
+    return { session: updated, refreshToken: `${updated.id}.${nextSecret}` };
+  }
+
+  async getActiveSessions(userId: string): Promise<UserSession[]> {
+    return this.prisma.userSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Checked on every authenticated request: access tokens of revoked or
+   * expired sessions are rejected before their own expiry
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    if (!sessionId) return false;
+
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * @returns whether a session of this user was revoked
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * @returns the number of sessions revoked
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Revoked ${count} session(s) of user ${userId}`);
+    }
+    return count;
+  }
+
+  /**
+   * An already rotated token was presented: assume it leaked
+   */
+  private async handleTokenReuse(session: UserSession): Promise<never> {
+    this.logger.warn(
+      `Refresh token reuse detected for session ${session.id}, revoking it`,
+    );
+    await this.revokeSession(session.userId, session.id);
+    throw new UnauthorizedException(
+      'Refresh token has expired or been revoked',
+    );
+  }
+
+  private getRefreshExpiry(): Date {
+    const ttl =
+      this.configService.get<string>('JWT_REFRESH_EXPIRED') ||
+      DEFAULT_REFRESH_TOKEN_TTL;
+    return new Date(Date.now() + ms(ttl));
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccountTokenType } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import {
+  ACCOUNT_TOKEN_TTL_MS,
+  AccountTokenService,
+} from '../account-token.service';
+
+describe('AccountTokenService', () => {
+  let service: AccountTokenService;
+
+  const mockPrismaService = {
+    accountToken: {
+      findUnique: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+      create: jest.fn<any>(),
+    },
+    $transaction: jest.fn<any>(),
+  };
+
+  const storedToken = (overrides = {}) => ({
+    id: 'token-id',
+    userId: 'user-id',
+    type: AccountTokenType.PASSWORD_RESET,
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    usedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((operations: any) =>
+      Promise.all(operations),
+    );
+    mockPrismaService.accountToken.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.accountToken.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'token-id', ...data }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountTokenService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: { get: () => 'account-token-secret' },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccountTokenService>(AccountTokenService);
+  });
+
+  describe('issueToken', () => {
+    it('should store an HMAC of the token with the lifetime of its type', async () => {
+      const before = Date.now();
+
+      const token = await service.issueToken(
+        'user-id',
+        AccountTokenType.PASSWORD_RESET,
+      );
+
+      const { data } = mockPrismaService.accountToken.create.mock
+        .calls[0][0] as any;
+      expect(data.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(data.tokenHash).not.toBe(token);
+      expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + ACCOUNT_TOKEN_TTL_MS[AccountTokenType.PASSWORD_RESET],
+      );
+    });
+
+    it('should invalidate earlier unused tokens of the same type', async () => {
+      await service.issueToken('user-id', AccountTokenType.EMAIL_VERIFICATION);
+
+      expect(mockPrismaService.accountToken.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-id',
+          type: AccountTokenType.EMAIL_VERIFICATION,
+          usedAt: null,
+        },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('consumeToken', () => {
+    it('should look the token up by its HMAC and return its user', async () => {
+      const token = await service.issueToken(
+        'user-id',
+        AccountTokenType.PASSWORD_RESET,
+      );
+      const { data } = mockPrismaService.accountToken.create.mock
+        .calls[0][0] as any;
+      mockPrismaService.accountToken.findUnique.mockResolvedValue(
+        storedToken(),
+      );
+
+      await expect(
+        service.consumeToken(token, AccountTokenType.PASSWORD_RESET),
+      ).resolves.toBe('user-id');
+      expect(mockPrismaService.accountToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: data.tokenHash },
+      });
+    });
+
+    it('should only let one request use a token', async () => {
+      mockPrismaService.accountToken.findUnique.mockResolvedValue(
+        storedToken(),
+      );
+      mockPrismaService.accountToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.consumeToken('token', AccountTokenType.PASSWORD_RESET),
+      ).rejects.toThrow('This link has already been used');
+      expect(mockPrismaService.accountToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-id', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPrismaService.accountToken.findUnique.mockResolvedValue(
+        storedToken({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        service.consumeToken('token', AccountTokenType.PASSWORD_RESET),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.accountToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens and tokens of another type', async () => {
+      mockPrismaService.accountToken.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(
+          storedToken({ type: AccountTokenType.EMAIL_VERIFICATION }),
+        );
+
+      await expect(
+        service.consumeToken('token', AccountTokenType.PASSWORD_RESET),
+      ).rejects.toThrow('This link is invalid or has expired');
+      await expect(
+        service.consumeToken('token', AccountTokenType.PASSWORD_RESET),
+      ).rejects.toThrow('This link is invalid or has expired');
+      expect(mockPrismaService.accountToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
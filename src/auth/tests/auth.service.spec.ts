@@ -0,0 +1,274 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccountTokenType } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { EmailService } from '../../email/email.service';
+import { UserService } from '../../users/users.service';
+import { SecutiryUtils } from '../../utils/security.util';
+import { AccountTokenService } from '../account-token.service';
+import { AuthService } from '../auth.service';
+import { SessionService } from '../session.service';
+import { TwoFactorService } from '../two-factor.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const mockPrismaService = {
+    user: {
+      findFirst: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+      update: jest.fn<any>(),
+    },
+  };
+
+  const mockSessionService = {
+    revokeAllSessions: jest.fn<any>(),
+  };
+
+  const mockAccountTokenService = {
+    issueToken: jest.fn<any>(),
+    consumeToken: jest.fn<any>(),
+  };
+
+  const passwords = {
+    token: 'emailed-token',
+    newPassword: 'new-password',
+    confirmNewPassword: 'new-password',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    jest
+      .spyOn(SecutiryUtils, 'hashingPassword')
+      .mockResolvedValue('hashed-password');
+    mockPrismaService.user.update.mockResolvedValue({});
+    mockAccountTokenService.consumeToken.mockResolvedValue('user-id');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: AccountTokenService, useValue: mockAccountTokenService },
+        { provide: JwtService, useValue: {} },
+        { provide: UserService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: EmailService, useValue: { sendTemplate: jest.fn() } },
+        { provide: TwoFactorService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('login lockout', () => {
+    const user = (overrides = {}) => ({
+      id: 'user-id',
+      email: 'student@example.com',
+      password: 'stored-hash',
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      ...overrides,
+    });
+
+    const failLoginAt = async (failedLoginAttempts: number) => {
+      jest.spyOn(SecutiryUtils, 'decodePassword').mockReturnValue(false);
+      mockPrismaService.user.findFirst.mockResolvedValue(user());
+      mockPrismaService.user.update.mockResolvedValueOnce({
+        failedLoginAttempts,
+      });
+
+      await expect(
+        service.validateUser('student@example.com', 'wrong-password'),
+      ).rejects.toThrow(UnauthorizedException);
+    };
+
+    const lockedForMs = () => {
+      const [, [{ data }]] = mockPrismaService.user.update.mock.calls as any;
+      return data.lockedUntil.getTime() - Date.now();
+    };
+
+    it('should count failures without locking below five attempts', async () => {
+      await failLoginAt(4);
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true },
+      });
+    });
+
+    it('should lock for one minute at the fifth failure', async () => {
+      await failLoginAt(5);
+
+      expect(lockedForMs()).toBeGreaterThan(59 * 1000);
+      expect(lockedForMs()).toBeLessThanOrEqual(60 * 1000);
+    });
+
+    it('should double the lock with every further failure', async () => {
+      await failLoginAt(7);
+
+      expect(lockedForMs()).toBeGreaterThan(4 * 60 * 1000 - 1000);
+      expect(lockedForMs()).toBeLessThanOrEqual(4 * 60 * 1000);
+    });
+
+    it('should never lock for more than an hour', async () => {
+      await failLoginAt(30);
+
+      expect(lockedForMs()).toBeGreaterThan(60 * 60 * 1000 - 1000);
+      expect(lockedForMs()).toBeLessThanOrEqual(60 * 60 * 1000);
+    });
+
+    it('should refuse a locked account before checking the password', async () => {
+      const decodePassword = jest.spyOn(SecutiryUtils, 'decodePassword');
+      mockPrismaService.user.findFirst.mockResolvedValue(
+        user({ lockedUntil: new Date(Date.now() + 90 * 1000) }),
+      );
+
+      const error = await service
+        .validateUser('student@example.com', 'password')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.message).toContain('2 minute(s)');
+      expect(decodePassword).not.toHaveBeenCalled();
+    });
+
+    it('should reset the counter after a successful login', async () => {
+      jest.spyOn(SecutiryUtils, 'decodePassword').mockReturnValue(true);
+      mockPrismaService.user.findFirst.mockResolvedValue(
+        user({
+          failedLoginAttempts: 6,
+          lockedUntil: new Date(Date.now() - 1000),
+        }),
+      );
+
+      const result = await service.validateUser(
+        'student@example.com',
+        'password',
+      );
+
+      expect(result).not.toHaveProperty('password');
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should consume a verification token and mark the email verified', async () => {
+      await service.verifyEmail('emailed-token');
+
+      expect(mockAccountTokenService.consumeToken).toHaveBeenCalledWith(
+        'emailed-token',
+        AccountTokenType.EMAIL_VERIFICATION,
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not verify anything with a used or expired token', async () => {
+      mockAccountTokenService.consumeToken.mockRejectedValue(
+        new BadRequestException('This link has already been used'),
+      );
+
+      await expect(service.verifyEmail('emailed-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password, clear the lockout and log out every device', async () => {
+      await service.resetPassword(passwords);
+
+      expect(mockAccountTokenService.consumeToken).toHaveBeenCalledWith(
+        'emailed-token',
+        AccountTokenType.PASSWORD_RESET,
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: {
+          password: 'hashed-password',
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        },
+      });
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith(
+        'user-id',
+      );
+    });
+
+    it('should not use up the token when the passwords differ', async () => {
+      await expect(
+        service.resetPassword({ ...passwords, confirmNewPassword: 'typo' }),
+      ).rejects.toThrow('New passwords do not match');
+
+      expect(mockAccountTokenService.consumeToken).not.toHaveBeenCalled();
+    });
+
+    it('should keep the password and sessions when the token is rejected', async () => {
+      mockAccountTokenService.consumeToken.mockRejectedValue(
+        new BadRequestException('This link is invalid or has expired'),
+      );
+
+      await expect(service.resetPassword(passwords)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+      expect(mockSessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setInitialPassword', () => {
+    it('should set the first password and verify the email', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        password: null,
+        emailVerifiedAt: null,
+      });
+
+      await service.setInitialPassword(passwords);
+
+      expect(mockAccountTokenService.consumeToken).toHaveBeenCalledWith(
+        'emailed-token',
+        AccountTokenType.SET_INITIAL_PASSWORD,
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: {
+          password: 'hashed-password',
+          emailVerifiedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should refuse accounts that already have a password', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        password: 'existing-hash',
+        emailVerifiedAt: new Date(),
+      });
+
+      await expect(service.setInitialPassword(passwords)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { SessionService } from '../session.service';
+
+const hash = (secret: string) =>
+  createHash('sha256').update(secret).digest('hex');
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  const mockPrismaService = {
+    userSession: {
+      create: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+      findMany: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn<any>(),
+  };
+
+  const activeSession = () => ({
+    id: 'session-id',
+    userId: 'user-id',
+    refreshTokenHash: hash('current-secret'),
+    userAgent: 'Mozilla/5.0',
+    ipAddress: '10.0.0.1',
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    user: { isActive: true },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockConfigService.get.mockReturnValue(undefined);
+    mockPrismaService.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  describe('createSession', () => {
+    it('should store only a hash of the refresh token secret', async () => {
+      mockPrismaService.userSession.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'session-id', ...data }),
+      );
+
+      const { refreshToken } = await service.createSession('user-id', {
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '10.0.0.1',
+      });
+
+      const [sessionId, secret] = refreshToken.split('.');
+      const { data } = mockPrismaService.userSession.create.mock
+        .calls[0][0] as any;
+      expect(sessionId).toBe('session-id');
+      expect(data.refreshTokenHash).toBe(hash(secret));
+      expect(data.refreshTokenHash).not.toContain(secret);
+    });
+
+    it('should expire after the configured refresh token lifetime', async () => {
+      mockConfigService.get.mockReturnValue('7d');
+      mockPrismaService.userSession.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'session-id', ...data }),
+      );
+      const before = Date.now();
+
+      await service.createSession('user-id');
+
+      const { data } = mockPrismaService.userSession.create.mock
+        .calls[0][0] as any;
+      expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 7 * 24 * 60 * 60 * 1000,
+      );
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should replace the secret on every refresh', async () => {
+      mockPrismaService.userSession.findUnique
+        .mockResolvedValueOnce(activeSession())
+        .mockResolvedValueOnce({ ...activeSession(), user: undefined });
+
+      const { refreshToken } = await service.rotateSession(
+        'session-id.current-secret',
+      );
+
+      const [sessionId, nextSecret] = refreshToken.split('.');
+      expect(sessionId).toBe('session-id');
+      expect(nextSecret).not.toBe('current-secret');
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'session-id',
+          refreshTokenHash: hash('current-secret'),
+          revokedAt: null,
+        },
+        data: expect.objectContaining({
+          refreshTokenHash: hash(nextSecret),
+        }),
+      });
+    });
+
+    it('should revoke the session when a rotated token is replayed', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValue(
+        activeSession(),
+      );
+
+      await expect(
+        service.rotateSession('session-id.previous-secret'),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', userId: 'user-id', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should revoke the session when a concurrent refresh rotated it first', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValue(
+        activeSession(),
+      );
+      mockPrismaService.userSession.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await expect(
+        service.rotateSession('session-id.current-secret'),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenLastCalledWith(
+        {
+          where: { id: 'session-id', userId: 'user-id', revokedAt: null },
+          data: { revokedAt: expect.any(Date) },
+        },
+      );
+    });
+
+    it('should reject revoked and expired sessions without rotating', async () => {
+      for (const session of [
+        { ...activeSession(), revokedAt: new Date() },
+        { ...activeSession(), expiresAt: new Date(Date.now() - 1000) },
+        { ...activeSession(), user: { isActive: false } },
+      ]) {
+        mockPrismaService.userSession.findUnique.mockResolvedValueOnce(session);
+
+        await expect(
+          service.rotateSession('session-id.current-secret'),
+        ).rejects.toThrow(UnauthorizedException);
+      }
+
+      expect(mockPrismaService.userSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(service.rotateSession('no-secret')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.userSession.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should accept a session that is neither revoked nor expired', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValue({
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 1000),
+      });
+
+      await expect(service.isSessionActive('session-id')).resolves.toBe(true);
+    });
+
+    it('should reject revoked, expired and unknown sessions', async () => {
+      mockPrismaService.userSession.findUnique
+        .mockResolvedValueOnce({
+          revokedAt: new Date(),
+          expiresAt: new Date(Date.now() + 1000),
+        })
+        .mockResolvedValueOnce({
+          revokedAt: null,
+          expiresAt: new Date(Date.now() - 1000),
+        })
+        .mockResolvedValueOnce(null);
+
+      await expect(service.isSessionActive('session-id')).resolves.toBe(false);
+      await expect(service.isSessionActive('session-id')).resolves.toBe(false);
+      await expect(service.isSessionActive('session-id')).resolves.toBe(false);
+    });
+
+    it('should reject tokens issued without a session', async () => {
+      await expect(service.isSessionActive(undefined)).resolves.toBe(false);
+      expect(mockPrismaService.userSession.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it("should only revoke the user's own sessions", async () => {
+      mockPrismaService.userSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.revokeSession('other-user-id', 'session-id'),
+      ).resolves.toBe(false);
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', userId: 'other-user-id', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+});
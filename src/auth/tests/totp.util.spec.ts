@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUrl,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from '../totp.util';
+
+// RFC 6238 appendix B secret, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp.util', () => {
+  describe('base32', () => {
+    it('should round trip arbitrary bytes', () => {
+      const bytes = Uint8Array.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should decode lower case, padded and spaced input', () => {
+      expect(base32Decode('gezd gnbv ==')).toEqual(base32Decode('GEZDGNBV'));
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow(
+        'Invalid base32 character: 1',
+      );
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      ['1970-01-01T00:00:59Z', '287082'],
+      ['2005-03-18T01:58:29Z', '081804'],
+      ['2009-02-13T23:31:30Z', '005924'],
+      ['2033-05-18T03:33:20Z', '279037'],
+    ])('should match the RFC 6238 vector at %s', (time, code) => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(new Date(time)))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const time = new Date('2009-02-13T23:31:30Z');
+    const step = getTotpStep(time);
+
+    it('should return the step of a current code', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), time)).toBe(
+        step,
+      );
+    });
+
+    it('should accept codes one step either side for clock drift', () => {
+      expect(
+        verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), time),
+      ).toBe(step - 1);
+      expect(
+        verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), time),
+      ).toBe(step + 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      expect(
+        verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), time),
+      ).toBeNull();
+    });
+  });
+
+  it('should generate a 160 bit base32 secret', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it('should build an otpauth provisioning URL', () => {
+    const url = new URL(
+      buildOtpAuthUrl(RFC_SECRET, 'student@example.com', 'Antoree'),
+    );
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe(
+      '/Antoree:student@example.com',
+    );
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(url.searchParams.get('issuer')).toBe('Antoree');
+    expect(url.searchParams.get('digits')).toBe('6');
+    expect(url.searchParams.get('period')).toBe('30');
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { TAccountRequest } from '../decorators/account-request.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { TwoFactorService } from './two-factor.service';
+import { DisableTwoFactorDto, TwoFactorCodeDto } from './dto/two-factor.dto';
+import {
+  TwoFactorRecoveryCodesResponseDto,
+  TwoFactorSetupResponseDto,
+  TwoFactorStatusResponseDto,
+} from './dto/two-factor-response.dto';
+
+@ApiTags('Authentication')
+@ApiBearerAuth()
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get two-factor status of the current user' })
+  @ApiOkResponse({ type: TwoFactorStatusResponseDto })
+  @ResponseMessage('Two-factor status retrieved successfully')
+  async getStatus(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<TwoFactorStatusResponseDto> {
+    return this.twoFactorService.getStatus(user.id);
+  }
+
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start two-factor setup',
+    description:
+      'Creates a TOTP secret for teacher and admin accounts. Show otpauthUrl as a QR code, then confirm with the first code.',
+  })
+  @ApiOkResponse({ type: TwoFactorSetupResponseDto })
+  @ApiForbiddenResponse({ description: 'Not available for this role' })
+  @ResponseMessage('Two-factor setup started')
+  async setup(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<TwoFactorSetupResponseDto> {
+    return this.twoFactorService.startEnrollment(user.id);
+  }
+
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description:
+      'Confirms the setup with a code from the authenticator app and returns the recovery codes, shown only once',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiOkResponse({ type: TwoFactorRecoveryCodesResponseDto })
+  @ApiUnauthorizedResponse({ description: 'Invalid two-factor code' })
+  @ResponseMessage('Two-factor authentication enabled')
+  async enable(
+    @CurrentUser() user: TAccountRequest,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<TwoFactorRecoveryCodesResponseDto> {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      user.id,
+      codeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description: 'Not allowed for roles that require 2FA',
+  })
+  @ApiBody({ type: DisableTwoFactorDto })
+  @ApiOkResponse({ description: 'Two-factor authentication disabled' })
+  @ApiForbiddenResponse({ description: 'Two-factor is required for this role' })
+  @ApiUnauthorizedResponse({ description: 'Invalid two-factor code' })
+  @ResponseMessage('Two-factor authentication disabled')
+  async disable(
+    @CurrentUser() user: TAccountRequest,
+    @Body() disableDto: DisableTwoFactorDto,
+  ): Promise<{ message: string }> {
+    await this.twoFactorService.disable(user.id, disableDto);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description: 'Replaces every recovery code; the old ones stop working',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiOkResponse({ type: TwoFactorRecoveryCodesResponseDto })
+  @ApiUnauthorizedResponse({ description: 'Invalid two-factor code' })
+  @ResponseMessage('Recovery codes regenerated')
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: TAccountRequest,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<TwoFactorRecoveryCodesResponseDto> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      codeDto.code,
+    );
+    return { recoveryCodes };
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User, UserRole, UserTwoFactor } from '@prisma/client';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createSecretKey,
+  KeyObject,
+  randomBytes,
+} from 'crypto';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { Clock, CLOCK } from '../common/clock';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp.util';
+
+const TWO_FACTOR_ISSUER = 'Antoree';
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Roles allowed to turn on 2FA, and the roles that cannot log in without it
+ */
+const TWO_FACTOR_ROLES: UserRole[] = [UserRole.TEACHER, UserRole.ADMIN];
+const TWO_FACTOR_REQUIRED_ROLES: UserRole[] = [UserRole.ADMIN];
+
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * TOTP enrollment and verification. Secrets are stored encrypted, recovery
+ * codes only as hashes. Time comes from the injected clock so codes can be
+ * checked deterministically offline.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly encryptionKey: KeyObject;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(CLOCK) private readonly clock: Clock,
+    configService: ConfigService,
+  ) {
+    const secret =
+      configService.get<string>('TWO_FACTOR_ENCRYPTION_KEY') ||
+      configService.get<string>('JWT_ACCESS_TOKEN') ||
+      'sdfafahjwehbbjhbadshcajsskdfgajhsd';
+    this.encryptionKey = createSecretKey(
+      createHash('sha256').update(secret).digest('hex'),
+      'hex',
+    );
+  }
+
+  isRequiredFor(role: UserRole): boolean {
+    return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+    return !!twoFactor?.enabledAt;
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.getUser(userId);
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+    });
+
+    return {
+      enabled: !!twoFactor?.enabledAt,
+      required: this.isRequiredFor(user.role),
+      recoveryCodesRemaining: twoFactor?.enabledAt
+        ? twoFactor.recoveryCodeHashes.length
+        : 0,
+    };
+  }
+
+  /**
+   * Create a new secret. 2FA stays off until `confirmEnrollment` receives a
+   * code generated from it.
+   */
+  async startEnrollment(
+    userId: string,
+  ): Promise<{ secret: string; otpauthUrl: string }> {
+    const user = await this.getUser(userId);
+
+    if (!TWO_FACTOR_ROLES.includes(user.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is available for teacher and admin accounts',
+      );
+    }
+
+    if (await this.isEnabled(userId)) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const encrypted = this.encrypt(secret);
+
+    await this.prisma.userTwoFactor.upsert({
+      where: { userId },
+      create: { userId, secret: encrypted, recoveryCodeHashes: [] },
+      update: {
+        secret: encrypted,
+        enabledAt: null,
+        lastUsedStep: null,
+        recoveryCodeHashes: [],
+      },
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, user.email, TWO_FACTOR_ISSUER),
+    };
+  }
+
+  /**
+   * @returns the recovery codes, shown to the user only this once
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+    });
+
+    if (!twoFactor) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+    if (twoFactor.enabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const step = verifyTotp(
+      this.decrypt(twoFactor.secret),
+      code,
+      this.clock.now(),
+    );
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.userTwoFactor.update({
+      where: { userId },
+      data: {
+        enabledAt: this.clock.now(),
+        lastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+      },
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code, or consume a recovery code when no code is given
+   */
+  async verify(userId: string, proof: TwoFactorProof): Promise<void> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+    });
+
+    if (!twoFactor?.enabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    const verified = proof.code
+      ? await this.verifyCode(twoFactor, proof.code)
+      : proof.recoveryCode
+      ? await this.consumeRecoveryCode(twoFactor, proof.recoveryCode)
+      : false;
+
+    if (!verified) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+  }
+
+  async disable(userId: string, proof: TwoFactorProof): Promise<void> {
+    const user = await this.getUser(userId);
+
+    if (this.isRequiredFor(user.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for this account',
+      );
+    }
+
+    await this.verify(userId, proof);
+    await this.prisma.userTwoFactor.delete({ where: { userId } });
+  }
+
+  /**
+   * Replace every recovery code, e.g. after some were used
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.verify(userId, { code });
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.userTwoFactor.update({
+      where: { userId },
+      data: {
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+      },
+    });
+
+    return recoveryCodes;
+  }
+
+  private async verifyCode(
+    twoFactor: UserTwoFactor,
+    code: string,
+  ): Promise<boolean> {
+    const step = verifyTotp(
+      this.decrypt(twoFactor.secret),
+      code,
+      this.clock.now(),
+    );
+    if (step === null) return false;
+
+    // A code is accepted once: the step must move past the last one used
+    const { count } = await this.prisma.userTwoFactor.updateMany({
+      where: {
+        userId: twoFactor.userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+    return count > 0;
+  }
+
+  private async consumeRecoveryCode(
+    twoFactor: UserTwoFactor,
+    recoveryCode: string,
+  ): Promise<boolean> {
+    const hash = this.hashRecoveryCode(recoveryCode);
+    if (!twoFactor.recoveryCodeHashes.includes(hash)) return false;
+
+    const { count } = await this.prisma.userTwoFactor.updateMany({
+      where: {
+        userId: twoFactor.userId,
+        recoveryCodeHashes: { has: hash },
+      },
+      data: {
+        recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter(
+          (stored) => stored !== hash,
+        ),
+      },
+    });
+    return count > 0;
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(recoveryCode: string): string {
+    const normalized = recoveryCode.trim().toLowerCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * AES-256-GCM, stored as `iv.authTag.ciphertext` in base64
+   */
+  private encrypt(value: string): string {
+    const iv = new Uint8Array(randomBytes(12));
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted =
+      cipher.update(value, 'utf8', 'base64') + cipher.final('base64');
+    return [
+      Buffer.from(iv).toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      encrypted,
+    ].join('.');
+  }
+
+  private decrypt(value: string): string {
+    const [iv, tag, encrypted] = value.split('.');
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.encryptionKey,
+      new Uint8Array(Buffer.from(iv, 'base64')),
+    );
+    decipher.setAuthTag(new Uint8Array(Buffer.from(tag, 'base64')));
+    return (
+      decipher.update(encrypted, 'base64', 'utf8') + decipher.final('utf8')
+    );
+  }
+}
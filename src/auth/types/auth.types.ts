@@ -6,15 +6,27 @@ export type AuthUser = User & {
 
 export type LoginResponse = {
   accessToken: string;
+  refreshToken: string;
+  tokenType: string;
+  expiresIn: number; // seconds
+  refreshTokenExpiresAt: Date;
   user: {
     id: string;
     email: string;
     firstName: string | null;
     lastName: string | null;
     isActive: boolean;
+    emailVerified: boolean;
   };
 };
 
+export type TwoFactorChallengeResponse = {
+  twoFactorRequired: true;
+  twoFactorSetupRequired: boolean;
+  challengeToken: string;
+  expiresIn: number; // seconds
+};
+
 export type RegisterResponse = {
   accessToken: string;
   user: User;
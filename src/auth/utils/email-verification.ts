@@ -0,0 +1,16 @@
+import { ForbiddenException } from '@nestjs/common';
+import { User } from '@prisma/client';
+
+/**
+ * Students book lessons only once their email address is verified. Every
+ * path a student books through checks this before creating the booking.
+ */
+export function assertCanBookLessons(
+  user: Pick<User, 'emailVerifiedAt'>,
+): void {
+  if (!user.emailVerifiedAt) {
+    throw new ForbiddenException(
+      'Please verify your email address before booking lessons',
+    );
+  }
+}
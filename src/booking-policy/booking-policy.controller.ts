@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { BookingPolicyCase } from '@prisma/client';
+import { BookingPolicyService } from './booking-policy.service';
+import { BookingPolicyRuleDto, UpdateBookingPolicyDto } from './dto';
+import { BookingPolicyDecisionVm, BookingPolicyVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Booking Policy')
+@Controller('booking-policy')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BookingPolicyController {
+  constructor(private readonly bookingPolicyService: BookingPolicyService) {}
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Get the cancellation and no-show policy (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking policy retrieved successfully',
+    type: BookingPolicyVm,
+  })
+  @ResponseMessage('Booking policy retrieved successfully')
+  async getPolicy(): Promise<BookingPolicyVm> {
+    return this.bookingPolicyService.getPolicySettings();
+  }
+
+  @Patch()
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Change the late cancellation cutoff (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking policy updated successfully',
+    type: BookingPolicyVm,
+  })
+  @ResponseMessage('Booking policy updated successfully')
+  async updatePolicy(
+    @Body() updateDto: UpdateBookingPolicyDto,
+  ): Promise<BookingPolicyVm> {
+    return this.bookingPolicyService.updatePolicy(updateDto);
+  }
+
+  @Put('rules/:policyCase')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary:
+      'Replace the rule of one cancellation or no-show case (Admin only)',
+    description: 'Applies to decisions made after the change',
+  })
+  @ApiParam({ name: 'policyCase', enum: BookingPolicyCase })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking policy rule updated successfully',
+    type: BookingPolicyVm,
+  })
+  @ResponseMessage('Booking policy rule updated successfully')
+  async updateRule(
+    @Param('policyCase') policyCase: BookingPolicyCase,
+    @Body() ruleDto: BookingPolicyRuleDto,
+  ): Promise<BookingPolicyVm> {
+    return this.bookingPolicyService.updateRule(policyCase, ruleDto);
+  }
+
+  @Get('decisions/:bookingId')
+  @Roles(Role.STUDENT, Role.TEACHER, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Get the policy decision of a cancelled or missed booking',
+    description:
+      'Who was at fault and whether a package lesson, fee, credit or teacher compensation resulted',
+  })
+  @ApiParam({ name: 'bookingId', type: String, description: 'Booking ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Policy decision retrieved successfully',
+    type: BookingPolicyDecisionVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Booking not found or no decision was made',
+  })
+  @ResponseMessage('Policy decision retrieved successfully')
+  async getDecision(
+    @Param('bookingId') bookingId: string,
+    @CurrentUser() user: any,
+  ): Promise<BookingPolicyDecisionVm> {
+    return this.bookingPolicyService.getDecision(bookingId, user.id, user.role);
+  }
+}
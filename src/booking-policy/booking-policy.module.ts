@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { EarningsModule } from '../earnings/earnings.module';
+import { NotificationModule } from '../notification/notification.module';
+import { BookingPolicyController } from './booking-policy.controller';
+import { BookingPolicyService } from './booking-policy.service';
+
+@Module({
+  imports: [PrismaModule, EarningsModule, NotificationModule],
+  controllers: [BookingPolicyController],
+  providers: [BookingPolicyService],
+  exports: [BookingPolicyService],
+})
+export class BookingPolicyModule {}
@@ -0,0 +1,374 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BookingPolicyCase,
+  BookingPolicyDecision,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { consumePackageLesson } from '../booking/lesson-package-capacity';
+import {
+  BookingPolicy,
+  BookingPolicyRule,
+  DEFAULT_BOOKING_POLICY,
+  getCancellationCase,
+  getHoursBeforeStart,
+} from './booking-policy';
+import { BookingPolicyRuleDto, UpdateBookingPolicyDto } from './dto';
+import { BookingPolicyDecisionVm, BookingPolicyVm } from './vm';
+
+export const BOOKING_POLICY_CONFIG_KEY = 'BOOKING_POLICY';
+
+/**
+ * Consequences of cancelled and missed lessons. Every cancellation of a
+ * confirmed booking and every no-show is matched to a configurable rule, and
+ * the decision is stored on the booking together with the package deduction,
+ * fee, credit and teacher compensation it caused.
+ */
+@Injectable()
+export class BookingPolicyService {
+  private readonly logger = new Logger(BookingPolicyService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly earningsService: EarningsService,
+    private readonly notificationInboxService: NotificationInboxService,
+  ) {}
+
+  async getPolicy(): Promise<BookingPolicy> {
+    return (await this.loadPolicy()).policy;
+  }
+
+  async getPolicySettings(): Promise<BookingPolicyVm> {
+    const { policy, isDefault } = await this.loadPolicy();
+    return this.toBookingPolicyVm(policy, isDefault);
+  }
+
+  async updatePolicy(
+    updateDto: UpdateBookingPolicyDto,
+  ): Promise<BookingPolicyVm> {
+    const policy = await this.getPolicy();
+    if (updateDto.lateCancellationHours !== undefined) {
+      policy.lateCancellationHours = updateDto.lateCancellationHours;
+    }
+
+    await this.savePolicy(policy);
+    this.logger.log(
+      `Late cancellation cutoff set to ${policy.lateCancellationHours} hours`,
+    );
+    return this.toBookingPolicyVm(policy, false);
+  }
+
+  /**
+   * Only applies to decisions made from now on; earlier decisions keep the
+   * rule they were made with
+   */
+  async updateRule(
+    policyCase: BookingPolicyCase,
+    ruleDto: BookingPolicyRuleDto,
+  ): Promise<BookingPolicyVm> {
+    if (!Object.values(BookingPolicyCase).includes(policyCase)) {
+      throw new BadRequestException(`Unknown policy case ${policyCase}`);
+    }
+
+    const policy = await this.getPolicy();
+    policy.rules[policyCase] = { ...ruleDto };
+
+    await this.savePolicy(policy);
+    this.logger.log(`Booking policy rule ${policyCase} updated`);
+    return this.toBookingPolicyVm(policy, false);
+  }
+
+  /**
+   * Record the consequences of cancelling a confirmed booking in the same
+   * transaction that marks it as cancelled, so neither is stored without the
+   * other. Once the transaction has committed, the caller syncs the teacher's
+   * earning and passes the decision to notifyStudent.
+   */
+  async applyCancellation(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    cancelledBy: UserRole,
+    decidedById?: string,
+  ): Promise<BookingPolicyDecision> {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+    });
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${bookingId} not found`);
+    }
+
+    const policy = await this.getPolicy();
+    const now = new Date();
+    return this.decide(
+      tx,
+      bookingId,
+      getCancellationCase(policy, booking.scheduledAt, cancelledBy, now),
+      policy,
+      {
+        hoursBeforeStart: getHoursBeforeStart(booking.scheduledAt, now),
+        decidedById,
+      },
+    );
+  }
+
+  async applyNoShow(
+    bookingId: string,
+    policyCase: BookingPolicyCase,
+  ): Promise<BookingPolicyDecision> {
+    const policy = await this.getPolicy();
+    const existing = await this.prisma.bookingPolicyDecision.findUnique({
+      where: { bookingId },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    // The decision and its package changes are stored together, so a booking
+    // is never charged twice when the same no-show is detected twice
+    const decision = await this.prisma.$transaction((tx) =>
+      this.decide(tx, bookingId, policyCase, policy, {}),
+    );
+
+    await this.earningsService.syncBooking(bookingId);
+    await this.notifyStudent(decision);
+    return decision;
+  }
+
+  async getDecision(
+    bookingId: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<BookingPolicyDecisionVm> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { policyDecision: true },
+    });
+
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${bookingId} not found`);
+    }
+
+    if (
+      userRole !== UserRole.ADMIN &&
+      booking.studentId !== userId &&
+      booking.teacherId !== userId
+    ) {
+      throw new ForbiddenException('You can only access your own bookings');
+    }
+
+    if (!booking.policyDecision) {
+      throw new NotFoundException('No policy decision for this booking');
+    }
+
+    return this.toBookingPolicyDecisionVm(booking.policyDecision);
+  }
+
+  /**
+   * Tell the student what a decision cost or credited them. Decisions that
+   * had no consequences for the package are not announced.
+   */
+  async notifyStudent(decision: BookingPolicyDecision): Promise<void> {
+    const consequences: string[] = [];
+    if (decision.packageLessonConsumed) {
+      consequences.push('one lesson was deducted from your package');
+    }
+    if (Number(decision.feeAmount) > 0) {
+      consequences.push(
+        `a cancellation fee of ${decision.feeAmount} was charged to your package`,
+      );
+    }
+    if (decision.creditedLessons > 0) {
+      consequences.push(
+        `${decision.creditedLessons} lesson(s) were added to your package`,
+      );
+    }
+    if (consequences.length === 0) {
+      return;
+    }
+
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: decision.bookingId },
+      select: { studentId: true },
+    });
+    await this.notificationInboxService.create({
+      userId: booking.studentId,
+      type: 'BOOKING_POLICY_APPLIED',
+      title: 'Lesson policy applied',
+      message: `Under our cancellation and no-show policy, ${consequences.join(
+        ' and ',
+      )}.`,
+      priority: 'high',
+      bookingId: decision.bookingId,
+      metadata: { decisionId: decision.id, policyCase: decision.policyCase },
+    });
+  }
+
+  /**
+   * Returns the existing decision when the booking already has one
+   */
+  private async decide(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    policyCase: BookingPolicyCase,
+    policy: BookingPolicy,
+    context: { hoursBeforeStart?: number; decidedById?: string },
+  ): Promise<BookingPolicyDecision> {
+    const existing = await tx.bookingPolicyDecision.findUnique({
+      where: { bookingId },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const rule = policy.rules[policyCase];
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: { lessonPackage: true },
+    });
+    const lessonPackage = booking.lessonPackage;
+
+    let packageLessonConsumed = false;
+    let feeAmount = 0;
+    let creditedLessons = 0;
+
+    if (lessonPackage) {
+      if (rule.consumesPackageLesson) {
+        packageLessonConsumed = await consumePackageLesson(tx, bookingId);
+      }
+
+      if (rule.feePercentage > 0) {
+        const pricePerLesson =
+          Number(lessonPackage.totalPrice) / lessonPackage.totalLessons;
+        feeAmount = Math.round((pricePerLesson * rule.feePercentage) / 100);
+      }
+      creditedLessons = rule.creditLessons;
+
+      if (feeAmount > 0 || creditedLessons > 0) {
+        await tx.lessonPackage.update({
+          where: { id: lessonPackage.id },
+          data: {
+            cancellationFees: { increment: feeAmount },
+            remainingLessons: { increment: creditedLessons },
+          },
+        });
+      }
+    }
+
+    const decision = await tx.bookingPolicyDecision.create({
+      data: {
+        bookingId,
+        policyCase,
+        faultParty: rule.faultParty,
+        hoursBeforeStart: context.hoursBeforeStart,
+        lessonPackageId: lessonPackage?.id,
+        packageLessonConsumed,
+        feeAmount,
+        creditedLessons,
+        teacherCompensated: rule.compensatesTeacher,
+        rule: rule as unknown as Prisma.InputJsonValue,
+        decidedById: context.decidedById,
+      },
+    });
+
+    this.logger.log(
+      `Applied ${policyCase} to booking ${bookingId} (fault: ${rule.faultParty})`,
+    );
+    return decision;
+  }
+
+  /**
+   * Stored rules are merged over the defaults, so cases added later or a
+   * partially broken config still resolve to a complete policy
+   */
+  private async loadPolicy(): Promise<{
+    policy: BookingPolicy;
+    isDefault: boolean;
+  }> {
+    const config = await this.prisma.systemConfig.findUnique({
+      where: { key: BOOKING_POLICY_CONFIG_KEY },
+    });
+
+    let stored: Partial<BookingPolicy> = {};
+    if (config) {
+      try {
+        stored = JSON.parse(config.value);
+      } catch {
+        this.logger.warn('Ignoring invalid booking policy config');
+      }
+    }
+
+    const rules = {} as Record<BookingPolicyCase, BookingPolicyRule>;
+    for (const policyCase of Object.values(BookingPolicyCase)) {
+      rules[policyCase] = {
+        ...DEFAULT_BOOKING_POLICY.rules[policyCase],
+        ...stored.rules?.[policyCase],
+      };
+    }
+
+    const lateCancellationHours = Number(stored.lateCancellationHours);
+    return {
+      policy: {
+        lateCancellationHours:
+          Number.isFinite(lateCancellationHours) && lateCancellationHours >= 0
+            ? lateCancellationHours
+            : DEFAULT_BOOKING_POLICY.lateCancellationHours,
+        rules,
+      },
+      isDefault: !config,
+    };
+  }
+
+  private async savePolicy(policy: BookingPolicy): Promise<void> {
+    const value = JSON.stringify(policy);
+    await this.prisma.systemConfig.upsert({
+      where: { key: BOOKING_POLICY_CONFIG_KEY },
+      create: { key: BOOKING_POLICY_CONFIG_KEY, value, type: 'json' },
+      update: { value, type: 'json' },
+    });
+  }
+
+  private toBookingPolicyVm(
+    policy: BookingPolicy,
+    isDefault: boolean,
+  ): BookingPolicyVm {
+    return {
+      lateCancellationHours: policy.lateCancellationHours,
+      rules: Object.values(BookingPolicyCase).map((policyCase) => ({
+        policyCase,
+        ...policy.rules[policyCase],
+      })),
+      isDefault,
+    };
+  }
+
+  private toBookingPolicyDecisionVm(
+    decision: BookingPolicyDecision,
+  ): BookingPolicyDecisionVm {
+    return {
+      id: decision.id,
+      bookingId: decision.bookingId,
+      policyCase: decision.policyCase,
+      faultParty: decision.faultParty,
+      hoursBeforeStart:
+        decision.hoursBeforeStart !== null
+          ? Number(decision.hoursBeforeStart)
+          : undefined,
+      lessonPackageId: decision.lessonPackageId,
+      packageLessonConsumed: decision.packageLessonConsumed,
+      feeAmount: decision.feeAmount.toString(),
+      creditedLessons: decision.creditedLessons,
+      teacherCompensated: decision.teacherCompensated,
+      decidedById: decision.decidedById,
+      createdAt: decision.createdAt,
+    };
+  }
+}
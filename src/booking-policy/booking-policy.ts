@@ -0,0 +1,111 @@
+import { BookingPolicyCase, PolicyFaultParty, UserRole } from '@prisma/client';
+
+export interface BookingPolicyRule {
+  faultParty: PolicyFaultParty;
+  // One lesson of the booking's package is used up
+  consumesPackageLesson: boolean;
+  // Percentage of the lesson price added to the package's cancellation fees
+  feePercentage: number;
+  // Extra lessons given to the student's package
+  creditLessons: number;
+  // The teacher keeps the earning of the lesson
+  compensatesTeacher: boolean;
+}
+
+export interface BookingPolicy {
+  // Cancelling a confirmed lesson closer to its start than this is late
+  lateCancellationHours: number;
+  rules: Record<BookingPolicyCase, BookingPolicyRule>;
+}
+
+const NO_CONSEQUENCE: Omit<BookingPolicyRule, 'faultParty'> = {
+  consumesPackageLesson: false,
+  feePercentage: 0,
+  creditLessons: 0,
+  compensatesTeacher: false,
+};
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  lateCancellationHours: 24,
+  rules: {
+    [BookingPolicyCase.STUDENT_CANCELLATION]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.NONE,
+    },
+    [BookingPolicyCase.STUDENT_LATE_CANCELLATION]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.STUDENT,
+      feePercentage: 50,
+    },
+    [BookingPolicyCase.TEACHER_CANCELLATION]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.TEACHER,
+    },
+    [BookingPolicyCase.TEACHER_LATE_CANCELLATION]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.TEACHER,
+    },
+    [BookingPolicyCase.ADMIN_CANCELLATION]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.NONE,
+    },
+    [BookingPolicyCase.STUDENT_NO_SHOW]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.STUDENT,
+      consumesPackageLesson: true,
+      compensatesTeacher: true,
+    },
+    [BookingPolicyCase.TEACHER_NO_SHOW]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.TEACHER,
+      creditLessons: 1,
+    },
+    [BookingPolicyCase.BOTH_NO_SHOW]: {
+      ...NO_CONSEQUENCE,
+      faultParty: PolicyFaultParty.NONE,
+    },
+  },
+};
+
+export function getHoursBeforeStart(
+  scheduledAt: Date,
+  at: Date = new Date(),
+): number {
+  const hours =
+    (new Date(scheduledAt).getTime() - at.getTime()) / (1000 * 60 * 60);
+  return Math.round(hours * 100) / 100;
+}
+
+export function isLateCancellation(
+  policy: BookingPolicy,
+  scheduledAt: Date,
+  at: Date = new Date(),
+): boolean {
+  return getHoursBeforeStart(scheduledAt, at) < policy.lateCancellationHours;
+}
+
+/**
+ * Which rule applies when a confirmed booking is cancelled by someone with
+ * the given role
+ */
+export function getCancellationCase(
+  policy: BookingPolicy,
+  scheduledAt: Date,
+  cancelledBy: UserRole,
+  at: Date = new Date(),
+): BookingPolicyCase {
+  const late = isLateCancellation(policy, scheduledAt, at);
+
+  switch (cancelledBy) {
+    case UserRole.STUDENT:
+      return late
+        ? BookingPolicyCase.STUDENT_LATE_CANCELLATION
+        : BookingPolicyCase.STUDENT_CANCELLATION;
+    case UserRole.TEACHER:
+      return late
+        ? BookingPolicyCase.TEACHER_LATE_CANCELLATION
+        : BookingPolicyCase.TEACHER_CANCELLATION;
+    default:
+      return BookingPolicyCase.ADMIN_CANCELLATION;
+  }
+}
@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { PolicyFaultParty } from '@prisma/client';
+
+export class UpdateBookingPolicyDto {
+  @ApiPropertyOptional({
+    description:
+      'Cancelling a confirmed lesson closer to its start than this many hours is a late cancellation',
+    example: 24,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(168)
+  lateCancellationHours?: number;
+}
+
+export class BookingPolicyRuleDto {
+  @ApiProperty({ enum: PolicyFaultParty, example: PolicyFaultParty.STUDENT })
+  @IsEnum(PolicyFaultParty)
+  faultParty: PolicyFaultParty;
+
+  @ApiProperty({
+    description: "Deduct one lesson from the booking's package",
+    example: true,
+  })
+  @IsBoolean()
+  consumesPackageLesson: boolean;
+
+  @ApiProperty({
+    description:
+      'Percentage of the lesson price added to the package cancellation fees, which are deducted from refunds',
+    example: 50,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  feePercentage: number;
+
+  @ApiProperty({
+    description: "Extra lessons added to the student's package",
+    example: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  creditLessons: number;
+
+  @ApiProperty({
+    description: 'The teacher keeps the earning of the lesson',
+    example: true,
+  })
+  @IsBoolean()
+  compensatesTeacher: boolean;
+}
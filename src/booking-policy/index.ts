@@ -0,0 +1,6 @@
+export * from './booking-policy';
+export * from './booking-policy.service';
+export * from './booking-policy.controller';
+export * from './booking-policy.module';
+export * from './dto';
+export * from './vm';
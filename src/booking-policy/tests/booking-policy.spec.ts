@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { BookingPolicyCase, UserRole } from '@prisma/client';
+import {
+  DEFAULT_BOOKING_POLICY,
+  getCancellationCase,
+  getHoursBeforeStart,
+  isLateCancellation,
+} from '../booking-policy';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('booking-policy', () => {
+  const now = new Date('2026-03-02T08:00:00.000Z');
+  const inHours = (hours: number) => new Date(now.getTime() + hours * HOUR);
+
+  describe('getHoursBeforeStart', () => {
+    it('should round to two decimals', () => {
+      expect(getHoursBeforeStart(inHours(1 / 3), now)).toBe(0.33);
+    });
+
+    it('should be negative once the lesson has started', () => {
+      expect(getHoursBeforeStart(inHours(-2), now)).toBe(-2);
+    });
+  });
+
+  describe('isLateCancellation', () => {
+    it('should treat cancelling exactly at the cutoff as on time', () => {
+      expect(isLateCancellation(DEFAULT_BOOKING_POLICY, inHours(24), now)).toBe(
+        false,
+      );
+    });
+
+    it('should treat cancelling inside the cutoff as late', () => {
+      expect(
+        isLateCancellation(DEFAULT_BOOKING_POLICY, inHours(23.5), now),
+      ).toBe(true);
+    });
+
+    it('should use the cutoff of the given policy', () => {
+      const policy = { ...DEFAULT_BOOKING_POLICY, lateCancellationHours: 2 };
+
+      expect(isLateCancellation(policy, inHours(3), now)).toBe(false);
+      expect(isLateCancellation(policy, inHours(1), now)).toBe(true);
+    });
+  });
+
+  describe('getCancellationCase', () => {
+    it.each([
+      [UserRole.STUDENT, 48, BookingPolicyCase.STUDENT_CANCELLATION],
+      [UserRole.STUDENT, 12, BookingPolicyCase.STUDENT_LATE_CANCELLATION],
+      [UserRole.TEACHER, 48, BookingPolicyCase.TEACHER_CANCELLATION],
+      [UserRole.TEACHER, 12, BookingPolicyCase.TEACHER_LATE_CANCELLATION],
+      [UserRole.ADMIN, 48, BookingPolicyCase.ADMIN_CANCELLATION],
+      [UserRole.ADMIN, 12, BookingPolicyCase.ADMIN_CANCELLATION],
+    ])(
+      'should classify a %s cancellation %i hours ahead as %s',
+      (role, hours, expected) => {
+        expect(
+          getCancellationCase(
+            DEFAULT_BOOKING_POLICY,
+            inHours(hours),
+            role,
+            now,
+          ),
+        ).toBe(expected);
+      },
+    );
+  });
+
+  describe('DEFAULT_BOOKING_POLICY', () => {
+    it('should define a rule for every case', () => {
+      expect(Object.keys(DEFAULT_BOOKING_POLICY.rules).sort()).toEqual(
+        Object.values(BookingPolicyCase).sort(),
+      );
+    });
+
+    it('should charge a student no-show to the package and pay the teacher', () => {
+      const rule =
+        DEFAULT_BOOKING_POLICY.rules[BookingPolicyCase.STUDENT_NO_SHOW];
+
+      expect(rule.consumesPackageLesson).toBe(true);
+      expect(rule.compensatesTeacher).toBe(true);
+    });
+
+    it('should credit the student a lesson when the teacher does not show', () => {
+      const rule =
+        DEFAULT_BOOKING_POLICY.rules[BookingPolicyCase.TEACHER_NO_SHOW];
+
+      expect(rule.creditLessons).toBe(1);
+      expect(rule.compensatesTeacher).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BookingPolicyCase, PolicyFaultParty } from '@prisma/client';
+
+export class BookingPolicyRuleVm {
+  @ApiProperty({
+    enum: BookingPolicyCase,
+    example: BookingPolicyCase.STUDENT_NO_SHOW,
+  })
+  policyCase: BookingPolicyCase;
+
+  @ApiProperty({ enum: PolicyFaultParty, example: PolicyFaultParty.STUDENT })
+  faultParty: PolicyFaultParty;
+
+  @ApiProperty({ example: true })
+  consumesPackageLesson: boolean;
+
+  @ApiProperty({ description: 'Percent of the lesson price', example: 0 })
+  feePercentage: number;
+
+  @ApiProperty({ example: 0 })
+  creditLessons: number;
+
+  @ApiProperty({ example: true })
+  compensatesTeacher: boolean;
+}
+
+export class BookingPolicyVm {
+  @ApiProperty({ example: 24 })
+  lateCancellationHours: number;
+
+  @ApiProperty({ type: [BookingPolicyRuleVm] })
+  rules: BookingPolicyRuleVm[];
+
+  @ApiProperty({ description: 'Whether the policy is the built-in default' })
+  isDefault: boolean;
+}
+
+export class BookingPolicyDecisionVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'clk987654321' })
+  bookingId: string;
+
+  @ApiProperty({
+    enum: BookingPolicyCase,
+    example: BookingPolicyCase.STUDENT_LATE_CANCELLATION,
+  })
+  policyCase: BookingPolicyCase;
+
+  @ApiProperty({ enum: PolicyFaultParty, example: PolicyFaultParty.STUDENT })
+  faultParty: PolicyFaultParty;
+
+  @ApiPropertyOptional({
+    description: 'How long before the start the booking was cancelled',
+    example: 5.5,
+  })
+  hoursBeforeStart?: number;
+
+  @ApiPropertyOptional()
+  lessonPackageId?: string;
+
+  @ApiProperty({ example: false })
+  packageLessonConsumed: boolean;
+
+  @ApiProperty({ example: '150000' })
+  feeAmount: string;
+
+  @ApiProperty({ example: 0 })
+  creditedLessons: number;
+
+  @ApiProperty({ example: false })
+  teacherCompensated: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Who cancelled; empty when decided automatically',
+  })
+  decidedById?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
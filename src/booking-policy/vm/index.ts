@@ -0,0 +1 @@
+export * from './booking-policy.vm';
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { BookingMetadata, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import {
+  LearningGoalsDto,
+  StudentContactInfoDto,
+} from './dto/booking-flow.dto';
+
+export type TeacherResponseType =
+  | 'ACCEPTED'
+  | 'DECLINED'
+  | 'RESCHEDULE_REQUESTED';
+
+export interface TrialCompletionDetails {
+  teacherFeedback?: string;
+  performanceNotes?: string;
+  recommendations?: string;
+  actualDuration?: number;
+}
+
+export interface BookingMetadataInput {
+  // Structured goals from the booking form, free text for trial requests
+  learningGoals?: LearningGoalsDto | string;
+  howFoundTeacher?: string;
+  contactInfo?: StudentContactInfoDto;
+  confirmationCode?: string;
+  confirmationNotes?: string;
+  confirmedAt?: Date;
+  teacherResponse?: TeacherResponseType;
+  teacherMessage?: string;
+  declineReason?: string;
+  preLessonInstructions?: string;
+  alternativeSlots?: string[];
+  respondedAt?: Date;
+  meetingUrl?: string;
+  trialCompletion?: TrialCompletionDetails;
+}
+
+/**
+ * Machine data collected by the booking flows, kept out of `Booking.notes` so
+ * the notes only hold what students and teachers wrote
+ */
+@Injectable()
+export class BookingMetadataService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Merge `input` into the booking's metadata; fields left undefined keep
+   * their stored value
+   */
+  async save(
+    bookingId: string,
+    input: BookingMetadataInput,
+  ): Promise<BookingMetadata> {
+    const data = {
+      ...input,
+      learningGoals: this.toJson(input.learningGoals),
+      contactInfo: this.toJson(input.contactInfo),
+      alternativeSlots: this.toJson(input.alternativeSlots),
+      trialCompletion: this.toJson(input.trialCompletion),
+    };
+
+    return this.prisma.bookingMetadata.upsert({
+      where: { bookingId },
+      create: { bookingId, ...data },
+      update: data,
+    });
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    return value === undefined
+      ? undefined
+      : (value as unknown as Prisma.InputJsonValue);
+  }
+}
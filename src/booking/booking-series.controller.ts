@@ -0,0 +1,154 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { BookingSeriesService } from './booking-series.service';
+import {
+  CancelBookingSeriesDto,
+  CreateBookingSeriesDto,
+  RescheduleBookingSeriesDto,
+  SearchBookingSeriesDto,
+} from './dto';
+import { BookingSeriesPlanVm, BookingSeriesVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Booking Series')
+@Controller('booking-series')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BookingSeriesController {
+  constructor(private readonly bookingSeriesService: BookingSeriesService) {}
+
+  @Post()
+  @Roles(Role.STUDENT)
+  @ApiOperation({
+    summary: 'Book weekly recurring lessons from a lesson package',
+    description:
+      'Every lesson is checked against the teacher availability and both calendars first. Conflicts fail the request unless skipConflicts is set; dryRun only returns the plan. Lessons beyond the package balance or expiry are left out.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Booking series created successfully',
+    type: BookingSeriesPlanVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Some lessons of the series are not available',
+  })
+  @ResponseMessage('Booking series created successfully')
+  async create(
+    @Body() createDto: CreateBookingSeriesDto,
+    @CurrentUser() user: any,
+  ): Promise<BookingSeriesPlanVm> {
+    return this.bookingSeriesService.create(createDto, user.id);
+  }
+
+  @Get()
+  @Roles(Role.STUDENT, Role.TEACHER)
+  @ApiOperation({ summary: 'Get my weekly booking series' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking series retrieved successfully',
+    type: [BookingSeriesVm],
+  })
+  @ResponseMessage('Booking series retrieved successfully')
+  async findAll(
+    @Query() searchDto: SearchBookingSeriesDto,
+    @CurrentUser() user: any,
+  ): Promise<BookingSeriesVm[]> {
+    return this.bookingSeriesService.findAll(user.id, searchDto);
+  }
+
+  @Get(':id')
+  @Roles(Role.STUDENT, Role.TEACHER, Role.ADMIN)
+  @ApiOperation({ summary: 'Get a booking series with its lessons' })
+  @ApiParam({ name: 'id', type: String, description: 'Booking series ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking series retrieved successfully',
+    type: BookingSeriesVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Booking series not found',
+  })
+  @ResponseMessage('Booking series retrieved successfully')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<BookingSeriesVm> {
+    return this.bookingSeriesService.findOne(id, user.id, user.role);
+  }
+
+  @Patch(':id/reschedule')
+  @Roles(Role.STUDENT, Role.TEACHER, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Move the upcoming lessons of a series to new weekdays or time',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Booking series ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking series rescheduled successfully',
+    type: BookingSeriesPlanVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Some lessons cannot be moved to the new time',
+  })
+  @ResponseMessage('Booking series rescheduled successfully')
+  async reschedule(
+    @Param('id') id: string,
+    @Body() rescheduleDto: RescheduleBookingSeriesDto,
+    @CurrentUser() user: any,
+  ): Promise<BookingSeriesPlanVm> {
+    return this.bookingSeriesService.reschedule(
+      id,
+      rescheduleDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.STUDENT, Role.TEACHER, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Cancel all upcoming lessons of a series',
+    description:
+      'Each lesson is cancelled under the cancellation policy, so late cancellations may consume package lessons or charge a fee',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Booking series ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking series cancelled successfully',
+    type: BookingSeriesVm,
+  })
+  @ResponseMessage('Booking series cancelled successfully')
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelBookingSeriesDto,
+    @CurrentUser() user: any,
+  ): Promise<BookingSeriesVm> {
+    return this.bookingSeriesService.cancel(id, cancelDto, user.id, user.role);
+  }
+}
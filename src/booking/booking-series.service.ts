@@ -0,0 +1,820 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Booking,
+  BookingSeries,
+  BookingSeriesStatus,
+  BookingStatus,
+  LessonPackage,
+  LessonStatus,
+  SlotHold,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { SlotHoldService } from '../slot-hold/slot-hold.service';
+import { isWithinAvailability } from '../teacherAvailability/availability-windows';
+import {
+  addDays,
+  getDayOfWeek,
+  getZonedParts,
+  isValidTimeZone,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '../common/timezone/timezone.util';
+import { assertCanBookLessons } from '../auth/utils/email-verification';
+import { BookingService } from './booking.service';
+import {
+  getPackageCapacity,
+  lockPackageCapacity,
+  OPEN_BOOKING_STATUSES,
+} from './lesson-package-capacity';
+import {
+  CancelBookingSeriesDto,
+  CreateBookingSeriesDto,
+  RescheduleBookingSeriesDto,
+  SearchBookingSeriesDto,
+} from './dto';
+import {
+  BookingSeriesPlanVm,
+  BookingSeriesVm,
+  SeriesOccurrenceStatus,
+  SeriesOccurrenceVm,
+} from './vm';
+
+// Statuses that need the student's decision; running out of package lessons
+// only shortens the series
+const CONFLICT_STATUSES: SeriesOccurrenceStatus[] = [
+  'OUTSIDE_AVAILABILITY',
+  'TEACHER_CONFLICT',
+  'STUDENT_CONFLICT',
+];
+
+const SERIES_BATCH_SIZE = 200;
+
+type SeriesWithBookings = BookingSeries & { bookings: Booking[] };
+
+interface OccurrencePlan {
+  timezone: string;
+  startTime: string;
+  duration: number;
+  dates: string[];
+  // Lessons the package can still pay for
+  capacity: number;
+  // Bookings being moved, which must not conflict with themselves
+  movingBookingIds?: string[];
+}
+
+/**
+ * Weekly recurring lessons booked ahead from a lesson package. A series is
+ * planned as a whole: every occurrence is checked against the teacher's
+ * availability and both calendars before anything is booked, and the series
+ * stops early once the package runs out of lessons or expires.
+ */
+@Injectable()
+export class BookingSeriesService {
+  private readonly logger = new Logger(BookingSeriesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly bookingService: BookingService,
+    private readonly earningsService: EarningsService,
+    private readonly meetingService: MeetingService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly slotHoldService: SlotHoldService,
+  ) {}
+
+  async create(
+    createDto: CreateBookingSeriesDto,
+    studentId: string,
+  ): Promise<BookingSeriesPlanVm> {
+    const lessonPackage = await this.prisma.lessonPackage.findUnique({
+      where: { id: createDto.lessonPackageId },
+    });
+
+    if (!lessonPackage) {
+      throw new NotFoundException('Lesson package not found');
+    }
+    if (lessonPackage.studentId !== studentId) {
+      throw new ForbiddenException(
+        'You can only schedule from your own packages',
+      );
+    }
+    if (!lessonPackage.isActive) {
+      throw new BadRequestException('Lesson package is not active');
+    }
+    if (lessonPackage.expiresAt <= new Date()) {
+      throw new BadRequestException('Lesson package has expired');
+    }
+
+    if (createDto.timezone && !isValidTimeZone(createDto.timezone)) {
+      throw new BadRequestException(`Unknown timezone ${createDto.timezone}`);
+    }
+    const student = await this.prisma.student.findUnique({
+      where: { id: studentId },
+      select: { timezone: true, user: { select: { emailVerifiedAt: true } } },
+    });
+    if (!student) {
+      throw new NotFoundException('Student not found');
+    }
+    assertCanBookLessons(student.user);
+
+    const timezone = resolveTimeZone(createDto.timezone || student.timezone);
+    const startDate =
+      createDto.startDate?.slice(0, 10) ||
+      getZonedParts(new Date(), timezone).date;
+    const duration = createDto.duration || lessonPackage.durationPerLesson;
+
+    const dates = this.getSeriesDates(
+      createDto.daysOfWeek,
+      startDate,
+      createDto.weeks,
+    );
+    const plan: OccurrencePlan = {
+      timezone,
+      startTime: createDto.startTime,
+      duration,
+      dates,
+      capacity: await getPackageCapacity(this.prisma, lessonPackage),
+    };
+    const occurrences = await this.planOccurrences(lessonPackage, plan);
+
+    const bookable = occurrences.filter((o) => o.status === 'AVAILABLE');
+    const conflictCount = this.countConflicts(occurrences);
+    const stoppedReason = this.getStoppedReason(occurrences);
+
+    if (createDto.dryRun) {
+      return { occurrences, bookedCount: 0, conflictCount, stoppedReason };
+    }
+    if (conflictCount > 0 && !createDto.skipConflicts) {
+      throw new ConflictException(
+        `${conflictCount} of ${occurrences.length} lessons in the series are not available. Check them with dryRun or set skipConflicts to book the rest.`,
+      );
+    }
+    if (bookable.length === 0) {
+      throw new BadRequestException(
+        'None of the lessons in the series can be booked',
+      );
+    }
+
+    const holds = await this.holdOccurrences(
+      lessonPackage,
+      plan,
+      occurrences,
+      studentId,
+    );
+
+    let series: BookingSeries;
+    try {
+      series = await this.prisma.$transaction(async (tx) => {
+        // Another booking may have used the package since it was planned
+        const capacity = await lockPackageCapacity(tx, lessonPackage.id);
+        if (capacity < bookable.length) {
+          throw new ConflictException(
+            `The package only has ${capacity} lesson(s) left to book, please plan the series again`,
+          );
+        }
+
+        const created = await tx.bookingSeries.create({
+          data: {
+            lessonPackageId: lessonPackage.id,
+            studentId,
+            teacherId: lessonPackage.teacherId,
+            daysOfWeek: [...createDto.daysOfWeek].sort(),
+            startTime: createDto.startTime,
+            timezone,
+            duration,
+            startDate: new Date(`${startDate}T00:00:00.000Z`),
+            weeks: createDto.weeks,
+            stoppedReason,
+            notes: createDto.notes,
+          },
+        });
+
+        for (const occurrence of bookable) {
+          const booking = await tx.booking.create({
+            data: {
+              studentId,
+              teacherId: lessonPackage.teacherId,
+              lessonPackageId: lessonPackage.id,
+              seriesId: created.id,
+              scheduledAt: occurrence.scheduledAt,
+              duration,
+              status: BookingStatus.CONFIRMED,
+              isTrialLesson: false,
+              notes: `${createDto.notes || ''} [Package: ${
+                lessonPackage.paymentId
+              }]`,
+            },
+          });
+          await tx.lesson.create({
+            data: {
+              bookingId: booking.id,
+              studentId,
+              teacherId: lessonPackage.teacherId,
+              scheduledAt: occurrence.scheduledAt,
+              duration,
+              meetingUrl: this.meetingService.getRoom(booking.id).meetingUrl,
+              status: LessonStatus.SCHEDULED,
+            },
+          });
+          occurrence.bookingId = booking.id;
+        }
+
+        return created;
+      });
+    } catch (error) {
+      await this.slotHoldService.releaseAll(holds, 'FAILED');
+      throw error;
+    }
+
+    for (const [index, occurrence] of bookable.entries()) {
+      await this.slotHoldService.convert(holds[index].id, {
+        bookingId: occurrence.bookingId,
+      });
+    }
+
+    for (const occurrence of bookable) {
+      await this.earningsService.syncBooking(occurrence.bookingId);
+    }
+
+    await this.notificationInboxService.create({
+      userId: lessonPackage.teacherId,
+      type: 'BOOKING_SERIES_CREATED',
+      title: 'New weekly lessons booked',
+      message: `A student booked ${bookable.length} weekly lessons with you, starting ${bookable[0].localDate} at ${createDto.startTime} (${timezone}).`,
+      metadata: { seriesId: series.id, lessonPackageId: lessonPackage.id },
+    });
+
+    this.logger.log(
+      `Created series ${series.id} with ${bookable.length} lesson(s) for package ${lessonPackage.id}`,
+    );
+    return {
+      series: await this.findOne(series.id, studentId),
+      occurrences,
+      bookedCount: bookable.length,
+      conflictCount,
+      stoppedReason,
+    };
+  }
+
+  async findAll(
+    userId: string,
+    searchDto: SearchBookingSeriesDto,
+  ): Promise<BookingSeriesVm[]> {
+    const series = await this.prisma.bookingSeries.findMany({
+      where: {
+        OR: [{ studentId: userId }, { teacherId: userId }],
+        status: searchDto.status,
+      },
+      include: { bookings: { orderBy: { scheduledAt: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return series.map((item) => this.toBookingSeriesVm(item));
+  }
+
+  async findOne(
+    id: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<BookingSeriesVm> {
+    return this.toBookingSeriesVm(await this.findSeries(id, userId, userRole));
+  }
+
+  /**
+   * Move the upcoming lessons of the series to a new weekly pattern, one new
+   * slot per lesson in order. Lessons whose new slot is taken keep their
+   * current time when conflicts are skipped.
+   */
+  async reschedule(
+    id: string,
+    rescheduleDto: RescheduleBookingSeriesDto,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<BookingSeriesPlanVm> {
+    const series = await this.findSeries(id, userId, userRole);
+    if (series.status !== BookingSeriesStatus.ACTIVE) {
+      throw new BadRequestException('Only active series can be rescheduled');
+    }
+
+    const now = new Date();
+    const effectiveFrom =
+      rescheduleDto.effectiveFrom?.slice(0, 10) ||
+      getZonedParts(now, series.timezone).date;
+    const from = new Date(
+      Math.max(
+        now.getTime(),
+        zonedTimeToUtc(effectiveFrom, '00:00', series.timezone).getTime(),
+      ),
+    );
+    const upcoming = series.bookings.filter(
+      (booking) =>
+        OPEN_BOOKING_STATUSES.includes(booking.status) &&
+        booking.scheduledAt >= from,
+    );
+    if (upcoming.length === 0) {
+      throw new BadRequestException('The series has no upcoming lessons');
+    }
+
+    const daysOfWeek = rescheduleDto.daysOfWeek || series.daysOfWeek;
+    const startTime = rescheduleDto.startTime || series.startTime;
+    const weeks = Math.ceil(upcoming.length / daysOfWeek.length) + 1;
+    const dates = this.getSeriesDates(daysOfWeek, effectiveFrom, weeks)
+      .filter((date) => zonedTimeToUtc(date, startTime, series.timezone) > now)
+      .slice(0, upcoming.length);
+
+    const plan: OccurrencePlan = {
+      timezone: series.timezone,
+      startTime,
+      duration: series.duration,
+      dates,
+      capacity: upcoming.length,
+      movingBookingIds: upcoming.map((booking) => booking.id),
+    };
+    const occurrences = await this.planOccurrences(series.lessonPackage, plan);
+    const moves = occurrences
+      .map((occurrence, index) => ({ occurrence, booking: upcoming[index] }))
+      .filter(({ occurrence }) => occurrence.status === 'AVAILABLE');
+    const blockedCount = upcoming.length - moves.length;
+
+    if (rescheduleDto.dryRun) {
+      return {
+        occurrences,
+        bookedCount: 0,
+        conflictCount: blockedCount,
+      };
+    }
+    if (blockedCount > 0 && !rescheduleDto.skipConflicts) {
+      throw new ConflictException(
+        `${blockedCount} of ${upcoming.length} lessons cannot be moved to the new time. Check them with dryRun or set skipConflicts to move the rest.`,
+      );
+    }
+
+    const holds = await this.holdOccurrences(
+      series.lessonPackage,
+      plan,
+      occurrences,
+      userId,
+    );
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        for (const { occurrence, booking } of moves) {
+          await tx.booking.update({
+            where: { id: booking.id },
+            data: { scheduledAt: occurrence.scheduledAt },
+          });
+          await tx.lesson.updateMany({
+            where: { bookingId: booking.id, status: LessonStatus.SCHEDULED },
+            data: { scheduledAt: occurrence.scheduledAt },
+          });
+          occurrence.bookingId = booking.id;
+        }
+
+        await tx.bookingSeries.update({
+          where: { id },
+          data: { daysOfWeek: [...daysOfWeek].sort(), startTime },
+        });
+      });
+    } catch (error) {
+      await this.slotHoldService.releaseAll(holds, 'FAILED');
+      throw error;
+    }
+
+    for (const [index, { booking }] of moves.entries()) {
+      await this.slotHoldService.convert(holds[index].id, {
+        bookingId: booking.id,
+      });
+    }
+
+    await this.notifyOtherParticipant(
+      series,
+      userId,
+      'BOOKING_SERIES_RESCHEDULED',
+      'Weekly lessons rescheduled',
+      `${moves.length} upcoming lessons of your weekly series now take place at ${startTime} (${series.timezone}).`,
+    );
+
+    this.logger.log(`Moved ${moves.length} lesson(s) of series ${id}`);
+    return {
+      series: await this.findOne(id, userId, userRole),
+      occurrences,
+      bookedCount: moves.length,
+      conflictCount: blockedCount,
+    };
+  }
+
+  /**
+   * Cancel every upcoming lesson of the series. Each lesson goes through the
+   * regular cancellation, so the booking policy applies to late ones.
+   */
+  async cancel(
+    id: string,
+    cancelDto: CancelBookingSeriesDto,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<BookingSeriesVm> {
+    const series = await this.findSeries(id, userId, userRole);
+    if (series.status !== BookingSeriesStatus.ACTIVE) {
+      throw new BadRequestException('Only active series can be cancelled');
+    }
+
+    const now = new Date();
+    const upcoming = series.bookings.filter(
+      (booking) =>
+        OPEN_BOOKING_STATUSES.includes(booking.status) &&
+        booking.scheduledAt > now,
+    );
+
+    for (const booking of upcoming) {
+      await this.bookingService.cancel(
+        booking.id,
+        cancelDto.reason || 'Weekly series cancelled',
+        userId,
+        userRole,
+      );
+    }
+
+    await this.prisma.bookingSeries.update({
+      where: { id },
+      data: { status: BookingSeriesStatus.CANCELLED },
+    });
+
+    await this.notifyOtherParticipant(
+      series,
+      userId,
+      'BOOKING_SERIES_CANCELLED',
+      'Weekly lessons cancelled',
+      `${upcoming.length} upcoming lessons of your weekly series were cancelled.`,
+    );
+
+    this.logger.log(
+      `Cancelled series ${id} with ${upcoming.length} upcoming lesson(s)`,
+    );
+    return this.findOne(id, userId, userRole);
+  }
+
+  /**
+   * Keep active series within their package: lessons the package can no
+   * longer pay for, or that fall after it expires, are cancelled, and series
+   * without upcoming lessons are closed
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async stopExhaustedSeries(): Promise<void> {
+    const activeSeries = await this.prisma.bookingSeries.findMany({
+      where: { status: BookingSeriesStatus.ACTIVE },
+      include: {
+        lessonPackage: true,
+        bookings: {
+          where: { status: { in: OPEN_BOOKING_STATUSES } },
+          orderBy: { scheduledAt: 'asc' },
+        },
+      },
+      take: SERIES_BATCH_SIZE,
+    });
+
+    const now = new Date();
+    for (const series of activeSeries) {
+      try {
+        const lessonPackage = series.lessonPackage;
+        const upcoming = series.bookings.filter(
+          (booking) => booking.scheduledAt > now,
+        );
+
+        let stoppedReason: string | null = null;
+        let stopped: Booking[] = [];
+        if (!lessonPackage.isActive) {
+          stoppedReason = 'PACKAGE_INACTIVE';
+          stopped = upcoming;
+        } else {
+          stopped = upcoming.filter(
+            (booking) =>
+              booking.scheduledAt.getTime() + booking.duration * 60000 >
+              lessonPackage.expiresAt.getTime(),
+          );
+          if (stopped.length > 0) {
+            stoppedReason = 'PACKAGE_EXPIRED';
+          }
+
+          const excess =
+            (await this.countOpenPackageBookings(lessonPackage.id)) -
+            stopped.length -
+            lessonPackage.remainingLessons;
+          if (excess > 0) {
+            const kept = upcoming.filter(
+              (booking) => !stopped.includes(booking),
+            );
+            stopped = [...stopped, ...kept.slice(-excess)];
+            stoppedReason = stoppedReason || 'PACKAGE_USED_UP';
+          }
+        }
+
+        for (const booking of stopped) {
+          await this.bookingService.cancel(
+            booking.id,
+            `Weekly series stopped: ${stoppedReason}`,
+            undefined,
+            UserRole.ADMIN,
+          );
+        }
+
+        const remaining = series.bookings.length - stopped.length;
+        if (stopped.length > 0 || remaining === 0) {
+          await this.prisma.bookingSeries.update({
+            where: { id: series.id },
+            data: {
+              status:
+                upcoming.length - stopped.length === 0
+                  ? BookingSeriesStatus.COMPLETED
+                  : BookingSeriesStatus.ACTIVE,
+              stoppedReason: stoppedReason || series.stoppedReason,
+            },
+          });
+        }
+
+        if (stopped.length > 0) {
+          await this.notificationInboxService.create({
+            userId: series.studentId,
+            type: 'BOOKING_SERIES_STOPPED',
+            title: 'Weekly lessons stopped',
+            message: `${
+              stopped.length
+            } upcoming lessons of your weekly series were cancelled because your lesson package ${
+              stoppedReason === 'PACKAGE_USED_UP'
+                ? 'has no lessons left'
+                : 'is no longer valid'
+            }.`,
+            priority: 'high',
+            metadata: { seriesId: series.id, stoppedReason },
+          });
+          this.logger.log(
+            `Stopped ${stopped.length} lesson(s) of series ${series.id}: ${stoppedReason}`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(`Failed to check series ${series.id}`, error);
+      }
+    }
+  }
+
+  /**
+   * Hold the slots of the bookable occurrences, then plan them again: a
+   * booking made since the first plan would otherwise be missed
+   */
+  private async holdOccurrences(
+    lessonPackage: LessonPackage,
+    plan: OccurrencePlan,
+    occurrences: SeriesOccurrenceVm[],
+    holderId: string,
+  ): Promise<SlotHold[]> {
+    const holds = await this.slotHoldService.holdAll(
+      occurrences
+        .filter((occurrence) => occurrence.status === 'AVAILABLE')
+        .map((occurrence) => ({
+          teacherId: lessonPackage.teacherId,
+          startsAt: occurrence.scheduledAt,
+          duration: plan.duration,
+          holderId,
+        })),
+    );
+
+    const replanned = await this.planOccurrences(lessonPackage, plan);
+    const taken = replanned.filter(
+      (occurrence, index) =>
+        occurrences[index].status === 'AVAILABLE' &&
+        occurrence.status !== 'AVAILABLE',
+    ).length;
+    if (taken > 0) {
+      await this.slotHoldService.releaseAll(holds, 'FAILED');
+      throw new ConflictException(
+        `${taken} lessons of the series were booked by someone else in the meantime, please try again`,
+      );
+    }
+
+    return holds;
+  }
+
+  /**
+   * Local days of the series: every matching weekday in `weeks` weeks from
+   * `startDate`
+   */
+  private getSeriesDates(
+    daysOfWeek: number[],
+    startDate: string,
+    weeks: number,
+  ): string[] {
+    const dates: string[] = [];
+    for (let offset = 0; offset < weeks * 7; offset++) {
+      const date = addDays(startDate, offset);
+      if (daysOfWeek.includes(getDayOfWeek(date))) {
+        dates.push(date);
+      }
+    }
+    return dates;
+  }
+
+  private async planOccurrences(
+    lessonPackage: LessonPackage,
+    plan: OccurrencePlan,
+  ): Promise<SeriesOccurrenceVm[]> {
+    if (plan.dates.length === 0) {
+      return [];
+    }
+
+    const { teacherId, studentId } = lessonPackage;
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: teacherId },
+      select: { timezone: true },
+    });
+    const teacherTimezone = resolveTimeZone(teacher?.timezone);
+    const availabilities = await this.prisma.teacherAvailability.findMany({
+      where: { teacherId, isActive: true },
+    });
+
+    const times = plan.dates.map((date) =>
+      zonedTimeToUtc(date, plan.startTime, plan.timezone),
+    );
+    const durationMs = plan.duration * 60000;
+    const existing = await this.prisma.booking.findMany({
+      where: {
+        OR: [{ teacherId }, { studentId }],
+        status: { in: OPEN_BOOKING_STATUSES },
+        scheduledAt: {
+          // Bookings are at most a few hours long, a day covers any overlap
+          gte: new Date(times[0].getTime() - 24 * 60 * 60 * 1000),
+          lt: new Date(times[times.length - 1].getTime() + durationMs),
+        },
+        id: { notIn: plan.movingBookingIds || [] },
+      },
+      select: {
+        id: true,
+        teacherId: true,
+        studentId: true,
+        scheduledAt: true,
+        duration: true,
+      },
+    });
+
+    const now = Date.now();
+    let capacity = plan.capacity;
+
+    return plan.dates.map((localDate, index) => {
+      const scheduledAt = times[index];
+      const start = scheduledAt.getTime();
+      const end = start + durationMs;
+      const occurrence: SeriesOccurrenceVm = {
+        scheduledAt,
+        localDate,
+        localTime: plan.startTime,
+        status: 'AVAILABLE',
+      };
+
+      const overlapping = existing.filter(
+        (booking) =>
+          booking.scheduledAt.getTime() < end &&
+          booking.scheduledAt.getTime() + booking.duration * 60000 > start,
+      );
+      const teacherConflict = overlapping.find(
+        (booking) => booking.teacherId === teacherId,
+      );
+      const studentConflict = overlapping.find(
+        (booking) => booking.studentId === studentId,
+      );
+
+      if (start <= now) {
+        occurrence.status = 'IN_PAST';
+      } else if (end > lessonPackage.expiresAt.getTime()) {
+        occurrence.status = 'PACKAGE_EXPIRED';
+      } else if (
+        !isWithinAvailability(
+          availabilities,
+          scheduledAt,
+          plan.duration,
+          teacherTimezone,
+        )
+      ) {
+        occurrence.status = 'OUTSIDE_AVAILABILITY';
+      } else if (teacherConflict) {
+        occurrence.status = 'TEACHER_CONFLICT';
+        occurrence.conflictingBookingId = teacherConflict.id;
+      } else if (studentConflict) {
+        occurrence.status = 'STUDENT_CONFLICT';
+        occurrence.conflictingBookingId = studentConflict.id;
+      } else if (capacity <= 0) {
+        occurrence.status = 'PACKAGE_USED_UP';
+      } else {
+        capacity--;
+      }
+
+      return occurrence;
+    });
+  }
+
+  private countOpenPackageBookings(lessonPackageId: string): Promise<number> {
+    return this.prisma.booking.count({
+      where: { lessonPackageId, status: { in: OPEN_BOOKING_STATUSES } },
+    });
+  }
+
+  private countConflicts(occurrences: SeriesOccurrenceVm[]): number {
+    return occurrences.filter((occurrence) =>
+      CONFLICT_STATUSES.includes(occurrence.status),
+    ).length;
+  }
+
+  private getStoppedReason(
+    occurrences: SeriesOccurrenceVm[],
+  ): string | undefined {
+    return occurrences.find(
+      (occurrence) =>
+        occurrence.status === 'PACKAGE_USED_UP' ||
+        occurrence.status === 'PACKAGE_EXPIRED',
+    )?.status;
+  }
+
+  private async findSeries(
+    id: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<SeriesWithBookings & { lessonPackage: LessonPackage }> {
+    const series = await this.prisma.bookingSeries.findUnique({
+      where: { id },
+      include: {
+        lessonPackage: true,
+        bookings: { orderBy: { scheduledAt: 'asc' } },
+      },
+    });
+
+    if (!series) {
+      throw new NotFoundException('Booking series not found');
+    }
+
+    if (
+      userRole !== UserRole.ADMIN &&
+      series.studentId !== userId &&
+      series.teacherId !== userId
+    ) {
+      throw new ForbiddenException('You can only access your own series');
+    }
+
+    return series;
+  }
+
+  private async notifyOtherParticipant(
+    series: BookingSeries,
+    userId: string,
+    type: string,
+    title: string,
+    message: string,
+  ): Promise<void> {
+    const recipients = [series.studentId, series.teacherId].filter(
+      (participantId) => participantId !== userId,
+    );
+
+    for (const recipientId of recipients) {
+      await this.notificationInboxService.create({
+        userId: recipientId,
+        type,
+        title,
+        message,
+        metadata: { seriesId: series.id },
+      });
+    }
+  }
+
+  private toBookingSeriesVm(series: SeriesWithBookings): BookingSeriesVm {
+    return {
+      id: series.id,
+      lessonPackageId: series.lessonPackageId,
+      studentId: series.studentId,
+      teacherId: series.teacherId,
+      daysOfWeek: series.daysOfWeek,
+      startTime: series.startTime,
+      timezone: series.timezone,
+      duration: series.duration,
+      startDate: series.startDate.toISOString().split('T')[0],
+      weeks: series.weeks,
+      status: series.status,
+      stoppedReason: series.stoppedReason,
+      notes: series.notes,
+      bookings: series.bookings.map((booking) => ({
+        id: booking.id,
+        scheduledAt: booking.scheduledAt,
+        duration: booking.duration,
+        status: booking.status,
+      })),
+      createdAt: series.createdAt,
+      updatedAt: series.updatedAt,
+    };
+  }
+}
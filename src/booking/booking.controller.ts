@@ -236,7 +236,8 @@ export class BookingController {
     return this.bookingService.getTeacherAvailability(
       teacherId,
       query.daysAhead || 7,
-      query.duration || 60
+      query.duration || 60,
+      query.timezone,
     );
   }
 
@@ -350,7 +351,11 @@ export class BookingController {
   @Patch(':id/cancel')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Cancel booking' })
+  @ApiOperation({
+    summary: 'Cancel booking',
+    description:
+      'Cancelling a confirmed booking applies the cancellation policy; the decision is available from GET booking-policy/decisions/:bookingId',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Booking cancelled successfully',
@@ -448,6 +453,8 @@ export class BookingController {
         hourlyRate: booking.teacher.hourlyRate,
       },
       scheduledAt: booking.scheduledAt.toString(),
+      studentLocalTime: booking.studentLocalTime,
+      teacherLocalTime: booking.teacherLocalTime,
       duration: booking.duration,
       status: booking.status,
       notes: booking.notes,
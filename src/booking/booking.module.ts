@@ -2,17 +2,58 @@ import { Module } from '@nestjs/common';
 import { BookingService } from './booking.service';
 import { TrialLessonFlowService } from './trial-lesson-flow.service';
 import { NotificationService } from './notification.service';
+import { BookingMetadataService } from './booking-metadata.service';
+import { BookingSeriesService } from './booking-series.service';
+import { BookingSeriesController } from './booking-series.controller';
 import { BookingController } from './booking.controller';
 import { LessonPackageLifecycleController } from './lesson-package-lifecycle.controller';
 import { LessonPackageLifecycleService } from './lesson-package-lifecycle.service';
 import { PrismaModule } from '../common/prisma/prisma.module';
 import { ReviewModule } from '../review/review.module';
 import { SchedulingModule } from '../scheduling/scheduling.module';
+import { NotificationModule } from '../notification/notification.module';
+import { EmailModule } from '../email/email.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { EarningsModule } from '../earnings/earnings.module';
+import { MeetingModule } from '../meeting/meeting.module';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { BookingPolicyModule } from '../booking-policy/booking-policy.module';
+import { SlotHoldModule } from '../slot-hold/slot-hold.module';
 
 @Module({
-  imports: [PrismaModule, ReviewModule, SchedulingModule],
-  controllers: [BookingController, LessonPackageLifecycleController],
-  providers: [BookingService, TrialLessonFlowService, NotificationService, LessonPackageLifecycleService],
-  exports: [BookingService, TrialLessonFlowService, NotificationService, LessonPackageLifecycleService],
+  imports: [
+    PrismaModule,
+    ReviewModule,
+    SchedulingModule,
+    NotificationModule,
+    EmailModule,
+    RealtimeModule,
+    EarningsModule,
+    MeetingModule,
+    AttendanceModule,
+    BookingPolicyModule,
+    SlotHoldModule,
+  ],
+  controllers: [
+    BookingController,
+    BookingSeriesController,
+    LessonPackageLifecycleController,
+  ],
+  providers: [
+    BookingService,
+    BookingMetadataService,
+    BookingSeriesService,
+    TrialLessonFlowService,
+    NotificationService,
+    LessonPackageLifecycleService,
+  ],
+  exports: [
+    BookingService,
+    BookingMetadataService,
+    BookingSeriesService,
+    TrialLessonFlowService,
+    NotificationService,
+    LessonPackageLifecycleService,
+  ],
 })
 export class BookingModule {}
@@ -6,6 +6,34 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { NotificationService } from './notification.service';
+import {
+  BookingMetadataService,
+  TeacherResponseType,
+} from './booking-metadata.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { BookingPolicyService } from '../booking-policy/booking-policy.service';
+import { isLateCancellation } from '../booking-policy/booking-policy';
+import { SlotHoldService } from '../slot-hold/slot-hold.service';
+import { assertCanBookLessons } from '../auth/utils/email-verification';
+import { consumePackageLesson } from './lesson-package-capacity';
+import {
+  getAvailabilityIntervals,
+  isWithinAvailability,
+  AvailabilityInterval,
+} from '../teacherAvailability/availability-windows';
+import {
+  addDays,
+  eachDay,
+  getZonedDayRange,
+  getZonedParts,
+  isValidTimeZone,
+  resolveTimeZone,
+  toZonedTime,
+} from '../common/timezone/timezone.util';
 import { CreateBookingDto, BookTrialLessonDto, BookCourseDto } from './dto/create-booking.dto';
 import { UpdateBookingDto, RescheduleBookingDto } from './dto/update-booking.dto';
 import { SearchBookingDto, GetAvailableTimesDto } from './dto/search-booking.dto';
@@ -41,6 +69,7 @@ import {
   UserRole,
   LessonStatus,
   EnglishLevel,
+  Prisma,
 } from '@prisma/client';
 
 type BookingWithRelations = Booking & {
@@ -50,9 +79,28 @@ type BookingWithRelations = Booking & {
   lesson?: { id: string; status: LessonStatus; meetingUrl?: string } | null;
 };
 
+const TEACHER_RESPONSES: Record<
+  TeacherBookingActionDto['action'],
+  TeacherResponseType
+> = {
+  ACCEPT: 'ACCEPTED',
+  DECLINE: 'DECLINED',
+  REQUEST_RESCHEDULE: 'RESCHEDULE_REQUESTED',
+};
+
 @Injectable()
 export class BookingService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly realtimeService: RealtimeService,
+    private readonly earningsService: EarningsService,
+    private readonly bookingMetadataService: BookingMetadataService,
+    private readonly meetingService: MeetingService,
+    private readonly bookingPolicyService: BookingPolicyService,
+    private readonly slotHoldService: SlotHoldService,
+  ) {}
 
   private toBookingVm(booking: BookingWithRelations): BookingVm {
     return {
@@ -61,6 +109,14 @@ export class BookingService {
       teacherId: booking.teacherId,
       courseId: booking.courseId,
       scheduledAt: booking.scheduledAt,
+      studentLocalTime: toZonedTime(
+        booking.scheduledAt,
+        resolveTimeZone(booking.student.timezone),
+      ),
+      teacherLocalTime: toZonedTime(
+        booking.scheduledAt,
+        resolveTimeZone(booking.teacher.timezone),
+      ),
       duration: booking.duration,
       notes: booking.notes,
       status: booking.status,
@@ -116,6 +172,8 @@ export class BookingService {
       throw new NotFoundException('Student not found');
     }
 
+    assertCanBookLessons(student.user);
+
     // Validate teacher exists and is approved
     const teacher = await this.prisma.teacher.findUnique({
       where: { id: createBookingDto.teacherId },
@@ -168,33 +226,47 @@ export class BookingService {
       createBookingDto.duration || 30
     );
 
-    // Check for conflicting bookings
-    await this.checkForConflicts(
-      createBookingDto.teacherId,
-      studentId,
-      scheduledAt,
-      createBookingDto.duration || 30
-    );
-
-    // Create booking
-    const booking = await this.prisma.booking.create({
-      data: {
-        studentId,
+    // Hold the slot before checking it, so a concurrent request for the same
+    // teacher and time cannot pass the conflict check as well
+    const booking = await this.slotHoldService.withHold(
+      {
         teacherId: createBookingDto.teacherId,
-        courseId: createBookingDto.courseId,
-        scheduledAt,
+        startsAt: scheduledAt,
         duration: createBookingDto.duration || 30,
-        notes: createBookingDto.notes,
-        isTrialLesson: createBookingDto.isTrialLesson ?? true,
-        status: BookingStatus.PENDING,
+        holderId: studentId,
+        holdId: createBookingDto.holdId,
       },
-      include: {
-        student: { include: { user: true } },
-        teacher: { include: { user: true } },
-        course: true,
-        lesson: true,
+      async () => {
+        // Check for conflicting bookings
+        await this.checkForConflicts(
+          createBookingDto.teacherId,
+          studentId,
+          scheduledAt,
+          createBookingDto.duration || 30,
+        );
+
+        // Create booking
+        return this.prisma.booking.create({
+          data: {
+            studentId,
+            teacherId: createBookingDto.teacherId,
+            courseId: createBookingDto.courseId,
+            scheduledAt,
+            duration: createBookingDto.duration || 30,
+            notes: createBookingDto.notes,
+            isTrialLesson: createBookingDto.isTrialLesson ?? true,
+            status: BookingStatus.PENDING,
+          },
+          include: {
+            student: { include: { user: true } },
+            teacher: { include: { user: true } },
+            course: true,
+            lesson: true,
+          },
+        });
       },
-    });
+      (created) => ({ bookingId: created.id }),
+    );
 
     return this.toBookingVm(booking);
   }
@@ -416,21 +488,61 @@ export class BookingService {
       );
     }
 
-    const booking = await this.prisma.booking.update({
-      where: { id },
-      data: {
-        scheduledAt: updateBookingDto.scheduledAt ? new Date(updateBookingDto.scheduledAt) : undefined,
-        duration: updateBookingDto.duration,
-        notes: updateBookingDto.notes,
-        status: updateBookingDto.status,
-      },
-      include: {
-        student: { include: { user: true } },
-        teacher: { include: { user: true } },
-        course: true,
-        lesson: true,
-      },
-    });
+    const updateBooking = () =>
+      this.prisma.booking.update({
+        where: { id },
+        data: {
+          scheduledAt: updateBookingDto.scheduledAt
+            ? new Date(updateBookingDto.scheduledAt)
+            : undefined,
+          duration: updateBookingDto.duration,
+          notes: updateBookingDto.notes,
+          status: updateBookingDto.status,
+        },
+        include: {
+          student: { include: { user: true } },
+          teacher: { include: { user: true } },
+          course: true,
+          lesson: true,
+        },
+      });
+
+    // A new time is held and checked like a new booking
+    const booking = updateBookingDto.scheduledAt
+      ? await this.slotHoldService.withHold(
+          {
+            teacherId: existingBooking.teacherId,
+            startsAt: new Date(updateBookingDto.scheduledAt),
+            duration: updateBookingDto.duration || existingBooking.duration,
+            holderId: userId,
+          },
+          async () => {
+            await this.checkForConflicts(
+              existingBooking.teacherId,
+              existingBooking.studentId,
+              new Date(updateBookingDto.scheduledAt),
+              updateBookingDto.duration || existingBooking.duration,
+              id,
+            );
+            return updateBooking();
+          },
+          (updated) => ({ bookingId: updated.id }),
+        )
+      : await updateBooking();
+
+    if (
+      booking.status !== existingBooking.status ||
+      updateBookingDto.scheduledAt
+    ) {
+      this.realtimeService.bookingStatusChanged(
+        booking,
+        existingBooking.status,
+      );
+    }
+
+    if (booking.status !== existingBooking.status) {
+      await this.earningsService.syncBooking(booking.id);
+    }
 
     return this.toBookingVm(booking);
   }
@@ -458,21 +570,73 @@ export class BookingService {
       throw new BadRequestException('Booking is already cancelled');
     }
 
-    // Check cancellation timing (e.g., at least 24 hours before)
-    const now = new Date();
-    const scheduledAt = new Date(booking.scheduledAt);
-    const hoursUntilBooking = (scheduledAt.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-    if (hoursUntilBooking < 24 && userRole !== UserRole.ADMIN) {
-      throw new BadRequestException('Bookings can only be cancelled at least 24 hours in advance');
+    // Late cancellations of confirmed lessons are only possible where the
+    // booking policy has something to apply, i.e. for package lessons
+    const policy = await this.bookingPolicyService.getPolicy();
+    const lessonPackage = await this.prisma.lessonPackage.findFirst({
+      where: { bookings: { some: { id } } },
+    });
+    const isLate =
+      booking.status === BookingStatus.CONFIRMED &&
+      isLateCancellation(policy, booking.scheduledAt);
+    if (isLate && userRole !== UserRole.ADMIN && !lessonPackage) {
+      throw new BadRequestException(
+        `Bookings can only be cancelled at least ${policy.lateCancellationHours} hours in advance`,
+      );
     }
 
-    const updateData: any = { status: BookingStatus.CANCELLED };
+    const updateData: Prisma.BookingUpdateManyMutationInput = {
+      status: BookingStatus.CANCELLED,
+    };
     if (reason) {
-      updateData.notes = booking.notes ? `${booking.notes}\nCancellation reason: ${reason}` : `Cancellation reason: ${reason}`;
+      const note = `Cancellation reason: ${reason}`;
+      updateData.notes = booking.notes ? `${booking.notes}\n${note}` : note;
     }
 
-    return this.update(id, updateData, userId, userRole);
+    // The status change and the policy decision are stored together, so a
+    // failed cancellation leaves no deduction, fee or credit behind
+    const decision = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.booking.updateMany({
+        where: { id, status: booking.status },
+        data: updateData,
+      });
+      if (count !== 1) {
+        throw new ConflictException('Booking status changed, please try again');
+      }
+
+      return booking.status === BookingStatus.CONFIRMED
+        ? this.bookingPolicyService.applyCancellation(
+            tx,
+            id,
+            userRole || UserRole.ADMIN,
+            userId,
+          )
+        : null;
+    });
+
+    await this.earningsService.syncBooking(id);
+    if (decision) {
+      await this.bookingPolicyService.notifyStudent(decision);
+    }
+
+    const cancelledBooking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: {
+        student: { include: { user: true } },
+        teacher: { include: { user: true } },
+        course: true,
+        lesson: true,
+      },
+    });
+    this.realtimeService.bookingStatusChanged(cancelledBooking, booking.status);
+
+    // Lessons booked ahead, e.g. from a package, would otherwise still be checked for attendance
+    await this.prisma.lesson.updateMany({
+      where: { bookingId: id, status: LessonStatus.SCHEDULED },
+      data: { status: LessonStatus.CANCELLED },
+    });
+
+    return this.toBookingVm(cancelledBooking);
   }
 
   async complete(id: string, userId?: string, userRole?: UserRole): Promise<BookingVm> {
@@ -492,12 +656,14 @@ export class BookingService {
           courseId: booking.courseId,
           scheduledAt: booking.scheduledAt,
           duration: booking.duration,
+          meetingUrl: this.meetingService.getRoom(id).meetingUrl,
           status: LessonStatus.COMPLETED,
         },
       });
     }
 
     const completedBooking = await this.update(id, { status: BookingStatus.COMPLETED }, userId, userRole);
+    await this.prisma.$transaction((tx) => consumePackageLesson(tx, id));
 
     // If this is a trial lesson, trigger feedback notification
     if (booking.isTrialLesson) {
@@ -519,7 +685,12 @@ export class BookingService {
   }
 
   // Availability Methods
-  async getTeacherAvailability(teacherId: string, daysAhead: number = 7, duration: number = 60): Promise<TeacherAvailabilityVm> {
+  async getTeacherAvailability(
+    teacherId: string,
+    daysAhead = 7,
+    duration = 60,
+    studentTimezone?: string,
+  ): Promise<TeacherAvailabilityVm> {
     const teacher = await this.prisma.teacher.findUnique({
       where: { id: teacherId },
       include: {
@@ -532,31 +703,47 @@ export class BookingService {
       throw new NotFoundException('Teacher not found');
     }
 
+    // Days are counted on the teacher's calendar
+    const timezone = resolveTimeZone(teacher.timezone);
     const availability: AvailableTimeSlotVm[] = [];
-    const today = new Date();
+    const today = getZonedParts(new Date(), timezone).date;
     
     for (let i = 0; i < daysAhead; i++) {
-      const checkDate = new Date(today);
-      checkDate.setDate(today.getDate() + i);
-      
-      const dayOfWeek = checkDate.getDay();
-      const dateStr = checkDate.toISOString().split('T')[0];
+      const dateStr = addDays(today, i);
       
       // Find teacher's availability for this day
-      const dayAvailability = teacher.availabilities.filter(av => av.dayOfWeek === dayOfWeek);
-      
+      const dayAvailability = getAvailabilityIntervals(
+        teacher.availabilities,
+        dateStr,
+        timezone,
+      );
+
       if (dayAvailability.length === 0) {
         continue;
       }
 
       // Get available time slots for this date
-      const timeSlots = await this.getAvailableTimeSlots(teacherId, checkDate, duration);
-      
-      if (timeSlots.length > 0) {
+      const slotStarts = await this.getAvailableTimeSlots(
+        teacherId,
+        dateStr,
+        duration,
+        timezone,
+      );
+
+      if (slotStarts.length > 0) {
+        const dayOfWeek = getZonedParts(slotStarts[0], timezone).dayOfWeek;
+
         availability.push({
           date: dateStr,
           dayOfWeek,
-          timeSlots,
+          timeSlots: slotStarts.map(
+            (slotStart) => getZonedParts(slotStart, timezone).time,
+          ),
+          studentTimeSlots: studentTimezone
+            ? slotStarts.map((slotStart) =>
+                toZonedTime(slotStart, studentTimezone),
+              )
+            : undefined,
           isToday: i === 0,
           isWeekend: dayOfWeek === 0 || dayOfWeek === 6,
         });
@@ -567,76 +754,74 @@ export class BookingService {
       teacherId,
       teacherName: `${teacher.user.firstName} ${teacher.user.lastName}`,
       timezone: teacher.timezone,
+      studentTimezone,
       availability,
     };
   }
 
-  async getAvailableTimeSlots(teacherId: string, date: Date, duration: number): Promise<string[]> {
-    const dayOfWeek = date.getDay();
-    
+  /**
+   * Free slot starts on a day of the teacher's calendar, every 30 minutes
+   */
+  async getAvailableTimeSlots(
+    teacherId: string,
+    date: string,
+    duration: number,
+    timezone: string,
+  ): Promise<Date[]> {
     // Get teacher's availability for this day
-    const availabilities = await this.prisma.teacherAvailability.findMany({
-      where: {
-        teacherId,
-        dayOfWeek,
-        isActive: true,
-      },
-    });
+    const teacherAvailabilities =
+      await this.prisma.teacherAvailability.findMany({
+        where: {
+          teacherId,
+          isActive: true,
+        },
+      });
+    const intervals = getAvailabilityIntervals(
+      teacherAvailabilities,
+      date,
+      timezone,
+    );
 
-    if (availabilities.length === 0) {
+    if (intervals.length === 0) {
       return [];
     }
 
     // Get existing bookings for this date
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const existingBookings = await this.prisma.booking.findMany({
-      where: {
-        teacherId,
-        scheduledAt: {
-          gte: startOfDay,
-          lte: endOfDay,
-        },
-        status: { in: [BookingStatus.CONFIRMED, BookingStatus.PENDING] },
-      },
-    });
+    const { start: startOfDay, end: endOfDay } = getZonedDayRange(
+      date,
+      timezone,
+    );
+    const existingBookings = await this.getExistingBookingsBetween(
+      teacherId,
+      startOfDay,
+      endOfDay,
+    );
 
-    const availableSlots: string[] = [];
+    const availableSlots: Date[] = [];
     
-    for (const availability of availabilities) {
-      const startTime = this.parseTime(availability.startTime);
-      const endTime = this.parseTime(availability.endTime);
-      
+    for (const interval of intervals) {
       // Generate time slots
-      let currentTime = startTime;
-      while (currentTime + duration <= endTime) {
-        const slotStart = new Date(date);
-        slotStart.setHours(Math.floor(currentTime / 60), currentTime % 60, 0, 0);
-        
-        const slotEnd = new Date(slotStart);
-        slotEnd.setMinutes(slotEnd.getMinutes() + duration);
-        
-        // Check if slot conflicts with existing bookings
-        const hasConflict = existingBookings.some(booking => {
-          const bookingStart = new Date(booking.scheduledAt);
-          const bookingEnd = new Date(bookingStart);
-          bookingEnd.setMinutes(bookingEnd.getMinutes() + booking.duration);
-          
-          return (slotStart < bookingEnd && slotEnd > bookingStart);
-        });
-        
-        if (!hasConflict && slotStart > new Date()) {
-          availableSlots.push(this.formatTime(currentTime));
+      const slotStart = new Date(interval.start);
+      while (slotStart.getTime() + duration * 60000 <= interval.end.getTime()) {
+        const slotEnd = new Date(slotStart.getTime() + duration * 60000);
+
+        if (
+          this.isSlotAvailable(
+            slotStart,
+            slotEnd,
+            existingBookings,
+            duration,
+          ) &&
+          slotStart > new Date()
+        ) {
+          availableSlots.push(new Date(slotStart));
         }
         
-        currentTime += 30; // 30-minute intervals
+        slotStart.setMinutes(slotStart.getMinutes() + 30); // 30-minute intervals
       }
     }
 
-    return availableSlots.sort();
+    return availableSlots.sort((a, b) => a.getTime() - b.getTime());
   }
 
   // Statistics Methods
@@ -694,31 +879,41 @@ export class BookingService {
     duration: number,
     excludeBookingId?: string
   ): Promise<void> {
-    const dayOfWeek = scheduledAt.getDay();
-    const timeInMinutes = scheduledAt.getHours() * 60 + scheduledAt.getMinutes();
-    
-    // Check if teacher has availability for this day and time
-    const availability = await this.prisma.teacherAvailability.findFirst({
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: teacherId },
+      select: { timezone: true },
+    });
+    const timezone = resolveTimeZone(teacher?.timezone);
+
+    // Check if teacher has availability for this day and time, in their timezone
+    const availabilities = await this.prisma.teacherAvailability.findMany({
       where: {
         teacherId,
-        dayOfWeek,
         isActive: true,
       },
     });
 
-    if (!availability) {
+    const localDate = getZonedParts(scheduledAt, timezone).date;
+    if (
+      getAvailabilityIntervals(availabilities, localDate, timezone).length === 0
+    ) {
       throw new BadRequestException('Teacher is not available on this day');
     }
 
-    const startTime = this.parseTime(availability.startTime);
-    const endTime = this.parseTime(availability.endTime);
-
-    if (timeInMinutes < startTime || timeInMinutes + duration > endTime) {
-      throw new BadRequestException('Requested time is outside teacher availability hours');
+    if (
+      !isWithinAvailability(availabilities, scheduledAt, duration, timezone)
+    ) {
+      throw new BadRequestException(
+        'Requested time is outside teacher availability hours',
+      );
     }
   }
 
-  private async checkForConflicts(
+  /**
+   * Throws a ConflictException when the teacher or the student already has a
+   * pending or confirmed booking overlapping the given time
+   */
+  async checkForConflicts(
     teacherId: string,
     studentId: string,
     scheduledAt: Date,
@@ -870,40 +1065,69 @@ export class BookingService {
       throw new BadRequestException('Teacher is not available for booking');
     }
 
-    const start = startDate ? new Date(startDate) : new Date();
-    const end = endDate ? new Date(endDate) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days ahead
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+
+    // Availability is stored in the teacher's timezone, the requested dates
+    // are days of the student's calendar
+    const teacherTimezone = resolveTimeZone(teacher.timezone);
+    const studentTimezone = timezone || teacherTimezone;
+
+    const start = startDate
+      ? getZonedDayRange(startDate.split('T')[0], studentTimezone).start
+      : new Date();
+    const end = endDate
+      ? getZonedDayRange(endDate.split('T')[0], studentTimezone).end
+      : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days ahead
 
     const availableSlots: BookingFlowTimeSlotVm[] = [];
-    const current = new Date(start);
+    const teacherDays = eachDay(
+      getZonedParts(start, teacherTimezone).date,
+      getZonedParts(end, teacherTimezone).date,
+    );
 
-    while (current <= end) {
-      const dayOfWeek = current.getDay();
-      const dayAvailabilities = teacher.availabilities.filter(av => av.dayOfWeek === dayOfWeek);
+    for (const day of teacherDays) {
+      const dayAvailabilities = getAvailabilityIntervals(
+        teacher.availabilities,
+        day,
+        teacherTimezone,
+      );
 
       for (const availability of dayAvailabilities) {
         const slots = await this.generateTimeSlotsForDay(
           teacherId,
-          current,
           availability,
           duration,
-          teacher.rates
+          teacher.rates,
+          teacherTimezone,
+          studentTimezone,
+        );
+        availableSlots.push(
+          ...slots.filter((slot) => {
+            const slotStart = new Date(slot.dateTime);
+            return slotStart >= start && slotStart < end;
+          }),
         );
-        availableSlots.push(...slots);
       }
-
-      current.setDate(current.getDate() + 1);
     }
 
     // Find next available date if no slots in range
     let nextAvailableDate: string | undefined;
     if (availableSlots.length === 0) {
-      nextAvailableDate = await this.findNextAvailableDate(teacherId, end, duration);
+      nextAvailableDate = await this.findNextAvailableDate(
+        teacherId,
+        teacherDays[teacherDays.length - 1],
+        duration,
+        teacherTimezone,
+      );
     }
 
     return {
       teacherId,
       teacherName: `${teacher.user.firstName} ${teacher.user.lastName}`,
       timezone: teacher.timezone,
+      studentTimezone,
       availableSlots,
       bookingPolicies: {
         advanceNoticeHours: teacher.advanceNoticeHours || 24,
@@ -935,7 +1159,7 @@ export class BookingService {
     }, studentId);
 
     // Store additional booking metadata
-    await this.storeBookingMetadata(booking.id, {
+    await this.bookingMetadataService.save(booking.id, {
       learningGoals,
       howFoundTeacher,
       contactInfo,
@@ -974,22 +1198,19 @@ export class BookingService {
     }
 
     // Update booking status
-    const updatedBooking = await this.update(bookingId, {
-      status: BookingStatus.CONFIRMED,
-      notes: confirmDto.confirmationNotes ? 
-        `${booking.notes || ''}\nConfirmation notes: ${confirmDto.confirmationNotes}` : 
-        booking.notes,
-    });
+    await this.update(bookingId, { status: BookingStatus.CONFIRMED });
 
     // Generate confirmation details
     const confirmationCode = this.generateConfirmationCode();
-    const meetingUrl = await this.generateMeetingUrl(bookingId);
+    const { meetingUrl } = this.meetingService.getRoom(bookingId);
+    const confirmedAt = new Date();
 
     // Store confirmation details
-    await this.storeConfirmationDetails(bookingId, {
+    await this.bookingMetadataService.save(bookingId, {
       confirmationCode,
+      confirmationNotes: confirmDto.confirmationNotes,
+      confirmedAt,
       meetingUrl,
-      confirmedAt: new Date(),
     });
 
     // Notify teacher of confirmation
@@ -998,7 +1219,7 @@ export class BookingService {
     return {
       booking: this.toBookingRequestVm(await this.getBookingWithFullDetails(bookingId)),
       confirmation: {
-        confirmedAt: new Date().toISOString(),
+        confirmedAt: confirmedAt.toISOString(),
         confirmationCode,
         meetingUrl,
         preparationNotes: 'Please join the lesson 5 minutes before the scheduled time.',
@@ -1057,37 +1278,49 @@ export class BookingService {
     status?: string,
     limit: number = 20
   ): Promise<TeacherNotificationVm[]> {
-    // In a real implementation, this would fetch from a notifications table
-    // For now, we'll return pending bookings as notifications
-    const whereClause: any = { teacherId };
-    
-    if (status === 'unread') {
-      whereClause.status = BookingStatus.PENDING;
-    }
-
-    const bookings = await this.prisma.booking.findMany({
-      where: whereClause,
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        userId: teacherId,
+        archivedAt: null,
+        ...(status === 'unread' && { readAt: null }),
+      },
       include: {
-        student: { include: { user: true } },
-        teacher: { include: { user: true } },
-        course: true,
+        booking: {
+          include: {
+            student: { include: { user: true } },
+            teacher: { include: { user: true } },
+            course: true,
+            metadata: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
       take: limit,
     });
 
-    return bookings.map(booking => ({
-      id: `notif_${booking.id}`,
-      type: booking.isTrialLesson ? 'NEW_TRIAL_REQUEST' : 'NEW_BOOKING_REQUEST',
-      title: booking.isTrialLesson ? 'New Trial Lesson Request' : 'New Lesson Booking',
-      message: `${booking.student.user.firstName} ${booking.student.user.lastName} has requested a ${booking.isTrialLesson ? 'trial ' : ''}lesson`,
-      booking: this.toBookingRequestVm(booking),
-      availableActions: ['ACCEPT', 'DECLINE', 'REQUEST_RESCHEDULE'],
-      createdAt: booking.createdAt.toISOString(),
-      isRead: booking.status !== BookingStatus.PENDING,
-      priority: this.getNotificationPriority(booking),
-      responseTimeRemaining: this.calculateResponseTimeRemaining(booking.createdAt),
-    }));
+    return notifications.map((notification) => {
+      const booking = notification.booking;
+      const awaitingResponse = booking?.status === BookingStatus.PENDING;
+
+      return {
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        booking: booking ? this.toBookingRequestVm(booking) : undefined,
+        availableActions: awaitingResponse
+          ? ['ACCEPT', 'DECLINE', 'REQUEST_RESCHEDULE']
+          : [],
+        createdAt: notification.createdAt.toISOString(),
+        isRead: !!notification.readAt,
+        priority: awaitingResponse
+          ? this.getNotificationPriority(booking)
+          : (notification.priority as TeacherNotificationVm['priority']),
+        responseTimeRemaining: awaitingResponse
+          ? this.calculateResponseTimeRemaining(booking.createdAt)
+          : undefined,
+      };
+    });
   }
 
   async getPendingBookingRequests(teacherId: string): Promise<BookingRequestVm[]> {
@@ -1100,6 +1333,7 @@ export class BookingService {
         student: { include: { user: true } },
         teacher: { include: { user: true } },
         course: true,
+        metadata: true,
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -1140,9 +1374,6 @@ export class BookingService {
       case 'ACCEPT':
         updatedBooking = await this.update(bookingId, {
           status: BookingStatus.CONFIRMED,
-          notes: actionDto.responseMessage ? 
-            `${booking.notes || ''}\nTeacher response: ${actionDto.responseMessage}` : 
-            booking.notes,
         });
         nextSteps = [
           'Student will receive confirmation email',
@@ -1154,7 +1385,6 @@ export class BookingService {
       case 'DECLINE':
         updatedBooking = await this.update(bookingId, {
           status: BookingStatus.CANCELLED,
-          notes: `${booking.notes || ''}\nDeclined by teacher. Reason: ${actionDto.declineReason || 'No reason provided'}`,
         });
         nextSteps = [
           'Student will be notified of the decline',
@@ -1177,6 +1407,22 @@ export class BookingService {
         throw new BadRequestException('Invalid action');
     }
 
+    await this.bookingMetadataService.save(bookingId, {
+      teacherResponse: TEACHER_RESPONSES[actionDto.action],
+      teacherMessage: actionDto.responseMessage,
+      declineReason:
+        actionDto.action === 'DECLINE' ? actionDto.declineReason : undefined,
+      alternativeSlots:
+        actionDto.action === 'REQUEST_RESCHEDULE'
+          ? actionDto.alternativeSlots
+          : undefined,
+      meetingUrl:
+        actionDto.action === 'ACCEPT'
+          ? this.meetingService.getRoom(bookingId).meetingUrl
+          : undefined,
+      respondedAt: new Date(),
+    });
+
     // Notify student of teacher's response
     await this.notifyStudentOfTeacherResponse(bookingId, actionDto);
 
@@ -1190,17 +1436,7 @@ export class BookingService {
   }
 
   async markNotificationAsRead(notificationId: string, teacherId: string): Promise<void> {
-    // In a real implementation, this would update a notifications table
-    // For now, we'll just validate the teacher has access to this notification
-    const bookingId = notificationId.replace('notif_', '');
-    
-    const booking = await this.prisma.booking.findUnique({
-      where: { id: bookingId },
-    });
-
-    if (!booking || booking.teacherId !== teacherId) {
-      throw new ForbiddenException('Notification not found or access denied');
-    }
+    await this.notificationInboxService.markAsRead(notificationId, teacherId);
   }
 
   async getTeacherBookingDashboard(teacherId: string): Promise<any> {
@@ -1247,6 +1483,7 @@ export class BookingService {
         student: { include: { user: true } },
         teacher: { include: { user: true } },
         course: true,
+        metadata: true,
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -1280,40 +1517,46 @@ export class BookingService {
   // Helper methods for booking flow
   private async generateTimeSlotsForDay(
     teacherId: string,
-    date: Date,
-    availability: any,
+    availability: AvailabilityInterval,
     duration: number,
-    rates: any[]
+    rates: any[],
+    teacherTimezone: string,
+    studentTimezone: string,
   ): Promise<BookingFlowTimeSlotVm[]> {
-    const startTime = this.parseTime(availability.startTime);
-    const endTime = this.parseTime(availability.endTime);
     const slots: BookingFlowTimeSlotVm[] = [];
 
-    // Get existing bookings for this day
-    const existingBookings = await this.getExistingBookingsForDay(teacherId, date);
+    // Get existing bookings around this window
+    const existingBookings = await this.getExistingBookingsBetween(
+      teacherId,
+      new Date(availability.start.getTime() - 24 * 60 * 60 * 1000),
+      availability.end,
+    );
 
-    let currentTime = startTime;
-    while (currentTime + duration <= endTime) {
-      const slotStart = new Date(date);
-      slotStart.setHours(Math.floor(currentTime / 60), currentTime % 60, 0, 0);
-      
-      const slotEnd = new Date(slotStart);
-      slotEnd.setMinutes(slotEnd.getMinutes() + duration);
+    const slotStart = new Date(availability.start);
+    while (
+      slotStart.getTime() + duration * 60000 <=
+      availability.end.getTime()
+    ) {
+      const slotEnd = new Date(slotStart.getTime() + duration * 60000);
 
       // Check if slot is available
       if (this.isSlotAvailable(slotStart, slotEnd, existingBookings, duration) && slotStart > new Date()) {
         const rate = this.getSlotRate(rates, duration);
+        // Preferred hours and rate notes follow the teacher's local clock
+        const localMinutes = getZonedParts(slotStart, teacherTimezone).minutes;
         
         slots.push({
           dateTime: slotStart.toISOString(),
+          teacherLocalTime: toZonedTime(slotStart, teacherTimezone),
+          studentLocalTime: toZonedTime(slotStart, studentTimezone),
           duration,
-          isPreferred: this.isPreferredTime(currentTime),
+          isPreferred: this.isPreferredTime(localMinutes),
           price: parseFloat(rate.toString()),
-          notes: this.getSlotNotes(currentTime),
+          notes: this.getSlotNotes(localMinutes),
         });
       }
 
-      currentTime += 30; // 30-minute intervals
+      slotStart.setMinutes(slotStart.getMinutes() + 30); // 30-minute intervals
     }
 
     return slots;
@@ -1351,60 +1594,107 @@ export class BookingService {
     }
   }
 
-  private async storeBookingMetadata(bookingId: string, metadata: any): Promise<void> {
-    // In a real implementation, this would store metadata in a separate table
-    // For now, we'll update the notes field with structured data
-    const booking = await this.prisma.booking.findUnique({ where: { id: bookingId } });
-    if (booking) {
-      await this.prisma.booking.update({
-        where: { id: bookingId },
-        data: {
-          notes: `${booking.notes || ''}\nMetadata: ${JSON.stringify(metadata)}`,
-        },
-      });
-    }
-  }
-
   private async notifyTeacherOfNewBooking(bookingId: string): Promise<void> {
-    // In a real implementation, this would send email/push notifications
-    // For now, we'll just log the notification
-    console.log(`Notification sent to teacher for new booking: ${bookingId}`);
+    const booking = await this.getBookingWithFullDetails(bookingId);
+    const studentName = `${booking.student.user.firstName} ${booking.student.user.lastName}`;
+
+    await this.notificationService.sendNotification({
+      type: booking.isTrialLesson ? 'TRIAL_REQUEST' : 'BOOKING_REQUEST',
+      title: booking.isTrialLesson
+        ? 'New Trial Lesson Request'
+        : 'New Lesson Booking',
+      message: `${studentName} has requested a ${
+        booking.isTrialLesson ? 'trial ' : ''
+      }lesson`,
+      recipientId: booking.teacherId,
+      bookingId,
+      priority: 'high',
+      metadata: {
+        studentName,
+        scheduledAt: booking.scheduledAt.toISOString(),
+        duration: booking.duration,
+      },
+    });
   }
 
   private async notifyTeacherOfBookingConfirmation(bookingId: string): Promise<void> {
-    console.log(`Notification sent to teacher for booking confirmation: ${bookingId}`);
+    const booking = await this.getBookingWithFullDetails(bookingId);
+    const studentName = `${booking.student.user.firstName} ${booking.student.user.lastName}`;
+
+    await this.notificationService.sendNotification({
+      type: 'BOOKING_CONFIRMED',
+      title: 'Booking Confirmed',
+      message: `${studentName} confirmed the lesson on ${booking.scheduledAt.toLocaleDateString()}`,
+      recipientId: booking.teacherId,
+      bookingId,
+      priority: 'medium',
+      metadata: { studentName, scheduledAt: booking.scheduledAt.toISOString() },
+    });
   }
 
-  private async notifyStudentOfTeacherResponse(bookingId: string, action: any): Promise<void> {
-    console.log(`Notification sent to student for teacher response: ${bookingId}`, action);
+  private async notifyStudentOfTeacherResponse(
+    bookingId: string,
+    action: TeacherBookingActionDto,
+  ): Promise<void> {
+    const booking = await this.getBookingWithFullDetails(bookingId);
+    const teacherName = `${booking.teacher.user.firstName} ${booking.teacher.user.lastName}`;
+    const base = {
+      recipientId: booking.studentId,
+      bookingId,
+      metadata: {
+        teacherName,
+        scheduledAt: booking.scheduledAt.toISOString(),
+        responseMessage: action.responseMessage,
+      },
+    };
+
+    switch (action.action) {
+      case 'ACCEPT':
+        await this.notificationService.sendNotification({
+          ...base,
+          type: 'BOOKING_CONFIRMED',
+          title: 'Lesson Confirmed',
+          message: `${teacherName} has accepted your lesson request`,
+          priority: 'high',
+        });
+        break;
+      case 'DECLINE':
+        await this.notificationService.sendNotification({
+          ...base,
+          type: 'BOOKING_DECLINED',
+          title: 'Lesson Request Declined',
+          message: `${teacherName} is unable to take your lesson request`,
+          priority: 'medium',
+          metadata: { ...base.metadata, declineReason: action.declineReason },
+        });
+        break;
+      case 'REQUEST_RESCHEDULE':
+        await this.notificationService.sendNotification({
+          ...base,
+          type: 'BOOKING_RESCHEDULE_REQUESTED',
+          title: 'Reschedule Requested',
+          message: `${teacherName} asked to move your lesson to another time`,
+          priority: 'high',
+          metadata: {
+            ...base.metadata,
+            alternativeSlots: action.alternativeSlots,
+          },
+        });
+        break;
+    }
   }
 
   private generateConfirmationCode(): string {
     return Math.random().toString(36).substring(2, 8).toUpperCase();
   }
 
-  private async generateMeetingUrl(bookingId: string): Promise<string> {
-    // In a real implementation, this would integrate with Zoom/Google Meet
-    return `https://meet.antoree.com/lesson/${bookingId}`;
-  }
-
-  private async storeConfirmationDetails(bookingId: string, details: any): Promise<void> {
-    // Store confirmation details in database
-    console.log(`Storing confirmation details for booking: ${bookingId}`, details);
-  }
-
   private toBookingRequestVm(booking: any): BookingRequestVm {
-    // Parse metadata from notes if exists
-    let learningGoals: any = {};
-    try {
-      const metadataMatch = booking.notes?.match(/Metadata: ({.*})/);
-      if (metadataMatch) {
-        const metadata = JSON.parse(metadataMatch[1]);
-        learningGoals = metadata.learningGoals || {};
-      }
-    } catch (e) {
-      // Ignore parsing errors
-    }
+    const metadata = booking.metadata;
+    // Trial requests store their goals as free text
+    const learningGoals =
+      metadata?.learningGoals && typeof metadata.learningGoals === 'object'
+        ? metadata.learningGoals
+        : {};
 
     return {
       id: booking.id,
@@ -1424,11 +1714,24 @@ export class BookingService {
         timezone: booking.teacher.timezone,
       },
       scheduledAt: booking.scheduledAt.toISOString(),
+      studentLocalTime: toZonedTime(
+        booking.scheduledAt,
+        resolveTimeZone(booking.student.timezone),
+      ),
+      teacherLocalTime: toZonedTime(
+        booking.scheduledAt,
+        resolveTimeZone(booking.teacher.timezone),
+      ),
       duration: booking.duration,
       learningGoals,
       status: booking.status,
       isTrialLesson: booking.isTrialLesson,
       messageToTeacher: booking.notes,
+      howFoundTeacher: metadata?.howFoundTeacher ?? undefined,
+      confirmationCode: metadata?.confirmationCode ?? undefined,
+      meetingUrl: metadata?.meetingUrl ?? undefined,
+      teacherMessage: metadata?.teacherMessage ?? undefined,
+      declineReason: metadata?.declineReason ?? undefined,
       createdAt: booking.createdAt.toISOString(),
       updatedAt: booking.updatedAt.toISOString(),
     };
@@ -1442,6 +1745,7 @@ export class BookingService {
         teacher: { include: { user: true } },
         course: true,
         lesson: true,
+        metadata: true,
       },
     });
   }
@@ -1485,37 +1789,42 @@ export class BookingService {
   }
 
   // Additional helper methods
-  private async findNextAvailableDate(teacherId: string, afterDate: Date, duration: number): Promise<string | undefined> {
+  private async findNextAvailableDate(
+    teacherId: string,
+    afterDate: string,
+    duration: number,
+    timezone: string,
+  ): Promise<string | undefined> {
     // Search for next 30 days
-    const searchEnd = new Date(afterDate);
-    searchEnd.setDate(searchEnd.getDate() + 30);
-
-    let current = new Date(afterDate);
-    current.setDate(current.getDate() + 1);
-
-    while (current <= searchEnd) {
-      const slots = await this.getAvailableTimeSlots(teacherId, current, duration);
+    for (const current of eachDay(
+      addDays(afterDate, 1),
+      addDays(afterDate, 30),
+    )) {
+      const slots = await this.getAvailableTimeSlots(
+        teacherId,
+        current,
+        duration,
+        timezone,
+      );
       if (slots.length > 0) {
-        return current.toISOString().split('T')[0];
+        return current;
       }
-      current.setDate(current.getDate() + 1);
     }
 
     return undefined;
   }
 
-  private async getExistingBookingsForDay(teacherId: string, date: Date): Promise<any[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-
+  private async getExistingBookingsBetween(
+    teacherId: string,
+    start: Date,
+    end: Date,
+  ): Promise<any[]> {
     return this.prisma.booking.findMany({
       where: {
         teacherId,
         scheduledAt: {
-          gte: startOfDay,
-          lte: endOfDay,
+          gte: start,
+          lt: end,
         },
         status: { in: [BookingStatus.CONFIRMED, BookingStatus.PENDING] },
       },
@@ -1618,7 +1927,7 @@ export class BookingService {
 
   private async getTeacherAverageRating(teacherId: string): Promise<number> {
     const result = await this.prisma.review.aggregate({
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
       _avg: { rating: true },
     });
 
@@ -16,6 +16,7 @@ import {
   IsArray,
   ValidateNested,
   ArrayMaxSize,
+  IsTimeZone,
 } from 'class-validator';
 import { EnglishLevel } from '@prisma/client';
 
@@ -58,7 +59,7 @@ export class StudentContactInfoDto {
     default: 'Asia/Ho_Chi_Minh',
   })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 }
 
@@ -304,7 +305,7 @@ export class GetAvailableSlotsDto {
     example: 'Asia/Ho_Chi_Minh',
   })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 }
 
@@ -0,0 +1,190 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { BookingSeriesStatus } from '@prisma/client';
+
+export class CreateBookingSeriesDto {
+  @ApiProperty({
+    description: 'Lesson package the lessons are taken from',
+    example: 'cm3package123def456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  lessonPackageId: string;
+
+  @ApiProperty({
+    description: 'Days of the week (0=Sunday, 1=Monday, ..., 6=Saturday)',
+    example: [2, 4],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(7)
+  @ArrayUnique()
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek: number[];
+
+  @ApiProperty({
+    description: 'Start time in HH:mm format (24-hour), in the series timezone',
+    example: '19:00',
+    pattern: '^([0-1][0-9]|2[0-3]):[0-5][0-9]$',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, {
+    message: 'Start time must be in HH:mm format (24-hour)',
+  })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'Number of weeks the series runs for',
+    example: 10,
+    minimum: 1,
+    maximum: 52,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(52)
+  weeks: number;
+
+  @ApiPropertyOptional({
+    description: 'First day of the series (YYYY-MM-DD), defaults to today',
+    example: '2026-03-02',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: "IANA timezone of the start time, defaults to the student's",
+    example: 'Asia/Ho_Chi_Minh',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Lesson duration in minutes, defaults to the package duration',
+    example: 60,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(15)
+  @Max(180)
+  duration?: number;
+
+  @ApiPropertyOptional({ example: 'Business English conversation practice' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Book the lessons that are free and leave out the conflicting ones instead of rejecting the series',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipConflicts?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only report which lessons can be booked, without booking',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class RescheduleBookingSeriesDto {
+  @ApiPropertyOptional({
+    description: 'New days of the week (0=Sunday, 1=Monday, ..., 6=Saturday)',
+    example: [1, 3],
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(7)
+  @ArrayUnique()
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({
+    description: 'New start time in HH:mm format (24-hour)',
+    example: '18:30',
+    pattern: '^([0-1][0-9]|2[0-3]):[0-5][0-9]$',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, {
+    message: 'Start time must be in HH:mm format (24-hour)',
+  })
+  startTime?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Lessons on or after this day (YYYY-MM-DD) are moved, defaults to today',
+    example: '2026-03-16',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Move the lessons whose new time is free and keep the others at their current time',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipConflicts?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only report where the lessons would move, without moving',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class CancelBookingSeriesDto {
+  @ApiPropertyOptional({ example: 'Moving abroad for the summer' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class SearchBookingSeriesDto {
+  @ApiPropertyOptional({ enum: BookingSeriesStatus })
+  @IsOptional()
+  @IsEnum(BookingSeriesStatus)
+  status?: BookingSeriesStatus;
+}
@@ -69,6 +69,14 @@ export class CreateBookingDto {
   @IsOptional()
   @IsBoolean()
   isTrialLesson?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Slot hold placed for this time while booking',
+    example: 'clk123456789',
+  })
+  @IsOptional()
+  @IsString()
+  holdId?: string;
 }
 
 export class BookTrialLessonDto {
@@ -3,3 +3,4 @@ export * from './update-booking.dto';
 export * from './search-booking.dto';
 export * from './booking-flow.dto';
 export * from './lesson-package.dto';
+export * from './booking-series.dto';
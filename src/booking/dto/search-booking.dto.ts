@@ -9,6 +9,7 @@ import {
   Min,
   Max,
   IsBoolean,
+  IsTimeZone,
 } from 'class-validator';
 import { BookingStatus } from '@prisma/client';
 
@@ -164,4 +165,12 @@ export class GetAvailableTimesDto {
   @Min(15)
   @Max(180)
   duration?: number = 60;
+
+  @ApiPropertyOptional({
+    description: 'Student timezone to also show the slots in',
+    example: 'America/New_York',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
 }
@@ -40,6 +40,14 @@ export class RequestTrialLessonDto {
   @IsOptional()
   @IsString()
   learningGoals?: string;
+
+  @ApiPropertyOptional({
+    description: 'Slot hold placed for this time while booking',
+    example: 'clk123456789',
+  })
+  @IsOptional()
+  @IsString()
+  holdId?: string;
 }
 
 export class TeacherTrialResponseDto {
@@ -146,10 +154,11 @@ export class GenerateMeetingLinkDto {
   bookingId: string;
 
   @ApiPropertyOptional({
-    description: 'Meeting platform preference',
+    description:
+      'Ignored, rooms are created by the configured meeting provider',
     enum: ['ZOOM', 'GOOGLE_MEET', 'ANTOREE_MEET'],
     example: 'ANTOREE_MEET',
-    default: 'ANTOREE_MEET'
+    deprecated: true,
   })
   @IsOptional()
   @IsEnum(['ZOOM', 'GOOGLE_MEET', 'ANTOREE_MEET'])
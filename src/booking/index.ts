@@ -2,6 +2,8 @@ export * from './booking.module';
 export * from './booking.service';
 export * from './trial-lesson-flow.service';
 export * from './booking.controller';
+export * from './booking-series.service';
+export * from './booking-series.controller';
 export * from './dto/create-booking.dto';
 export * from './dto/update-booking.dto';
 export * from './dto/search-booking.dto';
@@ -10,3 +12,5 @@ export * from './dto/trial-lesson-flow.dto';
 export * from './vm/booking.vm';
 export * from './vm/booking-flow.vm';
 export * from './vm/trial-lesson-flow.vm';
+export * from './dto/booking-series.dto';
+export * from './vm/booking-series.vm';
@@ -0,0 +1,74 @@
+import { BookingStatus, LessonPackage, Prisma } from '@prisma/client';
+
+export const OPEN_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING,
+  BookingStatus.CONFIRMED,
+];
+
+/**
+ * Lessons of the package not yet taken and not already booked
+ */
+export async function getPackageCapacity(
+  client: Prisma.TransactionClient,
+  lessonPackage: Pick<LessonPackage, 'id' | 'remainingLessons'>,
+): Promise<number> {
+  const openBookings = await client.booking.count({
+    where: {
+      lessonPackageId: lessonPackage.id,
+      status: { in: OPEN_BOOKING_STATUSES },
+    },
+  });
+
+  return Math.max(lessonPackage.remainingLessons - openBookings, 0);
+}
+
+/**
+ * Lock the package row until the transaction ends and count its capacity
+ * again, so concurrent bookings from one package cannot overbook it
+ */
+export async function lockPackageCapacity(
+  tx: Prisma.TransactionClient,
+  lessonPackageId: string,
+): Promise<number> {
+  const [lessonPackage] = await tx.$queryRaw<
+    Pick<LessonPackage, 'id' | 'remainingLessons'>[]
+  >`SELECT "id", "remainingLessons" FROM "lesson_packages" WHERE "id" = ${lessonPackageId} FOR UPDATE`;
+
+  return lessonPackage ? getPackageCapacity(tx, lessonPackage) : 0;
+}
+
+/**
+ * Take one lesson from the package the booking was paid with. Every path that
+ * completes a package booking calls this; packageLessonConsumedAt makes sure a
+ * booking only takes its lesson once. Resolves to whether the package lost a
+ * lesson.
+ */
+export async function consumePackageLesson(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+): Promise<boolean> {
+  const { count } = await tx.booking.updateMany({
+    where: {
+      id: bookingId,
+      lessonPackageId: { not: null },
+      packageLessonConsumedAt: null,
+    },
+    data: { packageLessonConsumedAt: new Date() },
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  const { lessonPackageId } = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: { lessonPackageId: true },
+  });
+  const consumed = await tx.lessonPackage.updateMany({
+    where: { id: lessonPackageId, remainingLessons: { gt: 0 } },
+    data: {
+      usedLessons: { increment: 1 },
+      remainingLessons: { decrement: 1 },
+    },
+  });
+  return consumed.count > 0;
+}
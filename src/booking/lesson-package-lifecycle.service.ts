@@ -7,6 +7,16 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { NotificationService } from './notification.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { BookingPolicyService } from '../booking-policy/booking-policy.service';
+import { SlotHoldService } from '../slot-hold/slot-hold.service';
+import { assertCanBookLessons } from '../auth/utils/email-verification';
+import {
+  consumePackageLesson,
+  getPackageCapacity,
+  lockPackageCapacity,
+} from './lesson-package-capacity';
 import {
   Booking,
   Lesson,
@@ -14,6 +24,7 @@ import {
   Teacher,
   User,
   BookingStatus,
+  BookingPolicyCase,
   LessonStatus,
 } from '@prisma/client';
 
@@ -114,6 +125,10 @@ export class LessonPackageLifecycleService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly earningsService: EarningsService,
+    private readonly meetingService: MeetingService,
+    private readonly bookingPolicyService: BookingPolicyService,
+    private readonly slotHoldService: SlotHoldService,
   ) {}
 
   /**
@@ -173,7 +188,18 @@ export class LessonPackageLifecycleService {
       throw new BadRequestException('Lesson package has expired');
     }
 
-    if (lessonPackage.remainingLessons <= 0) {
+    // Packages are addressed by their payment here, bookings link to the
+    // package record created from it
+    const packageRecord = await this.prisma.lessonPackage.findUnique({
+      where: { paymentId: packageId },
+      select: { id: true, remainingLessons: true },
+    });
+
+    // Lessons already booked from the package are not available again
+    const capacity = packageRecord
+      ? await getPackageCapacity(this.prisma, packageRecord)
+      : lessonPackage.remainingLessons;
+    if (capacity <= 0) {
       throw new BadRequestException('No remaining lessons in package');
     }
 
@@ -182,31 +208,56 @@ export class LessonPackageLifecycleService {
       throw new ForbiddenException('You can only schedule from your own packages');
     }
 
+    assertCanBookLessons(lessonPackage.student.user);
+
     // Validate scheduled time
     if (scheduledAt <= new Date()) {
       throw new BadRequestException('Lesson must be scheduled in the future');
     }
 
-    // Check for conflicts
-    await this.checkForSchedulingConflicts(
-      lessonPackage.teacherId,
-      lessonPackage.studentId,
-      scheduledAt,
-      duration || lessonPackage.durationPerLesson,
-    );
-
-    // Create booking with package reference in notes
-    const booking = await this.prisma.booking.create({
-      data: {
-        studentId: lessonPackage.studentId,
+    const booking = await this.slotHoldService.withHold(
+      {
         teacherId: lessonPackage.teacherId,
-        scheduledAt,
+        startsAt: scheduledAt,
         duration: duration || lessonPackage.durationPerLesson,
-        status: BookingStatus.CONFIRMED,
-        isTrialLesson: false,
-        notes: `${notes || ''} [Package: ${packageId}]`,
+        holderId: userId,
       },
-    });
+      async () => {
+        // Check for conflicts
+        await this.checkForSchedulingConflicts(
+          lessonPackage.teacherId,
+          lessonPackage.studentId,
+          scheduledAt,
+          duration || lessonPackage.durationPerLesson,
+        );
+
+        return this.prisma.$transaction(async (tx) => {
+          // Another booking may have used the last lesson in the meantime
+          if (
+            packageRecord &&
+            (await lockPackageCapacity(tx, packageRecord.id)) <= 0
+          ) {
+            throw new BadRequestException('No remaining lessons in package');
+          }
+
+          // Create booking with package reference in notes
+          return tx.booking.create({
+            data: {
+              studentId: lessonPackage.studentId,
+              teacherId: lessonPackage.teacherId,
+              lessonPackageId: packageRecord?.id,
+              scheduledAt,
+              duration: duration || lessonPackage.durationPerLesson,
+              status: BookingStatus.CONFIRMED,
+              isTrialLesson: false,
+              notes: `${notes || ''} [Package: ${packageId}]`,
+            },
+          });
+        });
+      },
+      (created) => ({ bookingId: created.id }),
+    );
+    await this.earningsService.syncBooking(booking.id);
 
     // Create lesson record
     await this.prisma.lesson.create({
@@ -216,6 +267,7 @@ export class LessonPackageLifecycleService {
         teacherId: lessonPackage.teacherId,
         scheduledAt,
         duration: duration || lessonPackage.durationPerLesson,
+        meetingUrl: this.meetingService.getRoom(booking.id).meetingUrl,
         status: LessonStatus.SCHEDULED,
       },
     });
@@ -267,13 +319,25 @@ export class LessonPackageLifecycleService {
       },
     });
 
-    // Update booking status
-    await this.prisma.booking.update({
-      where: { id: lesson.booking.id },
-      data: {
-        status: attended ? BookingStatus.COMPLETED : BookingStatus.CANCELLED,
-      },
+    // Update booking status, an attended lesson is taken from the package
+    await this.prisma.$transaction(async (tx) => {
+      await tx.booking.update({
+        where: { id: lesson.booking.id },
+        data: {
+          status: attended ? BookingStatus.COMPLETED : BookingStatus.CANCELLED,
+        },
+      });
+      if (attended) {
+        await consumePackageLesson(tx, lesson.booking.id);
+      }
     });
+    await this.earningsService.syncBooking(lesson.booking.id);
+    if (!attended) {
+      await this.bookingPolicyService.applyNoShow(
+        lesson.booking.id,
+        BookingPolicyCase.STUDENT_NO_SHOW,
+      );
+    }
 
     // Extract package ID from booking notes
     const packageId = this.extractPackageIdFromNotes(lesson.booking.notes);
@@ -454,7 +518,7 @@ export class LessonPackageLifecycleService {
         teacherId,
         notes: { contains: payment.id },
       },
-      include: { lesson: true },
+      include: { lesson: true, policyDecision: true },
       orderBy: { scheduledAt: 'asc' },
     });
 
@@ -463,8 +527,13 @@ export class LessonPackageLifecycleService {
     const expiresAt = new Date(payment.createdAt);
     expiresAt.setDate(expiresAt.getDate() + expirationDays);
 
-    const completedBookings = bookings.filter(b => b.status === BookingStatus.COMPLETED);
-    const usedLessons = completedBookings.length;
+    // Missed lessons the booking policy charged to the package count as used
+    const usedBookings = bookings.filter(
+      (b) =>
+        b.status === BookingStatus.COMPLETED ||
+        b.policyDecision?.packageLessonConsumed,
+    );
+    const usedLessons = usedBookings.length;
     const remainingLessons = Math.max(0, lessonPackageData.numberOfLessons - usedLessons);
 
     return {
@@ -686,7 +755,7 @@ export class LessonPackageLifecycleService {
     await this.prisma.lesson.update({
       where: { id: lessonId },
       data: {
-        notes: JSON.stringify(feedbackData),
+        feedback: feedbackData,
         homework: feedback.homework,
       },
     });
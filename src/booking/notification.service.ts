@@ -1,8 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { EmailService } from '../email/email.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { EmailLocale, EmailTemplateName } from '../email/templates';
+import { resolveTimeZone } from '../common/timezone/timezone.util';
 
 export interface NotificationData {
-  type: 'TRIAL_REQUEST' | 'TRIAL_ACCEPTED' | 'TRIAL_DECLINED' | 'TRIAL_REMINDER' | 'TRIAL_COMPLETED';
+  type:
+    | 'TRIAL_REQUEST'
+    | 'TRIAL_ACCEPTED'
+    | 'TRIAL_DECLINED'
+    | 'TRIAL_REMINDER'
+    | 'TRIAL_COMPLETED'
+    | 'BOOKING_REQUEST'
+    | 'BOOKING_CONFIRMED'
+    | 'BOOKING_DECLINED'
+    | 'BOOKING_RESCHEDULE_REQUESTED';
   title: string;
   message: string;
   recipientId: string;
@@ -13,45 +27,54 @@ export interface NotificationData {
 
 @Injectable()
 export class NotificationService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly emailService: EmailService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
 
   /**
-   * Send notification to user
+   * Send notification to user. The notification is stored in the
+   * recipient's inbox; other channels are sent by the specific helpers below.
    */
   async sendNotification(data: NotificationData): Promise<void> {
-    // In a real implementation, this would:
-    // 1. Store notification in database
-    // 2. Send email notification
-    // 3. Send push notification
-    // 4. Send SMS if urgent
-    // 5. Send real-time notification via WebSocket
-
-    console.log(`📧 Sending ${data.type} notification to user ${data.recipientId}:`, {
+    await this.notificationInboxService.create({
+      userId: data.recipientId,
+      type: data.type,
       title: data.title,
       message: data.message,
       bookingId: data.bookingId,
-      priority: data.priority || 'medium',
+      priority: data.priority,
+      metadata: data.metadata,
     });
-
-    // For now, we'll just log the notification
-    await this.logNotification(data);
   }
 
   /**
-   * Send email notification
+   * Send templated email notification. Delivery failures are logged and
+   * do not interrupt the booking flow that triggered the email.
    */
   async sendEmailNotification(
     recipientEmail: string,
-    subject: string,
-    template: string,
-    templateData: Record<string, any>
+    template: EmailTemplateName,
+    templateData: Record<string, any>,
+    locale?: EmailLocale,
   ): Promise<void> {
-    // In a real implementation, this would integrate with email service (SendGrid, Mailgun, etc.)
-    console.log(`📧 Email notification sent to ${recipientEmail}:`, {
-      subject,
-      template,
-      data: templateData,
-    });
+    try {
+      await this.emailService.sendTemplate({
+        to: recipientEmail,
+        template,
+        data: templateData,
+        locale,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${template} email to ${recipientEmail}:`,
+        error,
+      );
+    }
   }
 
   /**
@@ -90,11 +113,7 @@ export class NotificationService {
     event: string,
     data: any
   ): Promise<void> {
-    // In a real implementation, this would send via WebSocket connection
-    console.log(`🔄 Real-time notification sent to user ${userId}:`, {
-      event,
-      data,
-    });
+    this.realtimeService.emitToUser(userId, event, data);
   }
 
   /**
@@ -106,7 +125,8 @@ export class NotificationService {
     studentName: string,
     bookingId: string,
     scheduledAt: Date,
-    learningGoals?: string
+    learningGoals?: string,
+    teacherTimezone?: string,
   ): Promise<void> {
     const notification: NotificationData = {
       type: 'TRIAL_REQUEST',
@@ -125,19 +145,14 @@ export class NotificationService {
     await this.sendNotification(notification);
 
     // Send email notification
-    await this.sendEmailNotification(
-      teacherEmail,
-      'New Trial Lesson Request - Action Required',
-      'trial-request-teacher',
-      {
-        studentName,
-        scheduledAt: scheduledAt.toLocaleDateString(),
-        scheduledTime: scheduledAt.toLocaleTimeString(),
-        learningGoals: learningGoals || 'Not specified',
-        acceptUrl: `${process.env.FRONTEND_URL}/teacher/bookings/${bookingId}/respond?action=accept`,
-        declineUrl: `${process.env.FRONTEND_URL}/teacher/bookings/${bookingId}/respond?action=decline`,
-      }
-    );
+    await this.sendEmailNotification(teacherEmail, 'trial-request-teacher', {
+      studentName,
+      scheduledAt: this.formatLocalDate(scheduledAt, teacherTimezone),
+      scheduledTime: this.formatLocalTime(scheduledAt, teacherTimezone),
+      learningGoals: learningGoals || 'Not specified',
+      acceptUrl: `${process.env.FRONTEND_URL}/teacher/bookings/${bookingId}/respond?action=accept`,
+      declineUrl: `${process.env.FRONTEND_URL}/teacher/bookings/${bookingId}/respond?action=decline`,
+    });
 
     // Send push notification
     await this.sendPushNotification(
@@ -157,7 +172,8 @@ export class NotificationService {
     bookingId: string,
     scheduledAt: Date,
     meetingLink: string,
-    instructions?: string
+    instructions?: string,
+    studentTimezone?: string,
   ): Promise<void> {
     const notification: NotificationData = {
       type: 'TRIAL_ACCEPTED',
@@ -177,26 +193,25 @@ export class NotificationService {
     await this.sendNotification(notification);
 
     // Send email notification
-    await this.sendEmailNotification(
-      studentEmail,
-      'Trial Lesson Confirmed - Get Ready!',
-      'trial-accepted-student',
-      {
-        teacherName,
-        scheduledAt: scheduledAt.toLocaleDateString(),
-        scheduledTime: scheduledAt.toLocaleTimeString(),
-        meetingLink,
-        instructions: instructions || 'Join the lesson 5 minutes before the scheduled time.',
-        joinUrl: `${process.env.FRONTEND_URL}/lessons/join/${bookingId}`,
-        rescheduleUrl: `${process.env.FRONTEND_URL}/bookings/${bookingId}/reschedule`,
-      }
-    );
+    await this.sendEmailNotification(studentEmail, 'trial-accepted-student', {
+      teacherName,
+      scheduledAt: this.formatLocalDate(scheduledAt, studentTimezone),
+      scheduledTime: this.formatLocalTime(scheduledAt, studentTimezone),
+      meetingLink,
+      instructions:
+        instructions || 'Join the lesson 5 minutes before the scheduled time.',
+      joinUrl: `${process.env.FRONTEND_URL}/lessons/join/${bookingId}`,
+      rescheduleUrl: `${process.env.FRONTEND_URL}/bookings/${bookingId}/reschedule`,
+    });
 
     // Send push notification
     await this.sendPushNotification(
       studentId,
       'Trial Lesson Confirmed!',
-      `Your trial lesson with ${teacherName} is confirmed for ${scheduledAt.toLocaleDateString()}`
+      `Your trial lesson with ${teacherName} is confirmed for ${this.formatLocalDate(
+        scheduledAt,
+        studentTimezone,
+      )}`,
     );
   }
 
@@ -226,17 +241,14 @@ export class NotificationService {
     await this.sendNotification(notification);
 
     // Send email notification
-    await this.sendEmailNotification(
-      studentEmail,
-      'Trial Lesson Request Update',
-      'trial-declined-student',
-      {
-        teacherName,
-        reason: reason || 'The teacher is unavailable at the requested time.',
-        findOtherTeachersUrl: `${process.env.FRONTEND_URL}/teachers`,
-        rescheduleUrl: `${process.env.FRONTEND_URL}/teachers/${bookingId.split('_')[1]}/book`,
-      }
-    );
+    await this.sendEmailNotification(studentEmail, 'trial-declined-student', {
+      teacherName,
+      reason: reason || 'The teacher is unavailable at the requested time.',
+      findOtherTeachersUrl: `${process.env.FRONTEND_URL}/teachers`,
+      rescheduleUrl: `${process.env.FRONTEND_URL}/teachers/${
+        bookingId.split('_')[1]
+      }/book`,
+    });
 
     // Send push notification
     await this.sendPushNotification(
@@ -259,7 +271,9 @@ export class NotificationService {
     teacherName: string,
     scheduledAt: Date,
     meetingLink: string,
-    reminderType: '24h' | '1h' | '15min'
+    reminderType: '24h' | '1h' | '15min',
+    studentTimezone?: string,
+    teacherTimezone?: string,
   ): Promise<void> {
     const reminderTimes = {
       '24h': '24 hours',
@@ -293,29 +307,21 @@ export class NotificationService {
 
     if (reminderType === '15min') {
       // Send email with join link
-      await this.sendEmailNotification(
-        studentEmail,
-        'Trial Lesson Starting Soon - Join Now',
-        'trial-reminder-student',
-        {
-          teacherName,
-          scheduledTime: scheduledAt.toLocaleTimeString(),
-          meetingLink,
-          joinUrl: `${process.env.FRONTEND_URL}/lessons/join/${bookingId}`,
-        }
-      );
+      await this.sendEmailNotification(studentEmail, 'lesson-reminder', {
+        otherPartyName: teacherName,
+        timeUntil,
+        scheduledTime: this.formatLocalTime(scheduledAt, studentTimezone),
+        meetingLink,
+        joinUrl: `${process.env.FRONTEND_URL}/lessons/join/${bookingId}`,
+      });
 
-      await this.sendEmailNotification(
-        teacherEmail,
-        'Trial Lesson Starting Soon',
-        'trial-reminder-teacher',
-        {
-          studentName,
-          scheduledTime: scheduledAt.toLocaleTimeString(),
-          meetingLink,
-          joinUrl: `${process.env.FRONTEND_URL}/lessons/join/${bookingId}`,
-        }
-      );
+      await this.sendEmailNotification(teacherEmail, 'lesson-reminder', {
+        otherPartyName: studentName,
+        timeUntil,
+        scheduledTime: this.formatLocalTime(scheduledAt, teacherTimezone),
+        meetingLink,
+        joinUrl: `${process.env.FRONTEND_URL}/lessons/join/${bookingId}`,
+      });
 
       // Send push notifications
       await this.sendPushNotification(
@@ -371,32 +377,22 @@ export class NotificationService {
     });
 
     // Send completion email to student
-    await this.sendEmailNotification(
-      studentEmail,
-      'Trial Lesson Completed - Next Steps',
-      'trial-completed-student',
-      {
-        teacherName,
-        feedback: feedback || 'No feedback provided',
-        recommendations: recommendations || 'Continue practicing!',
-        bookRegularLessonUrl: `${process.env.FRONTEND_URL}/teachers/${teacherId}/book`,
-        leaveReviewUrl: `${process.env.FRONTEND_URL}/reviews/${bookingId}`,
-        recordingUrl: `${process.env.FRONTEND_URL}/recordings/${bookingId}`,
-      }
-    );
+    await this.sendEmailNotification(studentEmail, 'trial-completed-student', {
+      teacherName,
+      feedback: feedback || 'No feedback provided',
+      recommendations: recommendations || 'Continue practicing!',
+      bookRegularLessonUrl: `${process.env.FRONTEND_URL}/teachers/${teacherId}/book`,
+      leaveReviewUrl: `${process.env.FRONTEND_URL}/reviews/${bookingId}`,
+      recordingUrl: `${process.env.FRONTEND_URL}/recordings/${bookingId}`,
+    });
 
     // Send summary email to teacher
-    await this.sendEmailNotification(
-      teacherEmail,
-      'Trial Lesson Summary',
-      'trial-completed-teacher',
-      {
-        studentName,
-        feedback: feedback || 'No feedback provided',
-        studentProfileUrl: `${process.env.FRONTEND_URL}/teacher/students/${studentId}`,
-        scheduleUrl: `${process.env.FRONTEND_URL}/teacher/schedule`,
-      }
-    );
+    await this.sendEmailNotification(teacherEmail, 'trial-completed-teacher', {
+      studentName,
+      feedback: feedback || 'No feedback provided',
+      studentProfileUrl: `${process.env.FRONTEND_URL}/teacher/students/${studentId}`,
+      scheduleUrl: `${process.env.FRONTEND_URL}/teacher/schedule`,
+    });
   }
 
   /**
@@ -429,24 +425,16 @@ export class NotificationService {
     }
   }
 
-  /**
-   * Log notification for audit trail
-   */
-  private async logNotification(data: NotificationData): Promise<void> {
-    // In a real implementation, this would store in a notifications table
-    const log = {
-      id: `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type: data.type,
-      title: data.title,
-      message: data.message,
-      recipientId: data.recipientId,
-      bookingId: data.bookingId,
-      priority: data.priority || 'medium',
-      metadata: data.metadata,
-      createdAt: new Date().toISOString(),
-      status: 'sent',
-    };
+  private formatLocalDate(date: Date, timezone?: string): string {
+    return date.toLocaleDateString('en-US', {
+      timeZone: resolveTimeZone(timezone),
+    });
+  }
 
-    console.log(`📝 Notification logged:`, log);
+  private formatLocalTime(date: Date, timezone?: string): string {
+    return date.toLocaleTimeString('en-US', {
+      timeZone: resolveTimeZone(timezone),
+      timeZoneName: 'short',
+    });
   }
 }
@@ -0,0 +1,496 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AvailabilityType,
+  BookingSeriesStatus,
+  BookingStatus,
+  LessonStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { EarningsService } from '../../earnings/earnings.service';
+import { MeetingService } from '../../meeting/meeting.service';
+import { NotificationInboxService } from '../../notification/notification-inbox.service';
+import { SlotHoldService } from '../../slot-hold/slot-hold.service';
+import { BookingSeriesService } from '../booking-series.service';
+import { BookingService } from '../booking.service';
+
+describe('BookingSeriesService', () => {
+  let service: BookingSeriesService;
+
+  const mockPrismaService = {
+    lessonPackage: { findUnique: jest.fn<any>() },
+    student: { findUnique: jest.fn<any>() },
+    teacher: { findUnique: jest.fn<any>() },
+    teacherAvailability: { findMany: jest.fn<any>() },
+    booking: {
+      count: jest.fn<any>(),
+      findMany: jest.fn<any>(),
+      create: jest.fn<any>(),
+      update: jest.fn<any>(),
+    },
+    lesson: {
+      create: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+    bookingSeries: {
+      create: jest.fn<any>(),
+      findMany: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+      update: jest.fn<any>(),
+    },
+    $queryRaw: jest.fn<any>(),
+    $transaction: jest.fn<any>(),
+  };
+
+  const mockBookingService = {
+    cancel: jest.fn<any>(),
+  };
+
+  const mockSlotHoldService = {
+    holdAll: jest.fn<any>(),
+    convert: jest.fn<any>(),
+    releaseAll: jest.fn<any>(),
+  };
+
+  const lessonPackage = (overrides = {}) => ({
+    id: 'package-id',
+    studentId: 'student-id',
+    teacherId: 'teacher-id',
+    paymentId: 'payment-id',
+    isActive: true,
+    remainingLessons: 10,
+    durationPerLesson: 60,
+    expiresAt: new Date('2027-03-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  // Three Monday lessons at 19:00 New York time; clocks go back on 1 November
+  const createDto = (overrides = {}) => ({
+    lessonPackageId: 'package-id',
+    daysOfWeek: [1],
+    startTime: '19:00',
+    weeks: 3,
+    startDate: '2026-10-19',
+    timezone: 'America/New_York',
+    ...overrides,
+  });
+
+  const scheduledTimes = (plan: any) =>
+    plan.occurrences.map((occurrence: any) =>
+      occurrence.scheduledAt.toISOString(),
+    );
+
+  const otherBooking = (overrides = {}) => ({
+    id: 'other-booking-id',
+    teacherId: 'teacher-id',
+    studentId: 'other-student-id',
+    scheduledAt: new Date('2026-10-26T23:30:00.000Z'),
+    duration: 60,
+    ...overrides,
+  });
+
+  const seriesBooking = (id: string, scheduledAt: string) => ({
+    id,
+    scheduledAt: new Date(scheduledAt),
+    duration: 60,
+    status: BookingStatus.CONFIRMED,
+  });
+
+  const series = (overrides = {}) => ({
+    id: 'series-id',
+    lessonPackageId: 'package-id',
+    studentId: 'student-id',
+    teacherId: 'teacher-id',
+    daysOfWeek: [1],
+    startTime: '19:00',
+    timezone: 'America/New_York',
+    duration: 60,
+    startDate: new Date('2026-10-19T00:00:00.000Z'),
+    weeks: 3,
+    status: BookingSeriesStatus.ACTIVE,
+    stoppedReason: null,
+    notes: null,
+    lessonPackage: lessonPackage(),
+    bookings: [
+      seriesBooking('booking-1', '2026-10-19T23:00:00.000Z'),
+      seriesBooking('booking-2', '2026-10-26T23:00:00.000Z'),
+      seriesBooking('booking-3', '2026-11-03T00:00:00.000Z'),
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-10-10T00:00:00.000Z') });
+
+    mockPrismaService.$transaction.mockImplementation((run: any) =>
+      run(mockPrismaService),
+    );
+    mockPrismaService.lessonPackage.findUnique.mockResolvedValue(
+      lessonPackage(),
+    );
+    mockPrismaService.student.findUnique.mockResolvedValue({
+      timezone: null,
+      user: { emailVerifiedAt: new Date('2026-01-01T00:00:00.000Z') },
+    });
+    mockPrismaService.teacher.findUnique.mockResolvedValue({
+      timezone: 'America/New_York',
+    });
+    mockPrismaService.teacherAvailability.findMany.mockResolvedValue([
+      {
+        dayOfWeek: 1,
+        startTime: '18:00',
+        endTime: '21:00',
+        type: AvailabilityType.REGULAR,
+        isActive: true,
+        date: null,
+        endDate: null,
+      },
+      {
+        dayOfWeek: 3,
+        startTime: '09:00',
+        endTime: '12:00',
+        type: AvailabilityType.REGULAR,
+        isActive: true,
+        date: null,
+        endDate: null,
+      },
+    ]);
+    mockPrismaService.booking.count.mockResolvedValue(0);
+    mockPrismaService.booking.findMany.mockResolvedValue([]);
+    mockPrismaService.booking.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({
+        id: `booking-${data.scheduledAt.toISOString()}`,
+        ...data,
+      }),
+    );
+    mockPrismaService.$queryRaw.mockResolvedValue([
+      { id: 'package-id', remainingLessons: 10 },
+    ]);
+    mockPrismaService.bookingSeries.create.mockResolvedValue({
+      id: 'series-id',
+    });
+    mockPrismaService.bookingSeries.findUnique.mockResolvedValue(series());
+    mockSlotHoldService.holdAll.mockImplementation((requests: any) =>
+      Promise.resolve(
+        requests.map((_: unknown, index: number) => ({ id: `hold-${index}` })),
+      ),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingSeriesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: BookingService, useValue: mockBookingService },
+        { provide: EarningsService, useValue: { syncBooking: jest.fn() } },
+        {
+          provide: MeetingService,
+          useValue: {
+            getRoom: (bookingId: string) => ({
+              meetingUrl: `https://meet.example.com/${bookingId}`,
+            }),
+          },
+        },
+        { provide: NotificationInboxService, useValue: { create: jest.fn() } },
+        { provide: SlotHoldService, useValue: mockSlotHoldService },
+      ],
+    }).compile();
+
+    service = module.get<BookingSeriesService>(BookingSeriesService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('create', () => {
+    it('should keep the local start time across a DST change', async () => {
+      const plan = await service.create(
+        createDto({ dryRun: true }),
+        'student-id',
+      );
+
+      expect(scheduledTimes(plan)).toEqual([
+        '2026-10-19T23:00:00.000Z',
+        '2026-10-26T23:00:00.000Z',
+        '2026-11-03T00:00:00.000Z',
+      ]);
+      expect(plan.occurrences.map((o) => o.localDate)).toEqual([
+        '2026-10-19',
+        '2026-10-26',
+        '2026-11-02',
+      ]);
+      expect(plan.occurrences.every((o) => o.status === 'AVAILABLE')).toBe(
+        true,
+      );
+      expect(plan.bookedCount).toBe(0);
+      expect(mockSlotHoldService.holdAll).not.toHaveBeenCalled();
+    });
+
+    it('should report which lessons conflict', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([otherBooking()]);
+
+      const plan = await service.create(
+        createDto({ dryRun: true }),
+        'student-id',
+      );
+
+      expect(plan.occurrences.map((o) => o.status)).toEqual([
+        'AVAILABLE',
+        'TEACHER_CONFLICT',
+        'AVAILABLE',
+      ]);
+      expect(plan.occurrences[1].conflictingBookingId).toBe('other-booking-id');
+      expect(plan.conflictCount).toBe(1);
+    });
+
+    it('should tell student conflicts apart from teacher conflicts', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([
+        otherBooking({
+          teacherId: 'other-teacher-id',
+          studentId: 'student-id',
+        }),
+      ]);
+
+      const plan = await service.create(
+        createDto({ dryRun: true }),
+        'student-id',
+      );
+
+      expect(plan.occurrences[1].status).toBe('STUDENT_CONFLICT');
+    });
+
+    it('should refuse a series with conflicts unless they are skipped', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([otherBooking()]);
+
+      await expect(service.create(createDto(), 'student-id')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockSlotHoldService.holdAll).not.toHaveBeenCalled();
+      expect(mockPrismaService.booking.create).not.toHaveBeenCalled();
+    });
+
+    it('should book the free lessons when conflicts are skipped', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([otherBooking()]);
+
+      const plan = await service.create(
+        createDto({ skipConflicts: true }),
+        'student-id',
+      );
+
+      expect(plan.bookedCount).toBe(2);
+      expect(plan.conflictCount).toBe(1);
+      expect(mockPrismaService.booking.create).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.booking.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          lessonPackageId: 'package-id',
+          seriesId: 'series-id',
+          scheduledAt: new Date('2026-11-03T00:00:00.000Z'),
+          status: BookingStatus.CONFIRMED,
+        }),
+      });
+      expect(mockSlotHoldService.convert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop the series once the package has no lessons left', async () => {
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue(
+        lessonPackage({ remainingLessons: 3 }),
+      );
+      mockPrismaService.booking.count.mockResolvedValue(1);
+
+      const plan = await service.create(
+        createDto({ dryRun: true }),
+        'student-id',
+      );
+
+      expect(plan.occurrences.map((o) => o.status)).toEqual([
+        'AVAILABLE',
+        'AVAILABLE',
+        'PACKAGE_USED_UP',
+      ]);
+      expect(plan.stoppedReason).toBe('PACKAGE_USED_UP');
+      expect(plan.conflictCount).toBe(0);
+    });
+
+    it('should stop the series at the package expiry', async () => {
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue(
+        lessonPackage({ expiresAt: new Date('2026-10-30T00:00:00.000Z') }),
+      );
+
+      const plan = await service.create(createDto(), 'student-id');
+
+      expect(plan.occurrences.map((o) => o.status)).toEqual([
+        'AVAILABLE',
+        'AVAILABLE',
+        'PACKAGE_EXPIRED',
+      ]);
+      expect(plan.stoppedReason).toBe('PACKAGE_EXPIRED');
+      expect(plan.bookedCount).toBe(2);
+      expect(mockPrismaService.bookingSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ stoppedReason: 'PACKAGE_EXPIRED' }),
+      });
+    });
+
+    it('should release the holds when the package was used in the meantime', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { id: 'package-id', remainingLessons: 2 },
+      ]);
+
+      await expect(service.create(createDto(), 'student-id')).rejects.toThrow(
+        'The package only has 2 lesson(s) left to book',
+      );
+      expect(mockSlotHoldService.releaseAll).toHaveBeenCalledWith(
+        expect.any(Array),
+        'FAILED',
+      );
+      expect(mockPrismaService.bookingSeries.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reschedule', () => {
+    it('should move the upcoming lessons to the new weekly slot in order', async () => {
+      const plan = await service.reschedule(
+        'series-id',
+        { daysOfWeek: [3], startTime: '10:00' },
+        'student-id',
+      );
+
+      expect(scheduledTimes(plan)).toEqual([
+        '2026-10-14T14:00:00.000Z',
+        '2026-10-21T14:00:00.000Z',
+        '2026-10-28T14:00:00.000Z',
+      ]);
+      expect(mockPrismaService.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { notIn: ['booking-1', 'booking-2', 'booking-3'] },
+          }),
+        }),
+      );
+      expect(mockPrismaService.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-3' },
+        data: { scheduledAt: new Date('2026-10-28T14:00:00.000Z') },
+      });
+      expect(mockPrismaService.lesson.updateMany).toHaveBeenCalledWith({
+        where: { bookingId: 'booking-3', status: LessonStatus.SCHEDULED },
+        data: { scheduledAt: new Date('2026-10-28T14:00:00.000Z') },
+      });
+      expect(mockPrismaService.bookingSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-id' },
+        data: { daysOfWeek: [3], startTime: '10:00' },
+      });
+    });
+
+    it('should keep the current time of lessons whose new slot is taken', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([
+        otherBooking({ scheduledAt: new Date('2026-10-21T14:00:00.000Z') }),
+      ]);
+
+      const plan = await service.reschedule(
+        'series-id',
+        { daysOfWeek: [3], startTime: '10:00', skipConflicts: true },
+        'student-id',
+      );
+
+      expect(plan.bookedCount).toBe(2);
+      expect(plan.conflictCount).toBe(1);
+      expect(mockPrismaService.booking.update).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.booking.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'booking-2' } }),
+      );
+    });
+
+    it('should refuse to move lessons into a taken slot by default', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([
+        otherBooking({ scheduledAt: new Date('2026-10-21T14:00:00.000Z') }),
+      ]);
+
+      await expect(
+        service.reschedule(
+          'series-id',
+          { daysOfWeek: [3], startTime: '10:00' },
+          'student-id',
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.booking.update).not.toHaveBeenCalled();
+    });
+
+    it('should only move lessons from the effective date on', async () => {
+      await service.reschedule(
+        'series-id',
+        { effectiveFrom: '2026-10-22', startTime: '20:00' },
+        'teacher-id',
+      );
+
+      expect(mockPrismaService.booking.update).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-2' },
+        data: { scheduledAt: new Date('2026-10-27T00:00:00.000Z') },
+      });
+      expect(mockPrismaService.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-3' },
+        data: { scheduledAt: new Date('2026-11-03T01:00:00.000Z') },
+      });
+    });
+  });
+
+  describe('stopExhaustedSeries', () => {
+    it('should cancel the last lessons the package can no longer pay for', async () => {
+      mockPrismaService.bookingSeries.findMany.mockResolvedValue([
+        series({ lessonPackage: lessonPackage({ remainingLessons: 1 }) }),
+      ]);
+      mockPrismaService.booking.count.mockResolvedValue(3);
+
+      await service.stopExhaustedSeries();
+
+      expect(mockBookingService.cancel).toHaveBeenCalledTimes(2);
+      expect(mockBookingService.cancel).toHaveBeenCalledWith(
+        'booking-2',
+        'Weekly series stopped: PACKAGE_USED_UP',
+        undefined,
+        UserRole.ADMIN,
+      );
+      expect(mockPrismaService.bookingSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-id' },
+        data: {
+          status: BookingSeriesStatus.ACTIVE,
+          stoppedReason: 'PACKAGE_USED_UP',
+        },
+      });
+    });
+
+    it('should cancel lessons after the package expires', async () => {
+      mockPrismaService.bookingSeries.findMany.mockResolvedValue([
+        series({
+          lessonPackage: lessonPackage({
+            expiresAt: new Date('2026-10-25T00:00:00.000Z'),
+          }),
+        }),
+      ]);
+      mockPrismaService.booking.count.mockResolvedValue(3);
+
+      await service.stopExhaustedSeries();
+
+      expect(mockBookingService.cancel.mock.calls.map(([id]) => id)).toEqual([
+        'booking-2',
+        'booking-3',
+      ]);
+      expect(mockPrismaService.bookingSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-id' },
+        data: {
+          status: BookingSeriesStatus.ACTIVE,
+          stoppedReason: 'PACKAGE_EXPIRED',
+        },
+      });
+    });
+  });
+});
@@ -7,6 +7,22 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { NotificationService } from './notification.service';
+import { BookingMetadataService } from './booking-metadata.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { AttendanceService } from '../attendance/attendance.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { SlotHoldService } from '../slot-hold/slot-hold.service';
+import { assertCanBookLessons } from '../auth/utils/email-verification';
+import {
+  getAvailabilityIntervals,
+  isWithinAvailability,
+} from '../teacherAvailability/availability-windows';
+import {
+  getZonedParts,
+  resolveTimeZone,
+  toZonedTime,
+} from '../common/timezone/timezone.util';
 import {
   RequestTrialLessonDto,
   TeacherTrialResponseDto,
@@ -22,17 +38,27 @@ import {
   NotificationVm,
 } from './vm/trial-lesson-flow.vm';
 import {
+  AttendanceEventType,
+  BookingMetadata,
   BookingStatus,
   LessonStatus,
   TeacherStatus,
   UserRole,
 } from '@prisma/client';
 
+type StoredLearningGoals = string | { learningObjectives?: string[] };
+
 @Injectable()
 export class TrialLessonFlowService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly realtimeService: RealtimeService,
+    private readonly earningsService: EarningsService,
+    private readonly bookingMetadataService: BookingMetadataService,
+    private readonly meetingService: MeetingService,
+    private readonly attendanceService: AttendanceService,
+    private readonly slotHoldService: SlotHoldService,
   ) {}
 
   /**
@@ -53,6 +79,8 @@ export class TrialLessonFlowService {
       throw new NotFoundException('Student not found');
     }
 
+    assertCanBookLessons(student.user);
+
     // Validate teacher exists and is approved
     const teacher = await this.prisma.teacher.findUnique({
       where: { id: requestDto.teacherId },
@@ -95,37 +123,56 @@ export class TrialLessonFlowService {
     // Check teacher availability (basic validation)
     await this.validateTeacherAvailability(requestDto.teacherId, scheduledAt, requestDto.duration || 30);
 
-    // Check for conflicts
-    await this.checkForBookingConflicts(requestDto.teacherId, studentId, scheduledAt, requestDto.duration || 30);
-
-    // Create trial lesson booking
-    const booking = await this.prisma.booking.create({
-      data: {
-        studentId,
+    // Hold the slot while checking and booking it
+    const booking = await this.slotHoldService.withHold(
+      {
         teacherId: requestDto.teacherId,
-        scheduledAt,
+        startsAt: scheduledAt,
         duration: requestDto.duration || 30,
-        notes: this.buildTrialLessonNotes(requestDto.notes, requestDto.learningGoals),
-        isTrialLesson: true,
-        status: BookingStatus.PENDING,
+        holderId: studentId,
+        holdId: requestDto.holdId,
       },
-      include: {
-        student: { include: { user: true } },
-        teacher: { include: { user: true } },
-      },
-    });
+      async () => {
+        // Check for conflicts
+        await this.checkForBookingConflicts(
+          requestDto.teacherId,
+          studentId,
+          scheduledAt,
+          requestDto.duration || 30,
+        );
 
-    // Send notification to teacher
-    await this.sendTrialRequestNotificationToTeacher(booking.id, booking.teacherId);
+        // Create trial lesson booking
+        return this.prisma.booking.create({
+          data: {
+            studentId,
+            teacherId: requestDto.teacherId,
+            scheduledAt,
+            duration: requestDto.duration || 30,
+            notes: requestDto.notes,
+            isTrialLesson: true,
+            status: BookingStatus.PENDING,
+          },
+          include: {
+            student: { include: { user: true } },
+            teacher: { include: { user: true } },
+          },
+        });
+      },
+      (created) => ({ bookingId: created.id }),
+    );
 
     // Store trial lesson metadata
-    await this.storeTrialLessonMetadata(booking.id, {
+    const metadata = await this.bookingMetadataService.save(booking.id, {
       learningGoals: requestDto.learningGoals,
-      requestedAt: new Date(),
-      notificationSent: true,
     });
 
-    return this.toTrialLessonRequestVm(booking);
+    // Send notification to teacher
+    await this.sendTrialRequestNotificationToTeacher(
+      booking.id,
+      booking.teacherId,
+    );
+
+    return this.toTrialLessonRequestVm({ ...booking, metadata });
   }
 
   /**
@@ -171,16 +218,16 @@ export class TrialLessonFlowService {
         where: { id: bookingId },
         data: {
           status: BookingStatus.CONFIRMED,
-          notes: this.addTeacherResponseToNotes(booking.notes, responseDto.message, 'ACCEPTED'),
         },
         include: {
           student: { include: { user: true } },
           teacher: { include: { user: true } },
         },
       });
+      this.realtimeService.bookingStatusChanged(updatedBooking, booking.status);
 
       // Generate meeting link
-      meetingLink = await this.generateTrialLessonMeetingLink(bookingId);
+      meetingLink = this.meetingService.getRoom(bookingId).meetingUrl;
 
       // Create lesson record
       await this.createTrialLessonRecord(bookingId, meetingLink);
@@ -201,13 +248,13 @@ export class TrialLessonFlowService {
         where: { id: bookingId },
         data: {
           status: BookingStatus.CANCELLED,
-          notes: this.addTeacherResponseToNotes(booking.notes, responseDto.declineReason, 'DECLINED'),
         },
         include: {
           student: { include: { user: true } },
           teacher: { include: { user: true } },
         },
       });
+      this.realtimeService.bookingStatusChanged(updatedBooking, booking.status);
 
       nextSteps = [
         'Student will be notified of the decline',
@@ -221,15 +268,18 @@ export class TrialLessonFlowService {
     }
 
     // Store teacher response metadata
-    await this.storeTeacherResponseMetadata(bookingId, {
-      action: responseDto.action,
-      message: responseDto.message,
-      respondedAt: new Date(),
+    const metadata = await this.bookingMetadataService.save(bookingId, {
+      teacherResponse:
+        responseDto.action === 'ACCEPT' ? 'ACCEPTED' : 'DECLINED',
+      teacherMessage: responseDto.message,
+      declineReason: responseDto.declineReason,
       preLessonInstructions: responseDto.preLessonInstructions,
+      meetingUrl: meetingLink,
+      respondedAt: new Date(),
     });
 
     return {
-      booking: this.toTrialLessonRequestVm(updatedBooking),
+      booking: this.toTrialLessonRequestVm({ ...updatedBooking, metadata }),
       action: responseDto.action,
       teacherMessage: responseDto.message,
       studentNotified: true,
@@ -278,19 +328,15 @@ export class TrialLessonFlowService {
       };
     }
 
-    // Generate new meeting link
-    const meetingUrl = await this.generateTrialLessonMeetingLink(
+    // Rooms come from the configured meeting provider
+    const { meetingUrl, roomId } = this.meetingService.getRoom(
       generateDto.bookingId,
-      generateDto.platform || 'ANTOREE_MEET'
     );
 
     // Update lesson with meeting URL
     await this.updateLessonMeetingUrl(generateDto.bookingId, meetingUrl);
 
-    return {
-      meetingUrl,
-      roomId: this.extractRoomIdFromUrl(meetingUrl),
-    };
+    return { meetingUrl, roomId };
   }
 
   /**
@@ -328,17 +374,18 @@ export class TrialLessonFlowService {
       throw new BadRequestException('Meeting link not yet available');
     }
 
-    // Check if lesson is within joinable time window (15 minutes before to 1 hour after)
+    // Check if lesson is within joinable time window (15 minutes before start to 15 minutes after end)
     const now = new Date();
-    const lessonStart = new Date(booking.scheduledAt);
-    const earliestJoinTime = new Date(lessonStart.getTime() - 15 * 60 * 1000); // 15 minutes before
-    const latestJoinTime = new Date(lessonStart.getTime() + 60 * 60 * 1000); // 1 hour after
+    const joinWindow = this.meetingService.getJoinWindow(
+      booking.scheduledAt,
+      booking.duration,
+    );
 
-    if (now < earliestJoinTime) {
+    if (now < joinWindow.opensAt) {
       throw new BadRequestException('Meeting room is not yet available. You can join 15 minutes before the scheduled time.');
     }
 
-    if (now > latestJoinTime) {
+    if (now > joinWindow.closesAt) {
       throw new BadRequestException('Meeting room is no longer available. The lesson time window has passed.');
     }
 
@@ -349,24 +396,29 @@ export class TrialLessonFlowService {
       ? `${booking.teacher.user.firstName} ${booking.teacher.user.lastName}`
       : `${booking.student.user.firstName} ${booking.student.user.lastName}`;
 
-    // Generate session token for authentication
-    const sessionToken = await this.generateSessionToken(joinDto.bookingId, userId, meetingUserRole);
+    // Room token for this participant; the teacher moderates the room
+    const participant = isTeacher ? booking.teacher.user : booking.student.user;
+    const joinToken = this.meetingService.createJoinToken(booking, {
+      id: userId,
+      name: participantName,
+      email: participant.email,
+      avatar: participant.avatar || undefined,
+      moderator: isTeacher,
+    });
 
-    // Update lesson start time if this is the first participant joining
-    if (!booking.lesson.startedAt && now >= lessonStart) {
-      await this.prisma.lesson.update({
-        where: { id: booking.lesson.id },
-        data: {
-          startedAt: now,
-          status: LessonStatus.IN_PROGRESS,
-        },
-      });
-    }
+    // Attendance sets the lesson start once both participants are in the room
+    await this.attendanceService.recordEvent(
+      booking.lesson.id,
+      userId,
+      AttendanceEventType.JOINED,
+    );
 
     return {
       roomId: this.extractRoomIdFromUrl(booking.lesson.meetingUrl),
       meetingUrl: booking.lesson.meetingUrl,
-      sessionToken,
+      joinUrl: joinToken.joinUrl,
+      sessionToken: joinToken.token,
+      sessionExpiresAt: joinToken.expiresAt.toISOString(),
       userRole: meetingUserRole,
       config: {
         enableVideo: true,
@@ -383,7 +435,6 @@ export class TrialLessonFlowService {
         participantName,
         participantRole: meetingUserRole,
       },
-      backupLinks: await this.generateBackupMeetingLinks(joinDto.bookingId),
     };
   }
 
@@ -423,17 +474,11 @@ export class TrialLessonFlowService {
 
     // Update booking and lesson status
     const now = new Date();
-    const [updatedBooking] = await Promise.all([
+    const [updatedBooking, completedLesson] = await Promise.all([
       this.prisma.booking.update({
         where: { id: completeDto.bookingId },
         data: {
           status: BookingStatus.COMPLETED,
-          notes: this.addCompletionNotesToBooking(
-            booking.notes,
-            completeDto.teacherFeedback,
-            completeDto.performanceNotes,
-            completeDto.recommendations
-          ),
         },
         include: {
           student: { include: { user: true } },
@@ -453,15 +498,22 @@ export class TrialLessonFlowService {
         },
       }),
     ]);
+    this.realtimeService.bookingStatusChanged(updatedBooking, booking.status);
+    this.realtimeService.lessonCompleted(completedLesson);
+    await this.earningsService.syncBooking(completeDto.bookingId);
 
     // Store completion metadata
-    await this.storeTrialCompletionMetadata(completeDto.bookingId, {
-      completedAt: now,
-      teacherFeedback: completeDto.teacherFeedback,
-      performanceNotes: completeDto.performanceNotes,
-      recommendations: completeDto.recommendations,
-      actualDuration: completeDto.duration || booking.duration,
-    });
+    const metadata = await this.bookingMetadataService.save(
+      completeDto.bookingId,
+      {
+        trialCompletion: {
+          teacherFeedback: completeDto.teacherFeedback,
+          performanceNotes: completeDto.performanceNotes,
+          recommendations: completeDto.recommendations,
+          actualDuration: completeDto.duration || booking.duration,
+        },
+      },
+    );
 
     // Update teacher statistics
     await this.updateTeacherStats(booking.teacherId);
@@ -473,7 +525,7 @@ export class TrialLessonFlowService {
     const nextAvailableSlots = await this.getTeacherNextAvailableSlots(booking.teacherId, 5);
 
     return {
-      booking: this.toTrialLessonRequestVm(updatedBooking),
+      booking: this.toTrialLessonRequestVm({ ...updatedBooking, metadata }),
       completion: {
         completedAt: now.toISOString(),
         actualDuration: completeDto.duration || booking.duration,
@@ -481,7 +533,7 @@ export class TrialLessonFlowService {
         performanceNotes: completeDto.performanceNotes,
         recommendations: completeDto.recommendations,
       },
-      recording: await this.getSessionRecordingInfo(completeDto.bookingId),
+      recording: await this.meetingService.getRecording(completeDto.bookingId),
       followUpActions: {
         canBookRegularLesson: true,
         canLeaveReview: true,
@@ -503,30 +555,39 @@ export class TrialLessonFlowService {
     userRole: UserRole,
     limit: number = 20
   ): Promise<NotificationVm[]> {
-    // In a real implementation, this would fetch from a notifications table
-    // For now, we'll get relevant bookings and convert them to notifications
-    
-    let whereClause: any = { isTrialLesson: true };
-    
-    if (userRole === UserRole.STUDENT) {
-      const student = await this.prisma.student.findUnique({ where: { id: userId } });
-      if (student) whereClause.studentId = student.id;
-    } else if (userRole === UserRole.TEACHER) {
-      const teacher = await this.prisma.teacher.findUnique({ where: { id: userId } });
-      if (teacher) whereClause.teacherId = teacher.id;
-    }
-
-    const bookings = await this.prisma.booking.findMany({
-      where: whereClause,
-      include: {
-        student: { include: { user: true } },
-        teacher: { include: { user: true } },
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        userId,
+        archivedAt: null,
+        type: { startsWith: 'TRIAL_' },
       },
-      orderBy: { updatedAt: 'desc' },
+      include: { booking: true },
+      orderBy: { createdAt: 'desc' },
       take: limit,
     });
 
-    return bookings.map(booking => this.bookingToNotificationVm(booking, userRole));
+    return notifications.map((notification) => {
+      const booking = notification.booking;
+      const isForTeacher = booking
+        ? booking.teacherId === userId
+        : userRole === UserRole.TEACHER;
+
+      return {
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        bookingId: notification.bookingId,
+        recipientId: notification.userId,
+        isRead: !!notification.readAt,
+        priority: notification.priority as NotificationVm['priority'],
+        createdAt: notification.createdAt.toISOString(),
+        actions: booking
+          ? this.getNotificationActions(booking, isForTeacher)
+          : [],
+        metadata: notification.metadata as Record<string, any>,
+      };
+    });
   }
 
   // Helper methods
@@ -535,26 +596,33 @@ export class TrialLessonFlowService {
     scheduledAt: Date,
     duration: number
   ): Promise<void> {
-    const dayOfWeek = scheduledAt.getDay();
-    const timeInMinutes = scheduledAt.getHours() * 60 + scheduledAt.getMinutes();
-    
-    const availability = await this.prisma.teacherAvailability.findFirst({
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: teacherId },
+      select: { timezone: true },
+    });
+    const timezone = resolveTimeZone(teacher?.timezone);
+
+    // Availability hours are in the teacher's timezone
+    const availabilities = await this.prisma.teacherAvailability.findMany({
       where: {
         teacherId,
-        dayOfWeek,
         isActive: true,
       },
     });
 
-    if (!availability) {
+    const localDate = getZonedParts(scheduledAt, timezone).date;
+    if (
+      getAvailabilityIntervals(availabilities, localDate, timezone).length === 0
+    ) {
       throw new BadRequestException('Teacher is not available on this day');
     }
 
-    const startTime = this.parseTime(availability.startTime);
-    const endTime = this.parseTime(availability.endTime);
-
-    if (timeInMinutes < startTime || timeInMinutes + duration > endTime) {
-      throw new BadRequestException('Requested time is outside teacher availability hours');
+    if (
+      !isWithinAvailability(availabilities, scheduledAt, duration, timezone)
+    ) {
+      throw new BadRequestException(
+        'Requested time is outside teacher availability hours',
+      );
     }
   }
 
@@ -595,52 +663,10 @@ export class TrialLessonFlowService {
     }
   }
 
-  private buildTrialLessonNotes(notes?: string, learningGoals?: string): string {
-    const parts = [];
-    if (notes) parts.push(`Notes: ${notes}`);
-    if (learningGoals) parts.push(`Learning Goals: ${learningGoals}`);
-    return parts.join('\n');
-  }
-
-  private addTeacherResponseToNotes(existingNotes: string | null, message?: string, action?: string): string {
-    const base = existingNotes || '';
-    const responseText = `\nTeacher Response (${action}): ${message || 'No message provided'}`;
-    return base + responseText;
-  }
-
-  private addCompletionNotesToBooking(
-    existingNotes: string | null,
-    feedback?: string,
-    performance?: string,
-    recommendations?: string
-  ): string {
-    const base = existingNotes || '';
-    const parts = [];
-    
-    if (feedback) parts.push(`Teacher Feedback: ${feedback}`);
-    if (performance) parts.push(`Performance Notes: ${performance}`);
-    if (recommendations) parts.push(`Recommendations: ${recommendations}`);
-    
-    return base + '\n--- LESSON COMPLETED ---\n' + parts.join('\n');
-  }
-
-  private async generateTrialLessonMeetingLink(
+  private async createTrialLessonRecord(
     bookingId: string,
-    platform: string = 'ANTOREE_MEET'
-  ): Promise<string> {
-    // In a real implementation, this would integrate with actual video platforms
-    switch (platform) {
-      case 'ZOOM':
-        return `https://zoom.us/j/trial_${bookingId}`;
-      case 'GOOGLE_MEET':
-        return `https://meet.google.com/trial-${bookingId}`;
-      case 'ANTOREE_MEET':
-      default:
-        return `https://meet.antoree.com/trial/${bookingId}`;
-    }
-  }
-
-  private async createTrialLessonRecord(bookingId: string, meetingUrl: string): Promise<void> {
+    meetingUrl: string,
+  ): Promise<void> {
     const booking = await this.prisma.booking.findUnique({
       where: { id: bookingId },
     });
@@ -674,37 +700,6 @@ export class TrialLessonFlowService {
     return match ? match[1] : `room_${Date.now()}`;
   }
 
-  private async generateSessionToken(
-    bookingId: string,
-    userId: string,
-    userRole: string
-  ): Promise<string> {
-    // In a real implementation, this would generate a JWT or similar token
-    const tokenData = {
-      bookingId,
-      userId,
-      userRole,
-      timestamp: Date.now(),
-    };
-    return Buffer.from(JSON.stringify(tokenData)).toString('base64');
-  }
-
-  private async generateBackupMeetingLinks(bookingId: string): Promise<{ googleMeet?: string; zoom?: string }> {
-    return {
-      googleMeet: `https://meet.google.com/backup-${bookingId}`,
-      zoom: `https://zoom.us/j/backup_${bookingId}`,
-    };
-  }
-
-  private async getSessionRecordingInfo(bookingId: string): Promise<any> {
-    // In a real implementation, this would check if recording is available
-    return {
-      available: true,
-      url: `https://recordings.antoree.com/trial/${bookingId}`,
-      expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
-    };
-  }
-
   private generateSuggestedNextSteps(recommendations?: string): string[] {
     const defaultSteps = [
       'Book regular lessons to continue improving',
@@ -746,22 +741,8 @@ export class TrialLessonFlowService {
     });
   }
 
-  private parseTime(timeStr: string): number {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return hours * 60 + minutes;
-  }
-
   private toTrialLessonRequestVm(booking: any): TrialLessonRequestVm {
-    // Parse learning goals from notes if exists
-    let learningGoals: string | undefined;
-    try {
-      const goalsMatch = booking.notes?.match(/Learning Goals: ([^\n]+)/);
-      if (goalsMatch) {
-        learningGoals = goalsMatch[1];
-      }
-    } catch (e) {
-      // Ignore parsing errors
-    }
+    const learningGoals = this.getTrialLearningGoals(booking.metadata);
 
     return {
       id: booking.id,
@@ -781,6 +762,14 @@ export class TrialLessonFlowService {
         hourlyRate: booking.teacher.hourlyRate.toString(),
       },
       scheduledAt: booking.scheduledAt.toISOString(),
+      studentLocalTime: toZonedTime(
+        booking.scheduledAt,
+        resolveTimeZone(booking.student.timezone),
+      ),
+      teacherLocalTime: toZonedTime(
+        booking.scheduledAt,
+        resolveTimeZone(booking.teacher.timezone),
+      ),
       duration: booking.duration,
       status: booking.status,
       notes: booking.notes,
@@ -790,70 +779,6 @@ export class TrialLessonFlowService {
     };
   }
 
-  private bookingToNotificationVm(booking: any, userRole: UserRole): NotificationVm {
-    const isForTeacher = userRole === UserRole.TEACHER;
-    const otherParty = isForTeacher ? booking.student : booking.teacher;
-    
-    let notificationType: string;
-    let title: string;
-    let message: string;
-    
-    switch (booking.status) {
-      case BookingStatus.PENDING:
-        if (isForTeacher) {
-          notificationType = 'TRIAL_REQUEST';
-          title = 'New Trial Lesson Request';
-          message = `${otherParty.user.firstName} ${otherParty.user.lastName} has requested a trial lesson`;
-        } else {
-          notificationType = 'TRIAL_REQUEST';
-          title = 'Trial Lesson Request Sent';
-          message = `Your trial lesson request has been sent to ${otherParty.user.firstName} ${otherParty.user.lastName}`;
-        }
-        break;
-      case BookingStatus.CONFIRMED:
-        notificationType = 'TRIAL_ACCEPTED';
-        title = 'Trial Lesson Confirmed';
-        message = isForTeacher 
-          ? `Trial lesson confirmed with ${otherParty.user.firstName} ${otherParty.user.lastName}`
-          : `${otherParty.user.firstName} ${otherParty.user.lastName} accepted your trial lesson request`;
-        break;
-      case BookingStatus.CANCELLED:
-        notificationType = 'TRIAL_DECLINED';
-        title = 'Trial Lesson Cancelled';
-        message = isForTeacher
-          ? `Trial lesson with ${otherParty.user.firstName} ${otherParty.user.lastName} was cancelled`
-          : `Your trial lesson request was declined by ${otherParty.user.firstName} ${otherParty.user.lastName}`;
-        break;
-      case BookingStatus.COMPLETED:
-        notificationType = 'TRIAL_COMPLETED';
-        title = 'Trial Lesson Completed';
-        message = `Trial lesson with ${otherParty.user.firstName} ${otherParty.user.lastName} has been completed`;
-        break;
-      default:
-        notificationType = 'TRIAL_UPDATE';
-        title = 'Trial Lesson Update';
-        message = `Trial lesson status updated`;
-    }
-
-    return {
-      id: `notif_trial_${booking.id}`,
-      type: notificationType,
-      title,
-      message,
-      bookingId: booking.id,
-      recipientId: isForTeacher ? booking.teacher.id : booking.student.id,
-      isRead: false,
-      priority: booking.status === BookingStatus.PENDING ? 'high' : 'medium',
-      createdAt: booking.updatedAt.toISOString(),
-      actions: this.getNotificationActions(booking, isForTeacher),
-      metadata: {
-        scheduledAt: booking.scheduledAt,
-        duration: booking.duration,
-        otherPartyName: `${otherParty.user.firstName} ${otherParty.user.lastName}`,
-      },
-    };
-  }
-
   private getNotificationActions(booking: any, isForTeacher: boolean): any[] {
     const actions = [];
     
@@ -904,12 +829,13 @@ export class TrialLessonFlowService {
       include: {
         student: { include: { user: true } },
         teacher: { include: { user: true } },
+        metadata: true,
       },
     });
 
     if (booking) {
       const studentName = `${booking.student.user.firstName} ${booking.student.user.lastName}`;
-      const learningGoals = this.extractLearningGoalsFromNotes(booking.notes);
+      const learningGoals = this.getTrialLearningGoals(booking.metadata);
 
       await this.notificationService.sendTrialRequestToTeacher(
         teacherId,
@@ -917,7 +843,8 @@ export class TrialLessonFlowService {
         studentName,
         bookingId,
         booking.scheduledAt,
-        learningGoals
+        learningGoals,
+        booking.teacher.timezone,
       );
 
       // Schedule lesson reminders if confirmed
@@ -948,7 +875,8 @@ export class TrialLessonFlowService {
         bookingId,
         booking.scheduledAt,
         meetingLink,
-        instructions
+        instructions,
+        booking.student.timezone,
       );
     }
   }
@@ -1006,23 +934,16 @@ export class TrialLessonFlowService {
     }
   }
 
-  private extractLearningGoalsFromNotes(notes?: string | null): string | undefined {
-    if (!notes) return undefined;
-    
-    const goalsMatch = notes.match(/Learning Goals: ([^\n]+)/);
-    return goalsMatch ? goalsMatch[1] : undefined;
-  }
-
-  private async storeTrialLessonMetadata(bookingId: string, metadata: any): Promise<void> {
-    // In a real implementation, this would store in a metadata table
-    console.log(`Storing trial lesson metadata for booking: ${bookingId}`, metadata);
-  }
-
-  private async storeTeacherResponseMetadata(bookingId: string, metadata: any): Promise<void> {
-    console.log(`Storing teacher response metadata for booking: ${bookingId}`, metadata);
-  }
-
-  private async storeTrialCompletionMetadata(bookingId: string, metadata: any): Promise<void> {
-    console.log(`Storing trial completion metadata for booking: ${bookingId}`, metadata);
+  /**
+   * Trial requests store their goals as free text, bookings made through the
+   * booking form as structured goals
+   */
+  private getTrialLearningGoals(
+    metadata?: BookingMetadata | null,
+  ): string | undefined {
+    const goals = metadata?.learningGoals as StoredLearningGoals | null;
+    if (!goals) return undefined;
+    if (typeof goals === 'string') return goals;
+    return goals.learningObjectives?.join(', ') || undefined;
   }
 }
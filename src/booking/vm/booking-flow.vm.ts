@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { BookingStatus, EnglishLevel } from '@prisma/client';
+import { ZonedTimeVm } from '../../common/timezone/zoned-time.vm';
 
 export class BookingFlowTimeSlotVm {
   @ApiProperty({
@@ -8,6 +9,18 @@ export class BookingFlowTimeSlotVm {
   })
   dateTime: string;
 
+  @ApiProperty({
+    description: 'Slot start in the teacher timezone',
+    type: ZonedTimeVm,
+  })
+  teacherLocalTime: ZonedTimeVm;
+
+  @ApiProperty({
+    description: 'Slot start in the student timezone',
+    type: ZonedTimeVm,
+  })
+  studentLocalTime: ZonedTimeVm;
+
   @ApiProperty({
     description: 'Duration in minutes',
     example: 30,
@@ -52,6 +65,12 @@ export class TeacherAvailabilitySlotsVm {
   })
   timezone: string;
 
+  @ApiProperty({
+    description: 'Student timezone the requested dates were read in',
+    example: 'America/New_York',
+  })
+  studentTimezone: string;
+
   @ApiProperty({
     description: 'Available time slots',
     type: [BookingFlowTimeSlotVm],
@@ -112,6 +131,18 @@ export class BookingRequestVm {
   })
   scheduledAt: string;
 
+  @ApiProperty({
+    description: 'Scheduled time in the student timezone',
+    type: ZonedTimeVm,
+  })
+  studentLocalTime: ZonedTimeVm;
+
+  @ApiProperty({
+    description: 'Scheduled time in the teacher timezone',
+    type: ZonedTimeVm,
+  })
+  teacherLocalTime: ZonedTimeVm;
+
   @ApiProperty({
     description: 'Lesson duration in minutes',
     example: 30,
@@ -157,6 +188,30 @@ export class BookingRequestVm {
   })
   howFoundTeacher?: string;
 
+  @ApiPropertyOptional({
+    description: 'Code given to the student when confirming the booking',
+    example: 'K7M2QX',
+  })
+  confirmationCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Meeting link for the lesson',
+    example: 'https://meet.antoree.com/lesson/cm3booking123def456',
+  })
+  meetingUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Message from the teacher when responding to the request',
+    example: 'I look forward to our lesson!',
+  })
+  teacherMessage?: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the teacher declined the request',
+    example: 'Schedule conflict',
+  })
+  declineReason?: string;
+
   @ApiProperty({
     description: 'Booking creation timestamp',
     example: '2024-02-10T09:00:00Z',
@@ -210,7 +265,7 @@ export class BookingConfirmationVm {
 export class TeacherNotificationVm {
   @ApiProperty({
     description: 'Notification ID',
-    example: 'notif123',
+    example: 'clk123456789',
   })
   id: string;
 
@@ -232,11 +287,11 @@ export class TeacherNotificationVm {
   })
   message: string;
 
-  @ApiProperty({
+  @ApiPropertyOptional({
     description: 'Related booking information',
     type: BookingRequestVm,
   })
-  booking: BookingRequestVm;
+  booking?: BookingRequestVm;
 
   @ApiProperty({
     description: 'Available actions for the teacher',
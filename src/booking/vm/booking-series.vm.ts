@@ -0,0 +1,141 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BookingSeriesStatus, BookingStatus } from '@prisma/client';
+
+export type SeriesOccurrenceStatus =
+  | 'AVAILABLE'
+  | 'IN_PAST'
+  | 'OUTSIDE_AVAILABILITY'
+  | 'TEACHER_CONFLICT'
+  | 'STUDENT_CONFLICT'
+  | 'PACKAGE_USED_UP'
+  | 'PACKAGE_EXPIRED';
+
+export class SeriesOccurrenceVm {
+  @ApiProperty()
+  scheduledAt: Date;
+
+  @ApiProperty({
+    description: 'Day in the series timezone',
+    example: '2026-03-03',
+  })
+  localDate: string;
+
+  @ApiProperty({ example: '19:00' })
+  localTime: string;
+
+  @ApiProperty({
+    enum: [
+      'AVAILABLE',
+      'IN_PAST',
+      'OUTSIDE_AVAILABILITY',
+      'TEACHER_CONFLICT',
+      'STUDENT_CONFLICT',
+      'PACKAGE_USED_UP',
+      'PACKAGE_EXPIRED',
+    ],
+    example: 'AVAILABLE',
+  })
+  status: SeriesOccurrenceStatus;
+
+  @ApiPropertyOptional({ description: 'Booking the lesson conflicts with' })
+  conflictingBookingId?: string;
+
+  @ApiPropertyOptional({ description: 'Booking created or moved for it' })
+  bookingId?: string;
+}
+
+export class SeriesBookingVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty()
+  scheduledAt: Date;
+
+  @ApiProperty({ example: 60 })
+  duration: number;
+
+  @ApiProperty({ enum: BookingStatus, example: BookingStatus.CONFIRMED })
+  status: BookingStatus;
+}
+
+export class BookingSeriesVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'cm3package123def456' })
+  lessonPackageId: string;
+
+  @ApiProperty()
+  studentId: string;
+
+  @ApiProperty()
+  teacherId: string;
+
+  @ApiProperty({ type: [Number], example: [2, 4] })
+  daysOfWeek: number[];
+
+  @ApiProperty({ example: '19:00' })
+  startTime: string;
+
+  @ApiProperty({ example: 'Asia/Ho_Chi_Minh' })
+  timezone: string;
+
+  @ApiProperty({ example: 60 })
+  duration: number;
+
+  @ApiProperty({ example: '2026-03-02' })
+  startDate: string;
+
+  @ApiProperty({ example: 10 })
+  weeks: number;
+
+  @ApiProperty({
+    enum: BookingSeriesStatus,
+    example: BookingSeriesStatus.ACTIVE,
+  })
+  status: BookingSeriesStatus;
+
+  @ApiPropertyOptional({
+    description: 'Why the series ends before its last week',
+    example: 'PACKAGE_USED_UP',
+  })
+  stoppedReason?: string;
+
+  @ApiPropertyOptional()
+  notes?: string;
+
+  @ApiProperty({ type: [SeriesBookingVm] })
+  bookings: SeriesBookingVm[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class BookingSeriesPlanVm {
+  @ApiPropertyOptional({
+    type: BookingSeriesVm,
+    description: 'Empty for dry runs',
+  })
+  series?: BookingSeriesVm;
+
+  @ApiProperty({ type: [SeriesOccurrenceVm] })
+  occurrences: SeriesOccurrenceVm[];
+
+  @ApiProperty({ description: 'Lessons booked or moved', example: 18 })
+  bookedCount: number;
+
+  @ApiProperty({
+    description: 'Lessons left out because of availability or conflicts',
+    example: 2,
+  })
+  conflictCount: number;
+
+  @ApiPropertyOptional({
+    description: 'Set when the package runs out before the series ends',
+    example: 'PACKAGE_USED_UP',
+  })
+  stoppedReason?: string;
+}
@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { BookingStatus } from '@prisma/client';
+import { ZonedTimeVm } from '../../common/timezone/zoned-time.vm';
 
 export class BookingVm {
   @ApiProperty({
@@ -32,6 +33,18 @@ export class BookingVm {
   })
   scheduledAt: Date;
 
+  @ApiProperty({
+    description: 'Scheduled time in the student timezone',
+    type: ZonedTimeVm,
+  })
+  studentLocalTime: ZonedTimeVm;
+
+  @ApiProperty({
+    description: 'Scheduled time in the teacher timezone',
+    type: ZonedTimeVm,
+  })
+  teacherLocalTime: ZonedTimeVm;
+
   @ApiProperty({
     description: 'Lesson duration in minutes',
     example: 60,
@@ -156,7 +169,7 @@ export class BookingSearchResultVm {
 
 export class AvailableTimeSlotVm {
   @ApiProperty({
-    description: 'Available date (YYYY-MM-DD)',
+    description: 'Available date (YYYY-MM-DD) in the teacher timezone',
     example: '2024-02-15',
   })
   date: string;
@@ -168,12 +181,18 @@ export class AvailableTimeSlotVm {
   dayOfWeek: number;
 
   @ApiProperty({
-    description: 'Available time slots for this date',
+    description: 'Available time slots for this date in the teacher timezone',
     type: [String],
     example: ['09:00', '10:00', '11:00', '14:00', '15:00'],
   })
   timeSlots: string[];
 
+  @ApiPropertyOptional({
+    description: 'The same slots in the student timezone, when one is given',
+    type: [ZonedTimeVm],
+  })
+  studentTimeSlots?: ZonedTimeVm[];
+
   @ApiProperty({
     description: 'Whether this date is today',
     example: false,
@@ -206,6 +225,12 @@ export class TeacherAvailabilityVm {
   })
   timezone: string;
 
+  @ApiPropertyOptional({
+    description: 'Student timezone used for studentTimeSlots',
+    example: 'America/New_York',
+  })
+  studentTimezone?: string;
+
   @ApiProperty({
     description: 'Available dates and time slots',
     type: [AvailableTimeSlotVm],
@@ -1,3 +1,4 @@
 export * from './booking.vm';
 export * from './booking-flow.vm';
 export * from './lesson-package.vm';
+export * from './booking-series.vm';
@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ZonedTimeVm } from '../../common/timezone/zoned-time.vm';
 
 export class TrialLessonRequestVm {
   @ApiProperty({
@@ -36,6 +37,18 @@ export class TrialLessonRequestVm {
   })
   scheduledAt: string;
 
+  @ApiProperty({
+    description: 'Scheduled time in the student timezone',
+    type: ZonedTimeVm,
+  })
+  studentLocalTime: ZonedTimeVm;
+
+  @ApiProperty({
+    description: 'Scheduled time in the teacher timezone',
+    type: ZonedTimeVm,
+  })
+  teacherLocalTime: ZonedTimeVm;
+
   @ApiProperty({
     description: 'Lesson duration in minutes',
     example: 30
@@ -123,11 +136,23 @@ export class VideoCallSessionVm {
   })
   meetingUrl: string;
 
+  @ApiProperty({
+    description:
+      'Meeting URL that signs the participant in with the session token',
+  })
+  joinUrl: string;
+
   @ApiProperty({
     description: 'Session token for authentication'
   })
   sessionToken: string;
 
+  @ApiProperty({
+    description: 'When the session token stops being accepted',
+    example: '2024-02-15T15:15:00.000Z',
+  })
+  sessionExpiresAt: string;
+
   @ApiProperty({
     description: 'User role in the meeting',
     enum: ['TEACHER', 'STUDENT']
@@ -156,14 +181,6 @@ export class VideoCallSessionVm {
     participantName: string;
     participantRole: string;
   };
-
-  @ApiPropertyOptional({
-    description: 'Backup meeting links'
-  })
-  backupLinks?: {
-    googleMeet?: string;
-    zoom?: string;
-  };
 }
 
 export class TrialLessonCompletionVm {
@@ -214,7 +231,7 @@ export class TrialLessonCompletionVm {
 export class NotificationVm {
   @ApiProperty({
     description: 'Notification ID',
-    example: 'notif_12345'
+    example: 'clk123456789',
   })
   id: string;
 
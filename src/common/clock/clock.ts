@@ -0,0 +1,38 @@
+/**
+ * Source of the current time for code that must be testable without waiting
+ * for real time to pass (e.g. TOTP codes)
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const CLOCK = Symbol('CLOCK');
+
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Clock frozen at a given instant, moved only by `set` and `advance`
+ */
+export class TestClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date): void {
+    this.current = date.getTime();
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './rate-limit.constants';
+export * from './rate-limit.guard';
+export * from './rate-limit.module';
+export * from './redis-throttler.storage';
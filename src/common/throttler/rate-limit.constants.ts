@@ -0,0 +1,26 @@
+export type RateLimitProfile = 'public' | 'authenticated' | 'webhook' | 'auth';
+
+export interface RateLimitProfileOptions {
+  limit: number;
+  ttl: number; // ms
+  blockDuration: number; // ms, how long a tracker is refused once over the limit
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * `public` and `webhook` are counted per client IP, `authenticated` per
+ * account. `auth` covers credential endpoints (login, password reset) and is
+ * counted per IP; repeated failures on one account are handled separately by
+ * the login lockout in AuthService.
+ */
+export const RATE_LIMIT_PROFILES: Record<
+  RateLimitProfile,
+  RateLimitProfileOptions
+> = {
+  public: { limit: 60, ttl: MINUTE, blockDuration: MINUTE },
+  authenticated: { limit: 300, ttl: MINUTE, blockDuration: MINUTE },
+  // Payment gateways retry IPNs in bursts and must never be cut off for long
+  webhook: { limit: 600, ttl: MINUTE, blockDuration: 10 * 1000 },
+  auth: { limit: 10, ttl: MINUTE, blockDuration: 5 * MINUTE },
+};
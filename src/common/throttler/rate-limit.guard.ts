@@ -0,0 +1,58 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { ThrottlerGuard, ThrottlerRequest } from '@nestjs/throttler';
+import { IS_PUBLIC_KEY } from '../../decorators/public.decorator';
+import { RATE_LIMIT_PROFILE_KEY } from '../../decorators/rate-limit.decorator';
+import { RateLimitProfile, RATE_LIMIT_PROFILES } from './rate-limit.constants';
+
+const HEADER_PROFILE_SUFFIX = new RegExp(
+  `-(${Object.keys(RATE_LIMIT_PROFILES).join('|')})$`,
+);
+
+/**
+ * Applies exactly one limit profile per route and reports it with the
+ * standard `RateLimit-*` and `Retry-After` headers. Registered after the JWT
+ * guard so authenticated routes can be counted per account.
+ */
+@Injectable()
+export class RateLimitGuard extends ThrottlerGuard {
+  protected async handleRequest(
+    requestProps: ThrottlerRequest,
+  ): Promise<boolean> {
+    if (
+      requestProps.throttler.name !== this.resolveProfile(requestProps.context)
+    ) {
+      return true;
+    }
+    return super.handleRequest(requestProps);
+  }
+
+  protected async getTracker(req: Record<string, any>): Promise<string> {
+    const ip = await super.getTracker(req);
+    return req.user?.id ? `user:${req.user.id}` : `ip:${ip}`;
+  }
+
+  protected setResponseHeader(
+    res: Record<string, any>,
+    name: string,
+    value: string | number,
+  ): void {
+    super.setResponseHeader(
+      res,
+      name.replace(/^X-/, '').replace(HEADER_PROFILE_SUFFIX, ''),
+      value,
+    );
+  }
+
+  private resolveProfile(context: ExecutionContext): RateLimitProfile {
+    const targets = [context.getHandler(), context.getClass()];
+    const profile = this.reflector.getAllAndOverride<RateLimitProfile>(
+      RATE_LIMIT_PROFILE_KEY,
+      targets,
+    );
+    if (profile) return profile;
+
+    return this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)
+      ? 'public'
+      : 'authenticated';
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ThrottlerModule } from '@nestjs/throttler';
+import { RATE_LIMIT_PROFILES } from './rate-limit.constants';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RedisThrottlerStorage } from './redis-throttler.storage';
+
+@Module({
+  imports: [
+    ThrottlerModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        throttlers: Object.entries(RATE_LIMIT_PROFILES).map(
+          ([name, options]) => ({ name, ...options }),
+        ),
+        // RATE_LIMIT_STORAGE=memory keeps counters per process, e.g. for local runs without Redis
+        storage:
+          configService.get('RATE_LIMIT_STORAGE', 'redis') === 'memory'
+            ? undefined
+            : new RedisThrottlerStorage({
+                host: configService.get('REDIS_HOST', 'localhost'),
+                port: parseInt(configService.get('REDIS_PORT', '6379')),
+                password: configService.get('REDIS_PASSWORD'),
+              }),
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [RateLimitGuard],
+  exports: [RateLimitGuard],
+})
+export class RateLimitModule {}
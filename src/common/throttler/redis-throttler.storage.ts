@@ -0,0 +1,105 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ThrottlerStorage } from '@nestjs/throttler';
+import { createClient } from '@redis/client';
+
+// Not exported from the package root
+type ThrottlerStorageRecord = Awaited<
+  ReturnType<ThrottlerStorage['increment']>
+>;
+
+/**
+ * Counts hits in a fixed window and blocks the key once the limit is passed.
+ * Runs atomically in Redis so every API instance shares the same counters.
+ *
+ * Returns [totalHits, hits pttl, isBlocked, block pttl]
+ */
+const INCREMENT_SCRIPT = `
+local blockTtl = redis.call('PTTL', KEYS[2])
+if blockTtl > 0 then
+  return { tonumber(redis.call('GET', KEYS[1]) or '0'), redis.call('PTTL', KEYS[1]), 1, blockTtl }
+end
+
+local hits = redis.call('INCR', KEYS[1])
+if hits == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+
+if hits > tonumber(ARGV[2]) then
+  redis.call('SET', KEYS[2], '1', 'PX', ARGV[3])
+  redis.call('DEL', KEYS[1])
+  return { hits, 0, 1, tonumber(ARGV[3]) }
+end
+
+return { hits, redis.call('PTTL', KEYS[1]), 0, 0 }
+`;
+
+export class RedisThrottlerStorage
+  implements ThrottlerStorage, OnModuleDestroy
+{
+  private readonly logger = new Logger(RedisThrottlerStorage.name);
+  private readonly client: ReturnType<typeof createClient>;
+  private connecting: Promise<unknown>;
+
+  constructor(options: { host: string; port: number; password?: string }) {
+    this.client = createClient({
+      socket: { host: options.host, port: options.port },
+      password: options.password,
+    });
+    this.client.on('error', (error) =>
+      this.logger.error('Redis throttler client error', error),
+    );
+  }
+
+  async increment(
+    key: string,
+    ttl: number,
+    limit: number,
+    blockDuration: number,
+    throttlerName: string,
+  ): Promise<ThrottlerStorageRecord> {
+    const hitsKey = `throttle:${throttlerName}:${key}`;
+    let result: number[];
+
+    try {
+      await this.connect();
+      result = (await this.client.eval(INCREMENT_SCRIPT, {
+        keys: [hitsKey, `${hitsKey}:blocked`],
+        arguments: [String(ttl), String(limit), String(blockDuration)],
+      })) as number[];
+    } catch (error) {
+      // Fail open: an unavailable Redis must not take the whole API down
+      this.logger.warn(`Rate limiting skipped: ${error.message}`);
+      return {
+        totalHits: 0,
+        timeToExpire: Math.ceil(ttl / 1000),
+        isBlocked: false,
+        timeToBlockExpire: 0,
+      };
+    }
+
+    const [totalHits, hitsTtl, isBlocked, blockTtl] = result;
+
+    return {
+      totalHits,
+      timeToExpire: Math.max(0, Math.ceil(hitsTtl / 1000)),
+      isBlocked: isBlocked === 1,
+      timeToBlockExpire: Math.max(0, Math.ceil(blockTtl / 1000)),
+    };
+  }
+
+  async onModuleDestroy() {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  private connect(): Promise<unknown> {
+    if (!this.connecting) {
+      this.connecting = this.client.connect().catch((error) => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+}
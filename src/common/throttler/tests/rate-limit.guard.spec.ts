@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ThrottlerException } from '@nestjs/throttler';
+import { Public } from '../../../decorators/public.decorator';
+import { RateLimit } from '../../../decorators/rate-limit.decorator';
+import { RATE_LIMIT_PROFILES } from '../rate-limit.constants';
+import { RateLimitGuard } from '../rate-limit.guard';
+
+class TestController {
+  @Public()
+  listTeachers() {
+    return [];
+  }
+
+  @Public()
+  @RateLimit('auth')
+  login() {
+    return {};
+  }
+
+  @RateLimit('webhook')
+  paymentIpn() {
+    return {};
+  }
+
+  getProfile() {
+    return {};
+  }
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+
+  const mockStorage = {
+    increment: jest.fn<any>(),
+  };
+
+  const response = { header: jest.fn<any>() };
+
+  const contextFor = (
+    handler: keyof TestController,
+    request: Record<string, any> = {},
+  ) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      getType: () => 'http',
+      switchToHttp: () => ({
+        getRequest: () => ({ ip: '203.0.113.7', headers: {}, ...request }),
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext);
+
+  const countedProfiles = () =>
+    mockStorage.increment.mock.calls.map(([, , , , name]) => name);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockStorage.increment.mockResolvedValue({
+      totalHits: 1,
+      timeToExpire: 60,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+
+    guard = new RateLimitGuard(
+      {
+        throttlers: Object.entries(RATE_LIMIT_PROFILES).map(
+          ([name, options]) => ({ name, ...options }),
+        ),
+      },
+      mockStorage,
+      new Reflector(),
+    );
+    await guard.onModuleInit();
+  });
+
+  describe('profile selection', () => {
+    it('should count public routes against the public profile only', async () => {
+      await guard.canActivate(contextFor('listTeachers'));
+
+      expect(countedProfiles()).toEqual(['public']);
+    });
+
+    it('should prefer the profile picked with @RateLimit', async () => {
+      await guard.canActivate(contextFor('login'));
+      await guard.canActivate(contextFor('paymentIpn'));
+
+      expect(countedProfiles()).toEqual(['auth', 'webhook']);
+    });
+
+    it('should count other routes against the authenticated profile', async () => {
+      await guard.canActivate(
+        contextFor('getProfile', { user: { id: 'user-id' } }),
+      );
+
+      expect(countedProfiles()).toEqual(['authenticated']);
+      expect(mockStorage.increment).toHaveBeenCalledWith(
+        expect.any(String),
+        RATE_LIMIT_PROFILES.authenticated.ttl,
+        RATE_LIMIT_PROFILES.authenticated.limit,
+        RATE_LIMIT_PROFILES.authenticated.blockDuration,
+        'authenticated',
+      );
+    });
+  });
+
+  describe('tracker', () => {
+    const trackerOf = (request: Record<string, any>) =>
+      (guard as any).getTracker(request);
+
+    it('should count signed-in users per account', async () => {
+      await expect(
+        trackerOf({ ip: '203.0.113.7', user: { id: 'user-id' } }),
+      ).resolves.toBe('user:user-id');
+    });
+
+    it('should count anonymous clients per IP', async () => {
+      await expect(trackerOf({ ip: '203.0.113.7' })).resolves.toBe(
+        'ip:203.0.113.7',
+      );
+    });
+  });
+
+  describe('headers', () => {
+    it('should report the limit with standard headers', async () => {
+      await guard.canActivate(contextFor('login'));
+
+      expect(response.header).toHaveBeenCalledWith(
+        'RateLimit-Limit',
+        RATE_LIMIT_PROFILES.auth.limit,
+      );
+      expect(response.header).toHaveBeenCalledWith(
+        'RateLimit-Remaining',
+        RATE_LIMIT_PROFILES.auth.limit - 1,
+      );
+      expect(response.header).toHaveBeenCalledWith('RateLimit-Reset', 60);
+    });
+
+    it('should refuse blocked clients with Retry-After', async () => {
+      mockStorage.increment.mockResolvedValue({
+        totalHits: 11,
+        timeToExpire: 0,
+        isBlocked: true,
+        timeToBlockExpire: 300,
+      });
+
+      await expect(guard.canActivate(contextFor('login'))).rejects.toThrow(
+        ThrottlerException,
+      );
+      expect(response.header).toHaveBeenCalledWith('Retry-After', 300);
+    });
+  });
+});
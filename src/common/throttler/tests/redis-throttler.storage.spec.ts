@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RedisThrottlerStorage } from '../redis-throttler.storage';
+
+const mockClient = {
+  on: jest.fn<any>(),
+  connect: jest.fn<any>(),
+  eval: jest.fn<any>(),
+  quit: jest.fn<any>(),
+  isOpen: true,
+};
+
+jest.mock('@redis/client', () => ({
+  createClient: () => mockClient,
+}));
+
+describe('RedisThrottlerStorage', () => {
+  let storage: RedisThrottlerStorage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.connect.mockResolvedValue(undefined);
+    storage = new RedisThrottlerStorage({ host: 'localhost', port: 6379 });
+  });
+
+  it('should count hits per profile and key in Redis', async () => {
+    mockClient.eval.mockResolvedValue([3, 42500, 0, 0]);
+
+    const record = await storage.increment(
+      'tracker',
+      60000,
+      10,
+      300000,
+      'auth',
+    );
+
+    expect(record).toEqual({
+      totalHits: 3,
+      timeToExpire: 43,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+    expect(mockClient.eval).toHaveBeenCalledWith(expect.any(String), {
+      keys: ['throttle:auth:tracker', 'throttle:auth:tracker:blocked'],
+      arguments: ['60000', '10', '300000'],
+    });
+  });
+
+  it('should report a blocked key with the time left on the block', async () => {
+    mockClient.eval.mockResolvedValue([11, 0, 1, 299001]);
+
+    const record = await storage.increment(
+      'tracker',
+      60000,
+      10,
+      300000,
+      'auth',
+    );
+
+    expect(record.isBlocked).toBe(true);
+    expect(record.timeToBlockExpire).toBe(300);
+  });
+
+  it('should let requests through when Redis cannot be reached', async () => {
+    mockClient.connect.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const record = await storage.increment(
+      'tracker',
+      60000,
+      10,
+      300000,
+      'auth',
+    );
+
+    expect(record).toEqual({
+      totalHits: 0,
+      timeToExpire: 60,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+    expect(mockClient.eval).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect on the next request after a failed connection', async () => {
+    mockClient.connect
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(undefined);
+    mockClient.eval.mockResolvedValue([1, 60000, 0, 0]);
+
+    await storage.increment('tracker', 60000, 10, 300000, 'auth');
+    const record = await storage.increment(
+      'tracker',
+      60000,
+      10,
+      300000,
+      'auth',
+    );
+
+    expect(mockClient.connect).toHaveBeenCalledTimes(2);
+    expect(record.totalHits).toBe(1);
+  });
+
+  it('should let requests through when the script fails', async () => {
+    mockClient.eval.mockRejectedValue(new Error('READONLY'));
+
+    const record = await storage.increment(
+      'tracker',
+      60000,
+      10,
+      300000,
+      'auth',
+    );
+
+    expect(record.isBlocked).toBe(false);
+    expect(record.totalHits).toBe(0);
+  });
+});
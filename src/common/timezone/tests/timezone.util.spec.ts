@@ -0,0 +1,149 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  addDays,
+  DEFAULT_TIMEZONE,
+  eachDay,
+  formatUtcOffset,
+  getDayOfWeek,
+  getTimeZoneOffset,
+  getZonedDayRange,
+  getZonedParts,
+  resolveTimeZone,
+  toZonedTime,
+  zonedTimeToUtc,
+} from '../timezone.util';
+
+const NEW_YORK = 'America/New_York';
+
+describe('timezone.util', () => {
+  describe('resolveTimeZone', () => {
+    it('should keep valid IANA zones', () => {
+      expect(resolveTimeZone('Europe/London')).toBe('Europe/London');
+    });
+
+    it.each([undefined, null, '', 'Mars/Olympus'])(
+      'should fall back to Vietnam time for %p',
+      (timezone) => {
+        expect(resolveTimeZone(timezone)).toBe(DEFAULT_TIMEZONE);
+      },
+    );
+  });
+
+  describe('offsets', () => {
+    it('should report the offset at the given instant', () => {
+      expect(
+        getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), DEFAULT_TIMEZONE),
+      ).toBe(420);
+      expect(
+        getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), NEW_YORK),
+      ).toBe(-300);
+      expect(
+        getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), NEW_YORK),
+      ).toBe(-240);
+    });
+
+    it.each([
+      [420, '+07:00'],
+      [-300, '-05:00'],
+      [330, '+05:30'],
+      [0, '+00:00'],
+    ])('should format %i minutes as %s', (minutes, formatted) => {
+      expect(formatUtcOffset(minutes)).toBe(formatted);
+    });
+  });
+
+  describe('getZonedParts', () => {
+    it('should read the local calendar day across midnight', () => {
+      expect(
+        getZonedParts(new Date('2026-03-01T18:30:00Z'), DEFAULT_TIMEZONE),
+      ).toEqual({
+        date: '2026-03-02',
+        time: '01:30',
+        dayOfWeek: 1,
+        minutes: 90,
+      });
+    });
+
+    it('should describe the instant in the given zone', () => {
+      expect(toZonedTime(new Date('2026-07-15T12:00:00Z'), NEW_YORK)).toEqual({
+        timezone: NEW_YORK,
+        date: '2026-07-15',
+        time: '08:00',
+        utcOffset: '-04:00',
+      });
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert a local wall clock to UTC', () => {
+      expect(
+        zonedTimeToUtc('2026-03-02', '09:00', DEFAULT_TIMEZONE).toISOString(),
+      ).toBe('2026-03-02T02:00:00.000Z');
+    });
+
+    it('should round trip with getZonedParts', () => {
+      const instant = zonedTimeToUtc('2026-06-10', '17:45', NEW_YORK);
+
+      expect(getZonedParts(instant, NEW_YORK)).toMatchObject({
+        date: '2026-06-10',
+        time: '17:45',
+      });
+    });
+
+    it('should shift times skipped by spring forward', () => {
+      expect(
+        zonedTimeToUtc('2026-03-08', '02:30', NEW_YORK).toISOString(),
+      ).toBe('2026-03-08T07:30:00.000Z');
+    });
+
+    it('should pick the first of times repeated by fall back', () => {
+      expect(
+        zonedTimeToUtc('2026-11-01', '01:30', NEW_YORK).toISOString(),
+      ).toBe('2026-11-01T05:30:00.000Z');
+    });
+
+    it('should accept 24:00 as the end of the day', () => {
+      expect(
+        zonedTimeToUtc('2026-03-02', '24:00', DEFAULT_TIMEZONE).toISOString(),
+      ).toBe('2026-03-02T17:00:00.000Z');
+    });
+  });
+
+  describe('getZonedDayRange', () => {
+    it('should span 23 hours on a spring forward day', () => {
+      const { start, end } = getZonedDayRange('2026-03-08', NEW_YORK);
+
+      expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+      expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60000);
+    });
+
+    it('should span 25 hours on a fall back day', () => {
+      const { start, end } = getZonedDayRange('2026-11-01', NEW_YORK);
+
+      expect(end.getTime() - start.getTime()).toBe(25 * 60 * 60000);
+    });
+  });
+
+  describe('calendar days', () => {
+    it('should add days across month and year ends', () => {
+      expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+      expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+      expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('should number weekdays from Sunday', () => {
+      expect(getDayOfWeek('2026-03-01')).toBe(0);
+      expect(getDayOfWeek('2026-03-07')).toBe(6);
+    });
+
+    it('should list every day of a range inclusively', () => {
+      expect(eachDay('2026-02-27', '2026-03-02')).toEqual([
+        '2026-02-27',
+        '2026-02-28',
+        '2026-03-01',
+        '2026-03-02',
+      ]);
+      expect(eachDay('2026-03-02', '2026-03-01')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+export const DEFAULT_TIMEZONE = 'Asia/Ho_Chi_Minh';
+
+export interface ZonedParts {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  dayOfWeek: number; // 0-6, Sunday first
+  minutes: number; // minutes since local midnight
+}
+
+export interface ZonedTime {
+  timezone: string;
+  date: string;
+  time: string;
+  utcOffset: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fall back to Vietnam time for missing or unknown IANA zone names
+ */
+export function resolveTimeZone(timezone?: string | null): string {
+  return isValidTimeZone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+function getWallClock(date: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/**
+ * Offset of `timezone` from UTC at `date`, in minutes (+420 for Vietnam)
+ */
+export function getTimeZoneOffset(date: Date, timezone: string): number {
+  const wall = getWallClock(date, timezone);
+  const asUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+  );
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  return `${sign}${hours}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const wall = getWallClock(date, timezone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const localDate = `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+
+  return {
+    date: localDate,
+    time: `${pad(wall.hour)}:${pad(wall.minute)}`,
+    dayOfWeek: getDayOfWeek(localDate),
+    minutes: wall.hour * 60 + wall.minute,
+  };
+}
+
+export function toZonedTime(date: Date, timezone: string): ZonedTime {
+  const parts = getZonedParts(date, timezone);
+  return {
+    timezone,
+    date: parts.date,
+    time: parts.time,
+    utcOffset: formatUtcOffset(getTimeZoneOffset(date, timezone)),
+  };
+}
+
+/**
+ * Convert a wall-clock time in `timezone` to an instant. Times skipped by a
+ * DST jump resolve to the same instant as the shifted wall clock (02:30 on a
+ * spring-forward day becomes 03:30), repeated times resolve to the first one.
+ * `time` may be 24:00 for the end of the day.
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timezone: string,
+): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // DST transitions are never less than a day apart, so the offsets a day
+  // either side cover every valid reading of the wall clock
+  const oneDay = 24 * 60 * 60000;
+  const before =
+    asUtc - getTimeZoneOffset(new Date(asUtc - oneDay), timezone) * 60000;
+  const after =
+    asUtc - getTimeZoneOffset(new Date(asUtc + oneDay), timezone) * 60000;
+
+  const matches = (instant: number) => {
+    const wall = getZonedParts(new Date(instant), timezone);
+    return wall.date === date && wall.minutes === hours * 60 + minutes;
+  };
+
+  const candidates = [before, after].filter(matches);
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+
+  // The wall clock falls in a DST gap, read it with the offset before the jump
+  return new Date(before);
+}
+
+/**
+ * Instants bounding a local calendar day, end exclusive. DST days are 23 or
+ * 25 hours long.
+ */
+export function getZonedDayRange(
+  date: string,
+  timezone: string,
+): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(date, '00:00', timezone),
+    end: zonedTimeToUtc(addDays(date, 1), '00:00', timezone),
+  };
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split('T')[0];
+}
+
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Local calendar days from `from` to `to`, both inclusive
+ */
+export function eachDay(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Human readable local time for notifications, e.g. "Mon, Feb 16, 09:00 GMT+7"
+ */
+export function formatInTimeZone(date: Date, timezone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  });
+}
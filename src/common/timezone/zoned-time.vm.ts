@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ZonedTimeVm {
+  @ApiProperty({
+    description: 'IANA timezone the time is shown in',
+    example: 'Asia/Ho_Chi_Minh',
+  })
+  timezone: string;
+
+  @ApiProperty({
+    description: 'Local date (YYYY-MM-DD)',
+    example: '2026-02-16',
+  })
+  date: string;
+
+  @ApiProperty({
+    description: 'Local time (HH:mm)',
+    example: '09:00',
+  })
+  time: string;
+
+  @ApiProperty({
+    description: 'UTC offset at that instant, DST included',
+    example: '+07:00',
+  })
+  utcOffset: string;
+}
@@ -0,0 +1,147 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CouponService } from './coupon.service';
+import {
+  CreateCouponDto,
+  SearchCouponDto,
+  UpdateCouponDto,
+  ValidateCouponDto,
+} from './dto';
+import { CouponQuoteVm, CouponRedemptionVm, CouponVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Coupons')
+@Controller('coupons')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CouponController {
+  constructor(private readonly couponService: CouponService) {}
+
+  @Post('validate')
+  @ApiOperation({ summary: 'Check a coupon and preview its discount' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Coupon is valid',
+    type: CouponQuoteVm,
+  })
+  @ResponseMessage('Coupon is valid')
+  @HttpCode(HttpStatus.OK)
+  async validate(
+    @Body() validateDto: ValidateCouponDto,
+    @CurrentUser() user: any,
+  ): Promise<CouponQuoteVm> {
+    return this.couponService.quote(validateDto, user.id);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a coupon (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Coupon created successfully',
+    type: CouponVm,
+  })
+  @ResponseMessage('Coupon created successfully')
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Body() createCouponDto: CreateCouponDto,
+    @CurrentUser() user: any,
+  ): Promise<CouponVm> {
+    return this.couponService.create(createCouponDto, user.id);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get coupons (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Coupons retrieved successfully',
+    type: [CouponVm],
+  })
+  @ResponseMessage('Coupons retrieved successfully')
+  async findAll(@Query() searchDto: SearchCouponDto): Promise<CouponVm[]> {
+    return this.couponService.findAll(searchDto);
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get a coupon with its usage (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Coupon retrieved successfully',
+    type: CouponVm,
+  })
+  @ResponseMessage('Coupon retrieved successfully')
+  async findOne(@Param('id') id: string): Promise<CouponVm> {
+    return this.couponService.findOne(id);
+  }
+
+  @Get(':id/redemptions')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get the redemptions of a coupon (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Coupon redemptions retrieved successfully',
+    type: [CouponRedemptionVm],
+  })
+  @ResponseMessage('Coupon redemptions retrieved successfully')
+  async findRedemptions(
+    @Param('id') id: string,
+  ): Promise<CouponRedemptionVm[]> {
+    return this.couponService.findRedemptions(id);
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a coupon (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Coupon updated successfully',
+    type: CouponVm,
+  })
+  @ResponseMessage('Coupon updated successfully')
+  async update(
+    @Param('id') id: string,
+    @Body() updateCouponDto: UpdateCouponDto,
+  ): Promise<CouponVm> {
+    return this.couponService.update(id, updateCouponDto);
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary:
+      'Delete a coupon, or deactivate it if it was already redeemed (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Coupon removed successfully',
+    type: CouponVm,
+  })
+  @ResponseMessage('Coupon removed successfully')
+  async remove(@Param('id') id: string): Promise<CouponVm> {
+    return this.couponService.remove(id);
+  }
+}
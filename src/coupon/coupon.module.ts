@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { CouponController } from './coupon.controller';
+import { CouponService } from './coupon.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CouponController],
+  providers: [CouponService],
+  exports: [CouponService],
+})
+export class CouponModule {}
@@ -0,0 +1,499 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Coupon,
+  CouponDiscountType,
+  CouponRedemption,
+  Payment,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import {
+  CreateCouponDto,
+  SearchCouponDto,
+  UpdateCouponDto,
+  ValidateCouponDto,
+} from './dto';
+import {
+  CouponQuoteVm,
+  CouponRedemptionVm,
+  CouponUsageVm,
+  CouponVm,
+} from './vm';
+
+/**
+ * What is being bought, used to check the coupon's scope and limits
+ */
+export interface CouponContext {
+  amount: number;
+  userId?: string;
+  courseId?: string;
+  teacherId?: string;
+  packageType?: string;
+}
+
+/**
+ * A new payment's coupon use, recorded together with the payment
+ */
+export interface CouponRedemptionInput {
+  couponId: string;
+  userId: string;
+  paymentId: string;
+  code: string;
+  originalAmount: number;
+  discountAmount: number;
+}
+
+// A checkout left pending for longer than this gives its coupon use back
+export const COUPON_RESERVATION_TTL_MINUTES = 30;
+
+@Injectable()
+export class CouponService {
+  private readonly logger = new Logger(CouponService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    createCouponDto: CreateCouponDto,
+    adminId: string,
+  ): Promise<CouponVm> {
+    await this.validateCouponRules(createCouponDto);
+
+    const existing = await this.prisma.coupon.findUnique({
+      where: { code: createCouponDto.code },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Coupon ${createCouponDto.code} already exists`,
+      );
+    }
+
+    const coupon = await this.prisma.coupon.create({
+      data: {
+        ...createCouponDto,
+        startsAt: createCouponDto.startsAt
+          ? new Date(createCouponDto.startsAt)
+          : undefined,
+        expiresAt: createCouponDto.expiresAt
+          ? new Date(createCouponDto.expiresAt)
+          : undefined,
+        createdById: adminId,
+      },
+    });
+
+    this.logger.log(`Coupon ${coupon.code} created by ${adminId}`);
+
+    return this.toCouponVm(coupon);
+  }
+
+  async findAll(searchDto: SearchCouponDto): Promise<CouponVm[]> {
+    const where: Prisma.CouponWhereInput = {
+      code: searchDto.code
+        ? { contains: searchDto.code.toUpperCase() }
+        : undefined,
+      isActive: searchDto.isActive,
+      courseId: searchDto.courseId,
+      teacherId: searchDto.teacherId,
+    };
+
+    const coupons = await this.prisma.coupon.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return coupons.map((coupon) => this.toCouponVm(coupon));
+  }
+
+  async findOne(id: string): Promise<CouponVm> {
+    const coupon = await this.getCouponOrThrow(id);
+
+    return this.toCouponVm(coupon, await this.getUsage(id));
+  }
+
+  async update(
+    id: string,
+    updateCouponDto: UpdateCouponDto,
+  ): Promise<CouponVm> {
+    const coupon = await this.getCouponOrThrow(id);
+
+    await this.validateCouponRules({
+      discountType: updateCouponDto.discountType ?? coupon.discountType,
+      discountValue:
+        updateCouponDto.discountValue ?? Number(coupon.discountValue),
+      startsAt: updateCouponDto.startsAt ?? coupon.startsAt?.toISOString(),
+      expiresAt: updateCouponDto.expiresAt ?? coupon.expiresAt?.toISOString(),
+      courseId: updateCouponDto.courseId,
+      teacherId: updateCouponDto.teacherId,
+    });
+
+    const updated = await this.prisma.coupon.update({
+      where: { id },
+      data: {
+        ...updateCouponDto,
+        startsAt: updateCouponDto.startsAt
+          ? new Date(updateCouponDto.startsAt)
+          : undefined,
+        expiresAt: updateCouponDto.expiresAt
+          ? new Date(updateCouponDto.expiresAt)
+          : undefined,
+      },
+    });
+
+    return this.toCouponVm(updated, await this.getUsage(id));
+  }
+
+  /**
+   * Coupons that were already redeemed are deactivated instead of deleted so
+   * their campaign history is kept
+   */
+  async remove(id: string): Promise<CouponVm> {
+    const coupon = await this.getCouponOrThrow(id);
+
+    const redemptionCount = await this.prisma.couponRedemption.count({
+      where: { couponId: id },
+    });
+
+    if (redemptionCount > 0) {
+      const deactivated = await this.prisma.coupon.update({
+        where: { id },
+        data: { isActive: false },
+      });
+
+      return this.toCouponVm(deactivated, await this.getUsage(id));
+    }
+
+    await this.prisma.coupon.delete({ where: { id } });
+
+    return this.toCouponVm(coupon);
+  }
+
+  async findRedemptions(id: string): Promise<CouponRedemptionVm[]> {
+    await this.getCouponOrThrow(id);
+
+    const redemptions = await this.prisma.couponRedemption.findMany({
+      where: { couponId: id },
+      include: { payment: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return redemptions.map((redemption) => this.toRedemptionVm(redemption));
+  }
+
+  /**
+   * Preview the discount a coupon gives on an order
+   */
+  async quote(
+    validateDto: ValidateCouponDto,
+    userId: string,
+  ): Promise<CouponQuoteVm> {
+    return this.applyCoupon(validateDto.code, {
+      amount: validateDto.amount,
+      userId,
+      courseId: validateDto.courseId,
+      teacherId: validateDto.teacherId,
+      packageType: validateDto.packageType,
+    });
+  }
+
+  /**
+   * Check a coupon against an order and work out the discount. Throws a
+   * BadRequestException explaining why the coupon can't be used.
+   */
+  async applyCoupon(
+    code: string,
+    context: CouponContext,
+  ): Promise<CouponQuoteVm> {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { code: code.trim().toUpperCase() },
+    });
+
+    if (!coupon || !coupon.isActive) {
+      throw new BadRequestException(`Coupon ${code} is not valid`);
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw new BadRequestException(`Coupon ${coupon.code} is not active yet`);
+    }
+    if (coupon.expiresAt && coupon.expiresAt < now) {
+      throw new BadRequestException(`Coupon ${coupon.code} has expired`);
+    }
+
+    if (
+      coupon.minOrderAmount &&
+      context.amount < Number(coupon.minOrderAmount)
+    ) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} requires a minimum order of ${coupon.minOrderAmount} VND`,
+      );
+    }
+
+    this.checkScope(coupon, context);
+    await this.checkUsageLimits(coupon, context.userId);
+
+    const discountAmount = this.calculateDiscount(coupon, context.amount);
+
+    return {
+      couponId: coupon.id,
+      code: coupon.code,
+      originalAmount: context.amount,
+      discountAmount,
+      finalAmount: context.amount - discountAmount,
+    };
+  }
+
+  /**
+   * Record the coupon use of a new payment inside the transaction that creates
+   * it. The coupon row stays locked until the transaction ends, so concurrent
+   * checkouts cannot both take its last use.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    redemption: CouponRedemptionInput,
+  ): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "coupons" WHERE "id" = ${redemption.couponId} FOR UPDATE`;
+
+    const coupon = await tx.coupon.findUnique({
+      where: { id: redemption.couponId },
+    });
+    if (!coupon || !coupon.isActive) {
+      throw new BadRequestException(`Coupon ${redemption.code} is not valid`);
+    }
+
+    await this.checkUsageLimits(coupon, redemption.userId, tx);
+
+    await tx.couponRedemption.create({ data: redemption });
+  }
+
+  private checkScope(coupon: Coupon, context: CouponContext): void {
+    if (coupon.courseId && coupon.courseId !== context.courseId) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} is not valid for this course`,
+      );
+    }
+
+    if (coupon.teacherId && coupon.teacherId !== context.teacherId) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} is not valid for this teacher`,
+      );
+    }
+
+    if (coupon.packageType && coupon.packageType !== context.packageType) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} is only valid for ${coupon.packageType} lesson packages`,
+      );
+    }
+  }
+
+  private async checkUsageLimits(
+    coupon: Coupon,
+    userId?: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const countedPayment = this.countedPaymentWhere();
+
+    if (coupon.usageLimit) {
+      const used = await client.couponRedemption.count({
+        where: { couponId: coupon.id, payment: countedPayment },
+      });
+
+      if (used >= coupon.usageLimit) {
+        throw new BadRequestException(
+          `Coupon ${coupon.code} has reached its usage limit`,
+        );
+      }
+    }
+
+    if (!userId) {
+      return;
+    }
+
+    if (coupon.perUserLimit) {
+      const usedByUser = await client.couponRedemption.count({
+        where: { couponId: coupon.id, userId, payment: countedPayment },
+      });
+
+      if (usedByUser >= coupon.perUserLimit) {
+        throw new BadRequestException(
+          `You have already used coupon ${coupon.code}`,
+        );
+      }
+    }
+
+    if (coupon.firstPurchaseOnly) {
+      const previousPurchases = await client.payment.count({
+        where: {
+          userId,
+          status: { in: [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED] },
+        },
+      });
+
+      if (previousPurchases > 0) {
+        throw new BadRequestException(
+          `Coupon ${coupon.code} is only valid on your first purchase`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Payments that use up a coupon: completed ones, and checkouts still in
+   * progress. Failed, refunded and abandoned payments give the use back.
+   */
+  private countedPaymentWhere(): Prisma.PaymentWhereInput {
+    const reservedSince = new Date(
+      Date.now() - COUPON_RESERVATION_TTL_MINUTES * 60000,
+    );
+
+    return {
+      OR: [
+        { status: PaymentStatus.COMPLETED },
+        { status: PaymentStatus.PENDING, createdAt: { gt: reservedSince } },
+      ],
+    };
+  }
+
+  private calculateDiscount(coupon: Coupon, amount: number): number {
+    let discount =
+      coupon.discountType === CouponDiscountType.PERCENTAGE
+        ? Math.floor((amount * Number(coupon.discountValue)) / 100)
+        : Number(coupon.discountValue);
+
+    if (coupon.maxDiscountAmount) {
+      discount = Math.min(discount, Number(coupon.maxDiscountAmount));
+    }
+
+    return Math.min(discount, amount);
+  }
+
+  private async validateCouponRules(
+    rules: Pick<
+      CreateCouponDto,
+      | 'discountType'
+      | 'discountValue'
+      | 'startsAt'
+      | 'expiresAt'
+      | 'courseId'
+      | 'teacherId'
+    >,
+  ): Promise<void> {
+    if (
+      rules.discountType === CouponDiscountType.PERCENTAGE &&
+      rules.discountValue > 100
+    ) {
+      throw new BadRequestException(
+        'Percentage discount cannot be more than 100',
+      );
+    }
+
+    if (
+      rules.startsAt &&
+      rules.expiresAt &&
+      new Date(rules.startsAt) >= new Date(rules.expiresAt)
+    ) {
+      throw new BadRequestException('startsAt must be before expiresAt');
+    }
+
+    if (rules.courseId) {
+      const course = await this.prisma.course.findUnique({
+        where: { id: rules.courseId },
+      });
+      if (!course) {
+        throw new NotFoundException(
+          `Course with ID ${rules.courseId} not found`,
+        );
+      }
+    }
+
+    if (rules.teacherId) {
+      const teacher = await this.prisma.teacher.findUnique({
+        where: { id: rules.teacherId },
+      });
+      if (!teacher) {
+        throw new NotFoundException(
+          `Teacher with ID ${rules.teacherId} not found`,
+        );
+      }
+    }
+  }
+
+  private async getCouponOrThrow(id: string): Promise<Coupon> {
+    const coupon = await this.prisma.coupon.findUnique({ where: { id } });
+
+    if (!coupon) {
+      throw new NotFoundException(`Coupon with ID ${id} not found`);
+    }
+
+    return coupon;
+  }
+
+  private async getUsage(couponId: string): Promise<CouponUsageVm> {
+    const redemptions = await this.prisma.couponRedemption.findMany({
+      where: { couponId },
+      include: { payment: true },
+    });
+
+    const completed = redemptions.filter(
+      (redemption) => redemption.payment.status === PaymentStatus.COMPLETED,
+    );
+
+    return {
+      completedRedemptions: completed.length,
+      pendingRedemptions: redemptions.filter(
+        (redemption) => redemption.payment.status === PaymentStatus.PENDING,
+      ).length,
+      totalDiscountAmount: completed
+        .reduce((sum, redemption) => sum + Number(redemption.discountAmount), 0)
+        .toString(),
+      totalRevenue: completed
+        .reduce((sum, redemption) => sum + Number(redemption.payment.amount), 0)
+        .toString(),
+    };
+  }
+
+  private toCouponVm(coupon: Coupon, usage?: CouponUsageVm): CouponVm {
+    return {
+      id: coupon.id,
+      code: coupon.code,
+      description: coupon.description,
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue.toString(),
+      maxDiscountAmount: coupon.maxDiscountAmount?.toString(),
+      minOrderAmount: coupon.minOrderAmount?.toString(),
+      startsAt: coupon.startsAt?.toISOString(),
+      expiresAt: coupon.expiresAt?.toISOString(),
+      usageLimit: coupon.usageLimit,
+      perUserLimit: coupon.perUserLimit,
+      courseId: coupon.courseId,
+      teacherId: coupon.teacherId,
+      packageType: coupon.packageType,
+      firstPurchaseOnly: coupon.firstPurchaseOnly,
+      isActive: coupon.isActive,
+      usage,
+      createdAt: coupon.createdAt.toISOString(),
+      updatedAt: coupon.updatedAt.toISOString(),
+    };
+  }
+
+  private toRedemptionVm(
+    redemption: CouponRedemption & { payment: Payment },
+  ): CouponRedemptionVm {
+    return {
+      id: redemption.id,
+      code: redemption.code,
+      userId: redemption.userId,
+      paymentId: redemption.paymentId,
+      paymentStatus: redemption.payment.status,
+      originalAmount: redemption.originalAmount.toString(),
+      discountAmount: redemption.discountAmount.toString(),
+      createdAt: redemption.createdAt.toISOString(),
+    };
+  }
+}
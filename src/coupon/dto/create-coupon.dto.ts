@@ -0,0 +1,156 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { CouponDiscountType } from '@prisma/client';
+
+export class CreateCouponDto {
+  @ApiProperty({
+    description: 'Code students enter at checkout (stored upper-case)',
+    example: 'WELCOME10',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message:
+      'code must be 3-32 characters of letters, digits, dashes or underscores',
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Internal description of the campaign',
+    example: 'Welcome campaign for new students',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Whether the discount is a percentage or a fixed VND amount',
+    enum: CouponDiscountType,
+    example: CouponDiscountType.PERCENTAGE,
+  })
+  @IsEnum(CouponDiscountType)
+  discountType: CouponDiscountType;
+
+  @ApiProperty({
+    description: 'Percentage (1-100) or fixed amount in VND',
+    example: 10,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  discountValue: number;
+
+  @ApiPropertyOptional({
+    description: 'Cap on the discount for percentage coupons, in VND',
+    example: 200000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  maxDiscountAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minimum order amount in VND',
+    example: 500000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minOrderAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'When the coupon becomes valid',
+    example: '2025-11-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the coupon expires',
+    example: '2025-12-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Total number of redemptions allowed',
+    example: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of redemptions allowed per user',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only valid for this course',
+    example: 'cm3course123abc456',
+  })
+  @IsOptional()
+  @IsString()
+  courseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only valid for courses and packages of this teacher',
+    example: 'cm3teacher123abc456',
+  })
+  @IsOptional()
+  @IsString()
+  teacherId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only valid for this lesson package type',
+    example: 'PACKAGE_10',
+  })
+  @IsOptional()
+  @IsString()
+  packageType?: string;
+
+  @ApiPropertyOptional({
+    description: "Only valid on the user's first completed purchase",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  firstPurchaseOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Whether the coupon can be redeemed',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
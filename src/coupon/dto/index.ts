@@ -0,0 +1,4 @@
+export * from './create-coupon.dto';
+export * from './update-coupon.dto';
+export * from './search-coupon.dto';
+export * from './validate-coupon.dto';
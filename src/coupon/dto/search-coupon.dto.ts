@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class SearchCouponDto {
+  @ApiPropertyOptional({
+    description: 'Search by code',
+    example: 'WELCOME',
+  })
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by active flag',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Filter by course scope',
+    example: 'cm3course123abc456',
+  })
+  @IsOptional()
+  @IsString()
+  courseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by teacher scope',
+    example: 'cm3teacher123abc456',
+  })
+  @IsOptional()
+  @IsString()
+  teacherId?: string;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCouponDto } from './create-coupon.dto';
+
+// The code is printed on campaign material, so it can't be changed
+export class UpdateCouponDto extends PartialType(
+  OmitType(CreateCouponDto, ['code'] as const),
+) {}
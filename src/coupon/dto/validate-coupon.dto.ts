@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ValidateCouponDto {
+  @ApiProperty({
+    description: 'Coupon code',
+    example: 'WELCOME10',
+  })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+
+  @ApiProperty({
+    description: 'Order amount before discount, in VND',
+    example: 1500000,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Course being purchased',
+    example: 'cm3course123abc456',
+  })
+  @IsOptional()
+  @IsString()
+  courseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Teacher of the course or package being purchased',
+    example: 'cm3teacher123abc456',
+  })
+  @IsOptional()
+  @IsString()
+  teacherId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Lesson package type being purchased',
+    example: 'PACKAGE_10',
+  })
+  @IsOptional()
+  @IsString()
+  packageType?: string;
+}
@@ -0,0 +1,5 @@
+export * from './coupon.service';
+export * from './coupon.controller';
+export * from './coupon.module';
+export * from './dto';
+export * from './vm';
@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CouponDiscountType, PaymentStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { CouponService } from '../coupon.service';
+
+describe('CouponService', () => {
+  let service: CouponService;
+
+  const mockPrismaService = {
+    coupon: { findUnique: jest.fn<any>() },
+    couponRedemption: { count: jest.fn<any>(), create: jest.fn<any>() },
+    payment: { count: jest.fn<any>() },
+    $queryRaw: jest.fn<any>(),
+  };
+
+  const coupon = {
+    id: 'coupon-id',
+    code: 'SPRING20',
+    discountType: CouponDiscountType.PERCENTAGE,
+    discountValue: new Prisma.Decimal(20),
+    maxDiscountAmount: null,
+    minOrderAmount: null,
+    startsAt: null,
+    expiresAt: null,
+    usageLimit: null,
+    perUserLimit: null,
+    courseId: null,
+    teacherId: null,
+    packageType: null,
+    firstPurchaseOnly: false,
+    isActive: true,
+  };
+
+  const withCoupon = (overrides: Record<string, unknown> = {}) =>
+    mockPrismaService.coupon.findUnique.mockResolvedValue({
+      ...coupon,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.couponRedemption.count.mockResolvedValue(0);
+    mockPrismaService.payment.count.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CouponService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<CouponService>(CouponService);
+  });
+
+  describe('applyCoupon', () => {
+    it('should look the code up trimmed and upper case', async () => {
+      withCoupon();
+
+      await service.applyCoupon(' spring20 ', { amount: 500000 });
+
+      expect(mockPrismaService.coupon.findUnique).toHaveBeenCalledWith({
+        where: { code: 'SPRING20' },
+      });
+    });
+
+    it('should apply a percentage discount', async () => {
+      withCoupon();
+
+      const quote = await service.applyCoupon('SPRING20', { amount: 500000 });
+
+      expect(quote.discountAmount).toBe(100000);
+      expect(quote.finalAmount).toBe(400000);
+    });
+
+    it('should cap a percentage discount at its maximum', async () => {
+      withCoupon({ maxDiscountAmount: new Prisma.Decimal(50000) });
+
+      const quote = await service.applyCoupon('SPRING20', { amount: 500000 });
+
+      expect(quote.discountAmount).toBe(50000);
+    });
+
+    it('should not discount a fixed amount below zero', async () => {
+      withCoupon({
+        discountType: CouponDiscountType.FIXED_AMOUNT,
+        discountValue: new Prisma.Decimal(200000),
+      });
+
+      const quote = await service.applyCoupon('SPRING20', { amount: 150000 });
+
+      expect(quote.discountAmount).toBe(150000);
+      expect(quote.finalAmount).toBe(0);
+    });
+
+    it.each([
+      ['unknown', null, 'Coupon SPRING20 is not valid'],
+      ['inactive', { ...coupon, isActive: false }, 'is not valid'],
+      [
+        'not yet started',
+        { ...coupon, startsAt: new Date(Date.now() + 60000) },
+        'is not active yet',
+      ],
+      [
+        'expired',
+        { ...coupon, expiresAt: new Date(Date.now() - 60000) },
+        'has expired',
+      ],
+      [
+        'below the minimum order',
+        { ...coupon, minOrderAmount: new Prisma.Decimal(1000000) },
+        'requires a minimum order of 1000000 VND',
+      ],
+    ])('should reject a %s coupon', async (_, found, message) => {
+      mockPrismaService.coupon.findUnique.mockResolvedValue(found);
+
+      await expect(
+        service.applyCoupon('SPRING20', { amount: 500000 }),
+      ).rejects.toThrow(message);
+    });
+
+    it.each([
+      [{ courseId: 'course-a' }, { courseId: 'course-b' }, 'this course'],
+      [{ teacherId: 'teacher-a' }, { teacherId: 'teacher-b' }, 'this teacher'],
+      [
+        { packageType: 'PACKAGE_10' },
+        { packageType: 'PACKAGE_5' },
+        'PACKAGE_10 lesson packages',
+      ],
+    ])(
+      'should reject orders outside the coupon scope %p',
+      async (scope, order, message) => {
+        withCoupon(scope);
+
+        await expect(
+          service.applyCoupon('SPRING20', { amount: 500000, ...order }),
+        ).rejects.toThrow(message);
+      },
+    );
+
+    it('should reject a coupon that reached its usage limit', async () => {
+      withCoupon({ usageLimit: 100 });
+      mockPrismaService.couponRedemption.count.mockResolvedValue(100);
+
+      await expect(
+        service.applyCoupon('SPRING20', { amount: 500000 }),
+      ).rejects.toThrow('has reached its usage limit');
+    });
+
+    it('should only count completed and recent pending payments', async () => {
+      withCoupon({ usageLimit: 100 });
+
+      await service.applyCoupon('SPRING20', { amount: 500000 });
+
+      const [{ where }] = mockPrismaService.couponRedemption.count.mock
+        .calls[0] as [{ where: Prisma.CouponRedemptionWhereInput }];
+      const [completed, pending] = (where.payment as Prisma.PaymentWhereInput)
+        .OR as Prisma.PaymentWhereInput[];
+      expect(completed).toEqual({ status: PaymentStatus.COMPLETED });
+      expect(pending.status).toBe(PaymentStatus.PENDING);
+      expect((pending.createdAt as Prisma.DateTimeFilter).gt).toBeInstanceOf(
+        Date,
+      );
+    });
+
+    it('should reject a coupon the user already used up', async () => {
+      withCoupon({ perUserLimit: 1 });
+      mockPrismaService.couponRedemption.count.mockResolvedValue(1);
+
+      await expect(
+        service.applyCoupon('SPRING20', { amount: 500000, userId: 'user-id' }),
+      ).rejects.toThrow('You have already used coupon SPRING20');
+    });
+
+    it('should reject a first purchase coupon for returning customers', async () => {
+      withCoupon({ firstPurchaseOnly: true });
+      mockPrismaService.payment.count.mockResolvedValue(1);
+
+      await expect(
+        service.applyCoupon('SPRING20', { amount: 500000, userId: 'user-id' }),
+      ).rejects.toThrow('only valid on your first purchase');
+    });
+  });
+
+  describe('redeem', () => {
+    const redemption = {
+      couponId: 'coupon-id',
+      userId: 'user-id',
+      paymentId: 'payment-id',
+      code: 'SPRING20',
+      originalAmount: 500000,
+      discountAmount: 100000,
+    };
+    const tx = mockPrismaService as unknown as Prisma.TransactionClient;
+
+    it('should lock the coupon and record the redemption', async () => {
+      withCoupon({ usageLimit: 100 });
+      mockPrismaService.couponRedemption.count.mockResolvedValue(99);
+
+      await service.redeem(tx, redemption);
+
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalled();
+      expect(mockPrismaService.couponRedemption.create).toHaveBeenCalledWith({
+        data: redemption,
+      });
+    });
+
+    it('should refuse the last use taken by a concurrent checkout', async () => {
+      withCoupon({ usageLimit: 100 });
+      mockPrismaService.couponRedemption.count.mockResolvedValue(100);
+
+      await expect(service.redeem(tx, redemption)).rejects.toThrow(
+        'has reached its usage limit',
+      );
+      expect(mockPrismaService.couponRedemption.create).not.toHaveBeenCalled();
+    });
+  });
+});
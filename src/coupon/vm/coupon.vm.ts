@@ -0,0 +1,136 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CouponDiscountType, PaymentStatus } from '@prisma/client';
+
+export class CouponUsageVm {
+  @ApiProperty({
+    description: 'Redemptions on completed payments',
+    example: 42,
+  })
+  completedRedemptions: number;
+
+  @ApiProperty({
+    description: 'Redemptions on payments still awaiting the gateway',
+    example: 3,
+  })
+  pendingRedemptions: number;
+
+  @ApiProperty({
+    description: 'Total discount given on completed payments',
+    example: '4200000',
+  })
+  totalDiscountAmount: string;
+
+  @ApiProperty({
+    description: 'Revenue collected on completed payments using the coupon',
+    example: '37800000',
+  })
+  totalRevenue: string;
+}
+
+export class CouponVm {
+  @ApiProperty({ description: 'Coupon ID', example: 'cm3coupon123abc456' })
+  id: string;
+
+  @ApiProperty({ description: 'Coupon code', example: 'WELCOME10' })
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Campaign description',
+    example: 'Welcome campaign for new students',
+  })
+  description?: string;
+
+  @ApiProperty({ enum: CouponDiscountType })
+  discountType: CouponDiscountType;
+
+  @ApiProperty({
+    description: 'Percentage or fixed amount in VND',
+    example: '10',
+  })
+  discountValue: string;
+
+  @ApiPropertyOptional({ example: '200000' })
+  maxDiscountAmount?: string;
+
+  @ApiPropertyOptional({ example: '500000' })
+  minOrderAmount?: string;
+
+  @ApiPropertyOptional({ example: '2025-11-01T00:00:00.000Z' })
+  startsAt?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-31T23:59:59.000Z' })
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ example: 100 })
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ example: 1 })
+  perUserLimit?: number;
+
+  @ApiPropertyOptional({ example: 'cm3course123abc456' })
+  courseId?: string;
+
+  @ApiPropertyOptional({ example: 'cm3teacher123abc456' })
+  teacherId?: string;
+
+  @ApiPropertyOptional({ example: 'PACKAGE_10' })
+  packageType?: string;
+
+  @ApiProperty({ example: false })
+  firstPurchaseOnly: boolean;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiPropertyOptional({ type: CouponUsageVm })
+  usage?: CouponUsageVm;
+
+  @ApiProperty({ example: '2025-10-20T10:00:00.000Z' })
+  createdAt: string;
+
+  @ApiProperty({ example: '2025-10-20T10:00:00.000Z' })
+  updatedAt: string;
+}
+
+export class CouponRedemptionVm {
+  @ApiProperty({ example: 'cm3redemption123abc' })
+  id: string;
+
+  @ApiProperty({ example: 'WELCOME10' })
+  code: string;
+
+  @ApiProperty({ example: 'cm3user123abc456' })
+  userId: string;
+
+  @ApiProperty({ example: 'cm3payment123def456' })
+  paymentId: string;
+
+  @ApiProperty({ enum: PaymentStatus })
+  paymentStatus: PaymentStatus;
+
+  @ApiProperty({ example: '1500000' })
+  originalAmount: string;
+
+  @ApiProperty({ example: '150000' })
+  discountAmount: string;
+
+  @ApiProperty({ example: '2025-10-20T10:00:00.000Z' })
+  createdAt: string;
+}
+
+export class CouponQuoteVm {
+  @ApiProperty({ example: 'cm3coupon123abc456' })
+  couponId: string;
+
+  @ApiProperty({ example: 'WELCOME10' })
+  code: string;
+
+  @ApiProperty({ example: 1500000 })
+  originalAmount: number;
+
+  @ApiProperty({ example: 150000 })
+  discountAmount: number;
+
+  @ApiProperty({ example: 1350000 })
+  finalAmount: number;
+}
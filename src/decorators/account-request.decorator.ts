@@ -21,4 +21,5 @@ export type TAccountRequest = {
   lastName: string;
   type;
   socketId;
+  sessionId?: string;
 };
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitProfile } from '../common/throttler/rate-limit.constants';
+
+export const RATE_LIMIT_PROFILE_KEY = 'rateLimitProfile';
+
+/**
+ * Pick the limit profile of a route. Without it, `@Public()` routes use
+ * `public` and every other route uses `authenticated`.
+ */
+export const RateLimit = (profile: RateLimitProfile) =>
+  SetMetadata(RATE_LIMIT_PROFILE_KEY, profile);
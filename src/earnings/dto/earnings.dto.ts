@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { EarningStatus, PayoutBatchStatus } from '@prisma/client';
+
+export class EarningsStatementQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only lessons scheduled on or after this date',
+    example: '2026-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only lessons scheduled before this date',
+    example: '2026-02-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ enum: EarningStatus })
+  @IsOptional()
+  @IsEnum(EarningStatus)
+  status?: EarningStatus;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class UpdateCommissionRateDto {
+  @ApiProperty({
+    description: 'Platform commission taken from each lesson, in percent',
+    example: 20,
+  })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  rate: number;
+}
+
+export class CreatePayoutBatchDto {
+  @ApiPropertyOptional({
+    description:
+      'Pay out earnings that became available before this time. Defaults to now',
+    example: '2026-02-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  periodEnd?: string;
+}
+
+export class SearchPayoutBatchDto {
+  @ApiPropertyOptional({ enum: PayoutBatchStatus })
+  @IsOptional()
+  @IsEnum(PayoutBatchStatus)
+  status?: PayoutBatchStatus;
+}
+
+export class MarkPayoutBatchPaidDto {
+  @ApiPropertyOptional({
+    description: 'Bank transfer reference',
+    example: 'FT26032123456',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reference?: string;
+}
+
+export class RejectPayoutDto {
+  @ApiProperty({
+    description: 'Why the payout is held back',
+    example: 'Bank account details are missing',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class CancelPayoutBatchDto {
+  @ApiPropertyOptional({
+    description: 'Why the batch is cancelled',
+    example: 'Created with the wrong period',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
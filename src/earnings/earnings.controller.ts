@@ -0,0 +1,194 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EarningsService } from './earnings.service';
+import { PayoutService } from './payout.service';
+import {
+  CancelPayoutBatchDto,
+  CreatePayoutBatchDto,
+  MarkPayoutBatchPaidDto,
+  RejectPayoutDto,
+  SearchPayoutBatchDto,
+  UpdateCommissionRateDto,
+} from './dto';
+import { CommissionRateVm, PayoutBatchVm, TeacherPayoutVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Earnings')
+@Controller('earnings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth()
+export class EarningsController {
+  constructor(
+    private readonly earningsService: EarningsService,
+    private readonly payoutService: PayoutService,
+  ) {}
+
+  @Get('commission')
+  @ApiOperation({ summary: 'Get the platform commission rate (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Commission rate retrieved successfully',
+    type: CommissionRateVm,
+  })
+  @ResponseMessage('Commission rate retrieved successfully')
+  async getCommissionRate(): Promise<CommissionRateVm> {
+    return this.earningsService.getCommissionRate();
+  }
+
+  @Patch('commission')
+  @ApiOperation({
+    summary: 'Change the platform commission rate (Admin only)',
+    description: 'Applies to bookings confirmed after the change',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Commission rate updated successfully',
+    type: CommissionRateVm,
+  })
+  @ResponseMessage('Commission rate updated successfully')
+  async setCommissionRate(
+    @Body() updateDto: UpdateCommissionRateDto,
+  ): Promise<CommissionRateVm> {
+    return this.earningsService.setCommissionRate(updateDto.rate);
+  }
+
+  @Get('payout-batches')
+  @ApiOperation({ summary: 'Get payout batches (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout batches retrieved successfully',
+    type: [PayoutBatchVm],
+  })
+  @ResponseMessage('Payout batches retrieved successfully')
+  async findBatches(
+    @Query() searchDto: SearchPayoutBatchDto,
+  ): Promise<PayoutBatchVm[]> {
+    return this.payoutService.findBatches(searchDto);
+  }
+
+  @Post('payout-batches')
+  @ApiOperation({
+    summary: 'Create a payout batch from available earnings (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payout batch created successfully',
+    type: PayoutBatchVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No available earnings to pay out',
+  })
+  @ResponseMessage('Payout batch created successfully')
+  @HttpCode(HttpStatus.CREATED)
+  async createBatch(
+    @Body() createDto: CreatePayoutBatchDto,
+    @CurrentUser() user: any,
+  ): Promise<PayoutBatchVm> {
+    return this.payoutService.createBatch(createDto, user.id);
+  }
+
+  @Get('payout-batches/:id')
+  @ApiOperation({ summary: 'Get a payout batch with its payouts (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout batch retrieved successfully',
+    type: PayoutBatchVm,
+  })
+  @ResponseMessage('Payout batch retrieved successfully')
+  async findBatch(@Param('id') id: string): Promise<PayoutBatchVm> {
+    return this.payoutService.findBatch(id);
+  }
+
+  @Patch('payout-batches/:id/approve')
+  @ApiOperation({ summary: 'Approve a payout batch (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout batch approved successfully',
+    type: PayoutBatchVm,
+  })
+  @ResponseMessage('Payout batch approved successfully')
+  async approveBatch(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<PayoutBatchVm> {
+    return this.payoutService.approveBatch(id, user.id);
+  }
+
+  @Patch('payout-batches/:id/paid')
+  @ApiOperation({
+    summary: 'Mark an approved payout batch as transferred (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout batch marked as paid',
+    type: PayoutBatchVm,
+  })
+  @ResponseMessage('Payout batch marked as paid')
+  async markBatchPaid(
+    @Param('id') id: string,
+    @Body() paidDto: MarkPayoutBatchPaidDto,
+    @CurrentUser() user: any,
+  ): Promise<PayoutBatchVm> {
+    return this.payoutService.markBatchPaid(id, user.id, paidDto);
+  }
+
+  @Patch('payout-batches/:id/cancel')
+  @ApiOperation({
+    summary:
+      'Cancel an unpaid payout batch, returning its earnings to the balance (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout batch cancelled successfully',
+    type: PayoutBatchVm,
+  })
+  @ResponseMessage('Payout batch cancelled successfully')
+  async cancelBatch(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelPayoutBatchDto,
+    @CurrentUser() user: any,
+  ): Promise<PayoutBatchVm> {
+    return this.payoutService.cancelBatch(id, user.id, cancelDto);
+  }
+
+  @Patch('payouts/:id/reject')
+  @ApiOperation({
+    summary: 'Hold back one teacher payout before approval (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout rejected successfully',
+    type: TeacherPayoutVm,
+  })
+  @ResponseMessage('Payout rejected successfully')
+  async rejectPayout(
+    @Param('id') id: string,
+    @Body() rejectDto: RejectPayoutDto,
+    @CurrentUser() user: any,
+  ): Promise<TeacherPayoutVm> {
+    return this.payoutService.rejectPayout(id, user.id, rejectDto);
+  }
+}
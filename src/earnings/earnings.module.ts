@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { NotificationModule } from '../notification/notification.module';
+import { EarningsController } from './earnings.controller';
+import { EarningsService } from './earnings.service';
+import { PayoutService } from './payout.service';
+
+@Module({
+  imports: [PrismaModule, NotificationModule],
+  controllers: [EarningsController],
+  providers: [EarningsService, PayoutService],
+  exports: [EarningsService, PayoutService],
+})
+export class EarningsModule {}
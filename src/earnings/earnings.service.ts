@@ -0,0 +1,435 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Booking,
+  BookingStatus,
+  EarningSource,
+  EarningStatus,
+  PayoutStatus,
+  Prisma,
+  RateType,
+  TeacherEarning,
+  TeacherPayout,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { EarningsStatementQueryDto } from './dto';
+import {
+  CommissionRateVm,
+  EarningsStatementVm,
+  TeacherEarningVm,
+  TeacherPayoutVm,
+} from './vm';
+
+export const COMMISSION_RATE_CONFIG_KEY = 'PLATFORM_COMMISSION_RATE';
+const DEFAULT_COMMISSION_RATE = 20;
+
+// Package bookings made before `lessonPackageId` was filled in only carry the
+// package in their notes
+const PACKAGE_NOTE_PATTERN = /\[Package: ([^\]]+)\]/;
+
+// Bookings whose status changed outside BookingService are picked up by the
+// hourly reconciliation as long as they changed this recently
+const RECONCILE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const RECONCILE_BATCH_SIZE = 200;
+
+type EarningWithBooking = TeacherEarning & {
+  booking: Booking & {
+    student: { user: { firstName: string; lastName: string } };
+  };
+};
+
+/**
+ * Ledger of what each teacher is owed. A confirmed booking holds one entry
+ * priced at the time of booking; it becomes available once the lesson is
+ * completed and is reversed if the booking is cancelled first, unless the
+ * booking policy compensates the teacher.
+ */
+@Injectable()
+export class EarningsService {
+  private readonly logger = new Logger(EarningsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getCommissionRate(): Promise<CommissionRateVm> {
+    const config = await this.prisma.systemConfig.findUnique({
+      where: { key: COMMISSION_RATE_CONFIG_KEY },
+    });
+    const rate = Number(config?.value);
+
+    if (!config || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+      return { rate: DEFAULT_COMMISSION_RATE, isDefault: true };
+    }
+    return { rate, isDefault: false };
+  }
+
+  /**
+   * Only applies to bookings confirmed from now on, entries already held keep
+   * the rate they were created with
+   */
+  async setCommissionRate(rate: number): Promise<CommissionRateVm> {
+    await this.prisma.systemConfig.upsert({
+      where: { key: COMMISSION_RATE_CONFIG_KEY },
+      create: {
+        key: COMMISSION_RATE_CONFIG_KEY,
+        value: String(rate),
+        type: 'number',
+      },
+      update: { value: String(rate), type: 'number' },
+    });
+
+    this.logger.log(`Platform commission set to ${rate}%`);
+    return { rate, isDefault: false };
+  }
+
+  /**
+   * Bring the ledger entry of a booking in line with its status. Safe to call
+   * repeatedly; failures are logged and left to the hourly reconciliation so
+   * they never break the booking flow that triggered them.
+   */
+  async syncBooking(bookingId: string): Promise<void> {
+    try {
+      const booking = await this.prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: { earning: true, policyDecision: true },
+      });
+      if (!booking) return;
+
+      switch (booking.status) {
+        case BookingStatus.CONFIRMED:
+          if (!booking.earning) {
+            await this.createEarning(booking, EarningStatus.HELD);
+          }
+          break;
+
+        case BookingStatus.COMPLETED:
+          if (!booking.earning) {
+            await this.createEarning(booking, EarningStatus.AVAILABLE);
+          } else if (booking.earning.status === EarningStatus.HELD) {
+            await this.prisma.teacherEarning.updateMany({
+              where: { id: booking.earning.id, status: EarningStatus.HELD },
+              data: {
+                status: EarningStatus.AVAILABLE,
+                availableAt: new Date(),
+              },
+            });
+          }
+          break;
+
+        case BookingStatus.CANCELLED:
+          // The booking policy can let the teacher keep the earning, e.g.
+          // when the student did not show up
+          if (booking.policyDecision?.teacherCompensated) {
+            if (!booking.earning) {
+              await this.createEarning(booking, EarningStatus.AVAILABLE);
+            } else if (booking.earning.status === EarningStatus.HELD) {
+              await this.prisma.teacherEarning.updateMany({
+                where: { id: booking.earning.id, status: EarningStatus.HELD },
+                data: {
+                  status: EarningStatus.AVAILABLE,
+                  availableAt: new Date(),
+                },
+              });
+            }
+            break;
+          }
+          await this.prisma.teacherEarning.updateMany({
+            where: { bookingId, status: EarningStatus.HELD },
+            data: { status: EarningStatus.REVERSED },
+          });
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to update earnings for booking ${bookingId}: ${error.message}`,
+      );
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async reconcileEarnings(): Promise<void> {
+    const bookings = await this.prisma.booking.findMany({
+      where: {
+        updatedAt: { gte: new Date(Date.now() - RECONCILE_WINDOW_MS) },
+        OR: [
+          {
+            status: { in: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED] },
+            earning: { is: null },
+          },
+          {
+            status: { in: [BookingStatus.COMPLETED, BookingStatus.CANCELLED] },
+            earning: { is: { status: EarningStatus.HELD } },
+          },
+          {
+            status: BookingStatus.CANCELLED,
+            earning: { is: null },
+            policyDecision: { is: { teacherCompensated: true } },
+          },
+        ],
+      },
+      select: { id: true },
+      orderBy: { updatedAt: 'asc' },
+      take: RECONCILE_BATCH_SIZE,
+    });
+
+    for (const booking of bookings) {
+      await this.syncBooking(booking.id);
+    }
+
+    if (bookings.length > 0) {
+      this.logger.log(`Reconciled earnings of ${bookings.length} booking(s)`);
+    }
+  }
+
+  async getStatement(
+    teacherId: string,
+    query: EarningsStatementQueryDto,
+  ): Promise<EarningsStatementVm> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+
+    const where: Prisma.TeacherEarningWhereInput = {
+      teacherId,
+      status: query.status,
+      booking: from || to ? { scheduledAt: { gte: from, lt: to } } : undefined,
+    };
+
+    const [entries, total, balances, inPayout, period, payouts, commission] =
+      await Promise.all([
+        this.prisma.teacherEarning.findMany({
+          where,
+          include: {
+            booking: {
+              include: {
+                student: {
+                  include: {
+                    user: { select: { firstName: true, lastName: true } },
+                  },
+                },
+              },
+            },
+          },
+          orderBy: { booking: { scheduledAt: 'desc' } },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.prisma.teacherEarning.count({ where }),
+        this.prisma.teacherEarning.groupBy({
+          by: ['status'],
+          where: { teacherId },
+          _sum: { netAmount: true },
+        }),
+        this.prisma.teacherEarning.aggregate({
+          where: {
+            teacherId,
+            status: EarningStatus.AVAILABLE,
+            payoutId: { not: null },
+          },
+          _sum: { netAmount: true },
+        }),
+        this.prisma.teacherEarning.aggregate({
+          where: {
+            ...where,
+            status: { in: [EarningStatus.AVAILABLE, EarningStatus.PAID] },
+          },
+          _count: true,
+          _sum: {
+            grossAmount: true,
+            commissionAmount: true,
+            netAmount: true,
+          },
+        }),
+        this.prisma.teacherPayout.findMany({
+          where: {
+            teacherId,
+            status: { not: PayoutStatus.REJECTED },
+            createdAt: from || to ? { gte: from, lt: to } : undefined,
+          },
+          include: { _count: { select: { earnings: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: 12,
+        }),
+        this.getCommissionRate(),
+      ]);
+
+    const sumOf = (status: EarningStatus) =>
+      Number(
+        balances.find((balance) => balance.status === status)?._sum.netAmount ??
+          0,
+      );
+    const inPayoutAmount = Number(inPayout._sum.netAmount ?? 0);
+
+    return {
+      currency: 'VND',
+      commissionRate: commission.rate,
+      balance: {
+        held: sumOf(EarningStatus.HELD).toString(),
+        available: (sumOf(EarningStatus.AVAILABLE) - inPayoutAmount).toString(),
+        inPayout: inPayoutAmount.toString(),
+        paid: sumOf(EarningStatus.PAID).toString(),
+      },
+      period: {
+        from,
+        to,
+        lessons: period._count,
+        grossAmount: (period._sum.grossAmount ?? 0).toString(),
+        commissionAmount: (period._sum.commissionAmount ?? 0).toString(),
+        netAmount: (period._sum.netAmount ?? 0).toString(),
+      },
+      entries: entries.map((entry) => this.toEarningVm(entry)),
+      total,
+      page,
+      limit,
+      payouts: payouts.map((payout) =>
+        this.toPayoutVm(payout, payout._count.earnings),
+      ),
+    };
+  }
+
+  toPayoutVm(payout: TeacherPayout, lessons?: number): TeacherPayoutVm {
+    return {
+      id: payout.id,
+      batchId: payout.batchId,
+      teacherId: payout.teacherId,
+      amount: payout.amount.toString(),
+      currency: payout.currency,
+      status: payout.status,
+      rejectedReason: payout.rejectedReason,
+      lessons,
+      paidAt: payout.paidAt,
+      createdAt: payout.createdAt,
+    };
+  }
+
+  private async createEarning(
+    booking: Booking,
+    status: EarningStatus,
+  ): Promise<void> {
+    const { source, grossAmount } = await this.calculateLessonPrice(booking);
+    const { rate } = await this.getCommissionRate();
+    const commissionAmount = this.roundAmount((grossAmount * rate) / 100);
+
+    // A concurrent sync may have created the entry already
+    await this.prisma.teacherEarning.upsert({
+      where: { bookingId: booking.id },
+      create: {
+        teacherId: booking.teacherId,
+        bookingId: booking.id,
+        source,
+        grossAmount,
+        commissionRate: rate,
+        commissionAmount,
+        netAmount: this.roundAmount(grossAmount - commissionAmount),
+        status,
+        availableAt: status === EarningStatus.AVAILABLE ? new Date() : null,
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * What the student paid for this one lesson: the package price per lesson,
+   * an even share of the course price, or the teacher's trial or regular rate
+   * scaled to the booked duration
+   */
+  private async calculateLessonPrice(
+    booking: Booking,
+  ): Promise<{ source: EarningSource; grossAmount: number }> {
+    const packageId =
+      booking.lessonPackageId ??
+      booking.notes?.match(PACKAGE_NOTE_PATTERN)?.[1];
+
+    if (packageId) {
+      const lessonPackage = await this.prisma.lessonPackage.findUnique({
+        where: { id: packageId },
+      });
+      if (lessonPackage) {
+        return {
+          source: EarningSource.LESSON_PACKAGE,
+          grossAmount: Number(lessonPackage.pricePerLesson),
+        };
+      }
+    }
+
+    if (booking.courseId) {
+      const course = await this.prisma.course.findUnique({
+        where: { id: booking.courseId },
+      });
+      if (course && course.totalLessons > 0) {
+        return {
+          source: EarningSource.COURSE,
+          grossAmount: this.roundAmount(
+            Number(course.price) / course.totalLessons,
+          ),
+        };
+      }
+    }
+
+    const source = booking.isTrialLesson
+      ? EarningSource.TRIAL_LESSON
+      : EarningSource.REGULAR_LESSON;
+    const rate = await this.prisma.teacherRate.findUnique({
+      where: {
+        teacherId_type: {
+          teacherId: booking.teacherId,
+          type: booking.isTrialLesson
+            ? RateType.TRIAL_LESSON
+            : RateType.REGULAR_LESSON,
+        },
+      },
+    });
+
+    if (rate?.isActive) {
+      return {
+        source,
+        grossAmount: this.roundAmount(
+          (Number(rate.rate) * booking.duration) / (rate.duration || 60),
+        ),
+      };
+    }
+
+    // Trial lessons without a trial rate are free
+    if (booking.isTrialLesson) {
+      return { source, grossAmount: 0 };
+    }
+
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: booking.teacherId },
+      select: { hourlyRate: true },
+    });
+    return {
+      source,
+      grossAmount: this.roundAmount(
+        (Number(teacher?.hourlyRate ?? 0) * booking.duration) / 60,
+      ),
+    };
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private toEarningVm(earning: EarningWithBooking): TeacherEarningVm {
+    const student = earning.booking?.student?.user;
+
+    return {
+      id: earning.id,
+      bookingId: earning.bookingId,
+      source: earning.source,
+      scheduledAt: earning.booking?.scheduledAt,
+      studentName: student
+        ? `${student.firstName} ${student.lastName}`
+        : undefined,
+      grossAmount: earning.grossAmount.toString(),
+      commissionRate: earning.commissionRate.toString(),
+      commissionAmount: earning.commissionAmount.toString(),
+      netAmount: earning.netAmount.toString(),
+      currency: earning.currency,
+      status: earning.status,
+      availableAt: earning.availableAt,
+      payoutId: earning.payoutId,
+      createdAt: earning.createdAt,
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export * from './earnings.service';
+export * from './payout.service';
+export * from './earnings.controller';
+export * from './earnings.module';
+export * from './dto';
+export * from './vm';
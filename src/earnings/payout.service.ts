@@ -0,0 +1,396 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import {
+  EarningStatus,
+  PayoutBatch,
+  PayoutBatchStatus,
+  PayoutStatus,
+  TeacherPayout,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { EarningsService } from './earnings.service';
+import {
+  CancelPayoutBatchDto,
+  CreatePayoutBatchDto,
+  MarkPayoutBatchPaidDto,
+  RejectPayoutDto,
+  SearchPayoutBatchDto,
+} from './dto';
+import { PayoutBatchVm, TeacherPayoutVm } from './vm';
+
+type PayoutWithDetails = TeacherPayout & {
+  teacher?: { user: { firstName: string; lastName: string } };
+  _count?: { earnings: number };
+};
+
+type PayoutBatchWithPayouts = PayoutBatch & {
+  payouts?: PayoutWithDetails[];
+};
+
+const payoutDetailsInclude = {
+  teacher: {
+    include: { user: { select: { firstName: true, lastName: true } } },
+  },
+  _count: { select: { earnings: true } },
+};
+
+/**
+ * Periodic payout batches. A batch collects every available earning per
+ * teacher, is approved by an admin and then marked paid once the transfers
+ * are made. Rejected payouts and cancelled batches release their earnings
+ * into the next batch.
+ */
+@Injectable()
+export class PayoutService {
+  private readonly logger = new Logger(PayoutService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly earningsService: EarningsService,
+    private readonly notificationInboxService: NotificationInboxService,
+  ) {}
+
+  async findBatches(searchDto: SearchPayoutBatchDto): Promise<PayoutBatchVm[]> {
+    const batches = await this.prisma.payoutBatch.findMany({
+      where: { status: searchDto.status },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return batches.map((batch) => this.toBatchVm(batch));
+  }
+
+  async findBatch(batchId: string): Promise<PayoutBatchVm> {
+    const batch = await this.prisma.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        payouts: {
+          include: payoutDetailsInclude,
+          orderBy: { amount: 'desc' },
+        },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Payout batch not found');
+    }
+
+    return this.toBatchVm(batch);
+  }
+
+  /**
+   * Group every available earning not yet in a batch into one payout per
+   * teacher. `adminId` is empty for the scheduled monthly batch.
+   */
+  async createBatch(
+    createDto: CreatePayoutBatchDto,
+    adminId?: string,
+  ): Promise<PayoutBatchVm> {
+    const periodEnd = createDto.periodEnd
+      ? new Date(createDto.periodEnd)
+      : new Date();
+
+    if (periodEnd > new Date()) {
+      throw new BadRequestException(
+        'The payout period cannot end in the future',
+      );
+    }
+
+    const earnings = await this.prisma.teacherEarning.findMany({
+      where: {
+        status: EarningStatus.AVAILABLE,
+        payoutId: null,
+        availableAt: { lt: periodEnd },
+      },
+      select: { id: true, teacherId: true, netAmount: true },
+    });
+
+    const byTeacher = new Map<string, { ids: string[]; amount: number }>();
+    for (const earning of earnings) {
+      const entry = byTeacher.get(earning.teacherId) ?? { ids: [], amount: 0 };
+      entry.ids.push(earning.id);
+      entry.amount += Number(earning.netAmount);
+      byTeacher.set(earning.teacherId, entry);
+    }
+
+    // Teachers with only free trial lessons have nothing to transfer
+    for (const [teacherId, entry] of byTeacher) {
+      entry.amount = Math.round(entry.amount * 100) / 100;
+      if (entry.amount <= 0) byTeacher.delete(teacherId);
+    }
+
+    if (byTeacher.size === 0) {
+      throw new BadRequestException('No available earnings to pay out');
+    }
+
+    const previous = await this.prisma.payoutBatch.findFirst({
+      where: { status: { not: PayoutBatchStatus.CANCELLED } },
+      orderBy: { periodEnd: 'desc' },
+    });
+    const totalAmount = [...byTeacher.values()].reduce(
+      (sum, entry) => sum + entry.amount,
+      0,
+    );
+
+    const batch = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.payoutBatch.create({
+        data: {
+          periodStart: previous?.periodEnd,
+          periodEnd,
+          totalAmount,
+          createdBy: adminId,
+        },
+      });
+
+      for (const [teacherId, entry] of byTeacher) {
+        const payout = await tx.teacherPayout.create({
+          data: { batchId: created.id, teacherId, amount: entry.amount },
+        });
+
+        // Another batch created at the same time may have claimed them
+        const { count } = await tx.teacherEarning.updateMany({
+          where: {
+            id: { in: entry.ids },
+            status: EarningStatus.AVAILABLE,
+            payoutId: null,
+          },
+          data: { payoutId: payout.id },
+        });
+        if (count !== entry.ids.length) {
+          throw new ConflictException(
+            'Earnings changed while the batch was created, please try again',
+          );
+        }
+      }
+
+      return created;
+    });
+
+    this.logger.log(
+      `Payout batch ${batch.id} created with ${byTeacher.size} payout(s) totalling ${totalAmount}`,
+    );
+    return this.findBatch(batch.id);
+  }
+
+  async approveBatch(batchId: string, adminId: string): Promise<PayoutBatchVm> {
+    const { count } = await this.prisma.payoutBatch.updateMany({
+      where: { id: batchId, status: PayoutBatchStatus.PENDING_APPROVAL },
+      data: {
+        status: PayoutBatchStatus.APPROVED,
+        approvedBy: adminId,
+        approvedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      await this.findBatch(batchId);
+      throw new BadRequestException(
+        'Only batches pending approval can be approved',
+      );
+    }
+
+    await this.prisma.teacherPayout.updateMany({
+      where: { batchId, status: PayoutStatus.PENDING },
+      data: { status: PayoutStatus.APPROVED },
+    });
+
+    this.logger.log(`Payout batch ${batchId} approved by admin ${adminId}`);
+    return this.findBatch(batchId);
+  }
+
+  /**
+   * Record that the approved transfers were made and settle their earnings
+   */
+  async markBatchPaid(
+    batchId: string,
+    adminId: string,
+    paidDto: MarkPayoutBatchPaidDto,
+  ): Promise<PayoutBatchVm> {
+    const paidAt = new Date();
+    const { count } = await this.prisma.payoutBatch.updateMany({
+      where: { id: batchId, status: PayoutBatchStatus.APPROVED },
+      data: {
+        status: PayoutBatchStatus.PAID,
+        paidAt,
+        reference: paidDto.reference,
+      },
+    });
+
+    if (count === 0) {
+      await this.findBatch(batchId);
+      throw new BadRequestException(
+        'Only approved batches can be marked as paid',
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.teacherEarning.updateMany({
+        where: {
+          status: EarningStatus.AVAILABLE,
+          payout: { batchId, status: PayoutStatus.APPROVED },
+        },
+        data: { status: EarningStatus.PAID },
+      }),
+      this.prisma.teacherPayout.updateMany({
+        where: { batchId, status: PayoutStatus.APPROVED },
+        data: { status: PayoutStatus.PAID, paidAt },
+      }),
+    ]);
+
+    const payouts = await this.prisma.teacherPayout.findMany({
+      where: { batchId, status: PayoutStatus.PAID },
+    });
+    for (const payout of payouts) {
+      await this.notificationInboxService.create({
+        userId: payout.teacherId,
+        type: 'PAYOUT_PAID',
+        title: 'Payout sent',
+        message: `Your payout of ${payout.amount} ${payout.currency} has been transferred.`,
+        priority: 'high',
+        metadata: { payoutId: payout.id, batchId },
+      });
+    }
+
+    this.logger.log(`Payout batch ${batchId} marked paid by admin ${adminId}`);
+    return this.findBatch(batchId);
+  }
+
+  async cancelBatch(
+    batchId: string,
+    adminId: string,
+    cancelDto: CancelPayoutBatchDto,
+  ): Promise<PayoutBatchVm> {
+    const { count } = await this.prisma.payoutBatch.updateMany({
+      where: {
+        id: batchId,
+        status: {
+          in: [PayoutBatchStatus.PENDING_APPROVAL, PayoutBatchStatus.APPROVED],
+        },
+      },
+      data: { status: PayoutBatchStatus.CANCELLED },
+    });
+
+    if (count === 0) {
+      await this.findBatch(batchId);
+      throw new BadRequestException(
+        'Paid or cancelled batches cannot be cancelled',
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.teacherEarning.updateMany({
+        where: { payout: { batchId } },
+        data: { payoutId: null },
+      }),
+      this.prisma.teacherPayout.updateMany({
+        where: {
+          batchId,
+          status: { in: [PayoutStatus.PENDING, PayoutStatus.APPROVED] },
+        },
+        data: {
+          status: PayoutStatus.REJECTED,
+          rejectedReason: cancelDto.reason ?? 'Payout batch cancelled',
+        },
+      }),
+    ]);
+
+    this.logger.log(`Payout batch ${batchId} cancelled by admin ${adminId}`);
+    return this.findBatch(batchId);
+  }
+
+  /**
+   * Hold back one teacher's payout before the batch is approved. Its
+   * earnings go into the next batch.
+   */
+  async rejectPayout(
+    payoutId: string,
+    adminId: string,
+    rejectDto: RejectPayoutDto,
+  ): Promise<TeacherPayoutVm> {
+    const payout = await this.prisma.teacherPayout.findUnique({
+      where: { id: payoutId },
+      include: { batch: true },
+    });
+
+    if (!payout) {
+      throw new NotFoundException('Payout not found');
+    }
+
+    if (
+      payout.status !== PayoutStatus.PENDING ||
+      payout.batch.status !== PayoutBatchStatus.PENDING_APPROVAL
+    ) {
+      throw new BadRequestException(
+        'Only payouts of batches pending approval can be rejected',
+      );
+    }
+
+    const [, rejectedPayout] = await this.prisma.$transaction([
+      this.prisma.teacherEarning.updateMany({
+        where: { payoutId },
+        data: { payoutId: null },
+      }),
+      this.prisma.teacherPayout.update({
+        where: { id: payoutId },
+        data: {
+          status: PayoutStatus.REJECTED,
+          rejectedReason: rejectDto.reason,
+        },
+      }),
+      this.prisma.payoutBatch.update({
+        where: { id: payout.batchId },
+        data: { totalAmount: { decrement: payout.amount } },
+      }),
+    ]);
+
+    this.logger.log(`Payout ${payoutId} rejected by admin ${adminId}`);
+    return this.earningsService.toPayoutVm(rejectedPayout);
+  }
+
+  /**
+   * Prepare last month's batch for approval on the first of every month
+   */
+  @Cron('0 3 1 * *')
+  async createMonthlyBatch(): Promise<void> {
+    try {
+      await this.createBatch({});
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        this.logger.log('No earnings to include in the monthly payout batch');
+        return;
+      }
+      this.logger.error(
+        `Failed to create the monthly payout batch: ${error.message}`,
+      );
+    }
+  }
+
+  private toBatchVm(batch: PayoutBatchWithPayouts): PayoutBatchVm {
+    return {
+      id: batch.id,
+      periodStart: batch.periodStart,
+      periodEnd: batch.periodEnd,
+      status: batch.status,
+      totalAmount: batch.totalAmount.toString(),
+      currency: batch.currency,
+      createdBy: batch.createdBy,
+      approvedBy: batch.approvedBy,
+      approvedAt: batch.approvedAt,
+      paidAt: batch.paidAt,
+      reference: batch.reference,
+      payouts: batch.payouts?.map((payout) => ({
+        ...this.earningsService.toPayoutVm(payout, payout._count?.earnings),
+        teacherName: payout.teacher
+          ? `${payout.teacher.user.firstName} ${payout.teacher.user.lastName}`
+          : undefined,
+      })),
+      createdAt: batch.createdAt,
+    };
+  }
+}
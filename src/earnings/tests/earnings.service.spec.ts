@@ -0,0 +1,294 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BookingStatus,
+  EarningSource,
+  EarningStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { EarningsService } from '../earnings.service';
+
+describe('EarningsService', () => {
+  let service: EarningsService;
+
+  const mockPrismaService = {
+    booking: { findUnique: jest.fn<any>() },
+    teacherEarning: {
+      upsert: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+    systemConfig: { findUnique: jest.fn<any>() },
+    lessonPackage: { findUnique: jest.fn<any>() },
+    course: { findUnique: jest.fn<any>() },
+    teacherRate: { findUnique: jest.fn<any>() },
+    teacher: { findUnique: jest.fn<any>() },
+  };
+
+  const booking = (overrides = {}) => ({
+    id: 'booking-id',
+    teacherId: 'teacher-id',
+    courseId: null,
+    lessonPackageId: null,
+    notes: null,
+    duration: 30,
+    isTrialLesson: false,
+    status: BookingStatus.CONFIRMED,
+    earning: null,
+    policyDecision: null,
+    ...overrides,
+  });
+
+  const createdEarning = () =>
+    (mockPrismaService.teacherEarning.upsert.mock.calls[0][0] as any).create;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.systemConfig.findUnique.mockResolvedValue(null);
+    mockPrismaService.teacherRate.findUnique.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EarningsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<EarningsService>(EarningsService);
+  });
+
+  describe('syncBooking', () => {
+    it('should hold an earning for a confirmed booking', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({ lessonPackageId: 'package-id' }),
+      );
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue({
+        pricePerLesson: new Prisma.Decimal(200000),
+      });
+
+      await service.syncBooking('booking-id');
+
+      expect(createdEarning()).toEqual({
+        teacherId: 'teacher-id',
+        bookingId: 'booking-id',
+        source: EarningSource.LESSON_PACKAGE,
+        grossAmount: 200000,
+        commissionRate: 20,
+        commissionAmount: 40000,
+        netAmount: 160000,
+        status: EarningStatus.HELD,
+        availableAt: null,
+      });
+    });
+
+    it('should round the commission and net amount to cents', async () => {
+      mockPrismaService.systemConfig.findUnique.mockResolvedValue({
+        value: '15',
+      });
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({ lessonPackageId: 'package-id' }),
+      );
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue({
+        pricePerLesson: new Prisma.Decimal('166666.67'),
+      });
+
+      await service.syncBooking('booking-id');
+
+      expect(createdEarning()).toMatchObject({
+        grossAmount: 166666.67,
+        commissionRate: 15,
+        commissionAmount: 25000,
+        netAmount: 141666.67,
+      });
+    });
+
+    it('should fall back to the default commission for an invalid rate', async () => {
+      mockPrismaService.systemConfig.findUnique.mockResolvedValue({
+        value: '120',
+      });
+
+      await expect(service.getCommissionRate()).resolves.toEqual({
+        rate: 20,
+        isDefault: true,
+      });
+    });
+
+    it('should release a held earning once the lesson is completed', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({
+          status: BookingStatus.COMPLETED,
+          earning: { id: 'earning-id', status: EarningStatus.HELD },
+        }),
+      );
+
+      await service.syncBooking('booking-id');
+
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: { id: 'earning-id', status: EarningStatus.HELD },
+        data: {
+          status: EarningStatus.AVAILABLE,
+          availableAt: expect.any(Date),
+        },
+      });
+      expect(mockPrismaService.teacherEarning.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should create an available earning for a completed booking without one', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({ status: BookingStatus.COMPLETED }),
+      );
+      mockPrismaService.teacher.findUnique.mockResolvedValue({
+        hourlyRate: new Prisma.Decimal(300000),
+      });
+
+      await service.syncBooking('booking-id');
+
+      expect(createdEarning()).toMatchObject({
+        source: EarningSource.REGULAR_LESSON,
+        grossAmount: 150000,
+        status: EarningStatus.AVAILABLE,
+        availableAt: expect.any(Date),
+      });
+    });
+
+    it('should leave paid earnings alone', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({
+          status: BookingStatus.COMPLETED,
+          earning: { id: 'earning-id', status: EarningStatus.PAID },
+        }),
+      );
+
+      await service.syncBooking('booking-id');
+
+      expect(
+        mockPrismaService.teacherEarning.updateMany,
+      ).not.toHaveBeenCalled();
+      expect(mockPrismaService.teacherEarning.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reverse a held earning when the booking is cancelled', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({
+          status: BookingStatus.CANCELLED,
+          earning: { id: 'earning-id', status: EarningStatus.HELD },
+        }),
+      );
+
+      await service.syncBooking('booking-id');
+
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: { bookingId: 'booking-id', status: EarningStatus.HELD },
+        data: { status: EarningStatus.REVERSED },
+      });
+    });
+
+    it('should pay the teacher when the booking policy compensates them', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({
+          status: BookingStatus.CANCELLED,
+          earning: { id: 'earning-id', status: EarningStatus.HELD },
+          policyDecision: { teacherCompensated: true },
+        }),
+      );
+
+      await service.syncBooking('booking-id');
+
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: { id: 'earning-id', status: EarningStatus.HELD },
+        data: {
+          status: EarningStatus.AVAILABLE,
+          availableAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should create a compensated earning for a cancelled booking without one', async () => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking({
+          status: BookingStatus.CANCELLED,
+          policyDecision: { teacherCompensated: true },
+        }),
+      );
+      mockPrismaService.teacher.findUnique.mockResolvedValue({
+        hourlyRate: new Prisma.Decimal(300000),
+      });
+
+      await service.syncBooking('booking-id');
+
+      expect(createdEarning()).toMatchObject({
+        status: EarningStatus.AVAILABLE,
+      });
+      expect(
+        mockPrismaService.teacherEarning.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should log failures instead of breaking the booking flow', async () => {
+      mockPrismaService.booking.findUnique.mockRejectedValue(
+        new Error('connection lost'),
+      );
+
+      await expect(service.syncBooking('booking-id')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('lesson price', () => {
+    const priceOf = async (overrides: Record<string, unknown>) => {
+      mockPrismaService.booking.findUnique.mockResolvedValue(
+        booking(overrides),
+      );
+      await service.syncBooking('booking-id');
+      return createdEarning();
+    };
+
+    it('should find the package of older bookings in their notes', async () => {
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue({
+        pricePerLesson: new Prisma.Decimal(180000),
+      });
+
+      const earning = await priceOf({ notes: 'Weekly [Package: package-id]' });
+
+      expect(mockPrismaService.lessonPackage.findUnique).toHaveBeenCalledWith({
+        where: { id: 'package-id' },
+      });
+      expect(earning.grossAmount).toBe(180000);
+    });
+
+    it('should share the course price evenly between its lessons', async () => {
+      mockPrismaService.course.findUnique.mockResolvedValue({
+        price: new Prisma.Decimal(1000000),
+        totalLessons: 3,
+      });
+
+      const earning = await priceOf({ courseId: 'course-id' });
+
+      expect(earning.source).toBe(EarningSource.COURSE);
+      expect(earning.grossAmount).toBe(333333.33);
+    });
+
+    it('should scale the trial rate to the booked duration', async () => {
+      mockPrismaService.teacherRate.findUnique.mockResolvedValue({
+        rate: new Prisma.Decimal(100000),
+        duration: 60,
+        isActive: true,
+      });
+
+      const earning = await priceOf({ isTrialLesson: true, duration: 25 });
+
+      expect(earning.source).toBe(EarningSource.TRIAL_LESSON);
+      expect(earning.grossAmount).toBe(41666.67);
+    });
+
+    it('should make trial lessons without a trial rate free', async () => {
+      const earning = await priceOf({ isTrialLesson: true });
+
+      expect(earning).toMatchObject({
+        grossAmount: 0,
+        commissionAmount: 0,
+        netAmount: 0,
+      });
+      expect(mockPrismaService.teacher.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
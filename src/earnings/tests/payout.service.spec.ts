@@ -0,0 +1,279 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  EarningStatus,
+  PayoutBatchStatus,
+  PayoutStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationInboxService } from '../../notification/notification-inbox.service';
+import { EarningsService } from '../earnings.service';
+import { PayoutService } from '../payout.service';
+
+describe('PayoutService', () => {
+  let service: PayoutService;
+
+  const mockPrismaService = {
+    teacherEarning: {
+      findMany: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+    teacherPayout: {
+      create: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+      findMany: jest.fn<any>(),
+      update: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+    payoutBatch: {
+      create: jest.fn<any>(),
+      findFirst: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+      update: jest.fn<any>(),
+      updateMany: jest.fn<any>(),
+    },
+    $transaction: jest.fn<any>(),
+  };
+
+  const batch = {
+    id: 'batch-id',
+    status: PayoutBatchStatus.PENDING_APPROVAL,
+    totalAmount: new Prisma.Decimal(0),
+    payouts: [],
+  };
+
+  const earning = (id: string, teacherId: string, netAmount: number) => ({
+    id,
+    teacherId,
+    netAmount: new Prisma.Decimal(netAmount),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((run: any) =>
+      typeof run === 'function' ? run(mockPrismaService) : Promise.all(run),
+    );
+    mockPrismaService.payoutBatch.create.mockResolvedValue(batch);
+    mockPrismaService.payoutBatch.findUnique.mockResolvedValue(batch);
+    mockPrismaService.payoutBatch.findFirst.mockResolvedValue(null);
+    mockPrismaService.payoutBatch.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.teacherPayout.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: `payout-${data.teacherId}`, ...data }),
+    );
+    mockPrismaService.teacherPayout.findMany.mockResolvedValue([]);
+    mockPrismaService.teacherEarning.updateMany.mockImplementation(
+      ({ where }: any) => Promise.resolve({ count: where.id?.in.length ?? 1 }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PayoutService,
+        EarningsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationInboxService, useValue: { create: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PayoutService>(PayoutService);
+  });
+
+  describe('createBatch', () => {
+    it('should pay each teacher the sum of their available earnings', async () => {
+      mockPrismaService.teacherEarning.findMany.mockResolvedValue([
+        earning('earning-1', 'teacher-a', 100000.1),
+        earning('earning-2', 'teacher-a', 50000.2),
+        earning('earning-3', 'teacher-b', 80000),
+      ]);
+
+      await service.createBatch({}, 'admin-id');
+
+      expect(mockPrismaService.payoutBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          totalAmount: 230000.3,
+          createdBy: 'admin-id',
+        }),
+      });
+      expect(mockPrismaService.teacherPayout.create).toHaveBeenCalledWith({
+        data: { batchId: 'batch-id', teacherId: 'teacher-a', amount: 150000.3 },
+      });
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['earning-1', 'earning-2'] },
+          status: EarningStatus.AVAILABLE,
+          payoutId: null,
+        },
+        data: { payoutId: 'payout-teacher-a' },
+      });
+    });
+
+    it('should only pick up available earnings that are in no batch', async () => {
+      mockPrismaService.teacherEarning.findMany.mockResolvedValue([
+        earning('earning-1', 'teacher-a', 100000),
+      ]);
+
+      await service.createBatch({});
+
+      expect(mockPrismaService.teacherEarning.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: EarningStatus.AVAILABLE,
+            payoutId: null,
+            availableAt: { lt: expect.any(Date) },
+          },
+        }),
+      );
+    });
+
+    it('should skip teachers who only have free lessons', async () => {
+      mockPrismaService.teacherEarning.findMany.mockResolvedValue([
+        earning('earning-1', 'teacher-a', 0),
+        earning('earning-2', 'teacher-b', 80000),
+      ]);
+
+      await service.createBatch({});
+
+      expect(mockPrismaService.teacherPayout.create).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.teacherPayout.create).toHaveBeenCalledWith({
+        data: { batchId: 'batch-id', teacherId: 'teacher-b', amount: 80000 },
+      });
+    });
+
+    it('should refuse an empty batch', async () => {
+      mockPrismaService.teacherEarning.findMany.mockResolvedValue([]);
+
+      await expect(service.createBatch({})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.payoutBatch.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail when another batch claimed the earnings first', async () => {
+      mockPrismaService.teacherEarning.findMany.mockResolvedValue([
+        earning('earning-1', 'teacher-a', 100000),
+        earning('earning-2', 'teacher-a', 100000),
+      ]);
+      mockPrismaService.teacherEarning.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      await expect(service.createBatch({})).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('markBatchPaid', () => {
+    it('should settle the earnings of approved payouts', async () => {
+      await service.markBatchPaid('batch-id', 'admin-id', {
+        reference: 'BANK-123',
+      });
+
+      expect(mockPrismaService.payoutBatch.updateMany).toHaveBeenCalledWith({
+        where: { id: 'batch-id', status: PayoutBatchStatus.APPROVED },
+        data: {
+          status: PayoutBatchStatus.PAID,
+          paidAt: expect.any(Date),
+          reference: 'BANK-123',
+        },
+      });
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: EarningStatus.AVAILABLE,
+          payout: { batchId: 'batch-id', status: PayoutStatus.APPROVED },
+        },
+        data: { status: EarningStatus.PAID },
+      });
+    });
+
+    it('should refuse batches that are not approved', async () => {
+      mockPrismaService.payoutBatch.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.markBatchPaid('batch-id', 'admin-id', {}),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.teacherEarning.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectPayout', () => {
+    const payout = (overrides = {}) => ({
+      id: 'payout-id',
+      batchId: 'batch-id',
+      teacherId: 'teacher-a',
+      amount: new Prisma.Decimal(150000),
+      currency: 'VND',
+      status: PayoutStatus.PENDING,
+      batch: { status: PayoutBatchStatus.PENDING_APPROVAL },
+      ...overrides,
+    });
+
+    it('should release the earnings into the next batch', async () => {
+      mockPrismaService.teacherPayout.findUnique.mockResolvedValue(payout());
+      mockPrismaService.teacherPayout.update.mockResolvedValue({
+        ...payout(),
+        status: PayoutStatus.REJECTED,
+      });
+
+      const rejected = await service.rejectPayout('payout-id', 'admin-id', {
+        reason: 'Bank details missing',
+      });
+
+      expect(rejected.status).toBe(PayoutStatus.REJECTED);
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: { payoutId: 'payout-id' },
+        data: { payoutId: null },
+      });
+      expect(mockPrismaService.payoutBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-id' },
+        data: { totalAmount: { decrement: new Prisma.Decimal(150000) } },
+      });
+    });
+
+    it('should refuse payouts of approved batches', async () => {
+      mockPrismaService.teacherPayout.findUnique.mockResolvedValue(
+        payout({ batch: { status: PayoutBatchStatus.APPROVED } }),
+      );
+
+      await expect(
+        service.rejectPayout('payout-id', 'admin-id', { reason: 'Late' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.teacherEarning.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelBatch', () => {
+    it('should release every earning of the batch and reject its payouts', async () => {
+      await service.cancelBatch('batch-id', 'admin-id', {});
+
+      expect(mockPrismaService.teacherEarning.updateMany).toHaveBeenCalledWith({
+        where: { payout: { batchId: 'batch-id' } },
+        data: { payoutId: null },
+      });
+      expect(mockPrismaService.teacherPayout.updateMany).toHaveBeenCalledWith({
+        where: {
+          batchId: 'batch-id',
+          status: { in: [PayoutStatus.PENDING, PayoutStatus.APPROVED] },
+        },
+        data: {
+          status: PayoutStatus.REJECTED,
+          rejectedReason: 'Payout batch cancelled',
+        },
+      });
+    });
+
+    it('should refuse paid batches', async () => {
+      mockPrismaService.payoutBatch.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.cancelBatch('batch-id', 'admin-id', {}),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.teacherEarning.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  EarningSource,
+  EarningStatus,
+  PayoutBatchStatus,
+  PayoutStatus,
+} from '@prisma/client';
+
+export class TeacherEarningVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'clk987654321' })
+  bookingId: string;
+
+  @ApiProperty({ enum: EarningSource, example: EarningSource.LESSON_PACKAGE })
+  source: EarningSource;
+
+  @ApiPropertyOptional({ description: 'When the lesson is scheduled' })
+  scheduledAt?: Date;
+
+  @ApiPropertyOptional({ example: 'Nguyen Van A' })
+  studentName?: string;
+
+  @ApiProperty({ description: 'Price of the lesson', example: '300000' })
+  grossAmount: string;
+
+  @ApiProperty({ description: 'Platform commission in percent', example: '20' })
+  commissionRate: string;
+
+  @ApiProperty({ example: '60000' })
+  commissionAmount: string;
+
+  @ApiProperty({ description: 'Amount owed to the teacher', example: '240000' })
+  netAmount: string;
+
+  @ApiProperty({ example: 'VND' })
+  currency: string;
+
+  @ApiProperty({ enum: EarningStatus, example: EarningStatus.AVAILABLE })
+  status: EarningStatus;
+
+  @ApiPropertyOptional({ description: 'When the lesson was completed' })
+  availableAt?: Date;
+
+  @ApiPropertyOptional()
+  payoutId?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class EarningsBalanceVm {
+  @ApiProperty({
+    description: 'Lessons booked but not taught yet',
+    example: '480000',
+  })
+  held: string;
+
+  @ApiProperty({
+    description: 'Taught lessons waiting for a payout batch',
+    example: '720000',
+  })
+  available: string;
+
+  @ApiProperty({
+    description: 'Included in a payout batch that is not paid yet',
+    example: '240000',
+  })
+  inPayout: string;
+
+  @ApiProperty({ example: '5400000' })
+  paid: string;
+}
+
+export class EarningsPeriodVm {
+  @ApiPropertyOptional()
+  from?: Date;
+
+  @ApiPropertyOptional()
+  to?: Date;
+
+  @ApiProperty({ description: 'Completed lessons in the period', example: 12 })
+  lessons: number;
+
+  @ApiProperty({ example: '3600000' })
+  grossAmount: string;
+
+  @ApiProperty({ example: '720000' })
+  commissionAmount: string;
+
+  @ApiProperty({ example: '2880000' })
+  netAmount: string;
+}
+
+export class TeacherPayoutVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'clk987654321' })
+  batchId: string;
+
+  @ApiProperty({ example: 'clk555555555' })
+  teacherId: string;
+
+  @ApiPropertyOptional({ example: 'Jane Smith' })
+  teacherName?: string;
+
+  @ApiProperty({ example: '2880000' })
+  amount: string;
+
+  @ApiProperty({ example: 'VND' })
+  currency: string;
+
+  @ApiProperty({ enum: PayoutStatus, example: PayoutStatus.PENDING })
+  status: PayoutStatus;
+
+  @ApiPropertyOptional()
+  rejectedReason?: string;
+
+  @ApiPropertyOptional({ description: 'Number of lessons paid', example: 12 })
+  lessons?: number;
+
+  @ApiPropertyOptional()
+  paidAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class EarningsStatementVm {
+  @ApiProperty({ example: 'VND' })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Current platform commission in percent',
+    example: 20,
+  })
+  commissionRate: number;
+
+  @ApiProperty({ type: EarningsBalanceVm })
+  balance: EarningsBalanceVm;
+
+  @ApiProperty({ type: EarningsPeriodVm })
+  period: EarningsPeriodVm;
+
+  @ApiProperty({ type: [TeacherEarningVm] })
+  entries: TeacherEarningVm[];
+
+  @ApiProperty({ example: 42 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({ type: [TeacherPayoutVm] })
+  payouts: TeacherPayoutVm[];
+}
+
+export class PayoutBatchVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiPropertyOptional()
+  periodStart?: Date;
+
+  @ApiProperty()
+  periodEnd: Date;
+
+  @ApiProperty({
+    enum: PayoutBatchStatus,
+    example: PayoutBatchStatus.PENDING_APPROVAL,
+  })
+  status: PayoutBatchStatus;
+
+  @ApiProperty({ example: '25000000' })
+  totalAmount: string;
+
+  @ApiProperty({ example: 'VND' })
+  currency: string;
+
+  @ApiPropertyOptional({
+    description: 'Admin who created the batch, empty for scheduled batches',
+  })
+  createdBy?: string;
+
+  @ApiPropertyOptional()
+  approvedBy?: string;
+
+  @ApiPropertyOptional()
+  approvedAt?: Date;
+
+  @ApiPropertyOptional()
+  paidAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Bank transfer reference' })
+  reference?: string;
+
+  @ApiPropertyOptional({ type: [TeacherPayoutVm] })
+  payouts?: TeacherPayoutVm[];
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CommissionRateVm {
+  @ApiProperty({
+    description: 'Platform commission taken from each lesson, in percent',
+    example: 20,
+  })
+  rate: number;
+
+  @ApiProperty({ description: 'Whether the rate is the built-in default' })
+  isDefault: boolean;
+}
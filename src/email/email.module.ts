@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { EmailService } from './email.service';
+import {
+  EMAIL_TRANSPORT,
+  FileEmailTransport,
+  SmtpEmailTransport,
+} from './transports';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: EMAIL_TRANSPORT,
+      useFactory: (configService: ConfigService) => {
+        // EMAIL_TRANSPORT=smtp sends real mail, anything else writes messages to disk
+        if (configService.get('EMAIL_TRANSPORT', 'file') === 'smtp') {
+          return new SmtpEmailTransport({
+            host: configService.get('SMTP_HOST', 'localhost'),
+            port: parseInt(configService.get('SMTP_PORT', '1025')),
+            secure: configService.get('SMTP_SECURE', 'false') === 'true',
+            user: configService.get('SMTP_USER'),
+            password: configService.get('SMTP_PASSWORD'),
+          });
+        }
+        // Written to disk, verification and reset mails would never reach anyone
+        if (configService.get('NODE_ENV') === 'production') {
+          throw new Error('EMAIL_TRANSPORT must be smtp in production');
+        }
+        return new FileEmailTransport(
+          configService.get('EMAIL_OUTPUT_DIR', 'storage/emails'),
+        );
+      },
+      inject: [ConfigService],
+    },
+    EmailService,
+  ],
+  exports: [EmailService],
+})
+export class EmailModule {}
@@ -0,0 +1,144 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as ejs from 'ejs';
+import {
+  EMAIL_TRANSPORT,
+  EmailDeliveryResult,
+  EmailTransport,
+} from './transports';
+import {
+  EMAIL_FOOTER,
+  EMAIL_LAYOUT,
+  EMAIL_TEMPLATES,
+  EmailLocale,
+  EmailTemplateName,
+} from './templates';
+
+export interface SendTemplateEmailOptions {
+  to: string;
+  template: EmailTemplateName;
+  data: Record<string, any>;
+  locale?: EmailLocale;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+  private readonly from: string;
+  private readonly defaultLocale: EmailLocale;
+
+  constructor(
+    @Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport,
+    configService: ConfigService,
+  ) {
+    this.from = configService.get(
+      'EMAIL_FROM',
+      'Antoree <no-reply@antoree.com>',
+    );
+    this.defaultLocale = configService.get<EmailLocale>(
+      'EMAIL_DEFAULT_LOCALE',
+      'vi',
+    );
+  }
+
+  /**
+   * Render a named template and deliver it through the configured transport
+   */
+  async sendTemplate(
+    options: SendTemplateEmailOptions,
+  ): Promise<EmailDeliveryResult> {
+    const rendered = this.renderTemplate(
+      options.template,
+      options.data,
+      options.locale,
+    );
+    const result = await this.transport.send({
+      from: this.from,
+      to: options.to,
+      ...rendered,
+    });
+
+    this.logger.log(
+      `Sent ${options.template} email to ${options.to} via ${result.transport} (${result.messageId})`,
+    );
+    return result;
+  }
+
+  /**
+   * Deliver a free-form message wrapped in the default layout
+   */
+  async sendMessage(
+    to: string,
+    subject: string,
+    message: string,
+    locale?: EmailLocale,
+  ): Promise<EmailDeliveryResult> {
+    const html = this.wrapInLayout(
+      subject,
+      `<p>${ejs.escapeXML(message)}</p>`,
+      locale || this.defaultLocale,
+    );
+    const result = await this.transport.send({
+      from: this.from,
+      to,
+      subject,
+      html,
+      text: message,
+    });
+
+    this.logger.log(
+      `Sent email "${subject}" to ${to} via ${result.transport} (${result.messageId})`,
+    );
+    return result;
+  }
+
+  renderTemplate(
+    template: EmailTemplateName,
+    data: Record<string, any>,
+    locale?: EmailLocale,
+  ): RenderedEmail {
+    const localized = EMAIL_TEMPLATES[template];
+    if (!localized) {
+      throw new Error(`Unknown email template: ${template}`);
+    }
+
+    const resolvedLocale = localized[locale] ? locale : this.defaultLocale;
+    const content = localized[resolvedLocale];
+    const subject = ejs.render(content.subject, data);
+    const body = ejs.render(content.body, data);
+
+    return {
+      subject,
+      html: this.wrapInLayout(subject, body, resolvedLocale),
+      text: this.toPlainText(body),
+    };
+  }
+
+  private wrapInLayout(
+    subject: string,
+    body: string,
+    locale: EmailLocale,
+  ): string {
+    return ejs.render(EMAIL_LAYOUT, {
+      subject,
+      body,
+      locale,
+      footer: EMAIL_FOOTER[locale],
+    });
+  }
+
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<a [^>]*href="([^"]*)"[^>]*>([^<]*)<\/a>/g, '$2 ($1)')
+      .replace(/<\/(p|tr|h\d)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\n\s*\n+/g, '\n\n')
+      .trim();
+  }
+}
@@ -0,0 +1,4 @@
+export * from './email.service';
+export * from './email.module';
+export * from './transports';
+export * from './templates';
@@ -0,0 +1,52 @@
+import { LocalizedEmailTemplate } from './email-template.types';
+
+export const EMAIL_VERIFICATION: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Xác minh địa chỉ email của bạn',
+    body: `<p>Xin chào <%= name %>,</p>
+<p>Cảm ơn bạn đã đăng ký Antoree. Vui lòng xác minh địa chỉ email để bắt đầu đặt lịch học.</p>
+<p><a href="<%= verifyUrl %>">Xác minh email</a></p>
+<p>Liên kết có hiệu lực trong <%= expiresInHours %> giờ. Nếu bạn không đăng ký tài khoản, hãy bỏ qua email này.</p>`,
+  },
+  en: {
+    subject: 'Verify your email address',
+    body: `<p>Hi <%= name %>,</p>
+<p>Thanks for signing up to Antoree. Please verify your email address to start booking lessons.</p>
+<p><a href="<%= verifyUrl %>">Verify email</a></p>
+<p>This link is valid for <%= expiresInHours %> hours. If you did not create an account, you can ignore this email.</p>`,
+  },
+};
+
+export const PASSWORD_RESET: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Đặt lại mật khẩu Antoree',
+    body: `<p>Xin chào <%= name %>,</p>
+<p>Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn.</p>
+<p><a href="<%= resetUrl %>">Đặt lại mật khẩu</a></p>
+<p>Liên kết có hiệu lực trong <%= expiresInMinutes %> phút và chỉ dùng được một lần. Nếu bạn không yêu cầu, hãy bỏ qua email này.</p>`,
+  },
+  en: {
+    subject: 'Reset your Antoree password',
+    body: `<p>Hi <%= name %>,</p>
+<p>We received a request to reset the password of your account.</p>
+<p><a href="<%= resetUrl %>">Reset password</a></p>
+<p>This link is valid for <%= expiresInMinutes %> minutes and can only be used once. If you did not ask for it, you can ignore this email.</p>`,
+  },
+};
+
+export const SET_INITIAL_PASSWORD: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Tạo mật khẩu cho tài khoản Antoree của bạn',
+    body: `<p>Xin chào <%= name %>,</p>
+<p>Chúng tôi đã tạo tài khoản cho bạn khi bạn thanh toán. Hãy tạo mật khẩu để đăng nhập và theo dõi khóa học.</p>
+<p><a href="<%= setPasswordUrl %>">Tạo mật khẩu</a></p>
+<p>Liên kết có hiệu lực trong <%= expiresInDays %> ngày.</p>`,
+  },
+  en: {
+    subject: 'Set a password for your Antoree account',
+    body: `<p>Hi <%= name %>,</p>
+<p>We created an account for you with your purchase. Set a password to log in and follow your course.</p>
+<p><a href="<%= setPasswordUrl %>">Set password</a></p>
+<p>This link is valid for <%= expiresInDays %> days.</p>`,
+  },
+};
@@ -0,0 +1,12 @@
+export type EmailLocale = 'vi' | 'en';
+
+/**
+ * Subject and body are EJS strings rendered with the template data.
+ * Optional values must be read through `locals` so missing keys render empty.
+ */
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export type LocalizedEmailTemplate = Record<EmailLocale, EmailTemplateContent>;
@@ -0,0 +1,49 @@
+import { LocalizedEmailTemplate } from './email-template.types';
+import {
+  EMAIL_VERIFICATION,
+  PASSWORD_RESET,
+  SET_INITIAL_PASSWORD,
+} from './account.templates';
+import {
+  TRIAL_ACCEPTED_STUDENT,
+  TRIAL_COMPLETED_STUDENT,
+  TRIAL_COMPLETED_TEACHER,
+  TRIAL_DECLINED_STUDENT,
+  TRIAL_REQUEST_TEACHER,
+} from './trial.templates';
+import { LESSON_REMINDER } from './lesson.templates';
+import { PAYMENT_RECEIPT } from './payment.templates';
+import { VERIFICATION_RESULT } from './verification.templates';
+
+export * from './email-template.types';
+export * from './layout';
+
+export type EmailTemplateName =
+  | 'trial-request-teacher'
+  | 'trial-accepted-student'
+  | 'trial-declined-student'
+  | 'trial-completed-student'
+  | 'trial-completed-teacher'
+  | 'lesson-reminder'
+  | 'payment-receipt'
+  | 'verification-result'
+  | 'email-verification'
+  | 'password-reset'
+  | 'set-initial-password';
+
+export const EMAIL_TEMPLATES: Record<
+  EmailTemplateName,
+  LocalizedEmailTemplate
+> = {
+  'trial-request-teacher': TRIAL_REQUEST_TEACHER,
+  'trial-accepted-student': TRIAL_ACCEPTED_STUDENT,
+  'trial-declined-student': TRIAL_DECLINED_STUDENT,
+  'trial-completed-student': TRIAL_COMPLETED_STUDENT,
+  'trial-completed-teacher': TRIAL_COMPLETED_TEACHER,
+  'lesson-reminder': LESSON_REMINDER,
+  'payment-receipt': PAYMENT_RECEIPT,
+  'verification-result': VERIFICATION_RESULT,
+  'email-verification': EMAIL_VERIFICATION,
+  'password-reset': PASSWORD_RESET,
+  'set-initial-password': SET_INITIAL_PASSWORD,
+};
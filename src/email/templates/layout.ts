@@ -0,0 +1,20 @@
+export const EMAIL_LAYOUT = `<!DOCTYPE html>
+<html lang="<%= locale %>">
+  <head>
+    <meta charset="utf-8" />
+    <title><%= subject %></title>
+  </head>
+  <body style="font-family: Arial, sans-serif; color: #222; line-height: 1.5;">
+    <div style="max-width: 600px; margin: 0 auto; padding: 24px;">
+      <h2 style="color: #0a7cff;">Antoree</h2>
+      <%- body %>
+      <hr style="border: none; border-top: 1px solid #eee; margin-top: 32px;" />
+      <p style="font-size: 12px; color: #888;"><%= footer %></p>
+    </div>
+  </body>
+</html>`;
+
+export const EMAIL_FOOTER: Record<string, string> = {
+  vi: 'Bạn nhận được email này vì đã đăng ký tài khoản tại Antoree.',
+  en: 'You are receiving this email because you have an Antoree account.',
+};
@@ -0,0 +1,18 @@
+import { LocalizedEmailTemplate } from './email-template.types';
+
+export const LESSON_REMINDER: LocalizedEmailTemplate = {
+  vi: {
+    subject:
+      'Nhắc lịch: buổi học với <%= otherPartyName %> bắt đầu sau <%= timeUntil %>',
+    body: `<p>Buổi học của bạn với <strong><%= otherPartyName %></strong> sẽ bắt đầu lúc <%= scheduledTime %>.</p>
+<% if (locals.meetingLink) { %><p>Link buổi học: <a href="<%= meetingLink %>"><%= meetingLink %></a></p><% } %>
+<p><a href="<%= joinUrl %>">Vào lớp</a></p>`,
+  },
+  en: {
+    subject:
+      'Reminder: your lesson with <%= otherPartyName %> starts in <%= timeUntil %>',
+    body: `<p>Your lesson with <strong><%= otherPartyName %></strong> starts at <%= scheduledTime %>.</p>
+<% if (locals.meetingLink) { %><p>Meeting link: <a href="<%= meetingLink %>"><%= meetingLink %></a></p><% } %>
+<p><a href="<%= joinUrl %>">Join lesson</a></p>`,
+  },
+};
@@ -0,0 +1,28 @@
+import { LocalizedEmailTemplate } from './email-template.types';
+
+export const PAYMENT_RECEIPT: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Biên nhận thanh toán #<%= orderId %>',
+    body: `<p>Xin chào <%= customerName %>,</p>
+<p>Chúng tôi đã nhận được thanh toán của bạn cho <strong><%= itemName %></strong>.</p>
+<table cellpadding="4">
+  <tr><td>Mã đơn hàng</td><td><%= orderId %></td></tr>
+  <tr><td>Phương thức</td><td><%= paymentMethod %></td></tr>
+  <% if (locals.discountAmount) { %><tr><td>Giảm giá</td><td><%= discountAmount %> <%= currency %></td></tr><% } %>
+  <tr><td>Tổng tiền</td><td><strong><%= amount %> <%= currency %></strong></td></tr>
+  <tr><td>Thời gian</td><td><%= paidAt %></td></tr>
+</table>`,
+  },
+  en: {
+    subject: 'Payment receipt #<%= orderId %>',
+    body: `<p>Hi <%= customerName %>,</p>
+<p>We have received your payment for <strong><%= itemName %></strong>.</p>
+<table cellpadding="4">
+  <tr><td>Order ID</td><td><%= orderId %></td></tr>
+  <tr><td>Payment method</td><td><%= paymentMethod %></td></tr>
+  <% if (locals.discountAmount) { %><tr><td>Discount</td><td><%= discountAmount %> <%= currency %></td></tr><% } %>
+  <tr><td>Total</td><td><strong><%= amount %> <%= currency %></strong></td></tr>
+  <tr><td>Paid at</td><td><%= paidAt %></td></tr>
+</table>`,
+  },
+};
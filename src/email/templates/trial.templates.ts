@@ -0,0 +1,84 @@
+import { LocalizedEmailTemplate } from './email-template.types';
+
+export const TRIAL_REQUEST_TEACHER: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Yêu cầu học thử mới từ <%= studentName %>',
+    body: `<p><strong><%= studentName %></strong> muốn đặt một buổi học thử với bạn.</p>
+<p>Thời gian: <%= scheduledAt %> lúc <%= scheduledTime %></p>
+<p>Mục tiêu học tập: <%= learningGoals %></p>
+<p><a href="<%= acceptUrl %>">Chấp nhận</a> | <a href="<%= declineUrl %>">Từ chối</a></p>`,
+  },
+  en: {
+    subject: 'New trial lesson request from <%= studentName %>',
+    body: `<p><strong><%= studentName %></strong> would like to book a trial lesson with you.</p>
+<p>When: <%= scheduledAt %> at <%= scheduledTime %></p>
+<p>Learning goals: <%= learningGoals %></p>
+<p><a href="<%= acceptUrl %>">Accept</a> | <a href="<%= declineUrl %>">Decline</a></p>`,
+  },
+};
+
+export const TRIAL_ACCEPTED_STUDENT: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Buổi học thử với <%= teacherName %> đã được xác nhận',
+    body: `<p><strong><%= teacherName %></strong> đã chấp nhận yêu cầu học thử của bạn.</p>
+<p>Thời gian: <%= scheduledAt %> lúc <%= scheduledTime %></p>
+<p>Link buổi học: <a href="<%= meetingLink %>"><%= meetingLink %></a></p>
+<p><%= instructions %></p>
+<p><a href="<%= joinUrl %>">Vào lớp</a> | <a href="<%= rescheduleUrl %>">Đổi lịch</a></p>`,
+  },
+  en: {
+    subject: 'Your trial lesson with <%= teacherName %> is confirmed',
+    body: `<p><strong><%= teacherName %></strong> has accepted your trial lesson request.</p>
+<p>When: <%= scheduledAt %> at <%= scheduledTime %></p>
+<p>Meeting link: <a href="<%= meetingLink %>"><%= meetingLink %></a></p>
+<p><%= instructions %></p>
+<p><a href="<%= joinUrl %>">Join lesson</a> | <a href="<%= rescheduleUrl %>">Reschedule</a></p>`,
+  },
+};
+
+export const TRIAL_DECLINED_STUDENT: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Cập nhật về yêu cầu học thử của bạn',
+    body: `<p><strong><%= teacherName %></strong> không thể nhận buổi học thử này.</p>
+<p>Lý do: <%= reason %></p>
+<p><a href="<%= findOtherTeachersUrl %>">Tìm giáo viên khác</a></p>`,
+  },
+  en: {
+    subject: 'Update on your trial lesson request',
+    body: `<p><strong><%= teacherName %></strong> is unable to take this trial lesson.</p>
+<p>Reason: <%= reason %></p>
+<p><a href="<%= findOtherTeachersUrl %>">Find another teacher</a></p>`,
+  },
+};
+
+export const TRIAL_COMPLETED_STUDENT: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Buổi học thử đã hoàn thành - Bước tiếp theo',
+    body: `<p>Bạn đã hoàn thành buổi học thử với <strong><%= teacherName %></strong>.</p>
+<p>Nhận xét của giáo viên: <%= feedback %></p>
+<p>Đề xuất: <%= recommendations %></p>
+<p><a href="<%= bookRegularLessonUrl %>">Đặt lịch học chính thức</a> | <a href="<%= leaveReviewUrl %>">Đánh giá giáo viên</a></p>`,
+  },
+  en: {
+    subject: 'Trial lesson completed - next steps',
+    body: `<p>You completed your trial lesson with <strong><%= teacherName %></strong>.</p>
+<p>Teacher feedback: <%= feedback %></p>
+<p>Recommendations: <%= recommendations %></p>
+<p><a href="<%= bookRegularLessonUrl %>">Book a regular lesson</a> | <a href="<%= leaveReviewUrl %>">Leave a review</a></p>`,
+  },
+};
+
+export const TRIAL_COMPLETED_TEACHER: LocalizedEmailTemplate = {
+  vi: {
+    subject: 'Tóm tắt buổi học thử với <%= studentName %>',
+    body: `<p>Buổi học thử với <strong><%= studentName %></strong> đã kết thúc.</p>
+<p>Nhận xét: <%= feedback %></p>
+<p><a href="<%= studentProfileUrl %>">Xem hồ sơ học viên</a> | <a href="<%= scheduleUrl %>">Lịch dạy</a></p>`,
+  },
+  en: {
+    subject: 'Trial lesson summary with <%= studentName %>',
+    body: `<p>Your trial lesson with <strong><%= studentName %></strong> has ended.</p>
+<p>Feedback: <%= feedback %></p>
+<p><a href="<%= studentProfileUrl %>">View student profile</a> | <a href="<%= scheduleUrl %>">Your schedule</a></p>`,
+  },
+};
@@ -0,0 +1,22 @@
+import { LocalizedEmailTemplate } from './email-template.types';
+
+export const VERIFICATION_RESULT: LocalizedEmailTemplate = {
+  vi: {
+    subject:
+      '<%= approved ? "Hồ sơ giáo viên của bạn đã được duyệt" : "Hồ sơ giáo viên của bạn chưa được duyệt" %>',
+    body: `<p>Xin chào <%= teacherName %>,</p>
+<% if (approved) { %><p>Chúc mừng! Hồ sơ xác minh của bạn đã được duyệt. Bạn có thể hoàn tất lịch dạy và bắt đầu nhận học viên.</p>
+<% } else { %><p>Rất tiếc, hồ sơ xác minh của bạn chưa đạt yêu cầu. Vui lòng cập nhật và gửi lại.</p><% } %>
+<% if (locals.reviewNotes) { %><p>Ghi chú từ quản trị viên: <%= reviewNotes %></p><% } %>
+<p><a href="<%= dashboardUrl %>">Đi tới trang quản lý</a></p>`,
+  },
+  en: {
+    subject:
+      '<%= approved ? "Your teacher profile has been approved" : "Your teacher profile was not approved" %>',
+    body: `<p>Hi <%= teacherName %>,</p>
+<% if (approved) { %><p>Congratulations! Your verification has been approved. You can now finish your schedule setup and start accepting students.</p>
+<% } else { %><p>Unfortunately your verification did not meet our requirements. Please update your documents and resubmit.</p><% } %>
+<% if (locals.reviewNotes) { %><p>Reviewer notes: <%= reviewNotes %></p><% } %>
+<p><a href="<%= dashboardUrl %>">Go to dashboard</a></p>`,
+  },
+};
@@ -0,0 +1,20 @@
+export const EMAIL_TRANSPORT = 'EMAIL_TRANSPORT';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailDeliveryResult {
+  messageId: string;
+  transport: string;
+  location?: string; // Where the file transport wrote the message
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailDeliveryResult>;
+}
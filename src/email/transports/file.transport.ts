@@ -0,0 +1,37 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  EmailDeliveryResult,
+  EmailMessage,
+  EmailTransport,
+} from './email-transport.interface';
+
+/**
+ * Writes each message as a JSON file instead of sending it.
+ * Used in development and tests to inspect rendered emails.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailDeliveryResult> {
+    const messageId = randomUUID();
+    const fileName = `${Date.now()}-${messageId}.json`;
+    const location = path.join(this.outputDir, fileName);
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(
+      location,
+      JSON.stringify(
+        { messageId, ...message, sentAt: new Date().toISOString() },
+        null,
+        2,
+      ),
+      'utf8',
+    );
+
+    return { messageId, transport: this.name, location };
+  }
+}
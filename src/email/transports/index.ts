@@ -0,0 +1,3 @@
+export * from './email-transport.interface';
+export * from './smtp.transport';
+export * from './file.transport';
@@ -0,0 +1,38 @@
+import * as nodemailer from 'nodemailer';
+import {
+  EmailDeliveryResult,
+  EmailMessage,
+  EmailTransport,
+} from './email-transport.interface';
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends mail through an SMTP server (Mailhog/Mailpit locally, a relay in production)
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(config: SmtpTransportConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user
+        ? { user: config.user, pass: config.password }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailDeliveryResult> {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId, transport: this.name };
+  }
+}
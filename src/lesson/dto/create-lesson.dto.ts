@@ -9,10 +9,10 @@ import {
   IsUUID, 
   IsUrl,
   IsArray,
-  ValidateNested,
+  ArrayMinSize,
   IsBoolean
 } from 'class-validator';
-import { Type, Transform } from 'class-transformer';
+import { Transform } from 'class-transformer';
 
 export class CreateLessonDto {
   @ApiProperty({
@@ -153,12 +153,11 @@ export class CreateLessonFromTemplateDto {
   courseId: string;
 
   @ApiProperty({
-    description: 'Template lesson ID to copy from',
-    example: 'cm3lesson123template',
+    description: 'Lesson template ID to create the lesson from',
+    example: 'cm3template123def456',
   })
   @IsString()
-  
-  templateLessonId: string;
+  templateId: string;
 
   @ApiProperty({
     description: 'Scheduled date and time for the new lesson (ISO 8601)',
@@ -206,11 +205,19 @@ export class BulkCreateLessonsDto {
   courseId: string;
 
   @ApiProperty({
-    description: 'Base lesson template to use for all lessons',
+    description:
+      'Lesson templates to use, in curriculum order. A single template is used for every lesson, otherwise one template per scheduled time',
+    example: [
+      'cm3template123def456',
+      'cm3template456ghi789',
+      'cm3template789jkl012',
+    ],
+    type: [String],
   })
-  @ValidateNested()
-  @Type(() => CreateLessonDto)
-  lessonTemplate: Omit<CreateLessonDto, 'courseId' | 'scheduledAt'>;
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  templateIds: string[];
 
   @ApiProperty({
     description: 'Array of scheduled times for the lessons',
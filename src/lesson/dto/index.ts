@@ -1,3 +1,4 @@
 export * from './create-lesson.dto';
 export * from './update-lesson.dto';
 export * from './search-lesson.dto';
+export * from './lesson-template.dto';
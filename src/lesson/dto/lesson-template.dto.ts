@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateLessonTemplateDto {
+  @ApiProperty({
+    description: 'Title given to lessons created from this template',
+    example: 'Introduction to Business Presentations',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'Lesson description',
+    example:
+      'Learn the fundamentals of creating and delivering effective business presentations',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Curriculum this template belongs to',
+    example: 'Business English',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Default lesson duration in minutes',
+    example: 60,
+    minimum: 15,
+    maximum: 180,
+    default: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  @Max(180)
+  duration?: number;
+
+  @ApiPropertyOptional({
+    description: 'Learning objectives',
+    example: ['Understand presentation structure', 'Practice public speaking'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  learningObjectives?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Materials needed for the lesson',
+    example: ['Business English textbook Chapter 5', 'Presentation slides'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  materials?: string[];
+
+  @ApiPropertyOptional({
+    description: 'What students should know before the lesson',
+    example: ['Basic business vocabulary'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  prerequisites?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Homework assignment',
+    example: 'Prepare a 5-minute presentation about your company',
+  })
+  @IsOptional()
+  @IsString()
+  homework?: string;
+
+  @ApiPropertyOptional({
+    description: 'Teacher notes for lesson preparation',
+    example: 'Focus on pronunciation and confidence building',
+  })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UpdateLessonTemplateDto extends PartialType(
+  CreateLessonTemplateDto,
+) {}
+
+export class SearchLessonTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Search in template titles',
+    example: 'presentation',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only templates of this curriculum',
+    example: 'Business English',
+  })
+  @IsOptional()
+  @IsString()
+  category?: string;
+}
@@ -1,5 +1,7 @@
 export * from './lesson.module';
 export * from './lesson.service';
 export * from './lesson.controller';
+export * from './lesson-template.service';
+export * from './lesson-template.controller';
 export * from './dto';
 export * from './vm';
@@ -0,0 +1,160 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { LessonTemplateService } from './lesson-template.service';
+import {
+  CreateLessonTemplateDto,
+  SearchLessonTemplateDto,
+  UpdateLessonTemplateDto,
+} from './dto';
+import { LessonTemplateVm } from './vm';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { Role } from '../roles/role.enum';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { TAccountRequest } from 'src/decorators/account-request.decorator';
+
+@ApiTags('Lesson Templates')
+@Controller('lesson-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.TEACHER)
+@ApiBearerAuth()
+export class LessonTemplateController {
+  constructor(private readonly lessonTemplateService: LessonTemplateService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create lesson template',
+    description:
+      'Add reusable lesson content to your template library. Lessons are created from it with POST lessons/from-template or POST lessons/bulk.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Lesson template created successfully',
+    type: LessonTemplateVm,
+  })
+  @ResponseMessage('Lesson template created successfully')
+  async create(
+    @Body() createDto: CreateLessonTemplateDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<LessonTemplateVm> {
+    return this.lessonTemplateService.create(createDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get my lesson templates',
+    description: 'Templates are ordered by curriculum, then by creation date.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lesson templates retrieved successfully',
+    type: [LessonTemplateVm],
+  })
+  @ResponseMessage('Lesson templates retrieved successfully')
+  async findMine(
+    @Query() searchDto: SearchLessonTemplateDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<LessonTemplateVm[]> {
+    return this.lessonTemplateService.findByTeacher(user.id, searchDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get lesson template by ID' })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Lesson template ID',
+    example: 'cm3template123def456',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lesson template retrieved successfully',
+    type: LessonTemplateVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lesson template not found',
+  })
+  @ResponseMessage('Lesson template retrieved successfully')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<LessonTemplateVm> {
+    return this.lessonTemplateService.findOne(id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update lesson template',
+    description: 'Lessons already created from the template are not changed.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Lesson template ID',
+    example: 'cm3template123def456',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lesson template updated successfully',
+    type: LessonTemplateVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lesson template not found',
+  })
+  @ResponseMessage('Lesson template updated successfully')
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateLessonTemplateDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<LessonTemplateVm> {
+    return this.lessonTemplateService.update(id, updateDto, user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete lesson template',
+    description: 'Lessons created from the template keep their content.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Lesson template ID',
+    example: 'cm3template123def456',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lesson template deleted successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lesson template not found',
+  })
+  @ResponseMessage('Lesson template deleted successfully')
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<void> {
+    return this.lessonTemplateService.remove(id, user.id);
+  }
+}
@@ -0,0 +1,130 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { LessonTemplate, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import {
+  CreateLessonTemplateDto,
+  SearchLessonTemplateDto,
+  UpdateLessonTemplateDto,
+} from './dto';
+import { LessonTemplateVm } from './vm';
+
+type LessonTemplateWithUsage = LessonTemplate & {
+  _count?: { lessons: number };
+};
+
+/**
+ * A teacher's library of reusable lesson content. Lessons created from a
+ * template copy its content, so editing or deleting a template never changes
+ * lessons that were already scheduled.
+ */
+@Injectable()
+export class LessonTemplateService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    createDto: CreateLessonTemplateDto,
+    teacherId: string,
+  ): Promise<LessonTemplateVm> {
+    const template = await this.prisma.lessonTemplate.create({
+      data: {
+        ...createDto,
+        learningObjectives: createDto.learningObjectives || [],
+        materials: createDto.materials || [],
+        prerequisites: createDto.prerequisites || [],
+        teacherId,
+      },
+    });
+
+    return this.toLessonTemplateVm(template);
+  }
+
+  async findByTeacher(
+    teacherId: string,
+    searchDto: SearchLessonTemplateDto,
+  ): Promise<LessonTemplateVm[]> {
+    const where: Prisma.LessonTemplateWhereInput = {
+      teacherId,
+      category: searchDto.category,
+    };
+    if (searchDto.search) {
+      where.title = { contains: searchDto.search, mode: 'insensitive' };
+    }
+
+    const templates = await this.prisma.lessonTemplate.findMany({
+      where,
+      include: { _count: { select: { lessons: true } } },
+      orderBy: [{ category: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return templates.map((template) => this.toLessonTemplateVm(template));
+  }
+
+  async findOne(id: string, teacherId: string): Promise<LessonTemplateVm> {
+    const template = await this.prisma.lessonTemplate.findFirst({
+      where: { id, teacherId },
+      include: { _count: { select: { lessons: true } } },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Lesson template not found');
+    }
+
+    return this.toLessonTemplateVm(template);
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateLessonTemplateDto,
+    teacherId: string,
+  ): Promise<LessonTemplateVm> {
+    await this.findOwnTemplate(id, teacherId);
+
+    await this.prisma.lessonTemplate.update({
+      where: { id },
+      data: updateDto,
+    });
+
+    return this.findOne(id, teacherId);
+  }
+
+  async remove(id: string, teacherId: string): Promise<void> {
+    await this.findOwnTemplate(id, teacherId);
+    await this.prisma.lessonTemplate.delete({ where: { id } });
+  }
+
+  async findOwnTemplate(
+    id: string,
+    teacherId: string,
+  ): Promise<LessonTemplate> {
+    const template = await this.prisma.lessonTemplate.findFirst({
+      where: { id, teacherId },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Lesson template not found');
+    }
+
+    return template;
+  }
+
+  private toLessonTemplateVm(
+    template: LessonTemplateWithUsage,
+  ): LessonTemplateVm {
+    return {
+      id: template.id,
+      teacherId: template.teacherId,
+      title: template.title,
+      description: template.description,
+      category: template.category,
+      duration: template.duration,
+      learningObjectives: template.learningObjectives,
+      materials: template.materials,
+      prerequisites: template.prerequisites,
+      homework: template.homework,
+      notes: template.notes,
+      usageCount: template._count?.lessons || 0,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+}
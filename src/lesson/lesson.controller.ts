@@ -91,7 +91,7 @@ export class LessonController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Create lesson from template',
-    description: 'Create a new lesson using an existing lesson as a template.',
+    description: 'Create a new lesson from one of your lesson templates.',
   })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -100,14 +100,17 @@ export class LessonController {
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
-    description: 'Template lesson not found',
+    description: 'Lesson template not found',
   })
   @ResponseMessage('Lesson created from template successfully')
   async createFromTemplate(
     @Body() createFromTemplateDto: CreateLessonFromTemplateDto,
-    @CurrentUser() user: any,
+    @CurrentUser() user: TAccountRequest,
   ): Promise<LessonVm> {
-    return this.lessonService.createFromTemplate(createFromTemplateDto, user.teacher.id);
+    return this.lessonService.createFromTemplate(
+      createFromTemplateDto,
+      user.id,
+    );
   }
 
   @Post('bulk')
@@ -116,7 +119,12 @@ export class LessonController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Bulk create lessons',
-    description: 'Create multiple lessons at once with different scheduled times.',
+    description:
+      'Create multiple lessons at once from your lesson templates: one template for every scheduled time, or a curriculum of one template per scheduled time.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lesson template not found',
   })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -126,9 +134,9 @@ export class LessonController {
   @ResponseMessage('Lessons created successfully')
   async bulkCreate(
     @Body() bulkCreateDto: BulkCreateLessonsDto,
-    @CurrentUser() user: any,
+    @CurrentUser() user: TAccountRequest,
   ): Promise<LessonVm[]> {
-    return this.lessonService.bulkCreate(bulkCreateDto, user.teacher.id);
+    return this.lessonService.bulkCreate(bulkCreateDto, user.id);
   }
 
   @Get()
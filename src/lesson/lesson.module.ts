@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { LessonService } from './lesson.service';
 import { LessonController } from './lesson.controller';
+import { LessonTemplateService } from './lesson-template.service';
+import { LessonTemplateController } from './lesson-template.controller';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { SlotHoldModule } from '../slot-hold/slot-hold.module';
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [LessonController],
-  providers: [LessonService],
-  exports: [LessonService],
+  imports: [PrismaModule, SlotHoldModule],
+  controllers: [LessonController, LessonTemplateController],
+  providers: [LessonService, LessonTemplateService],
+  exports: [LessonService, LessonTemplateService],
 })
 export class LessonModule {}
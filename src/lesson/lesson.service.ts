@@ -6,6 +6,8 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { LessonTemplateService } from './lesson-template.service';
+import { SlotHoldService } from '../slot-hold/slot-hold.service';
 import { 
   CreateLessonDto,
   CreateLessonFromTemplateDto,
@@ -31,12 +33,27 @@ import {
   Teacher, 
   User, 
   LessonStatus,
-  BookingStatus 
+  LessonTemplate,
+  BookingStatus,
+  Prisma,
 } from '@prisma/client';
 
+interface LessonProgress {
+  studentFeedback?: string;
+  topicsCovered?: string[];
+  strengths?: string[];
+  improvementAreas?: string[];
+  nextLessonFocus?: string;
+  lastUpdated?: string;
+}
+
 @Injectable()
 export class LessonService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lessonTemplateService: LessonTemplateService,
+    private readonly slotHoldService: SlotHoldService,
+  ) {}
 
   /**
    * Create a new lesson
@@ -44,6 +61,7 @@ export class LessonService {
   async create(
     createLessonDto: CreateLessonDto,
     teacherId: string,
+    templateId?: string,
   ): Promise<LessonVm> {
     // Verify course belongs to teacher
     const course = await this.prisma.course.findFirst({
@@ -58,50 +76,57 @@ export class LessonService {
       throw new NotFoundException('Course not found or you do not have permission to add lessons');
     }
 
-    // Check if scheduled time conflicts with existing lessons
-    await this.checkScheduleConflict(
-      teacherId,
-      new Date(createLessonDto.scheduledAt),
-      createLessonDto.duration,
-    );
-
-    // Auto-assign sequence number if not provided
-    let sequenceNumber = createLessonDto.sequenceNumber;
-    if (!sequenceNumber) {
-      const lastLesson = await this.prisma.lesson.findFirst({
-        where: { courseId: createLessonDto.courseId },
-        orderBy: { createdAt: 'desc' },
-      });
-      sequenceNumber = 1; // Start from 1 if no previous lesson
-      if (lastLesson?.notes) {
-        const metadata = this.parseLessonMetadata(lastLesson.notes);
-        sequenceNumber = (metadata.sequenceNumber || 0) + 1;
-      }
-    }
-
-    const lesson = await this.prisma.lesson.create({
-      data: {
-        courseId: createLessonDto.courseId,
+    // The slot is held until the lesson exists, see SlotHoldService
+    const lesson = await this.slotHoldService.withHold(
+      {
         teacherId,
-        studentId: null, // Will be set when someone books the lesson
-        scheduledAt: new Date(createLessonDto.scheduledAt),
+        startsAt: new Date(createLessonDto.scheduledAt),
         duration: createLessonDto.duration,
-        meetingUrl: createLessonDto.meetingUrl,
-        notes: this.buildLessonMetadata({
-          title: createLessonDto.title,
-          description: createLessonDto.description,
-          learningObjectives: createLessonDto.learningObjectives,
-          materials: createLessonDto.materials,
-          prerequisites: createLessonDto.prerequisites,
-          teacherNotes: createLessonDto.notes,
-          sequenceNumber: sequenceNumber,
-          isAvailableForBooking: createLessonDto.isAvailableForBooking,
-          maxStudents: createLessonDto.maxStudents,
-        }),
-        homework: createLessonDto.homework,
-        status: LessonStatus.SCHEDULED,
+        holderId: teacherId,
       },
-    });
+      async () => {
+        // Check if scheduled time conflicts with existing lessons
+        await this.checkScheduleConflict(
+          teacherId,
+          new Date(createLessonDto.scheduledAt),
+          createLessonDto.duration,
+        );
+
+        // Auto-assign sequence number if not provided
+        let sequenceNumber = createLessonDto.sequenceNumber;
+        if (!sequenceNumber) {
+          const lastSequence = await this.prisma.lesson.aggregate({
+            where: { courseId: createLessonDto.courseId },
+            _max: { sequenceNumber: true },
+          });
+          sequenceNumber = (lastSequence._max.sequenceNumber || 0) + 1;
+        }
+
+        return this.prisma.lesson.create({
+          data: {
+            courseId: createLessonDto.courseId,
+            teacherId,
+            studentId: null, // Will be set when someone books the lesson
+            scheduledAt: new Date(createLessonDto.scheduledAt),
+            duration: createLessonDto.duration,
+            meetingUrl: createLessonDto.meetingUrl,
+            title: createLessonDto.title,
+            description: createLessonDto.description,
+            learningObjectives: createLessonDto.learningObjectives || [],
+            materials: createLessonDto.materials || [],
+            prerequisites: createLessonDto.prerequisites || [],
+            notes: createLessonDto.notes,
+            sequenceNumber,
+            isAvailableForBooking: createLessonDto.isAvailableForBooking,
+            maxStudents: createLessonDto.maxStudents,
+            homework: createLessonDto.homework,
+            templateId,
+            status: LessonStatus.SCHEDULED,
+          },
+        });
+      },
+      (created) => ({ lessonId: created.id }),
+    );
 
     return this.toLessonVm(lesson);
   }
@@ -113,34 +138,23 @@ export class LessonService {
     createFromTemplateDto: CreateLessonFromTemplateDto,
     teacherId: string,
   ): Promise<LessonVm> {
-    const templateLesson = await this.prisma.lesson.findFirst({
-      where: {
-        id: createFromTemplateDto.templateLessonId,
-        teacherId,
-      },
-    });
-
-    if (!templateLesson) {
-      throw new NotFoundException('Template lesson not found');
-    }
-
-    // Parse template metadata
-    const templateMetadata = this.parseLessonMetadata(templateLesson.notes);
+    const template = await this.lessonTemplateService.findOwnTemplate(
+      createFromTemplateDto.templateId,
+      teacherId,
+    );
 
-    const createDto: CreateLessonDto = {
+    const createDto = this.buildLessonFromTemplate(template, {
       courseId: createFromTemplateDto.courseId,
-      title: createFromTemplateDto.title || templateMetadata.title || 'Untitled Lesson',
-      description: templateMetadata.description,
       scheduledAt: createFromTemplateDto.scheduledAt,
-      duration: createFromTemplateDto.duration || templateLesson.duration,
-      learningObjectives: templateMetadata.learningObjectives,
-      materials: templateMetadata.materials,
-      homework: templateLesson.homework,
-      notes: `${templateMetadata.teacherNotes || ''}\n${createFromTemplateDto.additionalNotes || ''}`.trim(),
-      prerequisites: templateMetadata.prerequisites,
-    };
+      title: createFromTemplateDto.title,
+      duration: createFromTemplateDto.duration,
+    });
+    createDto.notes =
+      [template.notes, createFromTemplateDto.additionalNotes]
+        .filter(Boolean)
+        .join('\n') || undefined;
 
-    return this.create(createDto, teacherId);
+    return this.create(createDto, teacherId, template.id);
   }
 
   /**
@@ -162,24 +176,46 @@ export class LessonService {
       throw new NotFoundException('Course not found or you do not have permission to add lessons');
     }
 
+    const { templateIds, scheduledTimes } = bulkCreateDto;
+    if (
+      templateIds.length > 1 &&
+      templateIds.length !== scheduledTimes.length
+    ) {
+      throw new BadRequestException(
+        'Provide one template, or one template per scheduled time',
+      );
+    }
+
+    const templates = await this.prisma.lessonTemplate.findMany({
+      where: { id: { in: templateIds }, teacherId },
+    });
+    const templatesById = new Map(
+      templates.map((template) => [template.id, template]),
+    );
+    if (templateIds.some((templateId) => !templatesById.has(templateId))) {
+      throw new NotFoundException('Lesson template not found');
+    }
+
     const createdLessons: LessonVm[] = [];
     let sequenceNumber = bulkCreateDto.startingSequence || 1;
 
-    for (const scheduledTime of bulkCreateDto.scheduledTimes) {
+    for (const [index, scheduledTime] of scheduledTimes.entries()) {
+      const template = templatesById.get(
+        templateIds.length === 1 ? templateIds[0] : templateIds[index],
+      );
       const lessonTitle = bulkCreateDto.autoIncrementTitles
-        ? `${bulkCreateDto.lessonTemplate.title} - Lesson ${sequenceNumber}`
-        : bulkCreateDto.lessonTemplate.title;
+        ? `${template.title} - Lesson ${sequenceNumber}`
+        : template.title;
 
-      const createDto: CreateLessonDto = {
-        ...bulkCreateDto.lessonTemplate,
+      const createDto = this.buildLessonFromTemplate(template, {
         courseId: bulkCreateDto.courseId,
-        title: lessonTitle,
         scheduledAt: scheduledTime,
+        title: lessonTitle,
         sequenceNumber,
-      };
+      });
 
       try {
-        const lesson = await this.create(createDto, teacherId);
+        const lesson = await this.create(createDto, teacherId, template.id);
         createdLessons.push(lesson);
         sequenceNumber++;
       } catch (error) {
@@ -215,41 +251,79 @@ export class LessonService {
       throw new BadRequestException('Cannot update lesson that is in progress or completed');
     }
 
-    // Check schedule conflict if date/time is being changed
-    if (updateLessonDto.scheduledAt || updateLessonDto.duration) {
-      const newScheduledAt = updateLessonDto.scheduledAt 
-        ? new Date(updateLessonDto.scheduledAt) 
-        : lesson.scheduledAt;
-      const newDuration = updateLessonDto.duration || lesson.duration;
-
-      await this.checkScheduleConflict(teacherId, newScheduledAt, newDuration, id);
-    }
-
-    // Parse existing metadata
-    const existingMetadata = this.parseLessonMetadata(lesson.notes);
-
-    // Update metadata with new values
-    const updatedMetadata = {
-      ...existingMetadata,
-      ...(updateLessonDto.learningObjectives && { learningObjectives: updateLessonDto.learningObjectives }),
-      ...(updateLessonDto.materials && { materials: updateLessonDto.materials }),
-      ...(updateLessonDto.prerequisites && { prerequisites: updateLessonDto.prerequisites }),
-      ...(updateLessonDto.notes && { teacherNotes: updateLessonDto.notes }),
-    };
+    const updateLesson = () =>
+      this.prisma.lesson.update({
+        where: { id },
+        data: {
+          ...(updateLessonDto.title && { title: updateLessonDto.title }),
+          ...(updateLessonDto.description && {
+            description: updateLessonDto.description,
+          }),
+          ...(updateLessonDto.scheduledAt && {
+            scheduledAt: new Date(updateLessonDto.scheduledAt),
+          }),
+          ...(updateLessonDto.duration && {
+            duration: updateLessonDto.duration,
+          }),
+          ...(updateLessonDto.meetingUrl && {
+            meetingUrl: updateLessonDto.meetingUrl,
+          }),
+          ...(updateLessonDto.homework && {
+            homework: updateLessonDto.homework,
+          }),
+          ...(updateLessonDto.status && { status: updateLessonDto.status }),
+          ...(updateLessonDto.learningObjectives && {
+            learningObjectives: updateLessonDto.learningObjectives,
+          }),
+          ...(updateLessonDto.materials && {
+            materials: updateLessonDto.materials,
+          }),
+          ...(updateLessonDto.prerequisites && {
+            prerequisites: updateLessonDto.prerequisites,
+          }),
+          ...(updateLessonDto.notes && { notes: updateLessonDto.notes }),
+          ...(updateLessonDto.sequenceNumber && {
+            sequenceNumber: updateLessonDto.sequenceNumber,
+          }),
+          ...(updateLessonDto.isAvailableForBooking !== undefined && {
+            isAvailableForBooking: updateLessonDto.isAvailableForBooking,
+          }),
+          ...(updateLessonDto.maxStudents && {
+            maxStudents: updateLessonDto.maxStudents,
+          }),
+        },
+      });
 
-    const updatedLesson = await this.prisma.lesson.update({
-      where: { id },
-      data: {
-        ...(updateLessonDto.title && { title: updateLessonDto.title }),
-        ...(updateLessonDto.description && { description: updateLessonDto.description }),
-        ...(updateLessonDto.scheduledAt && { scheduledAt: new Date(updateLessonDto.scheduledAt) }),
-        ...(updateLessonDto.duration && { duration: updateLessonDto.duration }),
-        ...(updateLessonDto.meetingUrl && { meetingUrl: updateLessonDto.meetingUrl }),
-        ...(updateLessonDto.homework && { homework: updateLessonDto.homework }),
-        ...(updateLessonDto.status && { status: updateLessonDto.status }),
-        notes: this.buildLessonMetadata(updatedMetadata),
-      },
-    });
+    // Check schedule conflict if date/time is being changed, holding the new
+    // time while doing so
+    const updatedLesson =
+      updateLessonDto.scheduledAt || updateLessonDto.duration
+        ? await this.slotHoldService.withHold(
+            {
+              teacherId,
+              startsAt: updateLessonDto.scheduledAt
+                ? new Date(updateLessonDto.scheduledAt)
+                : lesson.scheduledAt,
+              duration: updateLessonDto.duration || lesson.duration,
+              holderId: teacherId,
+            },
+            async () => {
+              const newScheduledAt = updateLessonDto.scheduledAt
+                ? new Date(updateLessonDto.scheduledAt)
+                : lesson.scheduledAt;
+              const newDuration = updateLessonDto.duration || lesson.duration;
+
+              await this.checkScheduleConflict(
+                teacherId,
+                newScheduledAt,
+                newDuration,
+                id,
+              );
+              return updateLesson();
+            },
+            (updated) => ({ lessonId: updated.id }),
+          )
+        : await updateLesson();
 
     return this.toLessonVm(updatedLesson);
   }
@@ -273,13 +347,8 @@ export class LessonService {
       throw new NotFoundException('Lesson not found or you do not have permission to update it');
     }
 
-    // Parse existing metadata
-    const existingMetadata = this.parseLessonMetadata(lesson.notes);
-
-    // Update lesson progress metadata
-    const progressMetadata = {
-      ...existingMetadata,
-      teacherNotes: updateNotesDto.notes || existingMetadata.teacherNotes,
+    // Update lesson progress
+    const progress: LessonProgress = {
       studentFeedback: updateNotesDto.studentFeedback,
       topicsCovered: updateNotesDto.topicsCovered,
       strengths: updateNotesDto.strengths,
@@ -291,7 +360,8 @@ export class LessonService {
     const updatedLesson = await this.prisma.lesson.update({
       where: { id },
       data: {
-        notes: this.buildLessonMetadata(progressMetadata),
+        notes: updateNotesDto.notes || lesson.notes,
+        progress: progress as Prisma.InputJsonObject,
         homework: updateNotesDto.homework || lesson.homework,
       },
     });
@@ -333,27 +403,49 @@ export class LessonService {
 
     const newScheduledAt = new Date(rescheduleDto.newScheduledAt);
 
-    // Check for conflicts
-    await this.checkScheduleConflict(teacherId, newScheduledAt, lesson.duration, id);
+    const updatedLesson = await this.slotHoldService.withHold(
+      {
+        teacherId: lesson.teacherId,
+        startsAt: newScheduledAt,
+        duration: lesson.duration,
+        holderId: teacherId,
+      },
+      async () => {
+        // Check for conflicts
+        await this.checkScheduleConflict(
+          teacherId,
+          newScheduledAt,
+          lesson.duration,
+          id,
+        );
+
+        // Update lesson
+        const rescheduled = await this.prisma.lesson.update({
+          where: { id },
+          data: {
+            scheduledAt: newScheduledAt,
+          },
+        });
 
-    // Update lesson
-    const updatedLesson = await this.prisma.lesson.update({
-      where: { id },
-      data: {
-        scheduledAt: newScheduledAt,
+        // Update booking if exists
+        if (lesson.booking) {
+          await this.prisma.booking.update({
+            where: { id: lesson.booking.id },
+            data: {
+              scheduledAt: newScheduledAt,
+              notes: `${lesson.booking.notes || ''}\n\nRescheduled: ${
+                rescheduleDto.reason || 'No reason provided'
+              }`.trim(),
+            },
+          });
+        }
+
+        return rescheduled;
       },
-    });
+      (updated) => ({ lessonId: updated.id, bookingId: lesson.booking?.id }),
+    );
 
-    // Update booking if exists
     if (lesson.booking) {
-      await this.prisma.booking.update({
-        where: { id: lesson.booking.id },
-        data: {
-          scheduledAt: newScheduledAt,
-          notes: `${lesson.booking.notes || ''}\n\nRescheduled: ${rescheduleDto.reason || 'No reason provided'}`.trim(),
-        },
-      });
-
       // Send notification to student if requested
       if (rescheduleDto.notifyStudent && lesson.booking.student) {
         // TODO: Implement notification service call
@@ -433,6 +525,20 @@ export class LessonService {
       where.notes = hasNotes ? { not: null } : null;
     }
 
+    if (learningObjectives?.length) {
+      where.learningObjectives = { hasSome: learningObjectives };
+    }
+
+    if (availableForBooking !== undefined) {
+      where.isAvailableForBooking = availableForBooking;
+    }
+
+    if (minSequence || maxSequence) {
+      where.sequenceNumber = {};
+      if (minSequence) where.sequenceNumber.gte = minSequence;
+      if (maxSequence) where.sequenceNumber.lte = maxSequence;
+    }
+
     // Get lessons with related data
     const [lessons, total] = await Promise.all([
       this.prisma.lesson.findMany({
@@ -598,8 +704,7 @@ export class LessonService {
       this.getPreviousLessonInSequence(lesson),
     ]);
 
-    // Parse lesson metadata for progress tracking
-    const metadata = this.parseLessonMetadata(lesson.notes);
+    const progress = (lesson.progress || {}) as LessonProgress;
 
     // Build detailed view model
     const lessonDetailVm: LessonDetailVm = {
@@ -607,10 +712,10 @@ export class LessonService {
       nextLesson,
       previousLesson,
       progress: {
-        topicsCovered: metadata.topicsCovered,
-        studentStrengths: metadata.strengths,
-        improvementAreas: metadata.improvementAreas,
-        nextLessonFocus: metadata.nextLessonFocus,
+        topicsCovered: progress.topicsCovered,
+        studentStrengths: progress.strengths,
+        improvementAreas: progress.improvementAreas,
+        nextLessonFocus: progress.nextLessonFocus,
         completionPercentage: this.calculateLessonCompletionPercentage(lesson),
       },
     };
@@ -787,27 +892,30 @@ export class LessonService {
         totalLessons,
         scheduledLessons,
         completedLessons,
-        progressPercentage: totalLessons > 0 ? (completedLessons / totalLessons) * 100 : 0,
-        nextLesson: nextLesson ? {
-          id: nextLesson.id,
-          title: this.parseLessonMetadata(nextLesson.notes).title || 'Untitled Lesson',
-          scheduledAt: nextLesson.scheduledAt,
-          sequenceNumber: this.parseLessonMetadata(nextLesson.notes).sequenceNumber || 0,
-        } : undefined,
+        progressPercentage:
+          totalLessons > 0 ? (completedLessons / totalLessons) * 100 : 0,
+        nextLesson: nextLesson
+          ? {
+              id: nextLesson.id,
+              title: nextLesson.title || 'Untitled Lesson',
+              scheduledAt: nextLesson.scheduledAt,
+              sequenceNumber: nextLesson.sequenceNumber || 0,
+            }
+          : undefined,
       },
       recentLessons: lessons.map(lesson => ({
         id: lesson.id,
-        title: this.parseLessonMetadata(lesson.notes).title || 'Untitled Lesson',
+        title: lesson.title || 'Untitled Lesson',
         scheduledAt: lesson.scheduledAt,
         status: lesson.status,
-        sequenceNumber: this.parseLessonMetadata(lesson.notes).sequenceNumber || 0,
+        sequenceNumber: lesson.sequenceNumber || 0,
         duration: lesson.duration,
       })),
       upcomingLessons: upcomingLessons.map(lesson => ({
         id: lesson.id,
-        title: this.parseLessonMetadata(lesson.notes).title || 'Untitled Lesson',
+        title: lesson.title || 'Untitled Lesson',
         scheduledAt: lesson.scheduledAt,
-        sequenceNumber: this.parseLessonMetadata(lesson.notes).sequenceNumber || 0,
+        sequenceNumber: lesson.sequenceNumber || 0,
         duration: lesson.duration,
         hasAvailableSlots: true, // TODO: Calculate based on bookings
       })),
@@ -854,50 +962,50 @@ export class LessonService {
     }
   }
 
-  private buildLessonMetadata(metadata: any): string {
-    return JSON.stringify({
-      ...metadata,
-      version: '1.0',
-      updatedAt: new Date().toISOString(),
-    });
-  }
-
-  private parseLessonMetadata(notes: string | null): any {
-    if (!notes) return {};
-    
-    try {
-      return JSON.parse(notes);
-    } catch {
-      // If notes is not JSON, treat as legacy text notes
-      return { teacherNotes: notes };
-    }
+  private buildLessonFromTemplate(
+    template: LessonTemplate,
+    overrides: Pick<CreateLessonDto, 'courseId' | 'scheduledAt'> &
+      Partial<CreateLessonDto>,
+  ): CreateLessonDto {
+    return {
+      title: overrides.title || template.title,
+      description: template.description,
+      duration: overrides.duration || template.duration,
+      learningObjectives: template.learningObjectives,
+      materials: template.materials,
+      prerequisites: template.prerequisites,
+      homework: template.homework,
+      notes: template.notes,
+      courseId: overrides.courseId,
+      scheduledAt: overrides.scheduledAt,
+      sequenceNumber: overrides.sequenceNumber,
+    };
   }
 
   private toLessonVm(lesson: any): LessonVm {
-    const metadata = this.parseLessonMetadata(lesson.notes);
-
     return {
       id: lesson.id,
       courseId: lesson.courseId,
       teacherId: lesson.teacherId,
-      title: metadata.title || 'Untitled Lesson',
-      description: metadata.description,
+      title: lesson.title || 'Untitled Lesson',
+      description: lesson.description,
       scheduledAt: lesson.scheduledAt,
       startedAt: lesson.startedAt,
       endedAt: lesson.endedAt,
       duration: lesson.duration,
       meetingUrl: lesson.meetingUrl,
-      learningObjectives: metadata.learningObjectives,
-      materials: metadata.materials,
+      learningObjectives: lesson.learningObjectives,
+      materials: lesson.materials,
       homework: lesson.homework,
-      notes: metadata.teacherNotes,
+      notes: lesson.notes,
       status: lesson.status,
-      sequenceNumber: metadata.sequenceNumber,
-      isAvailableForBooking: metadata.isAvailableForBooking !== false,
-      maxStudents: metadata.maxStudents || 1,
+      sequenceNumber: lesson.sequenceNumber,
+      isAvailableForBooking: lesson.isAvailableForBooking,
+      maxStudents: lesson.maxStudents,
       currentBookings: 0, // TODO: Calculate from bookings
       hasAvailableSlots: true, // TODO: Calculate from bookings
-      prerequisites: metadata.prerequisites,
+      prerequisites: lesson.prerequisites,
+      templateId: lesson.templateId,
       createdAt: lesson.createdAt,
       updatedAt: lesson.updatedAt,
       course: lesson.course,
@@ -941,9 +1049,6 @@ export class LessonService {
   }
 
   private async getNextLessonInSequence(lesson: any): Promise<any> {
-    const metadata = this.parseLessonMetadata(lesson.notes);
-    const currentSequence = metadata.sequenceNumber || 0;
-
     const nextLesson = await this.prisma.lesson.findFirst({
       where: {
         courseId: lesson.courseId,
@@ -954,18 +1059,14 @@ export class LessonService {
 
     if (!nextLesson) return undefined;
 
-    const nextMetadata = this.parseLessonMetadata(nextLesson.notes);
     return {
       id: nextLesson.id,
-      title: nextMetadata.title || 'Untitled Lesson',
+      title: nextLesson.title || 'Untitled Lesson',
       scheduledAt: nextLesson.scheduledAt,
     };
   }
 
   private async getPreviousLessonInSequence(lesson: any): Promise<any> {
-    const metadata = this.parseLessonMetadata(lesson.notes);
-    const currentSequence = metadata.sequenceNumber || 0;
-
     const previousLesson = await this.prisma.lesson.findFirst({
       where: {
         courseId: lesson.courseId,
@@ -977,10 +1078,9 @@ export class LessonService {
 
     if (!previousLesson) return undefined;
 
-    const previousMetadata = this.parseLessonMetadata(previousLesson.notes);
     return {
       id: previousLesson.id,
-      title: previousMetadata.title || 'Untitled Lesson',
+      title: previousLesson.title || 'Untitled Lesson',
       scheduledAt: previousLesson.scheduledAt,
     };
   }
@@ -132,6 +132,12 @@ export class LessonVm {
   })
   prerequisites?: string[];
 
+  @ApiPropertyOptional({
+    description: 'Template this lesson was created from',
+    example: 'cm3template123def456',
+  })
+  templateId?: string;
+
   @ApiProperty({
     description: 'Creation timestamp',
     example: '2024-02-10T09:00:00Z',
@@ -269,16 +275,29 @@ export class LessonTemplateVm {
   id: string;
 
   @ApiProperty({
-    description: 'Template name',
-    example: 'Business Presentation Template',
+    description: 'Teacher who owns this template',
+    example: 'cm3teacher123def456',
   })
-  name: string;
+  teacherId: string;
 
   @ApiProperty({
-    description: 'Template description',
-    example: 'Standard template for business presentation lessons',
+    description: 'Lesson title',
+    example: 'Introduction to Business Presentations',
   })
-  description: string;
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'Lesson description',
+    example:
+      'Learn the fundamentals of creating and delivering effective business presentations',
+  })
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Curriculum this template belongs to',
+    example: 'Business English',
+  })
+  category?: string;
 
   @ApiProperty({
     description: 'Default duration in minutes',
@@ -286,52 +305,56 @@ export class LessonTemplateVm {
   })
   duration: number;
 
-  @ApiPropertyOptional({
-    description: 'Default learning objectives',
+  @ApiProperty({
+    description: 'Learning objectives',
     example: ['Practice presentation skills', 'Build confidence', 'Learn business vocabulary'],
     type: [String],
   })
-  learningObjectives?: string[];
+  learningObjectives: string[];
 
-  @ApiPropertyOptional({
-    description: 'Default materials',
+  @ApiProperty({
+    description: 'Required materials',
     example: ['Presentation slides template', 'Business vocabulary handout'],
     type: [String],
   })
-  materials?: string[];
+  materials: string[];
+
+  @ApiProperty({
+    description: 'What students should know before the lesson',
+    example: ['Basic business vocabulary'],
+    type: [String],
+  })
+  prerequisites: string[];
 
   @ApiPropertyOptional({
-    description: 'Default homework template',
-    example: 'Prepare a presentation on [TOPIC]',
+    description: 'Homework assignment',
+    example: 'Prepare a 5-minute presentation about your company',
   })
-  homeworkTemplate?: string;
+  homework?: string;
 
-  @ApiProperty({
-    description: 'Template category',
-    example: 'Business English',
+  @ApiPropertyOptional({
+    description: 'Teacher notes for lesson preparation',
+    example: 'Focus on pronunciation and confidence building',
   })
-  category: string;
+  notes?: string;
 
   @ApiProperty({
-    description: 'Times this template has been used',
+    description: 'Lessons created from this template',
     example: 25,
   })
   usageCount: number;
 
   @ApiProperty({
-    description: 'Teacher who created this template',
+    description: 'Creation timestamp',
+    example: '2024-02-10T09:00:00Z',
   })
-  teacher: {
-    id: string;
-    firstName: string;
-    lastName: string;
-  };
+  createdAt: Date;
 
   @ApiProperty({
-    description: 'Whether template is public or private',
-    example: false,
+    description: 'Last update timestamp',
+    example: '2024-02-12T14:30:00Z',
   })
-  isPublic: boolean;
+  updatedAt: Date;
 }
 
 export class LessonStatsVm {
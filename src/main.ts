@@ -12,6 +12,8 @@ import {
   DocumentBuilder,
 } from '@nestjs/swagger';
 import { AllExceptionsFilter } from './exception/global.exception';
+import { RedisIoAdapter } from './realtime/redis-io.adapter';
+import { RateLimitGuard } from './common/throttler';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
@@ -63,6 +65,8 @@ async function bootstrap() {
   // Global guards
   app.useGlobalGuards(new JwtAuthGuard(reflector));
   app.useGlobalGuards(new RolesGuard(reflector));
+  // After the JWT guard so authenticated routes are limited per account
+  app.useGlobalGuards(app.get(RateLimitGuard));
 
   // Global interceptors
   app.useGlobalInterceptors(new TransformInterceptor(reflector));
@@ -78,6 +82,17 @@ async function bootstrap() {
   // Set global prefix
   app.setGlobalPrefix('api');
 
+  // Share Socket.IO rooms across instances when running more than one API node
+  if (configService.get('SOCKET_IO_REDIS_ADAPTER') === 'true') {
+    const redisIoAdapter = new RedisIoAdapter(app);
+    await redisIoAdapter.connectToRedis({
+      host: configService.get('REDIS_HOST', 'localhost'),
+      port: parseInt(configService.get('REDIS_PORT', '6379')),
+      password: configService.get('REDIS_PASSWORD'),
+    });
+    app.useWebSocketAdapter(redisIoAdapter);
+  }
+
   // Start the application
   const port = configService.get<number>('PORT') || 8000;
   await app.listen(port);
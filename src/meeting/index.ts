@@ -0,0 +1,3 @@
+export * from './meeting.service';
+export * from './meeting.module';
+export * from './providers';
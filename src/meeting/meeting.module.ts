@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { MeetingService } from './meeting.service';
+import {
+  JitsiMeetingProvider,
+  MEETING_PROVIDER,
+  StubMeetingProvider,
+} from './providers';
+
+@Module({
+  imports: [ConfigModule, PrismaModule],
+  providers: [
+    {
+      provide: MEETING_PROVIDER,
+      useFactory: (configService: ConfigService) => {
+        // MEETING_PROVIDER=jitsi uses the self-hosted Jitsi server, anything else the stub
+        if (configService.get('MEETING_PROVIDER', 'stub') === 'jitsi') {
+          const appSecret = configService.get<string>('JITSI_APP_SECRET');
+          if (!appSecret) {
+            throw new Error(
+              'JITSI_APP_SECRET is required when MEETING_PROVIDER=jitsi',
+            );
+          }
+          return new JitsiMeetingProvider({
+            baseUrl: configService.get(
+              'JITSI_BASE_URL',
+              'https://meet.antoree.com',
+            ),
+            appId: configService.get('JITSI_APP_ID', 'antoree'),
+            appSecret,
+          });
+        }
+        // Stub rooms have no access control, so lessons would be open to anyone
+        if (configService.get('NODE_ENV') === 'production') {
+          throw new Error('MEETING_PROVIDER must be jitsi in production');
+        }
+        return new StubMeetingProvider();
+      },
+      inject: [ConfigService],
+    },
+    MeetingService,
+  ],
+  exports: [MeetingService],
+})
+export class MeetingModule {}
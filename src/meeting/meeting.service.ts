@@ -0,0 +1,93 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BookingStatus, LessonStatus } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import {
+  MEETING_PROVIDER,
+  MeetingJoinToken,
+  MeetingJoinWindow,
+  MeetingParticipant,
+  MeetingProvider,
+  MeetingRecording,
+  MeetingRoom,
+} from './providers';
+
+// Participants can enter 15 minutes early and stay 15 minutes past the end
+export const MEETING_JOIN_OPENS_BEFORE_MS = 15 * 60 * 1000;
+export const MEETING_JOIN_GRACE_AFTER_MS = 15 * 60 * 1000;
+
+const ASSIGN_ROOMS_BATCH_SIZE = 200;
+
+/**
+ * Video rooms of booked lessons, backed by the configured meeting provider
+ */
+@Injectable()
+export class MeetingService {
+  private readonly logger = new Logger(MeetingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(MEETING_PROVIDER) private readonly provider: MeetingProvider,
+  ) {}
+
+  getRoom(bookingId: string): MeetingRoom {
+    return this.provider.createRoom(bookingId);
+  }
+
+  getJoinWindow(scheduledAt: Date, duration: number): MeetingJoinWindow {
+    const start = new Date(scheduledAt).getTime();
+    return {
+      opensAt: new Date(start - MEETING_JOIN_OPENS_BEFORE_MS),
+      closesAt: new Date(
+        start + duration * 60 * 1000 + MEETING_JOIN_GRACE_AFTER_MS,
+      ),
+    };
+  }
+
+  /**
+   * Token for one participant, valid only during the lesson's join window
+   */
+  createJoinToken(
+    booking: { id: string; scheduledAt: Date; duration: number },
+    participant: MeetingParticipant,
+  ): MeetingJoinToken {
+    return this.provider.createJoinToken(
+      this.getRoom(booking.id),
+      participant,
+      this.getJoinWindow(booking.scheduledAt, booking.duration),
+    );
+  }
+
+  async getRecording(bookingId: string): Promise<MeetingRecording> {
+    return this.provider.getRecording(this.getRoom(bookingId));
+  }
+
+  /**
+   * Give a room to lessons of confirmed bookings that were created without
+   * one, e.g. by code paths that do not go through this service
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async assignMissingRooms(): Promise<void> {
+    const lessons = await this.prisma.lesson.findMany({
+      where: {
+        meetingUrl: null,
+        status: LessonStatus.SCHEDULED,
+        scheduledAt: { gte: new Date() },
+        booking: { is: { status: BookingStatus.CONFIRMED } },
+      },
+      select: { id: true, bookingId: true },
+      take: ASSIGN_ROOMS_BATCH_SIZE,
+    });
+
+    for (const lesson of lessons) {
+      await this.prisma.lesson.updateMany({
+        where: { id: lesson.id, meetingUrl: null },
+        data: { meetingUrl: this.getRoom(lesson.bookingId).meetingUrl },
+      });
+    }
+
+    if (lessons.length > 0) {
+      this.logger.log(`Assigned meeting rooms to ${lessons.length} lesson(s)`);
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './meeting-provider.interface';
+export * from './jitsi.provider';
+export * from './stub.provider';
@@ -0,0 +1,45 @@
+export const MEETING_PROVIDER = 'MEETING_PROVIDER';
+
+export interface MeetingRoom {
+  roomId: string;
+  meetingUrl: string;
+}
+
+export interface MeetingParticipant {
+  id: string;
+  name: string;
+  email?: string;
+  avatar?: string;
+  moderator: boolean; // Teachers moderate their lesson rooms
+}
+
+export interface MeetingJoinWindow {
+  opensAt: Date;
+  closesAt: Date;
+}
+
+export interface MeetingJoinToken {
+  token: string;
+  joinUrl: string; // Meeting URL carrying the token
+  expiresAt: Date;
+}
+
+export interface MeetingRecording {
+  available: boolean;
+  url?: string;
+  expiresAt?: string;
+}
+
+export interface MeetingProvider {
+  readonly name: string;
+  /**
+   * Rooms are derived from the booking so every call returns the same room
+   */
+  createRoom(bookingId: string): MeetingRoom;
+  createJoinToken(
+    room: MeetingRoom,
+    participant: MeetingParticipant,
+    window: MeetingJoinWindow,
+  ): MeetingJoinToken;
+  getRecording(room: MeetingRoom): Promise<MeetingRecording>;
+}
@@ -0,0 +1,48 @@
+import {
+  MeetingJoinToken,
+  MeetingJoinWindow,
+  MeetingParticipant,
+  MeetingProvider,
+  MeetingRecording,
+  MeetingRoom,
+} from './meeting-provider.interface';
+
+/**
+ * Predictable rooms and unsigned tokens for development and tests, where no
+ * meeting server is running
+ */
+export class StubMeetingProvider implements MeetingProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly baseUrl = 'https://meet.example.test') {}
+
+  createRoom(bookingId: string): MeetingRoom {
+    const roomId = `lesson-${bookingId}`;
+    return { roomId, meetingUrl: `${this.baseUrl}/${roomId}` };
+  }
+
+  createJoinToken(
+    room: MeetingRoom,
+    participant: MeetingParticipant,
+    window: MeetingJoinWindow,
+  ): MeetingJoinToken {
+    const token = `stub.${Buffer.from(
+      JSON.stringify({
+        room: room.roomId,
+        userId: participant.id,
+        moderator: participant.moderator,
+        exp: window.closesAt.toISOString(),
+      }),
+    ).toString('base64url')}`;
+
+    return {
+      token,
+      joinUrl: `${room.meetingUrl}?token=${token}`,
+      expiresAt: window.closesAt,
+    };
+  }
+
+  async getRecording(): Promise<MeetingRecording> {
+    return { available: false };
+  }
+}
@@ -0,0 +1,3 @@
+export * from './send-message.dto';
+export * from './start-conversation.dto';
+export * from './search-conversation.dto';
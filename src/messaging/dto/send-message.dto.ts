@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export const MAX_MESSAGE_LENGTH = 4000;
+export const MAX_MESSAGE_ATTACHMENTS = 5;
+
+/**
+ * Files are uploaded to storage by the client first, only their metadata is
+ * sent with the message
+ */
+export class MessageAttachmentDto {
+  @ApiProperty({
+    description: 'Public URL of the uploaded file',
+    example: 'https://cdn.example.com/uploads/homework.pdf',
+  })
+  @IsUrl()
+  url: string;
+
+  @ApiProperty({ description: 'Original file name', example: 'homework.pdf' })
+  @IsString()
+  @MaxLength(255)
+  fileName: string;
+
+  @ApiProperty({ description: 'MIME type', example: 'application/pdf' })
+  @IsString()
+  @MaxLength(100)
+  mimeType: string;
+
+  @ApiPropertyOptional({ description: 'File size in bytes', example: 52431 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  size?: number;
+}
+
+export class SendMessageDto {
+  @ApiPropertyOptional({
+    description: 'Message text, may be empty when attachments are sent',
+    example: 'Hi, could we focus on speaking practice next lesson?',
+    maxLength: MAX_MESSAGE_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_MESSAGE_LENGTH)
+  body?: string;
+
+  @ApiPropertyOptional({
+    description: 'Booking between the two participants this message is about',
+    example: 'clk123456789',
+  })
+  @IsOptional()
+  @IsString()
+  bookingId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Attached files',
+    type: [MessageAttachmentDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_MESSAGE_ATTACHMENTS)
+  @ValidateNested({ each: true })
+  @Type(() => MessageAttachmentDto)
+  attachments?: MessageAttachmentDto[];
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { SendMessageDto } from './send-message.dto';
+
+export class StartConversationDto extends SendMessageDto {
+  @ApiProperty({
+    description:
+      'Teacher ID when a student starts the conversation, student ID when a teacher does',
+    example: 'clk123456789',
+  })
+  @IsString()
+  @IsNotEmpty()
+  participantId: string;
+}
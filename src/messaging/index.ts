@@ -0,0 +1,5 @@
+export * from './messaging.service';
+export * from './messaging.controller';
+export * from './messaging.module';
+export * from './dto';
+export * from './vm';
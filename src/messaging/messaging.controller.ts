@@ -0,0 +1,171 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MessagingService } from './messaging.service';
+import {
+  SearchConversationDto,
+  SearchMessageDto,
+  SendMessageDto,
+  StartConversationDto,
+} from './dto';
+import {
+  ConversationPageVm,
+  ConversationVm,
+  MessagePageVm,
+  MessageUnreadCountVm,
+  MessageVm,
+} from './vm';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { TAccountRequest } from '../decorators/account-request.decorator';
+
+@ApiTags('Messaging')
+@Controller('conversations')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class MessagingController {
+  constructor(private readonly messagingService: MessagingService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List my conversations',
+    description:
+      'Conversations of the current user, most recently active first, with the last message and unread count',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Conversations retrieved successfully',
+    type: ConversationPageVm,
+  })
+  async findAll(
+    @Query() query: SearchConversationDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<ConversationPageVm> {
+    return this.messagingService.listConversations(user.id, query);
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Get number of unread messages' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Unread count retrieved successfully',
+    type: MessageUnreadCountVm,
+  })
+  async getUnreadCount(
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<MessageUnreadCountVm> {
+    const unreadCount = await this.messagingService.countUnread(user.id);
+    return { unreadCount };
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Start a conversation',
+    description:
+      'Open the conversation with a teacher (as a student) or with a student who booked you (as a teacher), reusing the existing one. An optional first message can be sent.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Conversation opened',
+    type: ConversationVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not allowed to message this user',
+  })
+  async start(
+    @Body() startConversationDto: StartConversationDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<ConversationVm> {
+    return this.messagingService.startConversation(
+      user.id,
+      startConversationDto,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a conversation' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Conversation retrieved successfully',
+    type: ConversationVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<ConversationVm> {
+    return this.messagingService.getConversation(id, user.id);
+  }
+
+  @Get(':id/messages')
+  @ApiOperation({
+    summary: 'List messages of a conversation',
+    description: 'Newest first, pass nextCursor to load older messages',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Messages retrieved successfully',
+    type: MessagePageVm,
+  })
+  async getMessages(
+    @Param('id') id: string,
+    @Query() query: SearchMessageDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<MessagePageVm> {
+    return this.messagingService.getMessages(id, user.id, query);
+  }
+
+  @Post(':id/messages')
+  @ApiOperation({ summary: 'Send a message' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Message sent',
+    type: MessageVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found',
+  })
+  async sendMessage(
+    @Param('id') id: string,
+    @Body() sendMessageDto: SendMessageDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<MessageVm> {
+    return this.messagingService.sendMessage(id, user.id, sendMessageDto);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({
+    summary: 'Mark a conversation as read',
+    description:
+      'Mark every received message as read; the other participant gets a read receipt',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Messages marked as read',
+  })
+  async markAsRead(
+    @Param('id') id: string,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<{ updated: number }> {
+    return this.messagingService.markAsRead(id, user.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { MessagingController } from './messaging.controller';
+import { MessagingService } from './messaging.service';
+
+@Module({
+  imports: [PrismaModule, RealtimeModule],
+  controllers: [MessagingController],
+  providers: [MessagingService],
+  exports: [MessagingService],
+})
+export class MessagingModule {}
@@ -0,0 +1,426 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Conversation,
+  Message,
+  Prisma,
+  TeacherStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import {
+  MessageReadEventPayload,
+  REALTIME_EVENTS,
+} from '../realtime/realtime.events';
+import {
+  SearchConversationDto,
+  SearchMessageDto,
+  SendMessageDto,
+  StartConversationDto,
+} from './dto';
+import {
+  ConversationPageVm,
+  ConversationParticipantVm,
+  ConversationVm,
+  MessageAttachmentVm,
+  MessagePageVm,
+  MessageVm,
+} from './vm';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const participantSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+};
+
+type ConversationWithParticipants = Conversation & {
+  student: { user: ConversationParticipantVm };
+  teacher: { user: ConversationParticipantVm };
+  messages?: Message[];
+  _count?: { messages: number };
+};
+
+/**
+ * 1:1 conversations between a student and a teacher. There is one thread per
+ * pair; individual messages can point at the booking they are about.
+ */
+@Injectable()
+export class MessagingService {
+  private readonly logger = new Logger(MessagingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * Open (or reuse) the conversation with a teacher or student, optionally
+   * sending a first message. Students can write to any approved teacher;
+   * teachers only to students who have booked them.
+   */
+  async startConversation(
+    userId: string,
+    dto: StartConversationDto,
+  ): Promise<ConversationVm> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    let studentId: string;
+    let teacherId: string;
+
+    if (user?.role === UserRole.STUDENT) {
+      studentId = userId;
+      teacherId = dto.participantId;
+
+      const teacher = await this.prisma.teacher.findUnique({
+        where: { id: teacherId },
+        select: { status: true },
+      });
+      if (!teacher || teacher.status !== TeacherStatus.APPROVED) {
+        throw new NotFoundException('Teacher not found');
+      }
+    } else if (user?.role === UserRole.TEACHER) {
+      teacherId = userId;
+      studentId = dto.participantId;
+
+      const bookings = await this.prisma.booking.count({
+        where: { studentId, teacherId },
+      });
+      if (bookings === 0) {
+        throw new ForbiddenException(
+          'Teachers can only message students who have booked them',
+        );
+      }
+    } else {
+      throw new ForbiddenException(
+        'Only students and teachers can start conversations',
+      );
+    }
+
+    const conversation = await this.prisma.conversation.upsert({
+      where: { studentId_teacherId: { studentId, teacherId } },
+      create: { studentId, teacherId },
+      update: {},
+    });
+
+    if (conversation.deletedAt) {
+      throw new ForbiddenException(
+        'This conversation has been closed by a moderator',
+      );
+    }
+
+    if (dto.body?.trim() || dto.attachments?.length) {
+      await this.createMessage(conversation, userId, dto);
+    }
+
+    return this.getConversation(conversation.id, userId);
+  }
+
+  /**
+   * Conversations of the user, most recently active first
+   */
+  async listConversations(
+    userId: string,
+    query: SearchConversationDto,
+  ): Promise<ConversationPageVm> {
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+
+    const conversations = await this.prisma.conversation.findMany({
+      where: {
+        deletedAt: null,
+        OR: [{ studentId: userId }, { teacherId: userId }],
+      },
+      include: this.conversationInclude(userId),
+      orderBy: [
+        { lastMessageAt: { sort: 'desc', nulls: 'last' } },
+        { id: 'desc' },
+      ],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = conversations.length > limit;
+    const items = hasMore ? conversations.slice(0, limit) : conversations;
+
+    return {
+      items: items.map((conversation) =>
+        this.toConversationVm(conversation as ConversationWithParticipants),
+      ),
+      nextCursor: hasMore ? items[items.length - 1].id : undefined,
+    };
+  }
+
+  async getConversation(
+    conversationId: string,
+    userId: string,
+  ): Promise<ConversationVm> {
+    await this.findParticipantConversation(conversationId, userId);
+
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: this.conversationInclude(userId),
+    });
+
+    return this.toConversationVm(conversation as ConversationWithParticipants);
+  }
+
+  /**
+   * Messages newest first, paginated by cursor
+   */
+  async getMessages(
+    conversationId: string,
+    userId: string,
+    query: SearchMessageDto,
+  ): Promise<MessagePageVm> {
+    await this.findParticipantConversation(conversationId, userId);
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+
+    const messages = await this.prisma.message.findMany({
+      where: { conversationId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = messages.length > limit;
+    const items = hasMore ? messages.slice(0, limit) : messages;
+
+    return {
+      items: items.map((message) => this.toMessageVm(message)),
+      nextCursor: hasMore ? items[items.length - 1].id : undefined,
+    };
+  }
+
+  async sendMessage(
+    conversationId: string,
+    userId: string,
+    dto: SendMessageDto,
+  ): Promise<MessageVm> {
+    const conversation = await this.findParticipantConversation(
+      conversationId,
+      userId,
+    );
+    return this.createMessage(conversation, userId, dto);
+  }
+
+  /**
+   * Mark every message received in the conversation as read and let the
+   * sender know through a read receipt
+   */
+  async markAsRead(
+    conversationId: string,
+    userId: string,
+  ): Promise<{ updated: number }> {
+    const conversation = await this.findParticipantConversation(
+      conversationId,
+      userId,
+    );
+    const readAt = new Date();
+
+    const { count } = await this.prisma.message.updateMany({
+      where: { conversationId, senderId: { not: userId }, readAt: null },
+      data: { readAt },
+    });
+
+    if (count > 0) {
+      const payload: MessageReadEventPayload = {
+        conversationId,
+        readerId: userId,
+        readAt: readAt.toISOString(),
+      };
+      this.realtimeService.emitToUser(
+        this.getOtherParticipantId(conversation, userId),
+        REALTIME_EVENTS.MESSAGE_READ,
+        payload,
+      );
+    }
+
+    return { updated: count };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.message.count({
+      where: {
+        senderId: { not: userId },
+        readAt: null,
+        deletedAt: null,
+        conversation: {
+          deletedAt: null,
+          OR: [{ studentId: userId }, { teacherId: userId }],
+        },
+      },
+    });
+  }
+
+  toMessageVm(message: Message): MessageVm {
+    const isRemoved = !!message.deletedAt;
+
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      body: isRemoved ? '' : message.body,
+      bookingId: message.bookingId || undefined,
+      attachments: isRemoved
+        ? []
+        : (message.attachments as unknown as MessageAttachmentVm[]) || [],
+      readAt: message.readAt?.toISOString(),
+      isRemoved,
+      createdAt: message.createdAt.toISOString(),
+    };
+  }
+
+  private async createMessage(
+    conversation: Conversation,
+    senderId: string,
+    dto: SendMessageDto,
+  ): Promise<MessageVm> {
+    const body = dto.body?.trim() || '';
+    if (!body && !dto.attachments?.length) {
+      throw new BadRequestException(
+        'A message needs text or at least one attachment',
+      );
+    }
+
+    if (dto.bookingId) {
+      const booking = await this.prisma.booking.findFirst({
+        where: {
+          id: dto.bookingId,
+          studentId: conversation.studentId,
+          teacherId: conversation.teacherId,
+        },
+        select: { id: true },
+      });
+      if (!booking) {
+        throw new BadRequestException(
+          'The booking does not belong to this conversation',
+        );
+      }
+    }
+
+    const [message] = await this.prisma.$transaction([
+      this.prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          senderId,
+          body,
+          bookingId: dto.bookingId,
+          attachments: dto.attachments?.length
+            ? (dto.attachments as unknown as Prisma.InputJsonValue)
+            : undefined,
+        },
+      }),
+      this.prisma.conversation.update({
+        where: { id: conversation.id },
+        data: { lastMessageAt: new Date() },
+      }),
+    ]);
+
+    this.logger.log(
+      `Message ${message.id} sent in conversation ${conversation.id} by user ${senderId}`,
+    );
+
+    // The sender's other devices need the message too
+    const messageVm = this.toMessageVm(message);
+    for (const participantId of [
+      conversation.studentId,
+      conversation.teacherId,
+    ]) {
+      this.realtimeService.emitToUser(
+        participantId,
+        REALTIME_EVENTS.MESSAGE_NEW,
+        messageVm,
+      );
+    }
+
+    return messageVm;
+  }
+
+  private async findParticipantConversation(
+    conversationId: string,
+    userId: string,
+  ): Promise<Conversation> {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        deletedAt: null,
+        OR: [{ studentId: userId }, { teacherId: userId }],
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  private getOtherParticipantId(
+    conversation: Conversation,
+    userId: string,
+  ): string {
+    return conversation.studentId === userId
+      ? conversation.teacherId
+      : conversation.studentId;
+  }
+
+  private conversationInclude(userId: string) {
+    return {
+      student: { select: { user: { select: participantSelect } } },
+      teacher: { select: { user: { select: participantSelect } } },
+      messages: {
+        orderBy: { createdAt: 'desc' as const },
+        take: 1,
+      },
+      _count: {
+        select: {
+          messages: {
+            where: {
+              senderId: { not: userId },
+              readAt: null,
+              deletedAt: null,
+            },
+          },
+        },
+      },
+    };
+  }
+
+  private toConversationVm(
+    conversation: ConversationWithParticipants,
+  ): ConversationVm {
+    const lastMessage = conversation.messages?.[0];
+
+    return {
+      id: conversation.id,
+      student: this.toParticipantVm(conversation.student.user),
+      teacher: this.toParticipantVm(conversation.teacher.user),
+      lastMessage: lastMessage ? this.toMessageVm(lastMessage) : undefined,
+      unreadCount: conversation._count?.messages || 0,
+      lastMessageAt: conversation.lastMessageAt?.toISOString(),
+      createdAt: conversation.createdAt.toISOString(),
+    };
+  }
+
+  private toParticipantVm(
+    user: ConversationParticipantVm,
+  ): ConversationParticipantVm {
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatar: user.avatar || undefined,
+    };
+  }
+}
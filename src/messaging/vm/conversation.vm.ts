@@ -0,0 +1,131 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MessageAttachmentVm {
+  @ApiProperty({ example: 'https://cdn.example.com/uploads/homework.pdf' })
+  url: string;
+
+  @ApiProperty({ example: 'homework.pdf' })
+  fileName: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiPropertyOptional({ example: 52431 })
+  size?: number;
+}
+
+export class MessageVm {
+  @ApiProperty({ description: 'Message ID', example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ description: 'Conversation ID', example: 'clk987654321' })
+  conversationId: string;
+
+  @ApiProperty({ description: 'User ID of the sender', example: 'clk111' })
+  senderId: string;
+
+  @ApiProperty({
+    description: 'Message text, empty when removed by a moderator',
+    example: 'Hi, could we focus on speaking practice next lesson?',
+  })
+  body: string;
+
+  @ApiPropertyOptional({
+    description: 'Booking the message is about',
+    example: 'clk222',
+  })
+  bookingId?: string;
+
+  @ApiProperty({ type: [MessageAttachmentVm] })
+  attachments: MessageAttachmentVm[];
+
+  @ApiPropertyOptional({
+    description: 'When the recipient read the message',
+    example: '2024-02-10T09:30:00.000Z',
+  })
+  readAt?: string;
+
+  @ApiProperty({
+    description: 'Whether the message was removed by a moderator',
+    example: false,
+  })
+  isRemoved: boolean;
+
+  @ApiProperty({ example: '2024-02-10T08:00:00.000Z' })
+  createdAt: string;
+}
+
+export class ConversationParticipantVm {
+  @ApiProperty({ example: 'clk111' })
+  id: string;
+
+  @ApiProperty({ example: 'John' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiPropertyOptional({ example: 'https://cdn.example.com/avatar.png' })
+  avatar?: string;
+}
+
+export class ConversationVm {
+  @ApiProperty({ description: 'Conversation ID', example: 'clk987654321' })
+  id: string;
+
+  @ApiProperty({ type: ConversationParticipantVm })
+  student: ConversationParticipantVm;
+
+  @ApiProperty({ type: ConversationParticipantVm })
+  teacher: ConversationParticipantVm;
+
+  @ApiPropertyOptional({ type: MessageVm })
+  lastMessage?: MessageVm;
+
+  @ApiProperty({
+    description: 'Messages the current user has not read yet',
+    example: 2,
+  })
+  unreadCount: number;
+
+  @ApiPropertyOptional({ example: '2024-02-10T08:00:00.000Z' })
+  lastMessageAt?: string;
+
+  @ApiProperty({ example: '2024-02-01T08:00:00.000Z' })
+  createdAt: string;
+}
+
+export class ConversationPageVm {
+  @ApiProperty({ type: [ConversationVm] })
+  items: ConversationVm[];
+
+  @ApiPropertyOptional({
+    description:
+      'Cursor to pass to fetch the next page, absent on the last page',
+    example: 'clk123456789',
+  })
+  nextCursor?: string;
+}
+
+export class MessagePageVm {
+  @ApiProperty({
+    description: 'Messages in this page, newest first',
+    type: [MessageVm],
+  })
+  items: MessageVm[];
+
+  @ApiPropertyOptional({
+    description:
+      'Cursor to pass to fetch older messages, absent on the last page',
+    example: 'clk123456789',
+  })
+  nextCursor?: string;
+}
+
+export class MessageUnreadCountVm {
+  @ApiProperty({
+    description: 'Unread messages across all conversations',
+    example: 3,
+  })
+  unreadCount: number;
+}
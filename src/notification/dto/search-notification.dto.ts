@@ -0,0 +1,59 @@
+import {
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class SearchNotificationDto {
+  @ApiPropertyOptional({
+    description: 'ID of the last notification from the previous page',
+    example: 'clk123456789',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of notifications to return',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only return unread notifications',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  unreadOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Return archived notifications instead of the inbox',
+    example: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  archived?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Filter by notification type prefix',
+    example: 'TRIAL_',
+  })
+  @IsOptional()
+  @IsString()
+  type?: string;
+}
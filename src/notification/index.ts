@@ -0,0 +1,5 @@
+export * from './notification-inbox.service';
+export * from './notification.controller';
+export * from './notification.module';
+export * from './dto';
+export * from './vm';
@@ -0,0 +1,191 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Notification, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { REALTIME_EVENTS } from '../realtime/realtime.events';
+import { SearchNotificationDto } from './dto';
+import { InboxNotificationVm, NotificationPageVm } from './vm';
+
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  bookingId?: string;
+  priority?: NotificationPriority;
+  metadata?: Record<string, any>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+@Injectable()
+export class NotificationInboxService {
+  private readonly logger = new Logger(NotificationInboxService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * Store a notification in the user's inbox
+   */
+  async create(input: CreateNotificationInput): Promise<Notification> {
+    const notification = await this.prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        bookingId: input.bookingId,
+        priority: input.priority || 'medium',
+        metadata: input.metadata as Prisma.InputJsonValue,
+      },
+    });
+
+    this.logger.log(
+      `Stored ${input.type} notification ${notification.id} for user ${input.userId}`,
+    );
+    this.realtimeService.emitToUser(
+      input.userId,
+      REALTIME_EVENTS.NOTIFICATION,
+      this.toInboxNotificationVm(notification),
+    );
+    return notification;
+  }
+
+  /**
+   * List notifications newest first, paginated by cursor
+   */
+  async list(
+    userId: string,
+    query: SearchNotificationDto,
+  ): Promise<NotificationPageVm> {
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      archivedAt: query.archived ? { not: null } : null,
+      ...(query.unreadOnly && { readAt: null }),
+      ...(query.type && { type: { startsWith: query.type } }),
+    };
+
+    const [notifications, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      }),
+      this.countUnread(userId),
+    ]);
+
+    const hasMore = notifications.length > limit;
+    const items = hasMore ? notifications.slice(0, limit) : notifications;
+
+    return {
+      items: items.map((notification) =>
+        this.toInboxNotificationVm(notification),
+      ),
+      unreadCount,
+      nextCursor: hasMore ? items[items.length - 1].id : undefined,
+    };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null, archivedAt: null },
+    });
+  }
+
+  async markAsRead(
+    notificationId: string,
+    userId: string,
+  ): Promise<InboxNotificationVm> {
+    const notification = await this.findOwned(notificationId, userId);
+
+    if (notification.readAt) {
+      return this.toInboxNotificationVm(notification);
+    }
+
+    const updated = await this.prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: new Date() },
+    });
+
+    return this.toInboxNotificationVm(updated);
+  }
+
+  /**
+   * Mark every unread inbox notification as read, optionally only those of a type prefix
+   */
+  async markAllAsRead(
+    userId: string,
+    typePrefix?: string,
+  ): Promise<{ updated: number }> {
+    const result = await this.prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        archivedAt: null,
+        ...(typePrefix && { type: { startsWith: typePrefix } }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return { updated: result.count };
+  }
+
+  /**
+   * Move a notification out of the inbox. Archived notifications count as read.
+   */
+  async archive(
+    notificationId: string,
+    userId: string,
+  ): Promise<InboxNotificationVm> {
+    const notification = await this.findOwned(notificationId, userId);
+    const now = new Date();
+
+    const updated = await this.prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        archivedAt: notification.archivedAt || now,
+        readAt: notification.readAt || now,
+      },
+    });
+
+    return this.toInboxNotificationVm(updated);
+  }
+
+  toInboxNotificationVm(notification: Notification): InboxNotificationVm {
+    return {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      bookingId: notification.bookingId || undefined,
+      priority: notification.priority,
+      isRead: !!notification.readAt,
+      readAt: notification.readAt?.toISOString(),
+      archivedAt: notification.archivedAt?.toISOString(),
+      metadata: (notification.metadata as Record<string, any>) || undefined,
+      createdAt: notification.createdAt.toISOString(),
+    };
+  }
+
+  private async findOwned(
+    notificationId: string,
+    userId: string,
+  ): Promise<Notification> {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    return notification;
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { NotificationInboxService } from './notification-inbox.service';
+import { SearchNotificationDto } from './dto';
+import { InboxNotificationVm, NotificationPageVm, UnreadCountVm } from './vm';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+
+@ApiTags('Notifications')
+@Controller('notifications')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class NotificationController {
+  constructor(
+    private readonly notificationInboxService: NotificationInboxService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List my notifications',
+    description:
+      'Get the current user inbox, newest first, with cursor pagination and the unread count',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notifications retrieved successfully',
+    type: NotificationPageVm,
+  })
+  async findAll(
+    @Query() query: SearchNotificationDto,
+    @CurrentUser() user: any,
+  ): Promise<NotificationPageVm> {
+    return this.notificationInboxService.list(user.id, query);
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Get number of unread notifications' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Unread count retrieved successfully',
+    type: UnreadCountVm,
+  })
+  async getUnreadCount(@CurrentUser() user: any): Promise<UnreadCountVm> {
+    const unreadCount = await this.notificationInboxService.countUnread(
+      user.id,
+    );
+    return { unreadCount };
+  }
+
+  @Patch('read-all')
+  @ApiOperation({
+    summary: 'Mark all notifications as read',
+    description:
+      'Mark every unread notification in the inbox as read, optionally limited to a type prefix',
+  })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    description: 'Only mark notifications whose type starts with this prefix',
+    example: 'TRIAL_',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notifications marked as read',
+  })
+  async markAllAsRead(
+    @CurrentUser() user: any,
+    @Query('type') type?: string,
+  ): Promise<{ updated: number }> {
+    return this.notificationInboxService.markAllAsRead(user.id, type);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notification marked as read',
+    type: InboxNotificationVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Notification not found',
+  })
+  async markAsRead(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<InboxNotificationVm> {
+    return this.notificationInboxService.markAsRead(id, user.id);
+  }
+
+  @Patch(':id/archive')
+  @ApiOperation({ summary: 'Archive a notification' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notification archived',
+    type: InboxNotificationVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Notification not found',
+  })
+  async archive(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<InboxNotificationVm> {
+    return this.notificationInboxService.archive(id, user.id);
+  }
+}
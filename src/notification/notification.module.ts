@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { NotificationController } from './notification.controller';
+import { NotificationInboxService } from './notification-inbox.service';
+
+@Module({
+  imports: [PrismaModule, RealtimeModule],
+  controllers: [NotificationController],
+  providers: [NotificationInboxService],
+  exports: [NotificationInboxService],
+})
+export class NotificationModule {}
@@ -0,0 +1,96 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class InboxNotificationVm {
+  @ApiProperty({
+    description: 'Notification ID',
+    example: 'clk123456789',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Notification type',
+    example: 'TRIAL_REQUEST',
+  })
+  type: string;
+
+  @ApiProperty({
+    description: 'Notification title',
+    example: 'New Trial Lesson Request',
+  })
+  title: string;
+
+  @ApiProperty({
+    description: 'Notification message',
+    example: 'John Doe has requested a trial lesson with you',
+  })
+  message: string;
+
+  @ApiPropertyOptional({
+    description: 'Related booking ID',
+    example: 'clk987654321',
+  })
+  bookingId?: string;
+
+  @ApiProperty({
+    description: 'Notification priority',
+    enum: ['low', 'medium', 'high', 'urgent'],
+  })
+  priority: string;
+
+  @ApiProperty({
+    description: 'Whether notification has been read',
+    example: false,
+  })
+  isRead: boolean;
+
+  @ApiPropertyOptional({
+    description: 'When the notification was read',
+    example: '2024-02-10T09:30:00.000Z',
+  })
+  readAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the notification was archived',
+  })
+  archivedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Additional notification data',
+  })
+  metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-02-10T08:00:00.000Z',
+  })
+  createdAt: string;
+}
+
+export class NotificationPageVm {
+  @ApiProperty({
+    description: 'Notifications in this page',
+    type: [InboxNotificationVm],
+  })
+  items: InboxNotificationVm[];
+
+  @ApiProperty({
+    description: 'Number of unread notifications in the inbox',
+    example: 3,
+  })
+  unreadCount: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Cursor to pass to fetch the next page, absent on the last page',
+    example: 'clk123456789',
+  })
+  nextCursor?: string;
+}
+
+export class UnreadCountVm {
+  @ApiProperty({
+    description: 'Number of unread notifications in the inbox',
+    example: 3,
+  })
+  unreadCount: number;
+}
@@ -14,7 +14,7 @@ export interface PaymentCacheData {
     isNewUser: boolean;
     tempPassword?: string;
   };
-  courseInfo: {
+  courseInfo?: {
     id: string;
     name: string;
     description?: string;
@@ -26,6 +26,17 @@ export interface PaymentCacheData {
     teacherName: string;
     teacherAvatar?: string;
   };
+  packageInfo?: {
+    type: string;
+    teacherId: string;
+    teacherName: string;
+    numberOfLessons: number;
+    durationPerLesson: number;
+    pricePerLesson: number;
+    totalPrice: number;
+    discountPercentage: number;
+    validityDays: number;
+  };
   paymentInfo: {
     amount: number;
     currency: string;
@@ -2,3 +2,5 @@ export * from './payment.dto';
 export * from './simple-course-payment.dto';
 export * from './payment-url.dto';
 export { MomoPaymentMethod } from './simple-course-payment.dto';
+export * from './refund.dto';
+export * from './lesson-package-payment.dto';
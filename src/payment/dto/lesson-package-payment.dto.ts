@@ -0,0 +1,98 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LessonPackageType } from './payment.dto';
+import { MomoPaymentMethod, PaymentGateway } from './simple-course-payment.dto';
+import {
+  CUSTOM_LESSON_PACKAGE,
+  PurchasableLessonPackageType,
+} from '../lesson-package-pricing';
+
+export class LessonPackagePaymentDto {
+  @ApiProperty({
+    description: 'Teacher to buy the lessons from',
+    example: 'cm3teacher123abc456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  teacherId: string;
+
+  @ApiProperty({
+    description: 'Package to buy',
+    enum: [
+      LessonPackageType.PACKAGE_5,
+      LessonPackageType.PACKAGE_10,
+      LessonPackageType.PACKAGE_20,
+      LessonPackageType.CUSTOM,
+    ],
+    example: LessonPackageType.PACKAGE_10,
+  })
+  @IsIn([
+    LessonPackageType.PACKAGE_5,
+    LessonPackageType.PACKAGE_10,
+    LessonPackageType.PACKAGE_20,
+    LessonPackageType.CUSTOM,
+  ])
+  packageType: PurchasableLessonPackageType;
+
+  @ApiPropertyOptional({
+    description: 'Number of lessons, required for CUSTOM packages',
+    minimum: CUSTOM_LESSON_PACKAGE.minLessons,
+    maximum: CUSTOM_LESSON_PACKAGE.maxLessons,
+    example: 15,
+  })
+  @ValidateIf((dto) => dto.packageType === LessonPackageType.CUSTOM)
+  @Type(() => Number)
+  @IsInt()
+  @Min(CUSTOM_LESSON_PACKAGE.minLessons)
+  @Max(CUSTOM_LESSON_PACKAGE.maxLessons)
+  numberOfLessons?: number;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code for discount',
+    example: 'WELCOME10',
+  })
+  @IsOptional()
+  @IsString()
+  couponCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment gateway to check out with',
+    enum: PaymentGateway,
+    example: PaymentGateway.MOMO,
+    default: PaymentGateway.MOMO,
+  })
+  @IsOptional()
+  @IsEnum(PaymentGateway)
+  gateway?: PaymentGateway;
+
+  @ApiPropertyOptional({
+    description: 'MoMo payment method',
+    enum: MomoPaymentMethod,
+    example: MomoPaymentMethod.WALLET,
+    default: MomoPaymentMethod.WALLET,
+  })
+  @IsOptional()
+  @IsEnum(MomoPaymentMethod)
+  paymentMethod?: MomoPaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'VNPay bank code to skip the bank selection page',
+    example: 'NCB',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  bankCode?: string;
+}
@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RefundStatus } from '@prisma/client';
+
+export class CreateRefundRequestDto {
+  @ApiProperty({
+    description: 'Payment to refund',
+    example: 'cm3payment123def456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  paymentId: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the refund is requested',
+    example: 'Teacher is no longer available at my preferred times',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Amount to refund in VND. Defaults to the full refundable amount',
+    example: 1500000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+}
+
+export class ReviewRefundDto {
+  @ApiPropertyOptional({
+    description: 'Note from the reviewing admin',
+    example: 'Approved per cancellation policy',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class SearchRefundDto {
+  @ApiPropertyOptional({
+    description: 'Filter by refund status',
+    enum: RefundStatus,
+  })
+  @IsOptional()
+  @IsEnum(RefundStatus)
+  status?: RefundStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by payment ID',
+    example: 'cm3payment123def456',
+  })
+  @IsOptional()
+  @IsString()
+  paymentId?: string;
+}
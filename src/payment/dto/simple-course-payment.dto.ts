@@ -17,6 +17,12 @@ export enum MomoPaymentMethod {
   QR = 'payWithCC'
 }
 
+export enum PaymentGateway {
+  MOMO = 'MOMO',
+  VNPAY = 'VNPAY',
+  FAKE = 'FAKE', // Local sandbox, disabled in production
+}
+
 export class SimpleCoursePaymentDto {
   @ApiProperty({
     description: 'Course ID to purchase',
@@ -98,6 +104,25 @@ export class SimpleCoursePaymentDto {
   @IsOptional()
   @IsEnum(MomoPaymentMethod)
   paymentMethod?: MomoPaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Payment gateway to check out with',
+    enum: PaymentGateway,
+    example: PaymentGateway.MOMO,
+    default: PaymentGateway.MOMO,
+  })
+  @IsOptional()
+  @IsEnum(PaymentGateway)
+  gateway?: PaymentGateway;
+
+  @ApiPropertyOptional({
+    description: 'VNPay bank code to skip the bank selection page',
+    example: 'NCB',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  bankCode?: string;
 }
 
 export class SimplePaymentUrlResponseDto {
@@ -0,0 +1,134 @@
+import { Payment, Prisma } from '@prisma/client';
+import { LessonPackageType } from './dto/payment.dto';
+
+export type PurchasableLessonPackageType = Exclude<
+  LessonPackageType,
+  LessonPackageType.TRIAL
+>;
+
+export interface LessonPackageTier {
+  type: PurchasableLessonPackageType;
+  numberOfLessons: number;
+  discountPercentage: number;
+  validityDays: number;
+}
+
+export interface LessonPackageQuote {
+  type: PurchasableLessonPackageType;
+  numberOfLessons: number;
+  durationPerLesson: number;
+  regularPricePerLesson: number;
+  pricePerLesson: number;
+  totalPrice: number;
+  savings: number;
+  discountPercentage: number;
+  validityDays: number;
+}
+
+/**
+ * Fixed packages, ordered from the smallest to the largest
+ */
+export const LESSON_PACKAGE_TIERS: LessonPackageTier[] = [
+  {
+    type: LessonPackageType.PACKAGE_5,
+    numberOfLessons: 5,
+    discountPercentage: 5,
+    validityDays: 60,
+  },
+  {
+    type: LessonPackageType.PACKAGE_10,
+    numberOfLessons: 10,
+    discountPercentage: 10,
+    validityDays: 90,
+  },
+  {
+    type: LessonPackageType.PACKAGE_20,
+    numberOfLessons: 20,
+    discountPercentage: 15,
+    validityDays: 120,
+  },
+];
+
+/**
+ * CUSTOM packages get the discount and validity of the largest fixed package
+ * they reach, or no discount and `defaultValidityDays` below the smallest one
+ */
+export const CUSTOM_LESSON_PACKAGE = {
+  minLessons: 1,
+  maxLessons: 50,
+  defaultValidityDays: 30,
+};
+
+export function quoteLessonPackage(
+  type: PurchasableLessonPackageType,
+  regularPricePerLesson: number,
+  durationPerLesson: number,
+  customLessons?: number,
+): LessonPackageQuote {
+  let numberOfLessons: number;
+  let tier: LessonPackageTier | undefined;
+
+  if (type === LessonPackageType.CUSTOM) {
+    numberOfLessons = customLessons;
+    tier = [...LESSON_PACKAGE_TIERS]
+      .reverse()
+      .find((candidate) => numberOfLessons >= candidate.numberOfLessons);
+  } else {
+    tier = LESSON_PACKAGE_TIERS.find((candidate) => candidate.type === type);
+    numberOfLessons = tier.numberOfLessons;
+  }
+
+  const discountPercentage = tier?.discountPercentage ?? 0;
+  const pricePerLesson = Math.round(
+    (regularPricePerLesson * (100 - discountPercentage)) / 100,
+  );
+  const totalPrice = pricePerLesson * numberOfLessons;
+
+  return {
+    type,
+    numberOfLessons,
+    durationPerLesson,
+    regularPricePerLesson,
+    pricePerLesson,
+    totalPrice,
+    savings: regularPricePerLesson * numberOfLessons - totalPrice,
+    discountPercentage,
+    validityDays:
+      tier?.validityDays ?? CUSTOM_LESSON_PACKAGE.defaultValidityDays,
+  };
+}
+
+export function getLessonPackageExpiry(
+  purchasedAt: Date,
+  validityDays: number,
+): Date {
+  const expiresAt = new Date(purchasedAt);
+  expiresAt.setDate(expiresAt.getDate() + validityDays);
+  return expiresAt;
+}
+
+/**
+ * Build the LessonPackage for a completed package payment from the quote
+ * stored in its metadata at checkout
+ */
+export function buildLessonPackageFromPayment(
+  payment: Payment,
+  purchasedAt: Date = new Date(),
+): Prisma.LessonPackageUncheckedCreateInput {
+  const metadata = payment.metadata as any;
+  const quote: LessonPackageQuote = metadata.lessonPackage;
+
+  return {
+    studentId: payment.userId,
+    teacherId: metadata.teacherId,
+    packageType: quote.type,
+    totalLessons: quote.numberOfLessons,
+    remainingLessons: quote.numberOfLessons,
+    durationPerLesson: quote.durationPerLesson,
+    pricePerLesson: quote.pricePerLesson,
+    totalPrice: payment.amount,
+    discountPercentage: quote.discountPercentage,
+    paymentId: payment.id,
+    expiresAt: getLessonPackageExpiry(purchasedAt, quote.validityDays),
+  };
+}
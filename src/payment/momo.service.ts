@@ -38,6 +38,23 @@ export interface MomoPaymentResponse {
   qrCodeUrl?: string;
 }
 
+export interface MomoRefundRequest {
+  transId: string;
+  amount: number;
+  description?: string;
+}
+
+export interface MomoRefundResponse {
+  partnerCode: string;
+  orderId: string;
+  requestId: string;
+  amount: number;
+  transId: number;
+  resultCode: number;
+  message: string;
+  responseTime: number;
+}
+
 export interface MomoCallbackData {
   partnerCode: string;
   orderId: string;
@@ -378,6 +395,72 @@ export class MomoService {
     }
   }
 
+  /**
+   * Refund (part of) a completed transaction
+   */
+  async refundTransaction(
+    refundRequest: MomoRefundRequest,
+  ): Promise<MomoRefundResponse> {
+    if (!this.validateAmount(refundRequest.amount)) {
+      throw new Error(
+        'Refund amount must be between 1,000 VND and 20,000,000 VND',
+      );
+    }
+
+    const requestId = this.generateRequestId();
+    const orderId = this.generateOrderId('REFUND');
+    const amount = refundRequest.amount.toString();
+    const description = refundRequest.description || '';
+
+    const rawSignature = `accessKey=${this.config.accessKey}&amount=${amount}&description=${description}&orderId=${orderId}&partnerCode=${this.config.partnerCode}&requestId=${requestId}&transId=${refundRequest.transId}`;
+
+    const requestBody = {
+      partnerCode: this.config.partnerCode,
+      orderId,
+      requestId,
+      amount,
+      transId: refundRequest.transId,
+      lang: 'vi',
+      description,
+      signature: this.createSignature(rawSignature),
+    };
+
+    try {
+      const response = await axios.post(
+        this.config.endpoint.replace('/create', '/refund'),
+        requestBody,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout: 15000,
+        },
+      );
+
+      const data: MomoRefundResponse = response.data;
+
+      if (data.resultCode !== 0) {
+        throw new Error(
+          `MoMo refund failed: ${this.getErrorMessage(
+            data.resultCode,
+          )} (Code: ${data.resultCode})`,
+        );
+      }
+
+      console.log(
+        `✅ MoMo refund ${orderId} completed for transaction ${refundRequest.transId}`,
+      );
+      return data;
+    } catch (error) {
+      console.error('❌ Error calling MoMo refund API:', error);
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new Error(`MoMo API error: ${errorMessage}`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get payment method description
    */
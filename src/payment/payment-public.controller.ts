@@ -17,20 +17,19 @@ import { Request, Response } from 'express';
 import { PaymentService } from './payment.service';
 import { MomoService } from './momo.service';
 import {
-  SimpleCoursePaymentDto,
-} from './dto';
-import { MomoPaymentMethod } from './dto/simple-course-payment.dto';
-import {
-  SimpleCoursePaymentVm,
-  PaymentResultVm,
-} from './vm';
+  MomoPaymentMethod,
+  PaymentGateway,
+} from './dto/simple-course-payment.dto';
+import { SimpleCoursePaymentVm, PaymentResultVm } from './vm';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/role.guard';
 import { Roles } from '../decorators/roles.decorator';
 import { CurrentUser } from '../decorators/current-user.decorator';
 import { Public } from '../decorators/public.decorator';
+import { RateLimit } from '../decorators/rate-limit.decorator';
 import { ResponseMessage } from '../decorators/response-message.decorator';
 import { Role } from '../roles/role.enum';
+import { PaymentProviderRegistry } from './providers';
 
 @Public()
 @ApiTags('Payments-Public')
@@ -38,10 +37,12 @@ import { Role } from '../roles/role.enum';
 export class PaymentPublicController {
   constructor(
     private readonly paymentService: PaymentService, 
-    private readonly momoService: MomoService
+    private readonly momoService: MomoService,
+    private readonly paymentProviders: PaymentProviderRegistry,
   ) {}
 
   @Public()
+  @RateLimit('webhook')
   @Get('webhook/momo')
   @ApiOperation({ summary: 'MoMo webhook for payment success notification' })
   @ApiResponse({
@@ -126,6 +127,7 @@ export class PaymentPublicController {
 
   @Post('momo/ipn')
   @Public()
+  @RateLimit('webhook')
   @ApiOperation({ summary: 'Handle MoMo IPN (Instant Payment Notification)' })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -152,6 +154,127 @@ export class PaymentPublicController {
     }
   }
 
+  @Public()
+  @Get('webhook/vnpay/return')
+  @ApiOperation({ summary: 'VNPay return URL handler' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payment return processed successfully',
+  })
+  async handleVnpayReturn(
+    @Query() query: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const result = await this.paymentService.handleVnpayReturn(query);
+
+      if (result.success) {
+        const successUrl =
+          `http://localhost:3000/payment/success?` +
+          `paymentId=${result.paymentId}&` +
+          `orderId=${result.orderId}&` +
+          `amount=${result.amount}&` +
+          `status=completed`;
+
+        res.redirect(successUrl);
+      } else {
+        const failureUrl =
+          `http://localhost:3000/payment/failed?` +
+          `paymentId=${result.paymentId}&` +
+          `orderId=${result.orderId}&` +
+          `error=${encodeURIComponent(
+            result.errorMessage || 'Payment failed',
+          )}&` +
+          `status=failed`;
+
+        res.redirect(failureUrl);
+      }
+    } catch (error) {
+      console.error('💥 VNPay return processing error:', error);
+
+      const errorUrl =
+        `http://localhost:3000/payment/failed?` +
+        `error=${encodeURIComponent('Payment processing error')}&` +
+        `details=${encodeURIComponent(error.message)}&` +
+        `status=error`;
+
+      res.redirect(errorUrl);
+    }
+  }
+
+  @Public()
+  @RateLimit('webhook')
+  @Get('webhook/vnpay/ipn')
+  @ApiOperation({ summary: 'Handle VNPay IPN (Instant Payment Notification)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'IPN processed successfully',
+  })
+  async handleVnpayIpn(
+    @Query() query: any,
+  ): Promise<{ RspCode: string; Message: string }> {
+    try {
+      return await this.paymentService.handleVnpayIpn(query);
+    } catch (error) {
+      console.error('VNPay IPN error:', error);
+      return {
+        RspCode: '99',
+        Message: 'Unknown error',
+      };
+    }
+  }
+
+  @Public()
+  @Get('webhook/fake/return')
+  @ApiOperation({ summary: 'Fake gateway return URL handler (sandbox only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payment return processed successfully',
+  })
+  async handleFakeReturn(
+    @Query() query: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const result = await this.paymentService.handleCallback(
+        PaymentGateway.FAKE,
+        query,
+      );
+
+      if (result.success) {
+        const successUrl =
+          `http://localhost:3000/payment/success?` +
+          `paymentId=${result.paymentId}&` +
+          `orderId=${result.orderId}&` +
+          `amount=${result.amount}&` +
+          `status=completed`;
+
+        res.redirect(successUrl);
+      } else {
+        const failureUrl =
+          `http://localhost:3000/payment/failed?` +
+          `paymentId=${result.paymentId}&` +
+          `orderId=${result.orderId}&` +
+          `error=${encodeURIComponent(
+            result.errorMessage || 'Payment failed',
+          )}&` +
+          `status=failed`;
+
+        res.redirect(failureUrl);
+      }
+    } catch (error) {
+      console.error('💥 Fake gateway return processing error:', error);
+
+      const errorUrl =
+        `http://localhost:3000/payment/failed?` +
+        `error=${encodeURIComponent('Payment processing error')}&` +
+        `details=${encodeURIComponent(error.message)}&` +
+        `status=error`;
+
+      res.redirect(errorUrl);
+    }
+  }
+
   @Get('methods')
   @Public()
   @ApiOperation({ summary: 'Get available payment methods' })
@@ -161,9 +284,10 @@ export class PaymentPublicController {
   })
   @ResponseMessage('Payment methods retrieved successfully')
   async getPaymentMethods(): Promise<any> {
-    return [
+    const methods: any[] = [
       {
         id: 'momo_wallet',
+        gateway: 'MOMO',
         method: 'captureWallet',
         name: 'MoMo E-Wallet',
         description: 'Pay with MoMo e-wallet using your phone',
@@ -176,6 +300,7 @@ export class PaymentPublicController {
       },
       {
         id: 'momo_atm',
+        gateway: 'MOMO',
         method: 'payWithATM',
         name: 'ATM Card',
         description: 'Pay with your ATM/Debit card via MoMo',
@@ -188,6 +313,7 @@ export class PaymentPublicController {
       },
       {
         id: 'momo_qr',
+        gateway: 'MOMO',
         method: 'payWithCC',
         name: 'QR Code Scan',
         description: 'Scan QR code with MoMo app or banking app',
@@ -198,6 +324,36 @@ export class PaymentPublicController {
         currency: 'VND',
         features: ['qr_scan', 'mobile', 'universal'],
       },
+      {
+        id: 'vnpay',
+        gateway: 'VNPAY',
+        method: 'VNPAY',
+        name: 'VNPay',
+        description:
+          'Pay with a domestic ATM card, international card or VNPay QR',
+        logo: 'https://sandbox.vnpayment.vn/paymentv2/images/icons/logo-vnpay.svg',
+        enabled: true,
+        minAmount: 10000,
+        maxAmount: 500000000,
+        currency: 'VND',
+        features: ['secure', 'bank_card', 'qr_scan'],
+      },
     ];
+
+    if (this.paymentProviders.isEnabled(PaymentGateway.FAKE)) {
+      methods.push({
+        id: 'fake',
+        gateway: 'FAKE',
+        method: 'FAKE',
+        name: 'Sandbox',
+        description: 'Local test gateway that settles the payment immediately',
+        enabled: true,
+        minAmount: 1,
+        currency: 'VND',
+        features: ['instant'],
+      });
+    }
+
+    return methods;
   }
 }
@@ -16,11 +16,10 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@ne
 import { Request, Response } from 'express';
 import { PaymentService } from './payment.service';
 import { MomoService } from './momo.service';
-import {
-  SimpleCoursePaymentDto,
-} from './dto';
+import { LessonPackagePaymentDto, SimpleCoursePaymentDto } from './dto';
 import { MomoPaymentMethod } from './dto/simple-course-payment.dto';
 import {
+  LessonPackagePaymentVm,
   SimpleCoursePaymentVm,
   PaymentResultVm,
 } from './vm';
@@ -68,6 +67,55 @@ export class PaymentController {
     );
   }
 
+  @Post('packages')
+  @Roles(Role.STUDENT)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Buy a lesson package from a teacher',
+    description:
+      "Prices PACKAGE_5/10/20 or a CUSTOM number of lessons from the teacher's regular lesson rate with the package discount, and returns the payment URL. The lesson package is created once the payment succeeds.",
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Lesson package payment URL created successfully',
+    type: LessonPackagePaymentVm,
+  })
+  @ResponseMessage('Lesson package payment URL created successfully')
+  @HttpCode(HttpStatus.CREATED)
+  async createLessonPackagePayment(
+    @Body() lessonPackagePaymentDto: LessonPackagePaymentDto,
+    @CurrentUser() user: any,
+    @Req() req: Request,
+  ): Promise<LessonPackagePaymentVm> {
+    const userAgent = req.get('User-Agent');
+    const ipAddress = req.ip || req.connection.remoteAddress || '127.0.0.1';
+
+    return this.paymentService.createLessonPackagePayment(
+      lessonPackagePaymentDto,
+      user.id,
+      ipAddress,
+      userAgent,
+    );
+  }
+
+  @Post(':id/sync')
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Query the gateway for a pending payment and settle it (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payment status synchronised successfully',
+    type: PaymentResultVm,
+  })
+  @ResponseMessage('Payment status synchronised successfully')
+  @HttpCode(HttpStatus.OK)
+  async syncPaymentStatus(@Param('id') id: string): Promise<PaymentResultVm> {
+    return this.paymentService.syncPaymentStatus(id);
+  }
+
   @Get('cache/stats')
   @Roles(Role.ADMIN)
   @ApiOperation({ summary: 'Get payment cache statistics (Admin only)' })
@@ -3,33 +3,63 @@ import { BullModule } from '@nestjs/bull';
 import { PrismaModule } from '../common/prisma/prisma.module';
 import { BookingModule } from '../booking/booking.module';
 import { EnrollmentModule } from '../enrollment/enrollment.module';
+import { NotificationModule } from '../notification/notification.module';
+import { EmailModule } from '../email/email.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { CouponModule } from '../coupon/coupon.module';
+import { AuthModule } from '../auth/auth.module.new';
+import { SlotHoldModule } from '../slot-hold/slot-hold.module';
 import { PaymentService } from './payment.service';
+import { RefundService } from './refund.service';
 import { MomoService } from './momo.service';
+import { VNpayService } from './vnpay.service';
 import { PaymentCacheService } from './cache.service';
+import {
+  FakePaymentProvider,
+  MomoPaymentProvider,
+  PaymentProviderRegistry,
+  VnpayPaymentProvider,
+} from './providers';
 import { PaymentProcessor } from './processors/payment.processor';
 import { PaymentController } from './payment.controller';
 import { PaymentPublicController } from './payment-public.controller';
+import { RefundController } from './refund.controller';
 
 @Module({
   imports: [
     PrismaModule, 
     BookingModule,
     EnrollmentModule,
+    NotificationModule,
+    EmailModule,
+    RealtimeModule,
+    CouponModule,
+    AuthModule,
+    SlotHoldModule,
     BullModule.registerQueue({
       name: 'payment-processing',
     }),
   ],
-  controllers: [PaymentController, PaymentPublicController],
+  controllers: [RefundController, PaymentController, PaymentPublicController],
   providers: [
     PaymentService, 
     MomoService, 
+    VNpayService,
     PaymentCacheService,
     PaymentProcessor,
+    RefundService,
+    MomoPaymentProvider,
+    VnpayPaymentProvider,
+    FakePaymentProvider,
+    PaymentProviderRegistry,
   ],
   exports: [
     PaymentService, 
     MomoService, 
+    VNpayService,
     PaymentCacheService,
+    RefundService,
+    PaymentProviderRegistry,
   ],
 })
 export class PaymentModule {}
@@ -7,29 +7,46 @@ import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { PrismaService } from '../common/prisma/prisma.service';
 import { MomoService } from './momo.service';
-import { PaymentCacheService } from './cache.service';
+import { PaymentCacheData, PaymentCacheService } from './cache.service';
+import { PaymentCallbackResult, PaymentProviderRegistry } from './providers';
+import { CouponService } from '../coupon/coupon.service';
 import { EnrollmentService } from '../enrollment/enrollment.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { SlotHoldService } from '../slot-hold/slot-hold.service';
 import {
+  LessonPackagePaymentDto,
+  LessonPackageType,
   SimpleCoursePaymentDto,
 } from './dto';
-import { MomoPaymentMethod } from './dto/simple-course-payment.dto';
 import {
+  MomoPaymentMethod,
+  PaymentGateway,
+} from './dto/simple-course-payment.dto';
+import {
+  LessonPackagePaymentVm,
   SimpleCoursePaymentVm,
   PaymentResultVm,
+  TeacherPackagesVm,
 } from './vm';
 import {
-  Payment,
-  PaymentStatus,
-  UserRole,
-} from '@prisma/client';
+  buildLessonPackageFromPayment,
+  CUSTOM_LESSON_PACKAGE,
+  LESSON_PACKAGE_TIERS,
+  quoteLessonPackage,
+} from './lesson-package-pricing';
+import { Payment, PaymentStatus, RateType, UserRole } from '@prisma/client';
 
 @Injectable()
 export class PaymentService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly momoService: MomoService,
+    private readonly paymentProviders: PaymentProviderRegistry,
+    private readonly couponService: CouponService,
     private readonly cacheService: PaymentCacheService,
     private readonly enrollmentService: EnrollmentService,
+    private readonly realtimeService: RealtimeService,
+    private readonly slotHoldService: SlotHoldService,
     @InjectQueue('payment-processing') private paymentQueue: Queue,
   ) {}
 
@@ -85,7 +102,7 @@ export class PaymentService {
           phone: simpleCoursePaymentDto.phoneNumber,
           role: UserRole.STUDENT,
           isActive: true,
-          password: '', // Will be set after payment success
+          password: '', // Set by the user from the link emailed after payment success
         },
         include: { student: true },
       });
@@ -115,72 +132,119 @@ export class PaymentService {
 
     // Apply coupon if provided
     let discountAmount = 0;
+    let couponId: string | undefined;
     if (simpleCoursePaymentDto.couponCode) {
-      discountAmount = this.calculateSimpleCouponDiscount(
+      const coupon = await this.couponService.applyCoupon(
         simpleCoursePaymentDto.couponCode,
-        totalPrice,
+        {
+          amount: totalPrice,
+          userId: user.id,
+          courseId: course.id,
+          teacherId: course.teacherId,
+        },
       );
-      totalPrice = Math.max(totalPrice - discountAmount, 1000); // Minimum 1,000 VND for MoMo
+      couponId = coupon.couponId;
+      totalPrice = Math.max(coupon.finalAmount, 1000); // Minimum 1,000 VND for MoMo
+      discountAmount = originalAmount - totalPrice;
     }
 
-    // Validate MoMo amount limits
-    if (!this.momoService.validateAmount(totalPrice)) {
-      throw new BadRequestException(`Payment amount ${totalPrice} VND is outside MoMo limits (1,000 - 20,000,000 VND)`);
-    }
+    const gateway = simpleCoursePaymentDto.gateway || PaymentGateway.MOMO;
+    const { provider, paymentMethod } = this.resolveCheckoutMethod(
+      gateway,
+      simpleCoursePaymentDto.paymentMethod,
+      totalPrice,
+    );
 
     const description = `Course payment: ${course.name} by ${simpleCoursePaymentDto.firstName} ${simpleCoursePaymentDto.lastName}`;
 
-    // Determine payment method
-    const paymentMethod = simpleCoursePaymentDto.paymentMethod || MomoPaymentMethod.WALLET;
+    // Keep the preferred first lesson time free while the student pays, the
+    // booking is created from it once the payment succeeds
+    const preferredStart = simpleCoursePaymentDto.preferredStartDate
+      ? new Date(simpleCoursePaymentDto.preferredStartDate)
+      : null;
+    const slotHold =
+      preferredStart && preferredStart > new Date()
+        ? await this.slotHoldService.hold({
+            teacherId: course.teacherId,
+            startsAt: preferredStart,
+            duration: course.duration,
+            holderId: user.id,
+          })
+        : null;
 
-    // Validate payment method
-    if (!this.momoService.isValidPaymentMethod(paymentMethod)) {
-      throw new BadRequestException(`Invalid payment method: ${paymentMethod}`);
+    // Create payment record, the coupon use is recorded in the same transaction
+    let payment: Payment;
+    try {
+      payment = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.payment.create({
+          data: {
+            userId: user.id,
+            amount: totalPrice,
+            currency: 'VND',
+            paymentMethod: gateway,
+            status: PaymentStatus.PENDING,
+            description,
+            metadata: {
+              courseId: course.id,
+              courseName: course.name,
+              teacherId: course.teacherId,
+              paymentType: 'simple_course_payment',
+              studentInfo: {
+                firstName: simpleCoursePaymentDto.firstName,
+                lastName: simpleCoursePaymentDto.lastName,
+                email: simpleCoursePaymentDto.email,
+                phoneNumber: simpleCoursePaymentDto.phoneNumber,
+              },
+              preferredStartDate: simpleCoursePaymentDto.preferredStartDate,
+              specialRequests: simpleCoursePaymentDto.specialRequests,
+              couponCode: simpleCoursePaymentDto.couponCode,
+              originalAmount: originalAmount,
+              discountAmount: discountAmount,
+              userAgent,
+              ipAddress,
+              paymentMethod: paymentMethod,
+              bankCode: simpleCoursePaymentDto.bankCode,
+            } as any,
+          },
+        });
+
+        if (couponId) {
+          await this.couponService.redeem(tx, {
+            couponId,
+            userId: user.id,
+            paymentId: created.id,
+            code: simpleCoursePaymentDto.couponCode.trim().toUpperCase(),
+            originalAmount,
+            discountAmount,
+          });
+        }
+
+        return created;
+      });
+    } catch (error) {
+      if (slotHold) {
+        await this.slotHoldService.release(slotHold.id, 'FAILED');
+      }
+      throw error;
     }
 
-    // Create payment record
-    const payment = await this.prisma.payment.create({
-      data: {
-        userId: user.id,
-        amount: totalPrice,
-        currency: 'VND',
-        paymentMethod: 'MOMO',
-        status: PaymentStatus.PENDING,
-        description,
-        metadata: {
-          courseId: course.id,
-          courseName: course.name,
-          teacherId: course.teacherId,
-          paymentType: 'simple_course_payment',
-          studentInfo: {
-            firstName: simpleCoursePaymentDto.firstName,
-            lastName: simpleCoursePaymentDto.lastName,
-            email: simpleCoursePaymentDto.email,
-            phoneNumber: simpleCoursePaymentDto.phoneNumber,
-          },
-          preferredStartDate: simpleCoursePaymentDto.preferredStartDate,
-          specialRequests: simpleCoursePaymentDto.specialRequests,
-          couponCode: simpleCoursePaymentDto.couponCode,
-          originalAmount: originalAmount,
-          discountAmount: discountAmount,
-          userAgent,
-          ipAddress,
-          paymentMethod: paymentMethod,
-        } as any,
-      },
-    });
+    if (slotHold) {
+      await this.slotHoldService.attachPayment(slotHold.id, payment.id);
+    }
 
-    // Generate order ID using MoMo pattern and create MoMo payment URL
+    // Generate order ID and create the gateway payment URL
     const orderId = this.momoService.generateOrderId(`PAY${payment.id.slice(-6)}`);
 
-    const momoRequest = {
-      amount: totalPrice,
-      orderId,
-      orderInfo: description,
-    };
-
     try {
-      const momoResponse = await this.momoService.createPaymentUrl(momoRequest, paymentMethod);
+      const gatewayResponse = await provider.createCheckout({
+        paymentId: payment.id,
+        amount: totalPrice,
+        orderId,
+        orderInfo: description,
+        ipAddress,
+        momoPaymentMethod: paymentMethod,
+        bankCode: simpleCoursePaymentDto.bankCode,
+      });
 
       // Update payment with order ID
       await this.prisma.payment.update({
@@ -188,6 +252,7 @@ export class PaymentService {
         data: {
           metadata: {
             ...((payment.metadata as any) || {}),
+            ...gatewayResponse.metadata,
             orderId,
           } as any,
         },
@@ -235,12 +300,13 @@ export class PaymentService {
       });
 
       return {
-        paymentUrl: momoResponse.paymentUrl,
-        qrCodeUrl: momoResponse.qrCodeUrl,
-        deeplink: momoResponse.deeplink,
+        paymentUrl: gatewayResponse.paymentUrl,
+        qrCodeUrl: gatewayResponse.qrCodeUrl,
+        deeplink: gatewayResponse.deeplink,
         paymentId: payment.id,
         orderId,
         amount: totalPrice,
+        gateway,
         paymentMethod: paymentMethod,
         course: {
           id: course.id,
@@ -264,168 +330,715 @@ export class PaymentService {
         },
       };
     } catch (error) {
-      // Delete the payment record if MoMo URL creation fails
+      if (slotHold) {
+        await this.slotHoldService.release(slotHold.id, 'CHECKOUT_FAILED');
+      }
+
+      // Delete the payment record if payment URL creation fails
       await this.prisma.payment.delete({ where: { id: payment.id } });
-      throw new BadRequestException(`Failed to create MoMo payment URL: ${error.message}`);
+      throw new BadRequestException(
+        `Failed to create ${gateway} payment URL: ${error.message}`,
+      );
     }
   }
 
   /**
-   * Handle MoMo payment callback
+   * List the lesson packages a teacher offers, priced from their regular lesson rate
    */
-  async handleMomoCallback(callbackData: any): Promise<PaymentResultVm> {
+  async getTeacherPackages(teacherId: string): Promise<TeacherPackagesVm> {
+    const { teacher, rate } = await this.getTeacherRegularRate(teacherId);
+    const regularPricePerLesson = Number(rate.rate);
+    const durationPerLesson = rate.duration || 60;
+
+    return {
+      teacher: {
+        id: teacher.id,
+        firstName: teacher.user.firstName,
+        lastName: teacher.user.lastName,
+        avatar: teacher.user.avatar,
+        hourlyRate: teacher.hourlyRate.toString(),
+        averageRating: teacher.averageRating?.toString(),
+        totalLessons: teacher.totalLessons,
+      },
+      packages: LESSON_PACKAGE_TIERS.map((tier) => {
+        const quote = quoteLessonPackage(
+          tier.type,
+          regularPricePerLesson,
+          durationPerLesson,
+        );
+
+        return {
+          type: quote.type,
+          name: `${quote.numberOfLessons} Lessons Package`,
+          numberOfLessons: quote.numberOfLessons,
+          durationPerLesson: quote.durationPerLesson,
+          regularPricePerLesson: quote.regularPricePerLesson.toString(),
+          packagePricePerLesson: quote.pricePerLesson.toString(),
+          totalPrice: quote.totalPrice.toString(),
+          savings: quote.savings.toString(),
+          discountPercentage: quote.discountPercentage,
+          description: `${quote.numberOfLessons} lessons of ${quote.durationPerLesson} minutes with ${quote.discountPercentage}% discount`,
+          benefits: [
+            `${quote.discountPercentage}% discount`,
+            `Valid for ${quote.validityDays} days`,
+          ],
+          isRecommended: quote.type === LessonPackageType.PACKAGE_10,
+          validityDays: quote.validityDays,
+        };
+      }),
+      customPackageOptions: {
+        minLessons: CUSTOM_LESSON_PACKAGE.minLessons,
+        maxLessons: CUSTOM_LESSON_PACKAGE.maxLessons,
+        pricePerLesson: regularPricePerLesson.toString(),
+        discountThresholds: LESSON_PACKAGE_TIERS.map((tier) => ({
+          minLessons: tier.numberOfLessons,
+          discountPercentage: tier.discountPercentage,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Lesson package checkout - the LessonPackage is created by PaymentProcessor
+   * once the gateway confirms the payment
+   */
+  async createLessonPackagePayment(
+    lessonPackagePaymentDto: LessonPackagePaymentDto,
+    userId: string,
+    ipAddress: string,
+    userAgent?: string,
+  ): Promise<LessonPackagePaymentVm> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { student: true },
+    });
+
+    if (!user?.student) {
+      throw new NotFoundException('Student profile not found');
+    }
+
+    const { teacher, rate } = await this.getTeacherRegularRate(
+      lessonPackagePaymentDto.teacherId,
+    );
+    const teacherName = `${teacher.user.firstName} ${teacher.user.lastName}`;
+
+    const quote = quoteLessonPackage(
+      lessonPackagePaymentDto.packageType,
+      Number(rate.rate),
+      rate.duration || 60,
+      lessonPackagePaymentDto.numberOfLessons,
+    );
+
+    let totalPrice = quote.totalPrice;
+
+    // Apply coupon on top of the package discount
+    let discountAmount = 0;
+    let couponId: string | undefined;
+    if (lessonPackagePaymentDto.couponCode) {
+      const coupon = await this.couponService.applyCoupon(
+        lessonPackagePaymentDto.couponCode,
+        {
+          amount: totalPrice,
+          userId,
+          teacherId: teacher.id,
+          packageType: quote.type,
+        },
+      );
+      couponId = coupon.couponId;
+      totalPrice = Math.max(coupon.finalAmount, 1000); // Minimum 1,000 VND for MoMo
+      discountAmount = quote.totalPrice - totalPrice;
+    }
+
+    const gateway = lessonPackagePaymentDto.gateway || PaymentGateway.MOMO;
+    const { provider, paymentMethod } = this.resolveCheckoutMethod(
+      gateway,
+      lessonPackagePaymentDto.paymentMethod,
+      totalPrice,
+    );
+
+    const description = `Lesson package: ${quote.numberOfLessons} lessons with ${teacherName}`;
+
+    const payment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.payment.create({
+        data: {
+          userId,
+          amount: totalPrice,
+          currency: 'VND',
+          paymentMethod: gateway,
+          status: PaymentStatus.PENDING,
+          description,
+          metadata: {
+            paymentType: 'lesson_package',
+            teacherId: teacher.id,
+            teacherName,
+            lessonPackage: { ...quote },
+            couponCode: lessonPackagePaymentDto.couponCode,
+            originalAmount: quote.totalPrice,
+            discountAmount,
+            userAgent,
+            ipAddress,
+            paymentMethod,
+            bankCode: lessonPackagePaymentDto.bankCode,
+          } as any,
+        },
+      });
+
+      if (couponId) {
+        await this.couponService.redeem(tx, {
+          couponId,
+          userId,
+          paymentId: created.id,
+          code: lessonPackagePaymentDto.couponCode.trim().toUpperCase(),
+          originalAmount: quote.totalPrice,
+          discountAmount,
+        });
+      }
+
+      return created;
+    });
+
+    const orderId = this.momoService.generateOrderId(
+      `PKG${payment.id.slice(-6)}`,
+    );
+
+    try {
+      const gatewayResponse = await provider.createCheckout({
+        paymentId: payment.id,
+        amount: totalPrice,
+        orderId,
+        orderInfo: description,
+        ipAddress,
+        momoPaymentMethod: paymentMethod,
+        bankCode: lessonPackagePaymentDto.bankCode,
+      });
+
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          metadata: {
+            ...((payment.metadata as any) || {}),
+            ...gatewayResponse.metadata,
+            orderId,
+          } as any,
+        },
+      });
+
+      await this.cacheService.cachePaymentData({
+        paymentId: payment.id,
+        studentInfo: {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          phoneNumber: user.phone || '',
+          englishLevel: user.student.englishLevel,
+          isNewUser: false,
+        },
+        packageInfo: {
+          type: quote.type,
+          teacherId: teacher.id,
+          teacherName,
+          numberOfLessons: quote.numberOfLessons,
+          durationPerLesson: quote.durationPerLesson,
+          pricePerLesson: quote.pricePerLesson,
+          totalPrice: quote.totalPrice,
+          discountPercentage: quote.discountPercentage,
+          validityDays: quote.validityDays,
+        },
+        paymentInfo: {
+          amount: totalPrice,
+          currency: 'VND',
+          orderId,
+          originalAmount: quote.totalPrice,
+          discountAmount,
+          couponCode: lessonPackagePaymentDto.couponCode,
+        },
+        metadata: {
+          ipAddress,
+          userAgent,
+          createdAt: new Date().toISOString(),
+        },
+      });
+
+      return {
+        paymentUrl: gatewayResponse.paymentUrl,
+        qrCodeUrl: gatewayResponse.qrCodeUrl,
+        deeplink: gatewayResponse.deeplink,
+        paymentId: payment.id,
+        orderId,
+        amount: totalPrice,
+        gateway,
+        paymentMethod,
+        package: {
+          type: quote.type,
+          numberOfLessons: quote.numberOfLessons,
+          durationPerLesson: quote.durationPerLesson,
+          regularPricePerLesson: quote.regularPricePerLesson.toString(),
+          pricePerLesson: quote.pricePerLesson.toString(),
+          totalPrice: quote.totalPrice.toString(),
+          savings: quote.savings.toString(),
+          discountPercentage: quote.discountPercentage,
+          validityDays: quote.validityDays,
+        },
+        discountAmount,
+        teacher: {
+          id: teacher.id,
+          name: teacherName,
+          avatar: teacher.user.avatar,
+        },
+      };
+    } catch (error) {
+      // Delete the payment record if payment URL creation fails
+      await this.prisma.payment.delete({ where: { id: payment.id } });
+      throw new BadRequestException(
+        `Failed to create ${gateway} payment URL: ${error.message}`,
+      );
+    }
+  }
+
+  private async getTeacherRegularRate(teacherId: string) {
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: teacherId },
+      include: {
+        user: true,
+        rates: {
+          where: { type: RateType.REGULAR_LESSON, isActive: true },
+        },
+      },
+    });
+
+    if (!teacher) {
+      throw new NotFoundException(`Teacher with ID ${teacherId} not found`);
+    }
+
+    if (!teacher.isLive) {
+      throw new BadRequestException('Teacher is not accepting new students');
+    }
+
+    const [rate] = teacher.rates;
+    if (!rate) {
+      throw new BadRequestException(
+        'Teacher has not set a regular lesson rate',
+      );
+    }
+
+    return { teacher, rate };
+  }
+
+  /**
+   * Pick the provider for a checkout and check the amount and MoMo payment method
+   */
+  private resolveCheckoutMethod(
+    gateway: PaymentGateway,
+    momoPaymentMethod: MomoPaymentMethod | undefined,
+    amount: number,
+  ) {
+    const provider = this.paymentProviders.get(gateway);
+
+    // Validate gateway amount limits
+    if (!provider.validateAmount(amount)) {
+      throw new BadRequestException(
+        `Payment amount ${amount} VND is outside ${gateway} limits`,
+      );
+    }
+
+    // Determine payment method (MoMo only; other gateways let the student pick on their own page)
+    const paymentMethod: string =
+      gateway === PaymentGateway.MOMO
+        ? momoPaymentMethod || MomoPaymentMethod.WALLET
+        : gateway;
+
+    // Validate payment method
+    if (
+      gateway === PaymentGateway.MOMO &&
+      !this.momoService.isValidPaymentMethod(paymentMethod)
+    ) {
+      throw new BadRequestException(`Invalid payment method: ${paymentMethod}`);
+    }
+
+    return { provider, paymentMethod };
+  }
+
+  /**
+   * Handle a return URL or IPN callback from a payment gateway
+   */
+  async handleCallback(
+    gateway: PaymentGateway,
+    callbackData: any,
+  ): Promise<PaymentResultVm> {
+    const outcome = this.paymentProviders
+      .get(gateway)
+      .verifyCallback(callbackData);
+
     // Verify callback signature
-    if (!this.momoService.verifyCallback(callbackData)) {
-      throw new BadRequestException('Invalid MoMo callback signature');
+    if (!outcome) {
+      throw new BadRequestException(`Invalid ${gateway} callback signature`);
+    }
+
+    const payment = await this.findPaymentByOrderId(outcome.orderId);
+
+    if (payment.paymentMethod !== gateway) {
+      throw new BadRequestException(
+        `Payment ${payment.id} was not made with ${gateway}`,
+      );
     }
 
-    const transactionInfo = this.momoService.getTransactionInfo(callbackData);
+    if (Number(payment.amount) !== outcome.amount) {
+      throw new BadRequestException(
+        `${gateway} amount does not match the payment`,
+      );
+    }
+
+    return this.settlePayment(payment, outcome);
+  }
+
+  /**
+   * Handle MoMo payment callback
+   */
+  async handleMomoCallback(callbackData: any): Promise<PaymentResultVm> {
+    return this.handleCallback(PaymentGateway.MOMO, callbackData);
+  }
+
+  /**
+   * Handle MoMo return URL
+   */
+  async handleMomoReturn(callbackData: any) {
+    return this.handleMomoCallback(callbackData);
+  }
+
+  /**
+   * Handle MoMo webhook for payment processing
+   */
+  async handleMomoWebhook(callbackData: any) {
+    return this.handleMomoCallback(callbackData);
+  }
+
+  /**
+   * Handle VNPay return URL
+   */
+  async handleVnpayReturn(returnData: any): Promise<PaymentResultVm> {
+    return this.handleCallback(PaymentGateway.VNPAY, returnData);
+  }
+
+  /**
+   * Handle VNPay IPN. VNPay expects an RspCode/Message body instead of HTTP errors.
+   */
+  async handleVnpayIpn(
+    ipnData: any,
+  ): Promise<{ RspCode: string; Message: string }> {
+    const outcome = this.paymentProviders
+      .get(PaymentGateway.VNPAY)
+      .verifyCallback(ipnData);
+
+    if (!outcome) {
+      return { RspCode: '97', Message: 'Invalid signature' };
+    }
 
-    // Find payment by order ID
     const payment = await this.prisma.payment.findFirst({
       where: {
+        paymentMethod: PaymentGateway.VNPAY,
         metadata: {
           path: ['orderId'],
-          equals: transactionInfo.orderId,
+          equals: outcome.orderId,
         },
       },
-      include: {
-        user: {
-          include: {
-            student: true,
-          },
+    });
+
+    if (!payment) {
+      return { RspCode: '01', Message: 'Order not found' };
+    }
+
+    if (Number(payment.amount) !== outcome.amount) {
+      return { RspCode: '04', Message: 'Invalid amount' };
+    }
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      return { RspCode: '02', Message: 'Order already confirmed' };
+    }
+
+    await this.settlePayment(payment, outcome);
+    return { RspCode: '00', Message: 'Confirm Success' };
+  }
+
+  /**
+   * Ask the gateway for the state of a pending payment and settle it when the
+   * gateway has a final answer, for callbacks that never arrived
+   */
+  async syncPaymentStatus(paymentId: string): Promise<PaymentResultVm> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${paymentId} not found`);
+    }
+
+    const orderId = (payment.metadata as any)?.orderId;
+    const status = await this.paymentProviders
+      .get(payment.paymentMethod)
+      .queryStatus(payment);
+
+    if (status.status === 'PENDING') {
+      return {
+        success: false,
+        paymentId: payment.id,
+        orderId,
+        status: payment.status,
+        transactionId: payment.transactionId || '',
+        amount: payment.amount.toString(),
+        message: status.message,
+      };
+    }
+
+    return this.settlePayment(payment, {
+      isSuccess: status.status === 'COMPLETED',
+      orderId,
+      transactionId: status.transactionId,
+      amount: status.amount ?? Number(payment.amount),
+      message: status.message,
+      metadata: status.metadata || {},
+    });
+  }
+
+  private async findPaymentByOrderId(orderId: string): Promise<Payment> {
+    const payment = await this.prisma.payment.findFirst({
+      where: {
+        metadata: {
+          path: ['orderId'],
+          equals: orderId,
         },
       },
     });
 
     if (!payment) {
-      throw new NotFoundException(`Payment not found for order ID: ${transactionInfo.orderId}`);
+      throw new NotFoundException(`Payment not found for order ID: ${orderId}`);
     }
 
-    if (transactionInfo.isSuccess) {
+    return payment;
+  }
+
+  /**
+   * Shared success/failure pipeline for every payment gateway. Return URLs and
+   * IPNs both land here, so a payment that is no longer pending is only reported.
+   * The status change is claimed with a conditional update, so when a return URL
+   * and an IPN race only one of them settles the payment.
+   */
+  private async settlePayment(
+    payment: Payment,
+    outcome: PaymentCallbackResult,
+  ): Promise<PaymentResultVm> {
+    if (payment.status !== PaymentStatus.PENDING) {
+      return this.toAlreadySettledResult(payment, outcome);
+    }
+
+    if (outcome.isSuccess) {
       // Get cached payment data before processing
-      const cachedData = await this.cacheService.getCachedPaymentData(payment.id);
-      
+      const cachedData = await this.cacheService.getCachedPaymentData(
+        payment.id,
+      );
+
       // Update payment status to completed
-      await this.prisma.payment.update({
-        where: { id: payment.id },
+      const { count } = await this.prisma.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
         data: {
           status: PaymentStatus.COMPLETED,
-          transactionId: transactionInfo.transactionId,
+          transactionId: outcome.transactionId,
           metadata: {
             ...((payment.metadata as any) || {}),
-            momoTransactionId: transactionInfo.transactionId,
-            payType: transactionInfo.payType,
-            responseTime: transactionInfo.responseTime,
+            ...outcome.metadata,
             completedAt: new Date().toISOString(),
           } as any,
         },
       });
 
-      console.log(`✅ Payment ${payment.id} completed successfully`);
-
-      // Create course enrollment if this is a course payment
-      const paymentMetadata = payment.metadata as any;
-      if (paymentMetadata?.paymentType === 'simple_course_payment' && paymentMetadata?.courseId) {
-        try {
-          const enrollment = await this.enrollmentService.createCourseEnrollment(
-            payment.id,
-            payment.userId,
-            paymentMetadata.courseId,
-          );
-          
-          console.log(`✅ Created enrollment ${enrollment.id} for payment ${payment.id}`);
-        } catch (error) {
-          console.error(`❌ Failed to create enrollment for payment ${payment.id}:`, error);
-          // Don't throw error as payment is already completed
-        }
+      if (count !== 1) {
+        return this.reportSettledElsewhere(payment.id, outcome);
       }
 
-      // Delete cached payment data after successful processing
-      try {
-        await this.cacheService.removeCachedPaymentData(payment.id);
-        console.log(`🗑️ Deleted cache for payment ${payment.id}`);
-      } catch (error) {
-        console.error(`❌ Failed to delete cache for payment ${payment.id}:`, error);
-        // Don't throw error as enrollment and payment are already processed
-      }
+      console.log(`✅ Payment ${payment.id} completed successfully`);
 
-      // Queue notifications if we have cached data
-      if (cachedData) {
-        try {
-          await this.cacheService.queuePaymentNotifications(payment.id, cachedData);
-          console.log(`📧 Queued notifications for payment ${payment.id}`);
-        } catch (error) {
-          console.error(`❌ Failed to queue notifications for payment ${payment.id}:`, error);
-        }
-      }
+      await this.processSuccessfulPayment(payment, cachedData, outcome);
     } else {
       // Handle failed payment
-      await this.prisma.payment.update({
-        where: { id: payment.id },
+      const { count } = await this.prisma.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
         data: {
           status: PaymentStatus.FAILED,
           metadata: {
             ...((payment.metadata as any) || {}),
-            failureReason: transactionInfo.message,
+            ...outcome.metadata,
             failedAt: new Date().toISOString(),
           } as any,
         },
       });
 
+      if (count !== 1) {
+        return this.reportSettledElsewhere(payment.id, outcome);
+      }
+
+      // Free the lesson time held during checkout
+      await this.slotHoldService.releaseForPayment(
+        payment.id,
+        'PAYMENT_FAILED',
+      );
+
       // Also clean up cache for failed payments
       try {
         await this.cacheService.removeCachedPaymentData(payment.id);
         console.log(`🗑️ Deleted cache for failed payment ${payment.id}`);
       } catch (error) {
-        console.error(`❌ Failed to delete cache for failed payment ${payment.id}:`, error);
+        console.error(
+          `❌ Failed to delete cache for failed payment ${payment.id}:`,
+          error,
+        );
       }
     }
 
-    return {
-      success: transactionInfo.isSuccess,
+    const result: PaymentResultVm = {
+      success: outcome.isSuccess,
       paymentId: payment.id,
-      orderId: transactionInfo.orderId,
-      status: transactionInfo.isSuccess ? PaymentStatus.COMPLETED : PaymentStatus.FAILED,
-      transactionId: transactionInfo.transactionId || '',
-      amount: transactionInfo.amount.toString(),
-      message: transactionInfo.isSuccess 
-        ? 'Payment completed successfully' 
-        : this.momoService.getErrorMessage(transactionInfo.resultCode),
-      errorMessage: transactionInfo.isSuccess ? undefined : this.momoService.getErrorMessage(transactionInfo.resultCode),
+      orderId: outcome.orderId,
+      status: outcome.isSuccess
+        ? PaymentStatus.COMPLETED
+        : PaymentStatus.FAILED,
+      transactionId: outcome.transactionId || '',
+      amount: outcome.amount.toString(),
+      message: outcome.message,
+      errorMessage: outcome.isSuccess ? undefined : outcome.message,
     };
+
+    this.realtimeService.paymentResult(payment.userId, {
+      paymentId: payment.id,
+      status: result.status,
+      amount: outcome.amount,
+      orderId: outcome.orderId,
+      message: result.message,
+    });
+
+    return result;
   }
 
   /**
-   * Handle MoMo return URL
+   * Another callback settled the payment between our read and the update
    */
-  async handleMomoReturn(callbackData: any) {
-    return this.handleMomoCallback(callbackData);
+  private async reportSettledElsewhere(
+    paymentId: string,
+    outcome: PaymentCallbackResult,
+  ): Promise<PaymentResultVm> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+    return this.toAlreadySettledResult(payment, outcome);
   }
 
-  /**
-   * Handle MoMo webhook for payment processing
-   */
-  async handleMomoWebhook(callbackData: any) {
-    return this.handleMomoCallback(callbackData);
+  private toAlreadySettledResult(
+    payment: Payment,
+    outcome: PaymentCallbackResult,
+  ): PaymentResultVm {
+    const completed = payment.status !== PaymentStatus.FAILED;
+    return {
+      success: completed,
+      paymentId: payment.id,
+      orderId: outcome.orderId,
+      status: payment.status,
+      transactionId: payment.transactionId || '',
+      amount: payment.amount.toString(),
+      message: completed
+        ? 'Payment already completed'
+        : 'Payment already failed',
+      errorMessage: completed ? undefined : outcome.message,
+    };
   }
 
   /**
-   * Calculate simple coupon discount for guest payments
+   * Hand a completed payment to the `process-payment-success` job, falling back
+   * to creating the enrollment or lesson package inline when the checkout cache
+   * has expired
    */
-  private calculateSimpleCouponDiscount(
-    couponCode: string,
-    amount: number,
-  ): number {
-    // Simple coupon logic - in real implementation, check against database
-    const coupons: Record<string, number> = {
-      'WELCOME10': 0.1, // 10% discount
-      'SAVE20': 0.2, // 20% discount
-      'STUDENT15': 0.15, // 15% discount
-    };
+  private async processSuccessfulPayment(
+    payment: Payment,
+    cachedData: PaymentCacheData | null,
+    outcome: PaymentCallbackResult,
+  ): Promise<void> {
+    if (cachedData) {
+      try {
+        await this.cacheService.queuePaymentSuccessProcessing(
+          payment.id,
+          cachedData,
+          outcome,
+        );
+        await this.cacheService.queuePaymentNotifications(
+          payment.id,
+          cachedData,
+        );
+        console.log(
+          `📧 Queued success processing and notifications for payment ${payment.id}`,
+        );
+      } catch (error) {
+        console.error(
+          `❌ Failed to queue success processing for payment ${payment.id}:`,
+          error,
+        );
+      }
+    } else {
+      // Create course enrollment if this is a course payment
+      const paymentMetadata = payment.metadata as any;
+      if (
+        paymentMetadata?.paymentType === 'simple_course_payment' &&
+        paymentMetadata?.courseId
+      ) {
+        try {
+          const enrollment =
+            await this.enrollmentService.createCourseEnrollment(
+              payment.id,
+              payment.userId,
+              paymentMetadata.courseId,
+            );
 
-    const discountPercent = coupons[couponCode.toUpperCase()];
-    return discountPercent ? Math.floor(amount * discountPercent) : 0;
+          console.log(
+            `✅ Created enrollment ${enrollment.id} for payment ${payment.id}`,
+          );
+        } catch (error) {
+          console.error(
+            `❌ Failed to create enrollment for payment ${payment.id}:`,
+            error,
+          );
+          // Don't throw error as payment is already completed
+        }
+      }
+
+      // Create the lesson package if this is a package payment
+      if (paymentMetadata?.paymentType === 'lesson_package') {
+        try {
+          const lessonPackage = await this.prisma.lessonPackage.upsert({
+            where: { paymentId: payment.id },
+            create: buildLessonPackageFromPayment(payment),
+            update: {},
+          });
+
+          console.log(
+            `✅ Created lesson package ${lessonPackage.id} for payment ${payment.id}`,
+          );
+        } catch (error) {
+          console.error(
+            `❌ Failed to create lesson package for payment ${payment.id}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    // Delete cached payment data after successful processing
+    try {
+      await this.cacheService.removeCachedPaymentData(payment.id);
+      console.log(`🗑️ Deleted cache for payment ${payment.id}`);
+    } catch (error) {
+      console.error(
+        `❌ Failed to delete cache for payment ${payment.id}:`,
+        error,
+      );
+      // Don't throw error as enrollment and payment are already processed
+    }
   }
 
   /**
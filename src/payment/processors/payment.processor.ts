@@ -1,16 +1,29 @@
 import { Processor, Process } from '@nestjs/bull';
 import { Job } from 'bull';
-import { Injectable, Logger } from '@nestjs/common';
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { PaymentCacheData } from '../cache.service';
-import { PaymentStatus, EnrollmentStatus } from '@prisma/client';
+import { NotificationInboxService } from '../../notification/notification-inbox.service';
+import { EmailService } from '../../email/email.service';
+import { AuthService } from '../../auth/auth.service';
+import { buildLessonPackageFromPayment } from '../lesson-package-pricing';
+import { SlotHoldService } from '../../slot-hold/slot-hold.service';
+import { BookingService } from '../../booking/booking.service';
+import { Payment, PaymentStatus, EnrollmentStatus } from '@prisma/client';
 
 @Injectable()
 @Processor('payment-processing')
 export class PaymentProcessor {
   private readonly logger = new Logger(PaymentProcessor.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly emailService: EmailService,
+    private readonly authService: AuthService,
+    private readonly slotHoldService: SlotHoldService,
+    private readonly bookingService: BookingService,
+  ) {}
 
   @Process('cache-payment-data')
   async handleCachePaymentData(job: Job) {
@@ -86,8 +99,8 @@ export class PaymentProcessor {
       // Process based on payment type (course vs lesson package)
       if (cachedData.courseInfo) {
         await this.processCourseEnrollment(paymentId, cachedData);
-      } else {
-        await this.processLessonPackage(paymentId, cachedData);
+      } else if (cachedData.packageInfo) {
+        await this.processLessonPackage(payment);
       }
 
       this.logger.log(`✅ Payment success processing completed for payment: ${paymentId}`);
@@ -161,32 +174,89 @@ export class PaymentProcessor {
 
     // Create initial booking if preferred start date is provided
     if (cachedData.metadata.preferredStartDate) {
+      const scheduledAt = new Date(cachedData.metadata.preferredStartDate);
       try {
-        await this.prisma.booking.create({
-          data: {
-            studentId: student.id,
+        // Takes over the slot held during checkout
+        await this.slotHoldService.withHold(
+          {
             teacherId: courseInfo.teacherId,
-            courseId: courseInfo.id,
-            scheduledAt: new Date(cachedData.metadata.preferredStartDate),
+            startsAt: scheduledAt,
             duration: courseInfo.duration,
-            status: 'PENDING',
-            isTrialLesson: false,
-            notes: `Course enrollment booking - ${cachedData.metadata.specialRequests || 'No special requests'}`,
+            holderId: student.id,
+            paymentId,
           },
-        });
+          async () => {
+            // The hold may have expired while the student was paying
+            await this.bookingService.checkForConflicts(
+              courseInfo.teacherId,
+              student.id,
+              scheduledAt,
+              courseInfo.duration,
+            );
+
+            return this.prisma.booking.create({
+              data: {
+                studentId: student.id,
+                teacherId: courseInfo.teacherId,
+                courseId: courseInfo.id,
+                scheduledAt,
+                duration: courseInfo.duration,
+                status: 'PENDING',
+                isTrialLesson: false,
+                notes: `Course enrollment booking - ${
+                  cachedData.metadata.specialRequests || 'No special requests'
+                }`,
+              },
+            });
+          },
+          (booking) => ({ bookingId: booking.id }),
+        );
 
         this.logger.log(`✅ Initial booking created for course enrollment`);
       } catch (error) {
-        this.logger.warn(`Could not create initial booking:`, error);
         // Don't throw error, enrollment should still succeed
+        if (error instanceof ConflictException) {
+          this.logger.warn(
+            `Preferred start time of payment ${paymentId} is taken, skipping the initial booking`,
+          );
+          await this.notificationInboxService.create({
+            userId: student.id,
+            type: 'INITIAL_BOOKING_SKIPPED',
+            title: 'Please book your first lesson',
+            message: `You are enrolled in ${courseInfo.name}, but your preferred start time is no longer available. Please choose another time for your first lesson.`,
+            priority: 'high',
+            metadata: { paymentId, courseId: courseInfo.id },
+          });
+        } else {
+          this.logger.warn(`Could not create initial booking:`, error);
+        }
       }
     }
   }
 
-  private async processLessonPackage(paymentId: string, cachedData: PaymentCacheData): Promise<void> {
-    // Implementation for lesson package processing
-    // This would be similar to course enrollment but for lesson packages
-    this.logger.log('Processing lesson package - implementation needed');
+  private async processLessonPackage(payment: Payment): Promise<void> {
+    // Retried jobs must not create a second package for the same payment
+    const existingPackage = await this.prisma.lessonPackage.findUnique({
+      where: { paymentId: payment.id },
+    });
+
+    if (existingPackage) {
+      this.logger.warn(
+        `Lesson package already exists for payment ${payment.id}`,
+      );
+      return;
+    }
+
+    const lessonPackage = await this.prisma.lessonPackage.create({
+      data: buildLessonPackageFromPayment(payment, payment.updatedAt),
+    });
+
+    this.logger.log(
+      `✅ Lesson package ${lessonPackage.id} created for student ${lessonPackage.studentId} ` +
+        `(${
+          lessonPackage.totalLessons
+        } lessons, expires ${lessonPackage.expiresAt.toISOString()})`,
+    );
   }
 
   @Process('send-payment-notifications')
@@ -195,20 +265,82 @@ export class PaymentProcessor {
     this.logger.log(`Sending payment notifications for payment: ${paymentId}`);
 
     try {
-      // Here you would integrate with your notification service
-      // For now, just log the notification details
-      
-      const { studentInfo, courseInfo } = cachedData;
-      
-      this.logger.log(`📧 Would send email to ${studentInfo.email} about course ${courseInfo.name}`);
+      const { studentInfo, courseInfo, packageInfo, paymentInfo } = cachedData;
+      const itemName = courseInfo
+        ? courseInfo.name
+        : packageInfo
+        ? `${packageInfo.numberOfLessons} lessons with ${packageInfo.teacherName}`
+        : undefined;
+
+      const payment = await this.prisma.payment.findUnique({
+        where: { id: paymentId },
+      });
+
+      if (!payment) {
+        throw new Error(`Payment ${paymentId} not found`);
+      }
+
+      await this.notificationInboxService.create({
+        userId: payment.userId,
+        type: 'PAYMENT_SUCCESS',
+        title: 'Payment Successful',
+        message: itemName
+          ? `Your payment for ${itemName} was successful`
+          : 'Your payment was successful',
+        priority: 'high',
+        metadata: {
+          paymentId,
+          orderId: paymentInfo?.orderId,
+          amount: paymentInfo?.amount ?? Number(payment.amount),
+          currency: paymentInfo?.currency ?? payment.currency,
+          courseId: courseInfo?.id,
+          teacherId: packageInfo?.teacherId,
+        },
+      });
+
+      // A failed receipt should not retry the whole job and duplicate the in-app notification
+      try {
+        await this.emailService.sendTemplate({
+          to: studentInfo.email,
+          template: 'payment-receipt',
+          data: {
+            customerName: `${studentInfo.firstName} ${studentInfo.lastName}`,
+            itemName: itemName || payment.description || 'Antoree',
+            orderId: paymentInfo?.orderId || paymentId,
+            paymentMethod: payment.paymentMethod,
+            amount: (
+              paymentInfo?.amount ?? Number(payment.amount)
+            ).toLocaleString('vi-VN'),
+            discountAmount:
+              paymentInfo?.discountAmount?.toLocaleString('vi-VN'),
+            currency: paymentInfo?.currency ?? payment.currency,
+            paidAt: payment.updatedAt.toLocaleString('vi-VN'),
+          },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to send payment receipt for payment ${paymentId}:`,
+          error,
+        );
+      }
+
+      // Guest checkouts create the account without a password
+      try {
+        await this.authService.sendInitialPasswordSetup(payment.userId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to send password setup email for payment ${paymentId}:`,
+          error,
+        );
+      }
+
       this.logger.log(`📱 Would send SMS to ${studentInfo.phoneNumber} about payment success`);
-      
-      // You can add actual notification service calls here
-      // await this.notificationService.sendEmailNotification(...)
-      // await this.notificationService.sendSMSNotification(...)
-      
-      return { success: true, paymentId, notificationsSent: ['email', 'sms'] };
 
+      return {
+        success: true,
+        paymentId,
+        notificationsSent: ['in_app', 'email', 'sms'],
+      };
     } catch (error) {
       this.logger.error(`Error sending payment notifications for payment ${paymentId}:`, error);
       throw error;
@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Payment } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PaymentGateway } from '../dto/simple-course-payment.dto';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentCallbackResult,
+  PaymentProvider,
+  PaymentStatusResult,
+  ProviderRefundRequest,
+  ProviderRefundResult,
+} from './payment-provider.interface';
+
+export type FakePaymentResult = 'success' | 'failure';
+
+/**
+ * Local sandbox gateway. The checkout URL points straight back at our own
+ * return endpoint, so opening it settles the payment immediately with
+ * FAKE_PAYMENT_RESULT; change the `result` query parameter to force the
+ * other outcome.
+ */
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider {
+  readonly gateway = PaymentGateway.FAKE;
+  private readonly secret: string;
+  private readonly returnUrl: string;
+  private readonly defaultResult: FakePaymentResult;
+
+  constructor(configService: ConfigService) {
+    this.secret = configService.get('FAKE_PAYMENT_SECRET');
+    this.returnUrl = configService.get(
+      'FAKE_PAYMENT_RETURN_URL',
+      'http://127.0.0.1:8080/api/payments/webhook/fake/return',
+    );
+    this.defaultResult =
+      configService.get('FAKE_PAYMENT_RESULT') === 'failure'
+        ? 'failure'
+        : 'success';
+  }
+
+  /**
+   * Callbacks are signed with FAKE_PAYMENT_SECRET, which has no default so
+   * that success URLs cannot be forged with a well-known key
+   */
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  validateAmount(amount: number): boolean {
+    return amount > 0;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    return {
+      paymentUrl: this.buildCallbackUrl(
+        request.orderId,
+        request.amount,
+        this.defaultResult,
+      ),
+    };
+  }
+
+  /**
+   * Build a signed callback URL for an order, e.g. to fail a payment on demand
+   */
+  buildCallbackUrl(
+    orderId: string,
+    amount: number,
+    result: FakePaymentResult,
+  ): string {
+    const transactionId = `FAKE${Date.now()}`;
+    const params = new URLSearchParams({
+      orderId,
+      amount: amount.toString(),
+      transactionId,
+      result,
+      signature: this.sign(orderId, amount, transactionId),
+    });
+
+    return `${this.returnUrl}?${params.toString()}`;
+  }
+
+  verifyCallback(callbackData: any): PaymentCallbackResult | null {
+    const { orderId, transactionId, signature, result } = callbackData;
+    const amount = Number(callbackData.amount);
+
+    if (signature !== this.sign(orderId, amount, transactionId)) {
+      return null;
+    }
+
+    const isSuccess = result !== 'failure';
+
+    return {
+      isSuccess,
+      orderId,
+      transactionId,
+      amount,
+      message: isSuccess
+        ? 'Payment completed successfully'
+        : 'Fake payment declined',
+      metadata: isSuccess
+        ? { fakeTransactionId: transactionId }
+        : { failureReason: 'Fake payment declined' },
+    };
+  }
+
+  async queryStatus(payment: Payment): Promise<PaymentStatusResult> {
+    return {
+      status: 'PENDING',
+      message: `Fake payment ${payment.id} settles through its callback URL`,
+    };
+  }
+
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    return { providerRefundId: `FAKE_REFUND_${Date.now()}` };
+  }
+
+  private sign(orderId: string, amount: number, transactionId: string): string {
+    if (!this.secret) {
+      throw new Error('FAKE_PAYMENT_SECRET is not configured');
+    }
+
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`${orderId}|${amount}|${transactionId}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,5 @@
+export * from './payment-provider.interface';
+export * from './payment-provider.registry';
+export * from './momo.provider';
+export * from './vnpay.provider';
+export * from './fake.provider';
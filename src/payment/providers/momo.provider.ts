@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { Payment } from '@prisma/client';
+import { MomoService } from '../momo.service';
+import { PaymentGateway } from '../dto/simple-course-payment.dto';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentCallbackResult,
+  PaymentProvider,
+  PaymentStatusResult,
+  ProviderRefundRequest,
+  ProviderRefundResult,
+} from './payment-provider.interface';
+
+// MoMo result codes for transactions that are still being processed
+const MOMO_PENDING_RESULT_CODES = [1000, 7000, 7002, 8000, 9000];
+
+@Injectable()
+export class MomoPaymentProvider implements PaymentProvider {
+  readonly gateway = PaymentGateway.MOMO;
+
+  constructor(private readonly momoService: MomoService) {}
+
+  validateAmount(amount: number): boolean {
+    return this.momoService.validateAmount(amount);
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    return this.momoService.createPaymentUrl(
+      {
+        amount: request.amount,
+        orderId: request.orderId,
+        orderInfo: request.orderInfo,
+      },
+      request.momoPaymentMethod,
+    );
+  }
+
+  verifyCallback(callbackData: any): PaymentCallbackResult | null {
+    if (!this.momoService.verifyCallback(callbackData)) {
+      return null;
+    }
+
+    const transactionInfo = this.momoService.getTransactionInfo(callbackData);
+
+    return {
+      isSuccess: transactionInfo.isSuccess,
+      orderId: transactionInfo.orderId,
+      transactionId: transactionInfo.transactionId,
+      amount: Number(transactionInfo.amount),
+      message: transactionInfo.isSuccess
+        ? 'Payment completed successfully'
+        : this.momoService.getErrorMessage(transactionInfo.resultCode),
+      metadata: transactionInfo.isSuccess
+        ? {
+            momoTransactionId: transactionInfo.transactionId,
+            payType: transactionInfo.payType,
+            responseTime: transactionInfo.responseTime,
+          }
+        : { failureReason: transactionInfo.message },
+    };
+  }
+
+  async queryStatus(payment: Payment): Promise<PaymentStatusResult> {
+    const orderId = (payment.metadata as any)?.orderId;
+    const response = await this.momoService.checkTransactionStatus(orderId);
+    const resultCode = Number(response.resultCode);
+
+    if (resultCode === 0) {
+      return {
+        status: 'COMPLETED',
+        transactionId: response.transId?.toString(),
+        amount: Number(response.amount),
+        message: 'Payment completed successfully',
+        metadata: {
+          momoTransactionId: response.transId?.toString(),
+          payType: response.payType,
+          responseTime: response.responseTime,
+        },
+      };
+    }
+
+    return {
+      status: MOMO_PENDING_RESULT_CODES.includes(resultCode)
+        ? 'PENDING'
+        : 'FAILED',
+      message: this.momoService.getErrorMessage(resultCode),
+      metadata: { failureReason: response.message },
+    };
+  }
+
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    if (!request.payment.transactionId) {
+      throw new Error('Payment has no MoMo transaction to refund');
+    }
+
+    const response = await this.momoService.refundTransaction({
+      transId: request.payment.transactionId,
+      amount: request.amount,
+      description: request.description,
+    });
+
+    return {
+      providerRefundId: response.transId?.toString() || response.orderId,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { Payment } from '@prisma/client';
+import { PaymentGateway } from '../dto/simple-course-payment.dto';
+
+export interface CheckoutRequest {
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  orderInfo: string;
+  ipAddress: string;
+  momoPaymentMethod?: string;
+  bankCode?: string;
+}
+
+export interface CheckoutSession {
+  paymentUrl: string;
+  qrCodeUrl?: string;
+  deeplink?: string;
+  // Provider data to keep on the payment for later status queries and refunds
+  metadata?: Record<string, any>;
+}
+
+export interface PaymentCallbackResult {
+  isSuccess: boolean;
+  orderId: string;
+  transactionId?: string;
+  amount: number;
+  message: string;
+  metadata: Record<string, any>;
+}
+
+export interface PaymentStatusResult {
+  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  transactionId?: string;
+  amount?: number;
+  message: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ProviderRefundRequest {
+  payment: Payment;
+  amount: number;
+  description: string;
+}
+
+export interface ProviderRefundResult {
+  // Null when the provider does not return a separate refund reference
+  providerRefundId: string | null;
+}
+
+export interface PaymentProvider {
+  readonly gateway: PaymentGateway;
+
+  validateAmount(amount: number): boolean;
+
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+
+  /**
+   * Returns null when the callback signature does not match
+   */
+  verifyCallback(callbackData: any): PaymentCallbackResult | null;
+
+  queryStatus(payment: Payment): Promise<PaymentStatusResult>;
+
+  refund(request: ProviderRefundRequest): Promise<ProviderRefundResult>;
+}
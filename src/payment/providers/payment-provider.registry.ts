@@ -0,0 +1,70 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentGateway } from '../dto/simple-course-payment.dto';
+import { PaymentProvider } from './payment-provider.interface';
+import { MomoPaymentProvider } from './momo.provider';
+import { VnpayPaymentProvider } from './vnpay.provider';
+import { FakePaymentProvider } from './fake.provider';
+
+/**
+ * Looks up the payment provider for a gateway. The FAKE gateway completes
+ * purchases without charging anyone, so it is only registered when
+ * PAYMENT_FAKE_ENABLED is explicitly true, never in production.
+ */
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly logger = new Logger(PaymentProviderRegistry.name);
+  private readonly providers = new Map<string, PaymentProvider>();
+
+  constructor(
+    momoProvider: MomoPaymentProvider,
+    vnpayProvider: VnpayPaymentProvider,
+    fakeProvider: FakePaymentProvider,
+    configService: ConfigService,
+  ) {
+    this.register(momoProvider);
+    this.register(vnpayProvider);
+
+    if (configService.get('PAYMENT_FAKE_ENABLED', 'false') === 'true') {
+      if (configService.get('NODE_ENV') === 'production') {
+        this.logger.error(
+          'PAYMENT_FAKE_ENABLED is ignored in production, the FAKE payment gateway stays disabled',
+        );
+      } else if (!fakeProvider.isConfigured()) {
+        throw new Error(
+          'FAKE_PAYMENT_SECRET is required when PAYMENT_FAKE_ENABLED is true',
+        );
+      } else {
+        this.register(fakeProvider);
+        this.logger.warn('FAKE payment gateway is enabled');
+      }
+    }
+  }
+
+  get(gateway: string): PaymentProvider {
+    const provider = this.find(gateway);
+
+    if (!provider) {
+      throw new BadRequestException(
+        `Payment gateway ${gateway} is not available`,
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Returns undefined for payment methods without a provider (e.g. bank transfer)
+   */
+  find(gateway: string): PaymentProvider | undefined {
+    return this.providers.get(gateway);
+  }
+
+  isEnabled(gateway: PaymentGateway): boolean {
+    return this.providers.has(gateway);
+  }
+
+  private register(provider: PaymentProvider): void {
+    this.providers.set(provider.gateway, provider);
+  }
+}
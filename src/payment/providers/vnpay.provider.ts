@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Payment } from '@prisma/client';
+import { VNpayService } from '../vnpay.service';
+import { PaymentGateway } from '../dto/simple-course-payment.dto';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentCallbackResult,
+  PaymentProvider,
+  PaymentStatusResult,
+  ProviderRefundRequest,
+  ProviderRefundResult,
+} from './payment-provider.interface';
+
+@Injectable()
+export class VnpayPaymentProvider implements PaymentProvider {
+  readonly gateway = PaymentGateway.VNPAY;
+  private readonly serverIp: string;
+
+  constructor(
+    private readonly vnpayService: VNpayService,
+    configService: ConfigService,
+  ) {
+    this.serverIp = configService.get('VNPAY_SERVER_IP', '127.0.0.1');
+  }
+
+  validateAmount(amount: number): boolean {
+    return this.vnpayService.validateAmount(amount);
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const response = this.vnpayService.createPaymentUrl({
+      amount: request.amount,
+      orderId: request.orderId,
+      orderInfo: request.orderInfo,
+      ipAddr: request.ipAddress,
+      bankCode: request.bankCode,
+    });
+
+    return {
+      paymentUrl: response.paymentUrl,
+      metadata: { vnpCreateDate: response.createDate },
+    };
+  }
+
+  verifyCallback(callbackData: any): PaymentCallbackResult | null {
+    if (!this.vnpayService.verifyReturnData(callbackData)) {
+      return null;
+    }
+
+    const transactionInfo = this.vnpayService.getTransactionInfo(callbackData);
+    const message = transactionInfo.isSuccess
+      ? 'Payment completed successfully'
+      : this.vnpayService.getErrorMessage(transactionInfo.responseCode);
+
+    return {
+      isSuccess: transactionInfo.isSuccess,
+      orderId: transactionInfo.orderId,
+      transactionId: transactionInfo.transactionId,
+      amount: transactionInfo.amount,
+      message,
+      metadata: transactionInfo.isSuccess
+        ? {
+            vnpayTransactionNo: transactionInfo.transactionId,
+            bankCode: transactionInfo.bankCode,
+            bankTranNo: transactionInfo.bankTranNo,
+            cardType: transactionInfo.cardType,
+            payDate: transactionInfo.payDate,
+          }
+        : {
+            failureReason: message,
+            responseCode: transactionInfo.responseCode,
+          },
+    };
+  }
+
+  async queryStatus(payment: Payment): Promise<PaymentStatusResult> {
+    const metadata = (payment.metadata as any) || {};
+    const response = await this.vnpayService.queryTransaction(
+      metadata.orderId,
+      metadata.vnpCreateDate,
+      this.serverIp,
+      payment.transactionId,
+    );
+
+    const responseCode = response.vnp_ResponseCode?.toString();
+    const transactionStatus = response.vnp_TransactionStatus?.toString();
+
+    if (responseCode !== '00') {
+      return { status: 'PENDING', message: response.message };
+    }
+
+    if (transactionStatus === '00') {
+      return {
+        status: 'COMPLETED',
+        transactionId: response.vnp_TransactionNo?.toString(),
+        amount: Number(response.vnp_Amount),
+        message: 'Payment completed successfully',
+        metadata: {
+          vnpayTransactionNo: response.vnp_TransactionNo?.toString(),
+          bankCode: response.vnp_BankCode,
+          payDate: response.vnp_PayDate?.toString(),
+        },
+      };
+    }
+
+    return {
+      status: transactionStatus === '01' ? 'PENDING' : 'FAILED',
+      message: this.vnpayService.getErrorMessage(transactionStatus),
+      metadata: { responseCode: transactionStatus },
+    };
+  }
+
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    const metadata = (request.payment.metadata as any) || {};
+    const response = await this.vnpayService.refundTransaction({
+      orderId: metadata.orderId,
+      transactionNo: request.payment.transactionId,
+      transactionDate: metadata.vnpCreateDate,
+      amount: request.amount,
+      isFullRefund:
+        Number(request.payment.refundedAmount) === 0 &&
+        request.amount >= Number(request.payment.amount),
+      orderInfo: request.description,
+      createdBy: 'admin',
+      ipAddr: this.serverIp,
+    });
+
+    return { providerRefundId: response.vnp_TransactionNo?.toString() || null };
+  }
+}
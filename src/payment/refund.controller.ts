@@ -0,0 +1,136 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RefundService } from './refund.service';
+import {
+  CreateRefundRequestDto,
+  ReviewRefundDto,
+  SearchRefundDto,
+} from './dto';
+import { RefundBreakdownVm, RefundVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Refunds')
+@Controller('payments/refunds')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RefundController {
+  constructor(private readonly refundService: RefundService) {}
+
+  @Get('quote/:paymentId')
+  @ApiOperation({ summary: 'Preview how much of a payment can be refunded' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refund quote calculated successfully',
+    type: RefundBreakdownVm,
+  })
+  @ResponseMessage('Refund quote calculated successfully')
+  async getRefundQuote(
+    @Param('paymentId') paymentId: string,
+    @CurrentUser() user: any,
+  ): Promise<RefundBreakdownVm> {
+    return this.refundService.getRefundQuote(paymentId, user.id, user.role);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Request a refund for a payment' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Refund requested successfully',
+    type: RefundVm,
+  })
+  @ResponseMessage('Refund requested successfully')
+  @HttpCode(HttpStatus.CREATED)
+  async requestRefund(
+    @Body() createRefundDto: CreateRefundRequestDto,
+    @CurrentUser() user: any,
+  ): Promise<RefundVm> {
+    return this.refundService.requestRefund(
+      createRefundDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get my refund requests' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refund requests retrieved successfully',
+    type: [RefundVm],
+  })
+  @ResponseMessage('Refund requests retrieved successfully')
+  async findMine(@CurrentUser() user: any): Promise<RefundVm[]> {
+    return this.refundService.findMine(user.id);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get refund requests (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refund requests retrieved successfully',
+    type: [RefundVm],
+  })
+  @ResponseMessage('Refund requests retrieved successfully')
+  async findAll(@Query() searchDto: SearchRefundDto): Promise<RefundVm[]> {
+    return this.refundService.findAll(searchDto);
+  }
+
+  @Patch(':id/approve')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary:
+      'Approve a refund and send it to the payment provider (Admin only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refund processed',
+    type: RefundVm,
+  })
+  @ResponseMessage('Refund processed')
+  async approve(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewRefundDto,
+    @CurrentUser() user: any,
+  ): Promise<RefundVm> {
+    return this.refundService.approve(id, user.id, reviewDto);
+  }
+
+  @Patch(':id/reject')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Reject a refund request (Admin only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refund rejected successfully',
+    type: RefundVm,
+  })
+  @ResponseMessage('Refund rejected successfully')
+  async reject(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewRefundDto,
+    @CurrentUser() user: any,
+  ): Promise<RefundVm> {
+    return this.refundService.reject(id, user.id, reviewDto);
+  }
+}
@@ -0,0 +1,515 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CourseEnrollment,
+  Course,
+  EnrollmentStatus,
+  LessonPackage,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  Refund,
+  RefundStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { EnrollmentService } from '../enrollment/enrollment.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { PaymentProviderRegistry } from './providers';
+import {
+  CreateRefundRequestDto,
+  ReviewRefundDto,
+  SearchRefundDto,
+} from './dto';
+import { RefundBreakdownVm, RefundVm } from './vm';
+
+type RefundablePayment = Payment & {
+  lessonPackage: LessonPackage | null;
+  courseEnrollment: (CourseEnrollment & { course: Course }) | null;
+  refunds: Refund[];
+};
+
+// Failed refunds stay open until an admin retries or rejects them
+const OPEN_REFUND_STATUSES: RefundStatus[] = [
+  RefundStatus.PENDING,
+  RefundStatus.PROCESSING,
+  RefundStatus.FAILED,
+];
+
+/**
+ * Lessons paid back by a refund of `amount`. Quotes are rounded down, so a
+ * refund that covers part of a lesson still takes that lesson.
+ */
+export function countRefundedLessons(
+  lessonPackage: Pick<
+    LessonPackage,
+    'totalPrice' | 'totalLessons' | 'remainingLessons'
+  >,
+  amount: number,
+): number {
+  const pricePerLesson =
+    Number(lessonPackage.totalPrice) / lessonPackage.totalLessons;
+  const remainingLessons = Math.max(lessonPackage.remainingLessons, 0);
+
+  if (!(pricePerLesson > 0)) {
+    return remainingLessons;
+  }
+
+  return Math.min(Math.ceil(amount / pricePerLesson), remainingLessons);
+}
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentProviders: PaymentProviderRegistry,
+    private readonly enrollmentService: EnrollmentService,
+    private readonly notificationInboxService: NotificationInboxService,
+  ) {}
+
+  /**
+   * Work out how much of a payment can still be refunded
+   */
+  async getRefundQuote(
+    paymentId: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<RefundBreakdownVm> {
+    const payment = await this.findRefundablePayment(
+      paymentId,
+      userId,
+      userRole,
+    );
+    return this.calculateRefund(payment);
+  }
+
+  async requestRefund(
+    createRefundDto: CreateRefundRequestDto,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<RefundVm> {
+    const payment = await this.findRefundablePayment(
+      createRefundDto.paymentId,
+      userId,
+      userRole,
+    );
+
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new BadRequestException('Only completed payments can be refunded');
+    }
+
+    if (
+      payment.refunds.some((refund) =>
+        OPEN_REFUND_STATUSES.includes(refund.status),
+      )
+    ) {
+      throw new ConflictException(
+        'A refund for this payment is already being processed',
+      );
+    }
+
+    const breakdown = this.calculateRefund(payment);
+    const refundableAmount = Number(breakdown.refundableAmount);
+    const amount = createRefundDto.amount ?? refundableAmount;
+
+    if (refundableAmount <= 0) {
+      throw new BadRequestException('Nothing left to refund for this payment');
+    }
+
+    if (amount > refundableAmount) {
+      throw new BadRequestException(
+        `Refund amount cannot exceed ${refundableAmount} ${payment.currency}`,
+      );
+    }
+
+    const refund = await this.prisma.refund.create({
+      data: {
+        paymentId: payment.id,
+        requestedById: userId,
+        amount,
+        reason: createRefundDto.reason,
+        breakdown: breakdown as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    this.logger.log(
+      `Refund ${refund.id} of ${amount} requested for payment ${payment.id}`,
+    );
+
+    return this.toRefundVm(refund);
+  }
+
+  async findAll(searchDto: SearchRefundDto): Promise<RefundVm[]> {
+    const refunds = await this.prisma.refund.findMany({
+      where: {
+        status: searchDto.status,
+        paymentId: searchDto.paymentId,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return refunds.map((refund) => this.toRefundVm(refund));
+  }
+
+  async findMine(userId: string): Promise<RefundVm[]> {
+    const refunds = await this.prisma.refund.findMany({
+      where: { requestedById: userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return refunds.map((refund) => this.toRefundVm(refund));
+  }
+
+  /**
+   * Approve a pending (or retry a failed) refund and send the money back
+   * through the provider the payment was made with. A full refund closes
+   * the lesson package or course enrollment it was paid for; a partial one
+   * only takes the refunded lessons off the package.
+   */
+  async approve(
+    refundId: string,
+    adminId: string,
+    reviewDto: ReviewRefundDto,
+  ): Promise<RefundVm> {
+    const { count } = await this.prisma.refund.updateMany({
+      where: {
+        id: refundId,
+        status: { in: [RefundStatus.PENDING, RefundStatus.FAILED] },
+      },
+      data: {
+        status: RefundStatus.PROCESSING,
+        reviewedById: adminId,
+        reviewNote: reviewDto.note,
+        reviewedAt: new Date(),
+        failureReason: null,
+      },
+    });
+
+    if (count === 0) {
+      await this.findRefund(refundId);
+      throw new BadRequestException(
+        'Only pending or failed refunds can be approved',
+      );
+    }
+
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { payment: true },
+    });
+
+    const amount = Number(refund.amount);
+    const remaining =
+      Number(refund.payment.amount) - Number(refund.payment.refundedAmount);
+    if (amount > remaining) {
+      return this.markFailed(
+        refund,
+        `Refund amount exceeds the remaining ${remaining} ${refund.payment.currency}`,
+      );
+    }
+
+    let providerRefundId: string | null = null;
+    try {
+      providerRefundId = await this.sendToProvider(refund.payment, amount);
+    } catch (error) {
+      this.logger.error(
+        `Refund ${refund.id} failed at provider: ${error.message}`,
+      );
+      return this.markFailed(refund, error.message);
+    }
+
+    const fullyRefunded = amount >= remaining;
+    const [completedRefund] = await this.prisma.$transaction([
+      this.prisma.refund.update({
+        where: { id: refund.id },
+        data: {
+          status: RefundStatus.COMPLETED,
+          providerRefundId,
+          completedAt: new Date(),
+        },
+      }),
+      this.prisma.payment.update({
+        where: { id: refund.paymentId },
+        data: {
+          refundedAmount: { increment: amount },
+          ...(fullyRefunded && { status: PaymentStatus.REFUNDED }),
+        },
+      }),
+    ]);
+
+    if (fullyRefunded) {
+      await this.closeRefundedPurchase(refund.paymentId);
+    } else {
+      await this.deductRefundedLessons(refund.paymentId, amount);
+    }
+
+    await this.notificationInboxService.create({
+      userId: refund.requestedById,
+      type: 'REFUND_COMPLETED',
+      title: 'Refund completed',
+      message: `Your refund of ${amount} ${refund.payment.currency} has been processed.`,
+      priority: 'high',
+      metadata: { refundId: refund.id, paymentId: refund.paymentId },
+    });
+
+    this.logger.log(`Refund ${refund.id} completed by admin ${adminId}`);
+    return this.toRefundVm(completedRefund);
+  }
+
+  async reject(
+    refundId: string,
+    adminId: string,
+    reviewDto: ReviewRefundDto,
+  ): Promise<RefundVm> {
+    const refund = await this.findRefund(refundId);
+
+    if (
+      refund.status !== RefundStatus.PENDING &&
+      refund.status !== RefundStatus.FAILED
+    ) {
+      throw new BadRequestException(
+        'Only pending or failed refunds can be rejected',
+      );
+    }
+
+    const rejectedRefund = await this.prisma.refund.update({
+      where: { id: refundId },
+      data: {
+        status: RefundStatus.REJECTED,
+        reviewedById: adminId,
+        reviewNote: reviewDto.note,
+        reviewedAt: new Date(),
+      },
+    });
+
+    await this.notificationInboxService.create({
+      userId: refund.requestedById,
+      type: 'REFUND_REJECTED',
+      title: 'Refund request rejected',
+      message: reviewDto.note
+        ? `Your refund request was rejected: ${reviewDto.note}`
+        : 'Your refund request was rejected.',
+      metadata: { refundId, paymentId: refund.paymentId },
+    });
+
+    return this.toRefundVm(rejectedRefund);
+  }
+
+  private async findRefund(refundId: string): Promise<Refund> {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+    });
+
+    if (!refund) {
+      throw new NotFoundException(`Refund with ID ${refundId} not found`);
+    }
+
+    return refund;
+  }
+
+  private async findRefundablePayment(
+    paymentId: string,
+    userId: string,
+    userRole?: UserRole,
+  ): Promise<RefundablePayment> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        lessonPackage: true,
+        courseEnrollment: { include: { course: true } },
+        refunds: true,
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${paymentId} not found`);
+    }
+
+    if (userRole !== UserRole.ADMIN && payment.userId !== userId) {
+      throw new ForbiddenException('You can only refund your own payments');
+    }
+
+    return payment;
+  }
+
+  /**
+   * Lesson packages and course enrollments are refunded pro rata for the
+   * lessons not yet taken; anything else is refundable in full
+   */
+  private calculateRefund(payment: RefundablePayment): RefundBreakdownVm {
+    const paidAmount = Number(payment.amount);
+    const alreadyRefunded =
+      Number(payment.refundedAmount) +
+      payment.refunds
+        .filter((refund) => OPEN_REFUND_STATUSES.includes(refund.status))
+        .reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+    let source: RefundBreakdownVm['source'] = 'PAYMENT';
+    let pricePerLesson: number | undefined;
+    let unusedLessons: number | undefined;
+    let cancellationFees = 0;
+    let grossRefund = paidAmount;
+
+    if (payment.lessonPackage) {
+      const lessonPackage = payment.lessonPackage;
+      source = 'LESSON_PACKAGE';
+      pricePerLesson =
+        Number(lessonPackage.totalPrice) / lessonPackage.totalLessons;
+      unusedLessons = lessonPackage.isActive
+        ? Math.max(lessonPackage.remainingLessons, 0)
+        : 0;
+      cancellationFees = Number(lessonPackage.cancellationFees);
+      grossRefund = pricePerLesson * unusedLessons;
+    } else if (payment.courseEnrollment) {
+      const enrollment = payment.courseEnrollment;
+      source = 'COURSE_ENROLLMENT';
+      pricePerLesson = paidAmount / enrollment.course.totalLessons;
+      unusedLessons =
+        enrollment.status === EnrollmentStatus.CANCELLED
+          ? 0
+          : Math.max(
+              enrollment.course.totalLessons - enrollment.completedLessons,
+              0,
+            );
+      grossRefund = pricePerLesson * unusedLessons;
+    }
+
+    const refundableAmount = Math.max(
+      Math.floor(
+        Math.min(grossRefund - cancellationFees, paidAmount) - alreadyRefunded,
+      ),
+      0,
+    );
+
+    return {
+      source,
+      paidAmount: paidAmount.toString(),
+      pricePerLesson:
+        pricePerLesson !== undefined
+          ? Math.floor(pricePerLesson).toString()
+          : undefined,
+      unusedLessons,
+      cancellationFees: cancellationFees.toString(),
+      alreadyRefunded: alreadyRefunded.toString(),
+      refundableAmount: refundableAmount.toString(),
+    };
+  }
+
+  /**
+   * Returns the provider's refund transaction ID, or null for payment
+   * methods that are refunded by hand outside the system
+   */
+  private async sendToProvider(
+    payment: Payment,
+    amount: number,
+  ): Promise<string | null> {
+    const provider = this.paymentProviders.find(payment.paymentMethod);
+
+    if (!provider) {
+      return null;
+    }
+
+    const result = await provider.refund({
+      payment,
+      amount,
+      description: `Refund for payment ${payment.id}`,
+    });
+
+    return result.providerRefundId;
+  }
+
+  private async closeRefundedPurchase(paymentId: string): Promise<void> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { lessonPackage: true, courseEnrollment: true },
+    });
+
+    if (payment.lessonPackage) {
+      await this.prisma.lessonPackage.update({
+        where: { id: payment.lessonPackage.id },
+        data: { isActive: false, remainingLessons: 0 },
+      });
+    }
+
+    if (
+      payment.courseEnrollment &&
+      payment.courseEnrollment.status !== EnrollmentStatus.CANCELLED
+    ) {
+      await this.enrollmentService.cancelEnrollment(
+        payment.courseEnrollment.id,
+        'Refunded',
+      );
+    }
+  }
+
+  /**
+   * Take the lessons a partial refund paid back off the package, at the
+   * same per-lesson price the refund was quoted with
+   */
+  private async deductRefundedLessons(
+    paymentId: string,
+    amount: number,
+  ): Promise<void> {
+    const lessonPackage = await this.prisma.lessonPackage.findUnique({
+      where: { paymentId },
+    });
+
+    if (!lessonPackage || !lessonPackage.isActive) {
+      return;
+    }
+
+    const refundedLessons = countRefundedLessons(lessonPackage, amount);
+    if (refundedLessons === 0) {
+      return;
+    }
+
+    await this.prisma.lessonPackage.update({
+      where: { id: lessonPackage.id },
+      data: {
+        remainingLessons: { decrement: refundedLessons },
+        ...(refundedLessons >= lessonPackage.remainingLessons && {
+          isActive: false,
+        }),
+      },
+    });
+  }
+
+  private async markFailed(
+    refund: Refund,
+    failureReason: string,
+  ): Promise<RefundVm> {
+    const failedRefund = await this.prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: RefundStatus.FAILED, failureReason },
+    });
+
+    return this.toRefundVm(failedRefund);
+  }
+
+  private toRefundVm(refund: Refund): RefundVm {
+    return {
+      id: refund.id,
+      paymentId: refund.paymentId,
+      requestedById: refund.requestedById,
+      amount: refund.amount.toString(),
+      reason: refund.reason ?? undefined,
+      status: refund.status,
+      breakdown:
+        (refund.breakdown as unknown as RefundBreakdownVm) ?? undefined,
+      providerRefundId: refund.providerRefundId ?? undefined,
+      failureReason: refund.failureReason ?? undefined,
+      reviewedById: refund.reviewedById ?? undefined,
+      reviewNote: refund.reviewNote ?? undefined,
+      reviewedAt: refund.reviewedAt ?? undefined,
+      completedAt: refund.completedAt ?? undefined,
+      createdAt: refund.createdAt,
+    };
+  }
+}
@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  EnrollmentStatus,
+  PaymentStatus,
+  Prisma,
+  RefundStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { EnrollmentService } from '../../enrollment/enrollment.service';
+import { NotificationInboxService } from '../../notification/notification-inbox.service';
+import { PaymentProviderRegistry } from '../providers';
+import { countRefundedLessons, RefundService } from '../refund.service';
+
+describe('RefundService', () => {
+  let service: RefundService;
+
+  const mockPrismaService = {
+    payment: { findUnique: jest.fn<any>(), update: jest.fn<any>() },
+    refund: {
+      updateMany: jest.fn<any>(),
+      findUnique: jest.fn<any>(),
+      update: jest.fn<any>(),
+    },
+    lessonPackage: { findUnique: jest.fn<any>(), update: jest.fn<any>() },
+    $transaction: jest.fn<any>(),
+  };
+  const mockEnrollmentService = { cancelEnrollment: jest.fn<any>() };
+  const mockNotificationInboxService = { create: jest.fn<any>() };
+  const mockPaymentProviders = { find: jest.fn<any>() };
+
+  // 10 lessons for 1,000,000 VND, 100,000 VND each
+  const lessonPackage = {
+    id: 'package-id',
+    paymentId: 'payment-id',
+    totalPrice: new Prisma.Decimal(1000000),
+    totalLessons: 10,
+    remainingLessons: 6,
+    cancellationFees: 0,
+    isActive: true,
+  };
+
+  const payment = {
+    id: 'payment-id',
+    userId: 'student-id',
+    amount: 1000000,
+    refundedAmount: 0,
+    currency: 'VND',
+    paymentMethod: 'MANUAL',
+    status: PaymentStatus.COMPLETED,
+    lessonPackage,
+    courseEnrollment: null,
+    refunds: [],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EnrollmentService, useValue: mockEnrollmentService },
+        {
+          provide: NotificationInboxService,
+          useValue: mockNotificationInboxService,
+        },
+        { provide: PaymentProviderRegistry, useValue: mockPaymentProviders },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+  });
+
+  describe('countRefundedLessons', () => {
+    it('should count whole lessons paid back', () => {
+      expect(countRefundedLessons(lessonPackage, 300000)).toBe(3);
+    });
+
+    it('should take a lesson that is only partly refunded', () => {
+      expect(countRefundedLessons(lessonPackage, 250000)).toBe(3);
+    });
+
+    it('should never take more than the remaining lessons', () => {
+      expect(countRefundedLessons(lessonPackage, 900000)).toBe(6);
+    });
+  });
+
+  describe('getRefundQuote', () => {
+    it('should refund the unused lessons of a package pro rata', async () => {
+      mockPrismaService.payment.findUnique.mockResolvedValue(payment);
+
+      const quote = await service.getRefundQuote(
+        'payment-id',
+        'student-id',
+        UserRole.STUDENT,
+      );
+
+      expect(quote.source).toBe('LESSON_PACKAGE');
+      expect(quote.pricePerLesson).toBe('100000');
+      expect(quote.unusedLessons).toBe(6);
+      expect(quote.refundableAmount).toBe('600000');
+    });
+
+    it('should subtract cancellation fees and open refunds', async () => {
+      mockPrismaService.payment.findUnique.mockResolvedValue({
+        ...payment,
+        lessonPackage: { ...lessonPackage, cancellationFees: 50000 },
+        refunds: [
+          { amount: 100000, status: RefundStatus.PENDING },
+          { amount: 200000, status: RefundStatus.REJECTED },
+        ],
+      });
+
+      const quote = await service.getRefundQuote(
+        'payment-id',
+        'student-id',
+        UserRole.STUDENT,
+      );
+
+      expect(quote.alreadyRefunded).toBe('100000');
+      expect(quote.refundableAmount).toBe('450000');
+    });
+
+    it('should refund the lessons a course enrollment has not completed', async () => {
+      mockPrismaService.payment.findUnique.mockResolvedValue({
+        ...payment,
+        lessonPackage: null,
+        courseEnrollment: {
+          id: 'enrollment-id',
+          status: EnrollmentStatus.ACTIVE,
+          completedLessons: 4,
+          course: { totalLessons: 8 },
+        },
+      });
+
+      const quote = await service.getRefundQuote(
+        'payment-id',
+        'student-id',
+        UserRole.STUDENT,
+      );
+
+      expect(quote.source).toBe('COURSE_ENROLLMENT');
+      expect(quote.unusedLessons).toBe(4);
+      expect(quote.refundableAmount).toBe('500000');
+    });
+
+    it('should not quote payments of other users', async () => {
+      mockPrismaService.payment.findUnique.mockResolvedValue(payment);
+
+      await expect(
+        service.getRefundQuote('payment-id', 'other-id', UserRole.STUDENT),
+      ).rejects.toThrow('You can only refund your own payments');
+    });
+  });
+
+  describe('approve', () => {
+    const approveRefund = (amount: number) => {
+      mockPrismaService.refund.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.refund.findUnique.mockResolvedValue({
+        id: 'refund-id',
+        paymentId: 'payment-id',
+        requestedById: 'student-id',
+        amount,
+        payment,
+      });
+      mockPrismaService.$transaction.mockResolvedValue([
+        {
+          id: 'refund-id',
+          paymentId: 'payment-id',
+          requestedById: 'student-id',
+          amount,
+          status: RefundStatus.COMPLETED,
+        },
+      ]);
+
+      return service.approve('refund-id', 'admin-id', {});
+    };
+
+    it('should only take the refunded lessons off the package on a partial refund', async () => {
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue(
+        lessonPackage,
+      );
+
+      await approveRefund(200000);
+
+      expect(mockPrismaService.lessonPackage.update).toHaveBeenCalledWith({
+        where: { id: 'package-id' },
+        data: { remainingLessons: { decrement: 2 } },
+      });
+      expect(mockPrismaService.payment.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should close the package once its last lessons are refunded', async () => {
+      mockPrismaService.lessonPackage.findUnique.mockResolvedValue(
+        lessonPackage,
+      );
+
+      await approveRefund(600000);
+
+      expect(mockPrismaService.lessonPackage.update).toHaveBeenCalledWith({
+        where: { id: 'package-id' },
+        data: { remainingLessons: { decrement: 6 }, isActive: false },
+      });
+    });
+
+    it('should close the purchase on a full refund', async () => {
+      mockPrismaService.payment.findUnique.mockResolvedValue(payment);
+
+      await approveRefund(1000000);
+
+      expect(mockPrismaService.lessonPackage.update).toHaveBeenCalledWith({
+        where: { id: 'package-id' },
+        data: { isActive: false, remainingLessons: 0 },
+      });
+      expect(mockPrismaService.lessonPackage.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
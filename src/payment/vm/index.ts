@@ -1,3 +1,5 @@
 export * from './payment.vm';
 export * from './simple-course-payment.vm';
 export * from './payment-url.vm';
+export * from './refund.vm';
+export * from './lesson-package-payment.vm';
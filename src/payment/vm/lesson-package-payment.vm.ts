@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LessonPackagePaymentVm {
+  @ApiProperty({
+    description: 'Main payment URL for web browsers',
+  })
+  paymentUrl: string;
+
+  @ApiPropertyOptional({
+    description: 'QR code URL for scanning (when using QR payment method)',
+  })
+  qrCodeUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Deep link for MoMo app (when using wallet payment method)',
+  })
+  deeplink?: string;
+
+  @ApiProperty()
+  paymentId: string;
+
+  @ApiProperty()
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Amount to pay after package and coupon discounts',
+    example: 2700000,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Payment gateway used',
+    enum: ['MOMO', 'VNPAY', 'FAKE'],
+  })
+  gateway: string;
+
+  @ApiProperty({
+    description: 'Payment method used',
+    example: 'captureWallet',
+  })
+  paymentMethod: string;
+
+  @ApiProperty({
+    description: 'Package being bought',
+  })
+  package: {
+    type: string;
+    numberOfLessons: number;
+    durationPerLesson: number;
+    regularPricePerLesson: string;
+    pricePerLesson: string;
+    totalPrice: string;
+    savings: string;
+    discountPercentage: number;
+    validityDays: number;
+  };
+
+  @ApiProperty({
+    description: 'Coupon discount applied on top of the package price',
+    example: 0,
+  })
+  discountAmount: number;
+
+  @ApiProperty()
+  teacher: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
+}
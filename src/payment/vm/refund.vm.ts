@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RefundStatus } from '@prisma/client';
+
+export class RefundBreakdownVm {
+  @ApiProperty({
+    description: 'What the payment was for',
+    enum: ['LESSON_PACKAGE', 'COURSE_ENROLLMENT', 'PAYMENT'],
+    example: 'LESSON_PACKAGE',
+  })
+  source: 'LESSON_PACKAGE' | 'COURSE_ENROLLMENT' | 'PAYMENT';
+
+  @ApiProperty({
+    description: 'Amount originally paid',
+    example: '3000000',
+  })
+  paidAmount: string;
+
+  @ApiPropertyOptional({
+    description: 'Price of one lesson after discounts',
+    example: '300000',
+  })
+  pricePerLesson?: string;
+
+  @ApiPropertyOptional({
+    description: 'Lessons that have not been used yet',
+    example: 6,
+  })
+  unusedLessons?: number;
+
+  @ApiProperty({
+    description: 'Late cancellation fees deducted from the refund',
+    example: '150000',
+  })
+  cancellationFees: string;
+
+  @ApiProperty({
+    description: 'Amount already refunded or awaiting refund',
+    example: '0',
+  })
+  alreadyRefunded: string;
+
+  @ApiProperty({
+    description: 'Amount that can still be refunded',
+    example: '1650000',
+  })
+  refundableAmount: string;
+}
+
+export class RefundVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'cm3payment123def456' })
+  paymentId: string;
+
+  @ApiProperty({ example: 'clk987654321' })
+  requestedById: string;
+
+  @ApiProperty({ example: '1650000' })
+  amount: string;
+
+  @ApiPropertyOptional()
+  reason?: string;
+
+  @ApiProperty({ enum: RefundStatus, example: RefundStatus.PENDING })
+  status: RefundStatus;
+
+  @ApiPropertyOptional({ type: RefundBreakdownVm })
+  breakdown?: RefundBreakdownVm;
+
+  @ApiPropertyOptional({
+    description: 'Refund transaction ID from the payment provider',
+  })
+  providerRefundId?: string;
+
+  @ApiPropertyOptional()
+  failureReason?: string;
+
+  @ApiPropertyOptional()
+  reviewedById?: string;
+
+  @ApiPropertyOptional()
+  reviewNote?: string;
+
+  @ApiPropertyOptional()
+  reviewedAt?: Date;
+
+  @ApiPropertyOptional()
+  completedAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -27,9 +27,15 @@ export class SimpleCoursePaymentVm {
   @ApiProperty()
   amount: number;
 
+  @ApiProperty({
+    description: 'Payment gateway used',
+    enum: ['MOMO', 'VNPAY'],
+  })
+  gateway: string;
+
   @ApiProperty({
     description: 'Payment method used',
-    enum: ['captureWallet', 'payWithATM', 'payWithCC'],
+    enum: ['captureWallet', 'payWithATM', 'payWithCC', 'VNPAY'],
   })
   paymentMethod: string;
 
@@ -3,12 +3,21 @@ import * as crypto from 'crypto';
 import { ConfigService } from '@nestjs/config';
 import * as qs from 'qs';
 import { ignoreLogger, VNPay } from 'vnpay';
-import { ProductCode, HashAlgorithm, VnpLocale } from 'vnpay';
+import {
+  ProductCode,
+  HashAlgorithm,
+  VnpLocale,
+  RefundTransactionType,
+} from 'vnpay';
 import { VNP_VERSION, PAYMENT_ENDPOINT } from 'vnpay';
-import { resolveUrlString, dateFormat } from 'vnpay';
-import type { VNPayConfig, BuildPaymentUrl, Bank } from 'vnpay';
-
- 
+import { resolveUrlString, dateFormat, getDateInGMT7 } from 'vnpay';
+import type {
+  VNPayConfig,
+  BuildPaymentUrl,
+  Bank,
+  QueryDrResponse,
+  RefundResponse,
+} from 'vnpay';
 
 export interface VnpayConfig {
   tmnCode: string;
@@ -31,6 +40,18 @@ export interface VnpayPaymentRequest {
 
 export interface VnpayPaymentResponse {
   paymentUrl: string;
+  createDate: number; // yyyyMMddHHmmss (GMT+7), needed later to query or refund
+}
+
+export interface VnpayRefundRequest {
+  orderId: string;
+  transactionNo?: string;
+  transactionDate: number;
+  amount: number;
+  isFullRefund: boolean;
+  orderInfo: string;
+  createdBy: string;
+  ipAddr: string;
 }
 
 export interface VnpayReturnData {
@@ -55,10 +76,16 @@ export class VNpayService {
 
   constructor(private readonly configService: ConfigService) {
     this.config = {
-      tmnCode: configService.getOrThrow<string>('VNPAY_TMN_CODE'),
-      secretKey: configService.getOrThrow<string>('VNPAY_SECRET_KEY'),
-      vnpUrl: configService.get('VNPAY_URL', 'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html'),
-      returnUrl: configService.get('VNPAY_RETURN_URL', 'http://localhost:8080/payment/webhook/vnpay/return'),
+      tmnCode: configService.get<string>('VNPAY_TMN_CODE', ''),
+      secretKey: configService.get<string>('VNPAY_SECRET_KEY', ''),
+      vnpUrl: configService.get(
+        'VNPAY_URL',
+        'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+      ),
+      returnUrl: configService.get(
+        'VNPAY_RETURN_URL',
+        'http://127.0.0.1:8080/api/payments/webhook/vnpay/return',
+      ),
       version: '2.1.0',
       currCode: 'VND',
     };
@@ -151,6 +178,10 @@ export class VNpayService {
    * @returns Payment URL response
    */
   createPaymentUrl(paymentRequest: VnpayPaymentRequest): VnpayPaymentResponse {
+    if (!this.config.tmnCode || !this.config.secretKey) {
+      throw new Error('VNPAY_TMN_CODE and VNPAY_SECRET_KEY must be configured');
+    }
+
     // Validate input parameters
     if (
       !paymentRequest.orderId ||
@@ -173,9 +204,12 @@ export class VNpayService {
         ? paymentRequest.orderInfo.substring(0, 252) + '...'
         : paymentRequest.orderInfo;
 
+    const createDate = dateFormat(getDateInGMT7());
+
     // Build BuildPaymentUrl object for nestjs-vnpay
     const paymentData: BuildPaymentUrl = {
-      vnp_Amount: paymentRequest.amount * 100, // VNPAY requires amount in VND cents
+      vnp_Amount: paymentRequest.amount, // The vnpay library multiplies by 100
+      vnp_CreateDate: createDate,
       vnp_OrderInfo: orderInfo,
       vnp_TxnRef: paymentRequest.orderId,
       vnp_IpAddr: paymentRequest.ipAddr,
@@ -198,9 +232,60 @@ export class VNpayService {
 
     return {
       paymentUrl,
+      createDate,
     };
   }
 
+  /**
+   * Query a transaction at VNPAY (querydr API)
+   */
+  async queryTransaction(
+    orderId: string,
+    transactionDate: number,
+    ipAddr: string,
+    transactionNo?: string,
+  ): Promise<QueryDrResponse> {
+    return this.vnpay.queryDr({
+      vnp_RequestId: this.generateOrderId('QUERY'),
+      vnp_TxnRef: orderId,
+      vnp_OrderInfo: `Query transaction ${orderId}`,
+      vnp_TransactionDate: transactionDate,
+      vnp_TransactionNo: Number(transactionNo) || 0,
+      vnp_CreateDate: dateFormat(getDateInGMT7()),
+      vnp_IpAddr: ipAddr,
+    });
+  }
+
+  /**
+   * Refund (part of) a transaction at VNPAY
+   */
+  async refundTransaction(
+    refundRequest: VnpayRefundRequest,
+  ): Promise<RefundResponse> {
+    const response = await this.vnpay.refund({
+      vnp_RequestId: this.generateOrderId('REFUND'),
+      vnp_TxnRef: refundRequest.orderId,
+      vnp_TransactionNo: Number(refundRequest.transactionNo) || undefined,
+      vnp_TransactionDate: refundRequest.transactionDate,
+      vnp_TransactionType: refundRequest.isFullRefund
+        ? RefundTransactionType.FULL_REFUND
+        : RefundTransactionType.PARTIAL_REFUND,
+      vnp_Amount: refundRequest.amount,
+      vnp_OrderInfo: refundRequest.orderInfo,
+      vnp_CreateBy: refundRequest.createdBy,
+      vnp_CreateDate: dateFormat(getDateInGMT7()),
+      vnp_IpAddr: refundRequest.ipAddr,
+    });
+
+    if (!response.isSuccess) {
+      throw new Error(
+        `VNPay refund failed: ${response.message} (Code: ${response.vnp_ResponseCode})`,
+      );
+    }
+
+    return response;
+  }
+
   /**
    * Verify VNPAY return data
    */
@@ -0,0 +1,5 @@
+export * from './realtime.service';
+export * from './realtime.gateway';
+export * from './realtime.module';
+export * from './realtime.events';
+export * from './redis-io.adapter';
@@ -0,0 +1,44 @@
+export const REALTIME_EVENTS = {
+  NOTIFICATION: 'notification:new',
+  BOOKING_STATUS: 'booking:status',
+  LESSON_STARTED: 'lesson:started',
+  LESSON_COMPLETED: 'lesson:completed',
+  PAYMENT_RESULT: 'payment:result',
+  MESSAGE_NEW: 'message:new',
+  MESSAGE_READ: 'message:read',
+} as const;
+
+export type RealtimeEvent =
+  typeof REALTIME_EVENTS[keyof typeof REALTIME_EVENTS];
+
+export interface BookingStatusEventPayload {
+  bookingId: string;
+  status: string;
+  previousStatus?: string;
+  scheduledAt: string;
+  isTrialLesson: boolean;
+}
+
+export interface LessonEventPayload {
+  lessonId: string;
+  bookingId?: string;
+  status: string;
+  meetingUrl?: string;
+  occurredAt: string;
+}
+
+export interface PaymentResultEventPayload {
+  paymentId: string;
+  status: string;
+  amount: number;
+  orderId?: string;
+  message?: string;
+}
+
+export interface MessageReadEventPayload {
+  conversationId: string;
+  readerId: string;
+  readAt: string;
+}
+
+export const userRoom = (userId: string) => `user:${userId}`;
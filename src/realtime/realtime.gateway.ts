@@ -0,0 +1,91 @@
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { SessionService } from '../auth/session.service';
+import { userRoom } from './realtime.events';
+
+/**
+ * Socket.IO entry point. Clients connect to the `/realtime` namespace with the
+ * same access token used for the REST API, passed as `auth.token`, an
+ * `Authorization: Bearer` header or a `token` query parameter.
+ */
+@WebSocketGateway({
+  namespace: '/realtime',
+  cors: { origin: true, credentials: true },
+})
+export class RealtimeGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(RealtimeGateway.name);
+
+  @WebSocketServer()
+  server: Server;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  async handleConnection(client: Socket) {
+    const token = this.extractToken(client);
+
+    if (!token) {
+      this.reject(client, 'Missing access token');
+      return;
+    }
+
+    try {
+      const payload = await this.jwtService.verifyAsync(token);
+      if (!(await this.sessionService.isSessionActive(payload.sid))) {
+        this.reject(client, 'Session has been revoked');
+        return;
+      }
+      client.data.user = { id: payload.id, role: payload.type };
+      await client.join(userRoom(payload.id));
+      this.logger.log(`Socket ${client.id} connected for user ${payload.id}`);
+    } catch (error) {
+      this.reject(client, 'Invalid or expired access token');
+    }
+  }
+
+  handleDisconnect(client: Socket) {
+    if (client.data.user) {
+      this.logger.log(
+        `Socket ${client.id} disconnected for user ${client.data.user.id}`,
+      );
+    }
+  }
+
+  emitToUser(userId: string, event: string, payload: any) {
+    // The server is not attached when the app runs without an HTTP adapter (e.g. in workers)
+    if (!this.server) return;
+    this.server.to(userRoom(userId)).emit(event, payload);
+  }
+
+  private extractToken(client: Socket): string | undefined {
+    const { auth, headers, query } = client.handshake;
+
+    if (auth?.token) {
+      return String(auth.token).replace(/^Bearer\s+/i, '');
+    }
+
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice(7);
+    }
+
+    return typeof query.token === 'string' ? query.token : undefined;
+  }
+
+  private reject(client: Socket, reason: string) {
+    this.logger.warn(`Rejected socket ${client.id}: ${reason}`);
+    client.emit('error', { message: reason });
+    client.disconnect(true);
+  }
+}
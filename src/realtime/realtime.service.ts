@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { RealtimeGateway } from './realtime.gateway';
+import {
+  BookingStatusEventPayload,
+  LessonEventPayload,
+  PaymentResultEventPayload,
+  REALTIME_EVENTS,
+} from './realtime.events';
+
+type BookingLike = {
+  id: string;
+  studentId: string;
+  teacherId: string;
+  status: string;
+  scheduledAt: Date;
+  isTrialLesson: boolean;
+};
+
+type LessonLike = {
+  id: string;
+  bookingId?: string | null;
+  studentId?: string | null;
+  teacherId: string;
+  status: string;
+  meetingUrl?: string | null;
+};
+
+/**
+ * Pushes domain events to the connected clients of the users involved
+ */
+@Injectable()
+export class RealtimeService {
+  constructor(private readonly gateway: RealtimeGateway) {}
+
+  emitToUser(userId: string, event: string, payload: any): void {
+    this.gateway.emitToUser(userId, event, payload);
+  }
+
+  bookingStatusChanged(booking: BookingLike, previousStatus?: string): void {
+    const payload: BookingStatusEventPayload = {
+      bookingId: booking.id,
+      status: booking.status,
+      previousStatus,
+      scheduledAt: booking.scheduledAt.toISOString(),
+      isTrialLesson: booking.isTrialLesson,
+    };
+
+    this.emitToParticipants(
+      [booking.studentId, booking.teacherId],
+      REALTIME_EVENTS.BOOKING_STATUS,
+      payload,
+    );
+  }
+
+  lessonStarted(lesson: LessonLike): void {
+    this.emitToParticipants(
+      [lesson.studentId, lesson.teacherId],
+      REALTIME_EVENTS.LESSON_STARTED,
+      this.toLessonPayload(lesson),
+    );
+  }
+
+  lessonCompleted(lesson: LessonLike): void {
+    this.emitToParticipants(
+      [lesson.studentId, lesson.teacherId],
+      REALTIME_EVENTS.LESSON_COMPLETED,
+      this.toLessonPayload(lesson),
+    );
+  }
+
+  paymentResult(userId: string, payload: PaymentResultEventPayload): void {
+    this.emitToUser(userId, REALTIME_EVENTS.PAYMENT_RESULT, payload);
+  }
+
+  private toLessonPayload(lesson: LessonLike): LessonEventPayload {
+    return {
+      lessonId: lesson.id,
+      bookingId: lesson.bookingId || undefined,
+      status: lesson.status,
+      meetingUrl: lesson.meetingUrl || undefined,
+      occurredAt: new Date().toISOString(),
+    };
+  }
+
+  private emitToParticipants(
+    userIds: (string | null | undefined)[],
+    event: string,
+    payload: any,
+  ): void {
+    for (const userId of new Set(userIds.filter(Boolean))) {
+      this.emitToUser(userId, event, payload);
+    }
+  }
+}
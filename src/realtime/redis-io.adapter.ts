@@ -0,0 +1,50 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from '@redis/client';
+import { ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter that fans events out through Redis pub/sub so that
+ * emits reach clients connected to any API instance.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+
+  constructor(app: INestApplicationContext) {
+    super(app);
+  }
+
+  async connectToRedis(options: {
+    host: string;
+    port: number;
+    password?: string;
+  }): Promise<void> {
+    const pubClient = createClient({
+      socket: { host: options.host, port: options.port },
+      password: options.password,
+    });
+    const subClient = pubClient.duplicate();
+    pubClient.on('error', (error) =>
+      this.logger.error('Redis pub client error', error),
+    );
+    subClient.on('error', (error) =>
+      this.logger.error('Redis sub client error', error),
+    );
+
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    this.logger.log(
+      `Socket.IO Redis adapter connected to ${options.host}:${options.port}`,
+    );
+  }
+
+  createIOServer(port: number, options?: ServerOptions): any {
+    const server = super.createIOServer(port, options);
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+}
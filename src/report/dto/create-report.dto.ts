@@ -0,0 +1,45 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportReason, ReportTargetType } from '@prisma/client';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateReportDto {
+  @ApiProperty({
+    description: 'What is being reported',
+    enum: ReportTargetType,
+    example: ReportTargetType.TEACHER,
+  })
+  @IsEnum(ReportTargetType)
+  targetType: ReportTargetType;
+
+  @ApiProperty({
+    description: 'ID of the reported teacher, student, review or message',
+    example: 'clk123456789',
+  })
+  @IsString()
+  @IsNotEmpty()
+  targetId: string;
+
+  @ApiProperty({
+    description: 'Reason category',
+    enum: ReportReason,
+    example: ReportReason.HARASSMENT,
+  })
+  @IsEnum(ReportReason)
+  reason: ReportReason;
+
+  @ApiPropertyOptional({
+    description: 'Details for the moderators',
+    example: 'The teacher kept asking for payment outside the platform',
+    maxLength: 2000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
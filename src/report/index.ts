@@ -0,0 +1,5 @@
+export * from './report.service';
+export * from './report.controller';
+export * from './report.module';
+export * from './dto';
+export * from './vm';
@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ReportService } from './report.service';
+import { CreateReportDto } from './dto';
+import { ReportVm } from './vm';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { TAccountRequest } from '../decorators/account-request.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+
+@ApiTags('Reports')
+@Controller('reports')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ReportController {
+  constructor(private readonly reportService: ReportService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Report a teacher, student, review or message',
+    description: 'The report goes to the admin moderation queue',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Report submitted',
+    type: ReportVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Reported content not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'An open report for this content already exists',
+  })
+  @ResponseMessage('Report submitted successfully')
+  async create(
+    @Body() createReportDto: CreateReportDto,
+    @CurrentUser() user: TAccountRequest,
+  ): Promise<ReportVm> {
+    return this.reportService.create(user.id, createReportDto);
+  }
+
+  @Get('mine')
+  @ApiOperation({ summary: 'List reports I have filed' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reports retrieved successfully',
+    type: [ReportVm],
+  })
+  async findMine(@CurrentUser() user: TAccountRequest): Promise<ReportVm[]> {
+    return this.reportService.findMine(user.id);
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Report, ReportStatus, ReportTargetType } from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { CreateReportDto } from './dto';
+import { ReportVm } from './vm';
+
+/**
+ * Reports filed by users. Triage and moderation actions live in the admin
+ * module.
+ */
+@Injectable()
+export class ReportService {
+  private readonly logger = new Logger(ReportService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(reporterId: string, dto: CreateReportDto): Promise<ReportVm> {
+    const reportedUserId = await this.resolveReportedUser(reporterId, dto);
+
+    if (reportedUserId === reporterId) {
+      throw new BadRequestException('You cannot report yourself');
+    }
+
+    const openReport = await this.prisma.report.findFirst({
+      where: {
+        reporterId,
+        targetType: dto.targetType,
+        targetId: dto.targetId,
+        status: { in: [ReportStatus.PENDING, ReportStatus.IN_REVIEW] },
+      },
+      select: { id: true },
+    });
+
+    if (openReport) {
+      throw new ConflictException(
+        'You already have an open report for this content',
+      );
+    }
+
+    const report = await this.prisma.report.create({
+      data: {
+        reporterId,
+        reportedUserId,
+        targetType: dto.targetType,
+        targetId: dto.targetId,
+        reason: dto.reason,
+        notes: dto.notes,
+      },
+    });
+
+    this.logger.log(
+      `User ${reporterId} reported ${dto.targetType} ${dto.targetId} (${dto.reason})`,
+    );
+    return this.toReportVm(report);
+  }
+
+  async findMine(reporterId: string): Promise<ReportVm[]> {
+    const reports = await this.prisma.report.findMany({
+      where: { reporterId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return reports.map((report) => this.toReportVm(report));
+  }
+
+  toReportVm(report: Report): ReportVm {
+    return {
+      id: report.id,
+      targetType: report.targetType,
+      targetId: report.targetId,
+      reason: report.reason,
+      notes: report.notes || undefined,
+      status: report.status,
+      rejectedReason: report.rejectedReason || undefined,
+      resolvedAt: report.resolvedAt?.toISOString(),
+      createdAt: report.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Check the target exists and find the user it belongs to. Messages can
+   * only be reported by the participants of their conversation.
+   */
+  private async resolveReportedUser(
+    reporterId: string,
+    dto: CreateReportDto,
+  ): Promise<string> {
+    switch (dto.targetType) {
+      case ReportTargetType.TEACHER: {
+        const teacher = await this.prisma.teacher.findUnique({
+          where: { id: dto.targetId },
+          select: { id: true },
+        });
+        if (!teacher) throw new NotFoundException('Teacher not found');
+        return teacher.id;
+      }
+      case ReportTargetType.STUDENT: {
+        const student = await this.prisma.student.findUnique({
+          where: { id: dto.targetId },
+          select: { id: true },
+        });
+        if (!student) throw new NotFoundException('Student not found');
+        return student.id;
+      }
+      case ReportTargetType.REVIEW: {
+        const review = await this.prisma.review.findFirst({
+          where: { id: dto.targetId, hiddenAt: null },
+          select: { studentId: true },
+        });
+        if (!review) throw new NotFoundException('Review not found');
+        return review.studentId;
+      }
+      case ReportTargetType.MESSAGE: {
+        const message = await this.prisma.message.findFirst({
+          where: {
+            id: dto.targetId,
+            deletedAt: null,
+            conversation: {
+              OR: [{ studentId: reporterId }, { teacherId: reporterId }],
+            },
+          },
+          select: { senderId: true },
+        });
+        if (!message) throw new NotFoundException('Message not found');
+        return message.senderId;
+      }
+    }
+  }
+}
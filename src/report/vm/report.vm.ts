@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportReason, ReportStatus, ReportTargetType } from '@prisma/client';
+
+export class ReportVm {
+  @ApiProperty({ description: 'Report ID', example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ enum: ReportTargetType })
+  targetType: ReportTargetType;
+
+  @ApiProperty({ example: 'clk987654321' })
+  targetId: string;
+
+  @ApiProperty({ enum: ReportReason })
+  reason: ReportReason;
+
+  @ApiPropertyOptional()
+  notes?: string;
+
+  @ApiProperty({ enum: ReportStatus })
+  status: ReportStatus;
+
+  @ApiPropertyOptional({
+    description: 'Why moderators rejected the report',
+  })
+  rejectedReason?: string;
+
+  @ApiPropertyOptional({ example: '2024-02-11T08:00:00.000Z' })
+  resolvedAt?: string;
+
+  @ApiProperty({ example: '2024-02-10T08:00:00.000Z' })
+  createdAt: string;
+}
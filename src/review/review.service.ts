@@ -321,7 +321,8 @@ export class ReviewService {
       limit = 10,
     } = searchDto;
 
-    const where: any = {};
+    // Reviews hidden by moderation never show up publicly
+    const where: any = { hiddenAt: null };
 
     if (teacherId) where.teacherId = teacherId;
     if (studentId) where.studentId = studentId;
@@ -405,7 +406,7 @@ export class ReviewService {
 
   async findByTeacher(teacherId: string, limit: number = 10): Promise<ReviewVm[]> {
     const reviews = await this.prisma.review.findMany({
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
       include: {
         student: true,
         teacher: { include: { user: true } },
@@ -514,13 +515,13 @@ export class ReviewService {
       trialLessonStats,
     ] = await Promise.all([
       this.prisma.review.findMany({
-        where: { teacherId },
+        where: { teacherId, hiddenAt: null },
         include: {
           student: true,
           teacher: { include: { user: true } },
         },
       }),
-      this.prisma.review.count({ where: { teacherId } }),
+      this.prisma.review.count({ where: { teacherId, hiddenAt: null } }),
       this.getTeacherAverageRating(teacherId),
       this.getTeacherRatingDistribution(teacherId),
       this.findByTeacher(teacherId, 5),
@@ -602,7 +603,7 @@ export class ReviewService {
   // Private helper methods
   private async updateTeacherAverageRating(teacherId: string): Promise<void> {
     const result = await this.prisma.review.aggregate({
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
       _avg: { rating: true },
       _count: { rating: true },
     });
@@ -621,7 +622,7 @@ export class ReviewService {
 
   private async getTeacherAverageRating(teacherId: string): Promise<number> {
     const result = await this.prisma.review.aggregate({
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
       _avg: { rating: true },
     });
 
@@ -631,7 +632,7 @@ export class ReviewService {
   private async getTeacherRatingDistribution(teacherId: string): Promise<{ 1: number; 2: number; 3: number; 4: number; 5: number }> {
     const ratings = await this.prisma.review.groupBy({
       by: ['rating'],
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
       _count: { rating: true },
     });
 
@@ -652,6 +653,7 @@ export class ReviewService {
     const trialReviews = await this.prisma.review.findMany({
       where: {
         teacherId,
+        hiddenAt: null,
         comment: { contains: 'Trial Lesson Feedback', mode: 'insensitive' },
       },
     });
@@ -2,7 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { PrismaService } from '../common/prisma/prisma.service';
-import { BookingStatus } from '@prisma/client';
+import { BookingPolicyCase, BookingStatus } from '@prisma/client';
+import { BookingPolicyService } from '../booking-policy/booking-policy.service';
 
 export interface BookingStatusJobData {
   bookingId: string;
@@ -18,6 +19,7 @@ export class BookingStatusScheduler {
   constructor(
     @InjectQueue('booking-status-queue') private bookingStatusQueue: Queue,
     private readonly prisma: PrismaService,
+    private readonly bookingPolicyService: BookingPolicyService,
   ) {}
 
   /**
@@ -268,6 +270,10 @@ export class BookingStatusScheduler {
           notes: `${booking.notes || ''}\nMarked as no-show - student did not attend`,
         },
       });
+      await this.bookingPolicyService.applyNoShow(
+        booking.id,
+        BookingPolicyCase.STUDENT_NO_SHOW,
+      );
 
       // Notify teacher of no-show
       await this.notifyNoShow(booking);
@@ -2,6 +2,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { AttendanceService } from '../attendance/attendance.service';
+import { consumePackageLesson } from '../booking/lesson-package-capacity';
 import { LessonStatus, BookingStatus } from '@prisma/client';
 
 export interface LessonStatusJobData {
@@ -19,6 +24,10 @@ export class LessonStatusScheduler {
   constructor(
     @InjectQueue('lesson-status-queue') private lessonStatusQueue: Queue,
     private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+    private readonly earningsService: EarningsService,
+    private readonly meetingService: MeetingService,
+    private readonly attendanceService: AttendanceService,
   ) {}
 
   /**
@@ -148,7 +157,9 @@ export class LessonStatusScheduler {
    * Schedule attendance check
    */
   async scheduleAttendanceCheck(lessonId: string, startTime: Date) {
-    const checkTime = new Date(startTime.getTime() + 5 * 60 * 1000); // 5 minutes after start
+    const checkTime = this.attendanceService.getNoShowCheckTime({
+      scheduledAt: startTime,
+    });
     const delay = checkTime.getTime() - Date.now();
     
     if (delay > 0) {
@@ -264,6 +275,7 @@ export class LessonStatusScheduler {
           courseId: booking.courseId,
           scheduledAt: booking.scheduledAt,
           duration: booking.duration,
+          meetingUrl: this.meetingService.getRoom(booking.id).meetingUrl,
           status: LessonStatus.SCHEDULED,
           notes: 'Lesson created automatically from confirmed booking',
         },
@@ -296,13 +308,12 @@ export class LessonStatusScheduler {
       return;
     }
 
-    // Only start if lesson is scheduled
+    // Only start if lesson is scheduled; startedAt comes from attendance
     if (lesson.status === LessonStatus.SCHEDULED) {
       await this.prisma.lesson.update({
         where: { id: lessonId },
         data: {
           status: LessonStatus.IN_PROGRESS,
-          startedAt: new Date(),
         },
       });
 
@@ -345,12 +356,16 @@ export class LessonStatusScheduler {
 
       // Update associated booking
       if (lesson.bookingId) {
-        await this.prisma.booking.update({
-          where: { id: lesson.bookingId },
-          data: {
-            status: BookingStatus.COMPLETED,
-          },
+        await this.prisma.$transaction(async (tx) => {
+          await tx.booking.update({
+            where: { id: lesson.bookingId },
+            data: {
+              status: BookingStatus.COMPLETED,
+            },
+          });
+          await consumePackageLesson(tx, lesson.bookingId);
         });
+        await this.earningsService.syncBooking(lesson.bookingId);
       }
 
       // Notify participants and trigger feedback requests
@@ -398,58 +413,35 @@ export class LessonStatusScheduler {
   }
 
   private async handleCheckAttendance(lessonId: string, metadata: any) {
-    const lesson = await this.prisma.lesson.findUnique({
-      where: { id: lessonId },
-      include: {
-        booking: true,
-        student: { include: { user: true } },
-        teacher: { include: { user: true } },
-      },
-    });
-
-    if (!lesson) {
-      this.logger.warn(`Lesson ${lessonId} not found, skipping attendance check`);
-      return;
-    }
-
-    // Check if lesson started (status changed from SCHEDULED)
-    if (lesson.status === LessonStatus.SCHEDULED) {
-      // Neither participant joined - mark as no show
-      await this.prisma.lesson.update({
-        where: { id: lessonId },
-        data: {
-          status: LessonStatus.CANCELLED,
-          notes: `${lesson.notes || ''}\nMarked as no-show - no participants joined`,
-        },
-      });
+    const outcome = await this.attendanceService.checkNoShow(lessonId);
 
-      // Update booking status
-      if (lesson.bookingId) {
-        await this.prisma.booking.update({
-          where: { id: lesson.bookingId },
-          data: {
-            status: BookingStatus.CANCELLED,
-          },
-        });
-      }
-
-      await this.notifyNoShow(lesson);
-      this.logger.log(`Marked lesson ${lessonId} as no-show`);
+    if (outcome) {
+      this.logger.log(`Attendance check for lesson ${lessonId}: ${outcome}`);
     } else {
-      this.logger.log(`Lesson ${lessonId} has participants, attendance check passed`);
+      this.logger.log(`Lesson ${lessonId} needs no attendance check, skipping`);
     }
   }
 
   // Notification helper methods
   private async notifyLessonStarted(lesson: any) {
-    this.logger.log(`Sending lesson started notification for lesson ${lesson.id}`);
-    // Implementation for lesson started notifications
+    this.logger.log(
+      `Sending lesson started notification for lesson ${lesson.id}`,
+    );
+    this.realtimeService.lessonStarted({
+      ...lesson,
+      status: LessonStatus.IN_PROGRESS,
+    });
   }
 
   private async notifyLessonCompleted(lesson: any) {
-    this.logger.log(`Sending lesson completed notification for lesson ${lesson.id}`);
-    // Implementation for lesson completed notifications
-    // This could trigger feedback requests, payment processing, etc.
+    this.logger.log(
+      `Sending lesson completed notification for lesson ${lesson.id}`,
+    );
+    this.realtimeService.lessonCompleted({
+      ...lesson,
+      status: LessonStatus.COMPLETED,
+    });
+    // This could also trigger feedback requests, payment processing, etc.
   }
 
   private async send24HourReminder(lesson: any) {
@@ -467,11 +459,6 @@ export class LessonStatusScheduler {
     // Implementation for final reminder
   }
 
-  private async notifyNoShow(lesson: any) {
-    this.logger.log(`Sending no-show notification for lesson ${lesson.id}`);
-    // Implementation for no-show notifications
-  }
-
   /**
    * Get lesson scheduler statistics
    */
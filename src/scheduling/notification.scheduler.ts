@@ -2,6 +2,9 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { EmailService } from '../email/email.service';
+import { resolveTimeZone } from '../common/timezone/timezone.util';
 
 export interface NotificationJobData {
   userId: string;
@@ -21,6 +24,8 @@ export class NotificationScheduler {
   constructor(
     @InjectQueue('notification-queue') private notificationQueue: Queue,
     private readonly prisma: PrismaService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly emailService: EmailService,
   ) {}
 
   /**
@@ -86,15 +91,26 @@ export class NotificationScheduler {
     teacherName: string;
     studentName: string;
     duration: number;
+    studentTimezone?: string;
+    teacherTimezone?: string;
   }) {
     const { lessonId, studentId, teacherId, lessonStartTime, teacherName, studentName, duration } = lessonData;
-    
+    // Each side reads the lesson time on their own clock
+    const studentTime = this.formatTime(
+      lessonStartTime,
+      lessonData.studentTimezone,
+    );
+    const teacherTime = this.formatTime(
+      lessonStartTime,
+      lessonData.teacherTimezone,
+    );
+
     const reminders = [
       {
         timeOffset: 24 * 60 * 60 * 1000, // 24 hours
         title: 'Lesson Tomorrow',
-        studentMessage: `Don't forget! You have a lesson with ${teacherName} tomorrow at ${this.formatTime(lessonStartTime)}.`,
-        teacherMessage: `Reminder: You have a lesson with ${studentName} tomorrow at ${this.formatTime(lessonStartTime)}.`,
+        studentMessage: `Don't forget! You have a lesson with ${teacherName} tomorrow at ${studentTime}.`,
+        teacherMessage: `Reminder: You have a lesson with ${studentName} tomorrow at ${teacherTime}.`,
       },
       {
         timeOffset: 60 * 60 * 1000, // 1 hour
@@ -220,9 +236,16 @@ export class NotificationScheduler {
     teacherId: string;
     studentName: string;
     lessonDateTime: Date;
+    teacherTimezone?: string;
   }) {
-    const { bookingId, teacherId, studentName, lessonDateTime } = bookingData;
-    
+    const {
+      bookingId,
+      teacherId,
+      studentName,
+      lessonDateTime,
+      teacherTimezone,
+    } = bookingData;
+
     const reminders = [
       { hours: 4, urgency: 'medium' },
       { hours: 12, urgency: 'high' },
@@ -239,7 +262,10 @@ export class NotificationScheduler {
         type: reminder.urgency === 'high' ? 'push' : 'email',
         notificationType: 'booking_response_reminder',
         subject: 'Booking Request Awaiting Response',
-        message: `${studentName} is waiting for your response to their lesson request for ${this.formatDateTime(lessonDateTime)}. Please respond to confirm or decline.`,
+        message: `${studentName} is waiting for your response to their lesson request for ${this.formatDateTime(
+          lessonDateTime,
+          teacherTimezone,
+        )}. Please respond to confirm or decline.`,
         sendAt: reminderTime,
         priority: reminder.urgency as 'medium' | 'high',
         metadata: {
@@ -352,7 +378,14 @@ export class NotificationScheduler {
           break;
         
         case 'in_app':
-          await this.sendInAppNotification(user, subject, message, metadata);
+          await this.sendInAppNotification(
+            user,
+            notificationType,
+            subject,
+            message,
+            data.priority,
+            metadata,
+          );
           break;
         
         default:
@@ -371,19 +404,31 @@ export class NotificationScheduler {
   }
 
   // Notification delivery methods
-  private async sendEmailNotification(user: any, subject: string, message: string, metadata: any) {
-    // Implementation for email sending
-    // This would integrate with services like SendGrid, AWS SES, etc.
+  private async sendEmailNotification(
+    user: any,
+    subject: string,
+    message: string,
+    metadata: any,
+  ) {
     this.logger.log(`Sending email to ${user.email}: ${subject}`);
-    
-    // Example integration point:
-    // await this.emailService.send({
-    //   to: user.email,
-    //   subject,
-    //   text: message,
-    //   html: this.generateEmailHTML(subject, message, metadata),
-    //   templateData: metadata,
-    // });
+
+    // Jobs can name a template in metadata, otherwise the subject and message are sent as-is
+    if (metadata?.template) {
+      await this.emailService.sendTemplate({
+        to: user.email,
+        template: metadata.template,
+        data: metadata.templateData || metadata,
+        locale: metadata.locale,
+      });
+      return;
+    }
+
+    await this.emailService.sendMessage(
+      user.email,
+      subject,
+      message,
+      metadata?.locale,
+    );
   }
 
   private async sendPushNotification(user: any, title: string, message: string, metadata: any) {
@@ -416,25 +461,26 @@ export class NotificationScheduler {
     }
   }
 
-  private async sendInAppNotification(user: any, title: string, message: string, metadata: any) {
-    // Implementation for in-app notifications
-    // This would save to a notifications table and use WebSocket/SSE for real-time delivery
+  private async sendInAppNotification(
+    user: any,
+    notificationType: string,
+    title: string,
+    message: string,
+    priority: NotificationJobData['priority'],
+    metadata: any,
+  ) {
     this.logger.log(`Creating in-app notification for user ${user.id}: ${title}`);
-    
-    // Example implementation:
-    // await this.prisma.notification.create({
-    //   data: {
-    //     userId: user.id,
-    //     title,
-    //     message,
-    //     type: metadata.notificationType,
-    //     metadata,
-    //     isRead: false,
-    //   },
-    // });
-    
-    // Emit via WebSocket
-    // this.websocketGateway.sendNotificationToUser(user.id, { title, message, metadata });
+
+    // The inbox also pushes the notification to the user's open sockets
+    await this.notificationInboxService.create({
+      userId: user.id,
+      type: notificationType,
+      title,
+      message,
+      bookingId: metadata?.bookingId,
+      priority,
+      metadata,
+    });
   }
 
   private async logNotificationDelivery(
@@ -471,16 +517,18 @@ export class NotificationScheduler {
     }
   }
 
-  private formatTime(date: Date): string {
+  private formatTime(date: Date, timezone?: string): string {
     return date.toLocaleTimeString('en-US', {
+      timeZone: resolveTimeZone(timezone),
       hour: '2-digit',
       minute: '2-digit',
       timeZoneName: 'short',
     });
   }
 
-  private formatDateTime(date: Date): string {
+  private formatDateTime(date: Date, timezone?: string): string {
     return date.toLocaleString('en-US', {
+      timeZone: resolveTimeZone(timezone),
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -209,6 +209,7 @@ export class SchedulingIntegrationService {
         teacherId: booking.teacherId,
         studentName: `${booking.student.user.firstName} ${booking.student.user.lastName}`,
         lessonDateTime: booking.scheduledAt,
+        teacherTimezone: booking.teacher?.timezone,
       });
     }
   }
@@ -238,6 +239,8 @@ export class SchedulingIntegrationService {
         studentName: `${booking.student.user.firstName} ${booking.student.user.lastName}`,
         teacherName: `${booking.teacher.user.firstName} ${booking.teacher.user.lastName}`,
         duration: booking.duration,
+        studentTimezone: booking.student.timezone,
+        teacherTimezone: booking.teacher.timezone,
       });
     }
   }
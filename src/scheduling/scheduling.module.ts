@@ -7,6 +7,13 @@ import {
   NotificationProcessor 
 } from './processors';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { NotificationModule } from '../notification/notification.module';
+import { EmailModule } from '../email/email.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { EarningsModule } from '../earnings/earnings.module';
+import { MeetingModule } from '../meeting/meeting.module';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { BookingPolicyModule } from '../booking-policy/booking-policy.module';
 import { SchedulingController } from './scheduling.controller';
 import { SchedulingService } from './scheduling.service';
 import { BookingStatusScheduler } from './booking-status.scheduler';
@@ -18,6 +25,13 @@ import { SchedulingIntegrationService } from './scheduling-integration.service';
   imports: [
     ScheduleModule.forRoot(),
     PrismaModule,
+    NotificationModule,
+    EmailModule,
+    RealtimeModule,
+    EarningsModule,
+    MeetingModule,
+    AttendanceModule,
+    BookingPolicyModule,
     BullModule.registerQueue({
       name: 'booking-status-queue',
     }),
@@ -1,13 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression, Interval } from '@nestjs/schedule';
 import { PrismaService } from '../common/prisma/prisma.service';
-import { BookingStatus, LessonStatus, UserRole } from '@prisma/client';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { EarningsService } from '../earnings/earnings.service';
+import { MeetingService } from '../meeting/meeting.service';
+import { BookingPolicyService } from '../booking-policy/booking-policy.service';
+import { consumePackageLesson } from '../booking/lesson-package-capacity';
+import {
+  BookingPolicyCase,
+  BookingStatus,
+  LessonStatus,
+  UserRole,
+} from '@prisma/client';
 
 @Injectable()
 export class SchedulingService {
   private readonly logger = new Logger(SchedulingService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationInboxService: NotificationInboxService,
+    private readonly realtimeService: RealtimeService,
+    private readonly earningsService: EarningsService,
+    private readonly meetingService: MeetingService,
+    private readonly bookingPolicyService: BookingPolicyService,
+  ) {}
 
   /**
    * Run every 5 minutes to check and update booking statuses
@@ -150,6 +168,10 @@ export class SchedulingService {
           notes: `${booking.notes || ''}\nMarked as no-show - student did not attend`,
         },
       });
+      await this.bookingPolicyService.applyNoShow(
+        booking.id,
+        BookingPolicyCase.STUDENT_NO_SHOW,
+      );
 
       this.logger.log(`Marked booking ${booking.id} as no-show`);
     }
@@ -233,7 +255,7 @@ export class SchedulingService {
       const lessonEndTime = new Date(lesson.scheduledAt);
       lessonEndTime.setMinutes(lessonEndTime.getMinutes() + lesson.duration);
       
-      await this.prisma.lesson.update({
+      const completedLesson = await this.prisma.lesson.update({
         where: { id: lesson.id },
         data: {
           status: LessonStatus.COMPLETED,
@@ -241,15 +263,20 @@ export class SchedulingService {
           notes: `${lesson.notes || ''}\nAuto-completed - lesson duration exceeded`,
         },
       });
+      this.realtimeService.lessonCompleted(completedLesson);
 
       // Update associated booking
       if (lesson.bookingId) {
-        await this.prisma.booking.update({
-          where: { id: lesson.bookingId },
-          data: {
-            status: BookingStatus.COMPLETED,
-          },
+        await this.prisma.$transaction(async (tx) => {
+          await tx.booking.update({
+            where: { id: lesson.bookingId },
+            data: {
+              status: BookingStatus.COMPLETED,
+            },
+          });
+          await consumePackageLesson(tx, lesson.bookingId);
         });
+        await this.earningsService.syncBooking(lesson.bookingId);
       }
 
       this.logger.log(`Auto-completed overdue lesson ${lesson.id}`);
@@ -279,6 +306,7 @@ export class SchedulingService {
           courseId: booking.courseId,
           scheduledAt: booking.scheduledAt,
           duration: booking.duration,
+          meetingUrl: this.meetingService.getRoom(booking.id).meetingUrl,
           status: LessonStatus.SCHEDULED,
           notes: 'Lesson created from confirmed booking',
         },
@@ -463,7 +491,7 @@ export class SchedulingService {
 
       // Update average rating
       const ratingResult = await this.prisma.review.aggregate({
-        where: { teacherId: teacher.id },
+        where: { teacherId: teacher.id, hiddenAt: null },
         _avg: { rating: true },
       });
 
@@ -523,19 +551,14 @@ export class SchedulingService {
     message: string;
     metadata?: any;
   }) {
-    // In a real implementation, this would save to a notifications table
-    // and send push notifications, emails, etc.
-    this.logger.debug(`Creating notification for user ${notificationData.userId}: ${notificationData.title}`);
-    
-    // For now, we'll create a simple log entry
-    // You could integrate with email service, push notification service, etc.
-    
-    return {
-      id: `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    this.logger.debug(
+      `Creating notification for user ${notificationData.userId}: ${notificationData.title}`,
+    );
+
+    return this.notificationInboxService.create({
       ...notificationData,
-      createdAt: new Date(),
-      isRead: false,
-    };
+      bookingId: notificationData.metadata?.bookingId ?? undefined,
+    });
   }
 
   /**
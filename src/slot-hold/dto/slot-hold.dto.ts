@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreateSlotHoldDto {
+  @ApiProperty({ example: 'cm3teacher123def456' })
+  @IsNotEmpty()
+  @IsString()
+  teacherId: string;
+
+  @ApiProperty({ example: '2026-03-03T12:00:00.000Z' })
+  @IsDateString()
+  scheduledAt: string;
+
+  @ApiPropertyOptional({ description: 'Lesson length in minutes', example: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  @Max(180)
+  duration?: number;
+}
@@ -0,0 +1,5 @@
+export * from './slot-hold.service';
+export * from './slot-hold.controller';
+export * from './slot-hold.module';
+export * from './dto';
+export * from './vm';
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SlotHoldService } from './slot-hold.service';
+import { CreateSlotHoldDto } from './dto';
+import { SlotHoldVm } from './vm';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/role.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ResponseMessage } from '../decorators/response-message.decorator';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+import { Role } from '../roles/role.enum';
+
+@ApiTags('Slot Holds')
+@Controller('slot-holds')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SlotHoldController {
+  constructor(private readonly slotHoldService: SlotHoldService) {}
+
+  @Post()
+  @Roles(Role.STUDENT)
+  @RateLimit('authenticated')
+  @ApiOperation({
+    summary: 'Hold a teacher time slot while booking',
+    description:
+      'The slot is reserved for 10 minutes. Only free slots within the teacher availability can be held, one at a time. Pass the hold ID as holdId when creating the booking.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Slot held successfully',
+    type: SlotHoldVm,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'The slot is taken, or the student is already holding another slot',
+  })
+  @ResponseMessage('Slot held successfully')
+  async create(
+    @Body() createDto: CreateSlotHoldDto,
+    @CurrentUser() user: any,
+  ): Promise<SlotHoldVm> {
+    return this.slotHoldService.create(createDto, user.id);
+  }
+
+  @Delete(':id')
+  @Roles(Role.STUDENT)
+  @ApiOperation({ summary: 'Release a slot hold' })
+  @ApiParam({ name: 'id', type: String, description: 'Slot hold ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Slot hold released successfully',
+  })
+  @ResponseMessage('Slot hold released successfully')
+  async release(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    return this.slotHoldService.releaseOwn(id, user.id);
+  }
+}
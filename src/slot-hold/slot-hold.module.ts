@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../common/prisma/prisma.module';
+import { SlotHoldController } from './slot-hold.controller';
+import { SlotHoldService } from './slot-hold.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [SlotHoldController],
+  providers: [SlotHoldService],
+  exports: [SlotHoldService],
+})
+export class SlotHoldModule {}
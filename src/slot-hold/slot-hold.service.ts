@@ -0,0 +1,368 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  BookingStatus,
+  Prisma,
+  SlotHold,
+  SlotHoldStatus,
+} from '@prisma/client';
+import { PrismaService } from '../common/prisma/prisma.service';
+import { resolveTimeZone } from '../common/timezone/timezone.util';
+import { isWithinAvailability } from '../teacherAvailability/availability-windows';
+import { CreateSlotHoldDto } from './dto';
+import { SlotHoldVm } from './vm';
+
+// Long enough for a checkout, short enough that an abandoned one frees the slot
+export const SLOT_HOLD_TTL_MINUTES = 10;
+
+// Slots a student may hold at once through the API
+export const MAX_ACTIVE_HOLDS_PER_HOLDER = 1;
+
+// Exclusion constraint on slot_holds, see the add_slot_holds migration
+const SLOT_HOLD_OVERLAP_CONSTRAINT = 'slot_holds_active_no_overlap';
+
+const SLOT_TAKEN_MESSAGE =
+  'This time slot is being booked by someone else, please choose another time or try again in a few minutes';
+
+export interface SlotHoldRequest {
+  teacherId: string;
+  startsAt: Date;
+  duration: number;
+  holderId?: string;
+  // Hold placed earlier by the holder, e.g. when checkout started
+  holdId?: string;
+  // Hold placed for this payment at checkout
+  paymentId?: string;
+  // Refuse the hold when the holder already has this many active holds
+  maxActivePerHolder?: number;
+}
+
+export interface SlotHoldLink {
+  bookingId?: string;
+  lessonId?: string;
+}
+
+/**
+ * Short-lived holds on a teacher's time. Booking and lesson creation first
+ * holds the slot, then checks for conflicts and creates the record, so two
+ * requests for the same slot cannot both pass the conflict check. The
+ * database refuses overlapping active holds of one teacher.
+ */
+@Injectable()
+export class SlotHoldService {
+  private readonly logger = new Logger(SlotHoldService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Hold a slot while the student completes checkout. Only bookable slots can
+   * be held, and a student holds one slot at a time.
+   */
+  async create(
+    createDto: CreateSlotHoldDto,
+    holderId: string,
+  ): Promise<SlotHoldVm> {
+    const startsAt = new Date(createDto.scheduledAt);
+    const duration = createDto.duration || 30;
+    if (startsAt <= new Date()) {
+      throw new BadRequestException('Slot must be in the future');
+    }
+
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: createDto.teacherId },
+      select: { id: true, timezone: true },
+    });
+    if (!teacher) {
+      throw new NotFoundException('Teacher not found');
+    }
+
+    const availabilities = await this.prisma.teacherAvailability.findMany({
+      where: { teacherId: teacher.id, isActive: true },
+    });
+    if (
+      !isWithinAvailability(
+        availabilities,
+        startsAt,
+        duration,
+        resolveTimeZone(teacher.timezone),
+      )
+    ) {
+      throw new BadRequestException(
+        'Requested time is outside teacher availability hours',
+      );
+    }
+
+    await this.checkBookingConflicts(teacher.id, holderId, startsAt, duration);
+
+    const hold = await this.hold({
+      teacherId: teacher.id,
+      startsAt,
+      duration,
+      holderId,
+      maxActivePerHolder: MAX_ACTIVE_HOLDS_PER_HOLDER,
+    });
+    return this.toSlotHoldVm(hold);
+  }
+
+  /**
+   * Hold the slot, or take over the hold named in the request when it still
+   * covers the same slot
+   */
+  async hold(request: SlotHoldRequest): Promise<SlotHold> {
+    const startsAt = new Date(request.startsAt);
+    const endsAt = new Date(startsAt.getTime() + request.duration * 60000);
+    const now = new Date();
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Expired holds count for the constraint until they are marked
+        await tx.slotHold.updateMany({
+          where: {
+            teacherId: request.teacherId,
+            status: SlotHoldStatus.ACTIVE,
+            expiresAt: { lte: now },
+          },
+          data: { status: SlotHoldStatus.EXPIRED, releasedReason: 'EXPIRED' },
+        });
+
+        // Taking over releases the earlier hold, so of two requests for the
+        // same hold only one gets it and the other conflicts with its new hold
+        const takeOver = request.holdId
+          ? { id: request.holdId, holderId: request.holderId }
+          : request.paymentId
+          ? { paymentId: request.paymentId }
+          : null;
+        if (takeOver) {
+          await tx.slotHold.updateMany({
+            where: {
+              ...takeOver,
+              teacherId: request.teacherId,
+              startsAt,
+              endsAt,
+              status: SlotHoldStatus.ACTIVE,
+            },
+            data: {
+              status: SlotHoldStatus.RELEASED,
+              releasedReason: 'CLAIMED',
+            },
+          });
+        }
+
+        if (request.maxActivePerHolder) {
+          const activeHolds = await tx.slotHold.count({
+            where: {
+              holderId: request.holderId,
+              status: SlotHoldStatus.ACTIVE,
+              expiresAt: { gt: now },
+            },
+          });
+          if (activeHolds >= request.maxActivePerHolder) {
+            throw new ConflictException(
+              'You are already holding a time slot, book it or release it first',
+            );
+          }
+        }
+
+        const conflicting = await tx.slotHold.findFirst({
+          where: {
+            teacherId: request.teacherId,
+            status: SlotHoldStatus.ACTIVE,
+            startsAt: { lt: endsAt },
+            endsAt: { gt: startsAt },
+          },
+          select: { id: true },
+        });
+        if (conflicting) {
+          throw new ConflictException(SLOT_TAKEN_MESSAGE);
+        }
+
+        return tx.slotHold.create({
+          data: {
+            teacherId: request.teacherId,
+            holderId: request.holderId,
+            startsAt,
+            endsAt,
+            expiresAt: new Date(now.getTime() + SLOT_HOLD_TTL_MINUTES * 60000),
+            paymentId: request.paymentId,
+          },
+        });
+      });
+    } catch (error) {
+      // A concurrent hold committed between the check and the insert
+      if (this.isOverlapViolation(error)) {
+        throw new ConflictException(SLOT_TAKEN_MESSAGE);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Hold every slot or none
+   */
+  async holdAll(requests: SlotHoldRequest[]): Promise<SlotHold[]> {
+    const holds: SlotHold[] = [];
+    try {
+      for (const request of requests) {
+        holds.push(await this.hold(request));
+      }
+    } catch (error) {
+      await this.releaseAll(holds, 'FAILED');
+      throw error;
+    }
+    return holds;
+  }
+
+  /**
+   * Run `create` while holding the slot. The hold is converted to the created
+   * record on success and released on failure.
+   */
+  async withHold<T>(
+    request: SlotHoldRequest,
+    create: () => Promise<T>,
+    link: (result: T) => SlotHoldLink,
+  ): Promise<T> {
+    const hold = await this.hold(request);
+
+    let result: T;
+    try {
+      result = await create();
+    } catch (error) {
+      await this.release(hold.id, 'FAILED');
+      throw error;
+    }
+
+    await this.convert(hold.id, link(result));
+    return result;
+  }
+
+  async attachPayment(holdId: string, paymentId: string): Promise<void> {
+    await this.prisma.slotHold.updateMany({
+      where: { id: holdId, status: SlotHoldStatus.ACTIVE },
+      data: { paymentId },
+    });
+  }
+
+  async convert(holdId: string, link: SlotHoldLink): Promise<void> {
+    const { count } = await this.prisma.slotHold.updateMany({
+      where: { id: holdId, status: SlotHoldStatus.ACTIVE },
+      data: { status: SlotHoldStatus.CONVERTED, ...link },
+    });
+
+    if (count === 0) {
+      this.logger.warn(`Slot hold ${holdId} ended before it was converted`);
+    }
+  }
+
+  async release(holdId: string, reason: string): Promise<void> {
+    await this.prisma.slotHold.updateMany({
+      where: { id: holdId, status: SlotHoldStatus.ACTIVE },
+      data: { status: SlotHoldStatus.RELEASED, releasedReason: reason },
+    });
+  }
+
+  async releaseAll(holds: SlotHold[], reason: string): Promise<void> {
+    for (const hold of holds) {
+      await this.release(hold.id, reason);
+    }
+  }
+
+  async releaseOwn(holdId: string, holderId: string): Promise<void> {
+    const hold = await this.prisma.slotHold.findUnique({
+      where: { id: holdId },
+    });
+
+    if (!hold) {
+      throw new NotFoundException('Slot hold not found');
+    }
+    if (hold.holderId !== holderId) {
+      throw new ForbiddenException('You can only release your own holds');
+    }
+
+    await this.release(holdId, 'RELEASED_BY_HOLDER');
+  }
+
+  async releaseForPayment(paymentId: string, reason: string): Promise<void> {
+    const { count } = await this.prisma.slotHold.updateMany({
+      where: { paymentId, status: SlotHoldStatus.ACTIVE },
+      data: { status: SlotHoldStatus.RELEASED, releasedReason: reason },
+    });
+
+    if (count > 0) {
+      this.logger.log(
+        `Released ${count} slot hold(s) of payment ${paymentId}: ${reason}`,
+      );
+    }
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireHolds(): Promise<void> {
+    const { count } = await this.prisma.slotHold.updateMany({
+      where: { status: SlotHoldStatus.ACTIVE, expiresAt: { lte: new Date() } },
+      data: { status: SlotHoldStatus.EXPIRED, releasedReason: 'EXPIRED' },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Expired ${count} slot hold(s)`);
+    }
+  }
+
+  /**
+   * Booked lessons of the teacher or the holder overlapping the slot
+   */
+  private async checkBookingConflicts(
+    teacherId: string,
+    holderId: string,
+    startsAt: Date,
+    duration: number,
+  ): Promise<void> {
+    const endsAt = new Date(startsAt.getTime() + duration * 60000);
+    const bookings = await this.prisma.booking.findMany({
+      where: {
+        OR: [{ teacherId }, { studentId: holderId }],
+        status: { in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+        scheduledAt: { lt: endsAt },
+      },
+      select: { scheduledAt: true, duration: true, teacherId: true },
+    });
+
+    const overlapping = bookings.find(
+      (booking) =>
+        booking.scheduledAt.getTime() + booking.duration * 60000 >
+        startsAt.getTime(),
+    );
+    if (overlapping) {
+      throw new ConflictException(
+        overlapping.teacherId === teacherId
+          ? 'Teacher already has a booking at this time'
+          : 'You already have a booking at this time',
+      );
+    }
+  }
+
+  private isOverlapViolation(error: any): boolean {
+    return (
+      (error instanceof Prisma.PrismaClientKnownRequestError ||
+        error instanceof Prisma.PrismaClientUnknownRequestError) &&
+      error.message.includes(SLOT_HOLD_OVERLAP_CONSTRAINT)
+    );
+  }
+
+  private toSlotHoldVm(hold: SlotHold): SlotHoldVm {
+    return {
+      id: hold.id,
+      teacherId: hold.teacherId,
+      startsAt: hold.startsAt,
+      endsAt: hold.endsAt,
+      expiresAt: hold.expiresAt,
+      status: hold.status,
+      bookingId: hold.bookingId,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AvailabilityType, Prisma, SlotHoldStatus } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { SlotHoldService } from '../slot-hold.service';
+
+describe('SlotHoldService', () => {
+  let service: SlotHoldService;
+
+  const mockPrismaService = {
+    slotHold: {
+      updateMany: jest.fn<any>(),
+      findFirst: jest.fn<any>(),
+      count: jest.fn<any>(),
+      create: jest.fn<any>(),
+    },
+    teacher: { findUnique: jest.fn<any>() },
+    teacherAvailability: { findMany: jest.fn<any>() },
+    booking: { findMany: jest.fn<any>() },
+    $transaction: jest.fn<any>(),
+  };
+
+  const startsAt = new Date('2030-03-04T03:00:00.000Z');
+  const endsAt = new Date('2030-03-04T03:30:00.000Z');
+  const request = { teacherId: 'teacher-id', startsAt, duration: 30 };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((run: any) =>
+      run(mockPrismaService),
+    );
+    mockPrismaService.slotHold.updateMany.mockResolvedValue({ count: 0 });
+    mockPrismaService.slotHold.findFirst.mockResolvedValue(null);
+    mockPrismaService.slotHold.count.mockResolvedValue(0);
+    mockPrismaService.slotHold.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({
+        id: 'hold-id',
+        status: SlotHoldStatus.ACTIVE,
+        ...data,
+      }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotHoldService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<SlotHoldService>(SlotHoldService);
+  });
+
+  describe('hold', () => {
+    it('should hold a free slot for ten minutes', async () => {
+      const before = Date.now();
+
+      const hold = await service.hold({ ...request, holderId: 'student-id' });
+
+      expect(hold).toMatchObject({ startsAt, endsAt, holderId: 'student-id' });
+      expect(hold.expiresAt.getTime() - before).toBeGreaterThanOrEqual(
+        10 * 60000,
+      );
+    });
+
+    it('should mark expired holds of the teacher first', async () => {
+      await service.hold(request);
+
+      expect(mockPrismaService.slotHold.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            teacherId: 'teacher-id',
+            status: SlotHoldStatus.ACTIVE,
+          }),
+          data: { status: SlotHoldStatus.EXPIRED, releasedReason: 'EXPIRED' },
+        }),
+      );
+    });
+
+    it('should look for active holds overlapping the slot', async () => {
+      await service.hold(request);
+
+      expect(mockPrismaService.slotHold.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            teacherId: 'teacher-id',
+            status: SlotHoldStatus.ACTIVE,
+            startsAt: { lt: endsAt },
+            endsAt: { gt: startsAt },
+          },
+        }),
+      );
+    });
+
+    it('should refuse a slot overlapping another active hold', async () => {
+      mockPrismaService.slotHold.findFirst.mockResolvedValue({ id: 'other' });
+
+      await expect(service.hold(request)).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.slotHold.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a hold committed concurrently as a conflict', async () => {
+      mockPrismaService.$transaction.mockRejectedValue(
+        new Prisma.PrismaClientUnknownRequestError(
+          'violates exclusion constraint "slot_holds_active_no_overlap"',
+          { clientVersion: 'test' },
+        ),
+      );
+
+      await expect(service.hold(request)).rejects.toThrow(ConflictException);
+    });
+
+    it('should take over the own hold named in the request', async () => {
+      await service.hold({
+        ...request,
+        holderId: 'student-id',
+        holdId: 'earlier-hold',
+      });
+
+      expect(mockPrismaService.slotHold.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'earlier-hold',
+          holderId: 'student-id',
+          teacherId: 'teacher-id',
+          startsAt,
+          endsAt,
+          status: SlotHoldStatus.ACTIVE,
+        },
+        data: { status: SlotHoldStatus.RELEASED, releasedReason: 'CLAIMED' },
+      });
+    });
+
+    it('should take over the hold placed for the payment', async () => {
+      await service.hold({ ...request, paymentId: 'payment-id' });
+
+      expect(mockPrismaService.slotHold.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ paymentId: 'payment-id' }),
+          data: { status: SlotHoldStatus.RELEASED, releasedReason: 'CLAIMED' },
+        }),
+      );
+    });
+
+    it('should refuse holders over their active hold limit', async () => {
+      mockPrismaService.slotHold.count.mockResolvedValue(1);
+
+      await expect(
+        service.hold({
+          ...request,
+          holderId: 'student-id',
+          maxActivePerHolder: 1,
+        }),
+      ).rejects.toThrow('You are already holding a time slot');
+    });
+  });
+
+  describe('create', () => {
+    // Monday 09:00-12:00 in Hanoi, the slot starts at 10:00
+    const availability = {
+      type: AvailabilityType.REGULAR,
+      dayOfWeek: 1,
+      startTime: '09:00',
+      endTime: '12:00',
+      isActive: true,
+      date: null,
+      endDate: null,
+    };
+    const createDto = {
+      teacherId: 'teacher-id',
+      scheduledAt: startsAt.toISOString(),
+      duration: 30,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.teacher.findUnique.mockResolvedValue({
+        id: 'teacher-id',
+        timezone: 'Asia/Ho_Chi_Minh',
+      });
+      mockPrismaService.teacherAvailability.findMany.mockResolvedValue([
+        availability,
+      ]);
+      mockPrismaService.booking.findMany.mockResolvedValue([]);
+    });
+
+    it('should hold a bookable slot, one per student', async () => {
+      const hold = await service.create(createDto, 'student-id');
+
+      expect(hold.id).toBe('hold-id');
+      expect(mockPrismaService.slotHold.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ holderId: 'student-id' }),
+      });
+    });
+
+    it('should refuse slots in the past', async () => {
+      await expect(
+        service.create(
+          { ...createDto, scheduledAt: '2020-01-01T00:00:00.000Z' },
+          'student-id',
+        ),
+      ).rejects.toThrow('Slot must be in the future');
+    });
+
+    it('should refuse slots outside the teacher availability', async () => {
+      mockPrismaService.teacherAvailability.findMany.mockResolvedValue([
+        { ...availability, startTime: '13:00', endTime: '17:00' },
+      ]);
+
+      await expect(service.create(createDto, 'student-id')).rejects.toThrow(
+        'outside teacher availability',
+      );
+      expect(mockPrismaService.slotHold.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse slots overlapping a booked lesson', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([
+        {
+          scheduledAt: new Date('2030-03-04T02:45:00.000Z'),
+          duration: 30,
+          teacherId: 'teacher-id',
+        },
+      ]);
+
+      await expect(service.create(createDto, 'student-id')).rejects.toThrow(
+        'Teacher already has a booking at this time',
+      );
+    });
+
+    it('should allow a slot starting when the previous lesson ends', async () => {
+      mockPrismaService.booking.findMany.mockResolvedValue([
+        {
+          scheduledAt: new Date('2030-03-04T02:30:00.000Z'),
+          duration: 30,
+          teacherId: 'teacher-id',
+        },
+      ]);
+
+      await expect(
+        service.create(createDto, 'student-id'),
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('withHold', () => {
+    it('should convert the hold to the created record', async () => {
+      const booking = await service.withHold(
+        request,
+        async () => ({ id: 'booking-id' }),
+        (created) => ({ bookingId: created.id }),
+      );
+
+      expect(booking.id).toBe('booking-id');
+      expect(mockPrismaService.slotHold.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'hold-id', status: SlotHoldStatus.ACTIVE },
+        data: { status: SlotHoldStatus.CONVERTED, bookingId: 'booking-id' },
+      });
+    });
+
+    it('should release the hold when creating fails', async () => {
+      await expect(
+        service.withHold(
+          request,
+          async () => {
+            throw new ConflictException('Teacher already has a booking');
+          },
+          () => ({}),
+        ),
+      ).rejects.toThrow('Teacher already has a booking');
+
+      expect(mockPrismaService.slotHold.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'hold-id', status: SlotHoldStatus.ACTIVE },
+        data: { status: SlotHoldStatus.RELEASED, releasedReason: 'FAILED' },
+      });
+    });
+  });
+});
@@ -0,0 +1 @@
+export * from './slot-hold.vm';
@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SlotHoldStatus } from '@prisma/client';
+
+export class SlotHoldVm {
+  @ApiProperty({ example: 'clk123456789' })
+  id: string;
+
+  @ApiProperty({ example: 'cm3teacher123def456' })
+  teacherId: string;
+
+  @ApiProperty()
+  startsAt: Date;
+
+  @ApiProperty()
+  endsAt: Date;
+
+  @ApiProperty({ description: 'The slot is released after this time' })
+  expiresAt: Date;
+
+  @ApiProperty({ enum: SlotHoldStatus, example: SlotHoldStatus.ACTIVE })
+  status: SlotHoldStatus;
+
+  @ApiPropertyOptional()
+  bookingId?: string;
+}
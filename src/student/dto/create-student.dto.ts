@@ -1,4 +1,11 @@
-import { IsEmail, IsString, IsOptional, IsEnum, MinLength } from 'class-validator';
+import {
+  IsEmail,
+  IsString,
+  IsOptional,
+  IsEnum,
+  MinLength,
+  IsTimeZone,
+} from 'class-validator';
 import { EnglishLevel } from '@prisma/client';
 
 export class CreateStudentDto {
@@ -32,6 +39,6 @@ export class CreateStudentDto {
   learningGoals?: string;
 
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 }
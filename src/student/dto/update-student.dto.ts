@@ -1,4 +1,4 @@
-import { IsOptional, IsString, IsEnum } from 'class-validator';
+import { IsOptional, IsString, IsEnum, IsTimeZone } from 'class-validator';
 import { EnglishLevel } from '@prisma/client';
 
 export class UpdateStudentDto {
@@ -27,6 +27,6 @@ export class UpdateStudentDto {
   learningGoals?: string;
 
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 }
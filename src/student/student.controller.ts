@@ -25,7 +25,11 @@ import { Public } from '../decorators/public.decorator';
 import { ResponseMessage } from '../decorators/response-message.decorator';
 import { TeacherService } from '../teacher/teacher.service';
 import { SearchTeacherDto } from '../teacher/dto/search-teacher.dto';
-import { TeacherVm, TeacherSearchResultVm } from '../teacher/vm/teacher.vm';
+import {
+  TeacherVm,
+  TeacherSearchResultVm,
+  SavedTeacherVm,
+} from '../teacher/vm/teacher.vm';
 import { PaymentService } from '../payment/payment.service';
 import { TeacherPackagesVm } from '../payment/vm';
 
@@ -89,8 +93,21 @@ export class StudentController {
     type: [TeacherVm],
   })
   @ResponseMessage('Recommended teachers retrieved successfully')
-  async getRecommendedTeachers(@CurrentUser('sub') userId: string): Promise<TeacherVm[]> {
-    return this.studentService.getRecommendedTeachers(userId);
+  async getRecommendedTeachers(@CurrentUser() user: any): Promise<TeacherVm[]> {
+    return this.studentService.getRecommendedTeachers(user.id);
+  }
+
+  @Get('saved-teachers')
+  @Roles(Role.STUDENT)
+  @ApiOperation({ summary: 'Get teachers saved by the current student' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Saved teachers, most recently saved first',
+    type: [SavedTeacherVm],
+  })
+  @ResponseMessage('Saved teachers retrieved successfully')
+  async getSavedTeachers(@CurrentUser() user: any): Promise<SavedTeacherVm[]> {
+    return this.teacherService.getSavedTeachers(user.id);
   }
 
   @Get('teachers/:teacherId')
@@ -181,13 +198,8 @@ export class StudentController {
   @ResponseMessage('Teacher lesson packages retrieved successfully')
   async getTeacherLessonPackages(
     @Param('teacherId') teacherId: string,
-  ): Promise<any> {
-    // TODO: Implement teacher packages functionality with MoMo payment
-    return {
-      teacherId,
-      packages: [],
-      message: 'Teacher packages functionality will be implemented soon'
-    };
+  ): Promise<TeacherPackagesVm> {
+    return this.paymentService.getTeacherPackages(teacherId);
   }
 
   @Get(':id')
@@ -2,13 +2,13 @@ import { Module } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { StudentController } from './student.controller';
 import { StudentService } from './student.service';
-import { TeacherService } from '../teacher/teacher.service';
+import { TeacherModule } from '../teacher/teacher.module';
 import { PaymentModule } from '../payment/payment.module';
 
 @Module({
-  imports: [PaymentModule],
+  imports: [PaymentModule, TeacherModule],
   controllers: [StudentController],
-  providers: [StudentService, TeacherService, PrismaService],
+  providers: [StudentService, PrismaService],
   exports: [StudentService],
 })
 export class StudentModule {}
@@ -353,14 +353,25 @@ export class StudentService {
       throw new NotFoundException('Student not found');
     }
 
+    const savedTeachers = await this.prisma.savedTeacher.findMany({
+      where: { studentId: userId },
+      select: { teacherId: true },
+    });
+    const savedTeacherIds = new Set(
+      savedTeachers.map((saved) => saved.teacherId),
+    );
+
     // Get teachers based on student's English level and learning goals
     const teachers = await this.prisma.teacher.findMany({
       where: {
         status: 'APPROVED',
         isLive: true,
         user: { isActive: true },
-        // Recommend teachers with good ratings
-        averageRating: { gte: 4.0 },
+        // Recommend teachers with good ratings, plus the ones the student saved
+        OR: [
+          { averageRating: { gte: 4.0 } },
+          { id: { in: [...savedTeacherIds] } },
+        ],
       },
       include: {
         user: true,
@@ -368,6 +379,7 @@ export class StudentService {
           where: { isActive: true },
         },
         reviews: {
+          where: { hiddenAt: null },
           take: 3,
           orderBy: { createdAt: 'desc' },
           include: {
@@ -385,12 +397,19 @@ export class StudentService {
         { averageRating: 'desc' },
         { totalLessons: 'desc' },
       ],
-      take: 10,
+      take: 10 + savedTeacherIds.size,
     });
 
-    return teachers.map(teacher => ({
+    // Saved teachers come first, the best rated fill the rest
+    const recommended = [
+      ...teachers.filter((teacher) => savedTeacherIds.has(teacher.id)),
+      ...teachers.filter((teacher) => !savedTeacherIds.has(teacher.id)),
+    ].slice(0, 10);
+
+    return recommended.map((teacher) => ({
       id: teacher.id,
       teacherId: teacher.id, // Use teacher.id directly instead of userId
+      isSaved: savedTeacherIds.has(teacher.id),
       fullName: `${teacher.user.firstName} ${teacher.user.lastName}`,
       avatar: teacher.user.avatar,
       bio: teacher.bio,
@@ -12,6 +12,7 @@ import {
   Min,
   Max,
   IsPositive,
+  IsTimeZone,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -88,7 +89,7 @@ export class CreateTeacherDto {
     default: 'Asia/Ho_Chi_Minh',
   })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 
   @ApiPropertyOptional({
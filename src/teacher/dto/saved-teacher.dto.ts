@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class SaveTeacherDto {
+  @ApiPropertyOptional({
+    description: 'Notify me when this teacher opens new slots',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyOnNewSlots?: boolean;
+}
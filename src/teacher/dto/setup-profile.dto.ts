@@ -13,6 +13,7 @@ import {
   MinLength,
   MaxLength,
   IsBoolean,
+  IsTimeZone,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -90,7 +91,7 @@ export class SetupTeacherProfileDto {
     default: 'Asia/Ho_Chi_Minh',
   })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 
   @ApiProperty({
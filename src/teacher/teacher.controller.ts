@@ -40,7 +40,12 @@ import {
   TeacherRateVm,
   AvailabilityAndRatesVm,
   TeacherOnboardingStatusVm,
+  SavedTeacherVm,
 } from './vm/teacher.vm';
+import { SaveTeacherDto } from './dto/saved-teacher.dto';
+import { EarningsService } from '../earnings/earnings.service';
+import { EarningsStatementQueryDto } from '../earnings/dto';
+import { EarningsStatementVm } from '../earnings/vm';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/role.guard';
 import { Roles } from '../decorators/roles.decorator';
@@ -52,7 +57,10 @@ import { Role } from '../roles/role.enum';
 @ApiTags('Teachers')
 @Controller('teachers')
 export class TeacherController {
-  constructor(private readonly teacherService: TeacherService) {}
+  constructor(
+    private readonly teacherService: TeacherService,
+    private readonly earningsService: EarningsService,
+  ) {}
 
   @Post()
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -171,6 +179,27 @@ export class TeacherController {
     return this.teacherService.getTeacherStats(teacher.id);
   }
 
+  @Get('me/earnings')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.TEACHER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get current teacher earnings statement',
+    description:
+      'Balance by status, totals for the period, lesson entries and recent payouts',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Earnings statement',
+    type: EarningsStatementVm,
+  })
+  async getMyEarnings(
+    @CurrentUser() user: any,
+    @Query() query: EarningsStatementQueryDto,
+  ): Promise<EarningsStatementVm> {
+    return this.earningsService.getStatement(user.id, query);
+  }
+
   @Get(':id')
   @Public()
   @ApiOperation({ 
@@ -780,19 +809,34 @@ export class TeacherController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Teacher saved successfully',
+    type: SavedTeacherVm,
   })
   async saveTeacher(
     @Param('id') teacherId: string,
     @CurrentUser() user: any,
-  ): Promise<{ message: string; teacherId: string }> {
-    // For now, we'll just return a success message
-    // In a full implementation, this would save to a favorites table
-    const teacher = await this.teacherService.findOne(teacherId);
-    
-    return {
-      message: `Teacher ${teacher.fullName} saved for later consideration`,
-      teacherId,
-    };
+    @Body() saveTeacherDto: SaveTeacherDto,
+  ): Promise<SavedTeacherVm> {
+    return this.teacherService.saveTeacher(teacherId, user.id, saveTeacherDto);
+  }
+
+  @Delete(':id/save')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.STUDENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove teacher from saved list' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Teacher removed from saved list',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Teacher is not in the saved list',
+  })
+  async unsaveTeacher(
+    @Param('id') teacherId: string,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    return this.teacherService.unsaveTeacher(teacherId, user.id);
   }
 
   @Get('by-specialty/:specialty')
@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { TeacherService } from './teacher.service';
 import { TeacherController } from './teacher.controller';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+import { EarningsModule } from '../earnings/earnings.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, EmailModule, EarningsModule],
   controllers: [TeacherController],
   providers: [TeacherService],
   exports: [TeacherService],
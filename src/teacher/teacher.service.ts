@@ -4,8 +4,20 @@ import {
   BadRequestException,
   ConflictException,
   ForbiddenException,
+  Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import {
+  AvailabilityInterval,
+  getAvailabilityIntervals,
+} from '../teacherAvailability/availability-windows';
+import {
+  eachDay,
+  getZonedDayRange,
+  getZonedParts,
+  resolveTimeZone,
+} from '../common/timezone/timezone.util';
 import { CreateTeacherDto } from './dto/create-teacher.dto';
 import { UpdateTeacherDto } from './dto/update-teacher.dto';
 import { SearchTeacherDto } from './dto/search-teacher.dto';
@@ -30,7 +42,9 @@ import {
   AvailabilityAndRatesVm,
   TeacherOnboardingStatusVm,
   EnhancedTeacherAvailabilityVm,
+  SavedTeacherVm,
 } from './vm/teacher.vm';
+import { SaveTeacherDto } from './dto/saved-teacher.dto';
 import { 
   Teacher, 
   User, 
@@ -42,7 +56,12 @@ import {
 
 @Injectable()
 export class TeacherService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(TeacherService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailService: EmailService,
+  ) {}
 
   private toTeacherVm(teacher: Teacher & { user: User }): TeacherVm {
     return {
@@ -424,6 +443,7 @@ export class TeacherService {
     
     if (availableOnDay !== undefined || availableAtTime) {
       const availabilityWhere: any = {
+        type: AvailabilityType.REGULAR,
         isActive: true,
       };
       
@@ -476,6 +496,7 @@ export class TeacherService {
             orderBy: { type: 'asc' },
           },
           reviews: {
+            where: { hiddenAt: null },
             take: 5,
             orderBy: { createdAt: 'desc' },
             include: {
@@ -606,33 +627,35 @@ export class TeacherService {
     }
 
     // Check for overlapping availability
-    const existingAvailability = await this.prisma.teacherAvailability.findFirst({
-      where: {
-        teacherId,
-        dayOfWeek: createAvailabilityDto.dayOfWeek,
-        isActive: true,
-        OR: [
-          {
-            AND: [
-              { startTime: { lte: createAvailabilityDto.startTime } },
-              { endTime: { gt: createAvailabilityDto.startTime } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { lt: createAvailabilityDto.endTime } },
-              { endTime: { gte: createAvailabilityDto.endTime } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { gte: createAvailabilityDto.startTime } },
-              { endTime: { lte: createAvailabilityDto.endTime } },
-            ],
-          },
-        ],
-      },
-    });
+    const existingAvailability =
+      await this.prisma.teacherAvailability.findFirst({
+        where: {
+          teacherId,
+          dayOfWeek: createAvailabilityDto.dayOfWeek,
+          type: AvailabilityType.REGULAR,
+          isActive: true,
+          OR: [
+            {
+              AND: [
+                { startTime: { lte: createAvailabilityDto.startTime } },
+                { endTime: { gt: createAvailabilityDto.startTime } },
+              ],
+            },
+            {
+              AND: [
+                { startTime: { lt: createAvailabilityDto.endTime } },
+                { endTime: { gte: createAvailabilityDto.endTime } },
+              ],
+            },
+            {
+              AND: [
+                { startTime: { gte: createAvailabilityDto.startTime } },
+                { endTime: { lte: createAvailabilityDto.endTime } },
+              ],
+            },
+          ],
+        },
+      });
 
     if (existingAvailability) {
       throw new ConflictException('Availability overlaps with existing schedule');
@@ -784,7 +807,7 @@ export class TeacherService {
 
   async updateTeacherRating(teacherId: string): Promise<void> {
     const reviews = await this.prisma.review.findMany({
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
     });
 
     if (reviews.length === 0) {
@@ -803,6 +826,76 @@ export class TeacherService {
     });
   }
 
+  // Saved Teachers
+  async saveTeacher(
+    teacherId: string,
+    studentId: string,
+    saveDto: SaveTeacherDto = {},
+  ): Promise<SavedTeacherVm> {
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: teacherId },
+      include: { user: true },
+    });
+
+    if (!teacher) {
+      throw new NotFoundException(`Teacher with ID ${teacherId} not found`);
+    }
+
+    const student = await this.prisma.student.findUnique({
+      where: { id: studentId },
+      select: { id: true },
+    });
+
+    if (!student) {
+      throw new ForbiddenException('Only students can save teachers');
+    }
+
+    // Saving again only updates the notification preference
+    const savedTeacher = await this.prisma.savedTeacher.upsert({
+      where: { studentId_teacherId: { studentId, teacherId } },
+      create: {
+        studentId,
+        teacherId,
+        notifyOnNewSlots: saveDto.notifyOnNewSlots ?? false,
+      },
+      update: {
+        ...(saveDto.notifyOnNewSlots !== undefined && {
+          notifyOnNewSlots: saveDto.notifyOnNewSlots,
+        }),
+      },
+    });
+
+    return {
+      teacher: this.toTeacherVm(teacher),
+      notifyOnNewSlots: savedTeacher.notifyOnNewSlots,
+      savedAt: savedTeacher.createdAt,
+    };
+  }
+
+  async unsaveTeacher(teacherId: string, studentId: string): Promise<void> {
+    const { count } = await this.prisma.savedTeacher.deleteMany({
+      where: { studentId, teacherId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Teacher is not in your saved list');
+    }
+  }
+
+  async getSavedTeachers(studentId: string): Promise<SavedTeacherVm[]> {
+    const savedTeachers = await this.prisma.savedTeacher.findMany({
+      where: { studentId },
+      include: { teacher: { include: { user: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return savedTeachers.map((savedTeacher) => ({
+      teacher: this.toTeacherVm(savedTeacher.teacher),
+      notifyOnNewSlots: savedTeacher.notifyOnNewSlots,
+      savedAt: savedTeacher.createdAt,
+    }));
+  }
+
   // Course Management
   async createCourse(teacherId: string, createCourseDto: CreateCourseDto): Promise<Course> {
     const teacher = await this.prisma.teacher.findUnique({
@@ -1147,9 +1240,39 @@ export class TeacherService {
       },
     });
 
+    await this.sendVerificationResultEmail(
+      updatedTeacher,
+      status,
+      reviewDto.reviewNotes,
+    );
+
     return this.toTeacherVm(updatedTeacher);
   }
 
+  private async sendVerificationResultEmail(
+    teacher: Teacher & { user: User },
+    status: TeacherStatus,
+    reviewNotes?: string,
+  ): Promise<void> {
+    try {
+      await this.emailService.sendTemplate({
+        to: teacher.user.email,
+        template: 'verification-result',
+        data: {
+          teacherName: `${teacher.user.firstName} ${teacher.user.lastName}`,
+          approved: status === TeacherStatus.APPROVED,
+          reviewNotes,
+          dashboardUrl: `${process.env.FRONTEND_URL}/teacher/onboarding`,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification result email to teacher ${teacher.id}:`,
+        error,
+      );
+    }
+  }
+
   async resubmitVerification(
     userId: string,
     verificationDto: SubmitVerificationDto,
@@ -1647,16 +1770,28 @@ export class TeacherService {
       throw new BadRequestException('Teacher is not currently accepting bookings');
     }
 
-    // Calculate available slots based on availability and existing bookings
-    const start = startDate ? new Date(startDate) : new Date();
-    const end = endDate ? new Date(endDate) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days from now
-
-    const availableSlots = await this.calculateAvailableSlots(teacher as any, start, end);
+    // Calculate available slots based on availability and existing bookings,
+    // reading the requested dates as days of the teacher's calendar
+    const timezone = resolveTimeZone(teacher.timezone);
+    const start = startDate
+      ? getZonedDayRange(startDate.split('T')[0], timezone).start
+      : new Date();
+    const end = endDate
+      ? getZonedDayRange(endDate.split('T')[0], timezone).end
+      : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days from now
+
+    const availableSlots = await this.calculateAvailableSlots(
+      teacher as any,
+      start,
+      end,
+      timezone,
+    );
 
     return {
       teacherId,
-      startDate: start.toISOString().split('T')[0],
-      endDate: end.toISOString().split('T')[0],
+      timezone,
+      startDate: getZonedParts(start, timezone).date,
+      endDate: getZonedParts(new Date(end.getTime() - 1), timezone).date,
       slots: availableSlots,
       advanceNoticeHours: (teacher as any).advanceNoticeHours || 24,
       maxAdvanceBookingHours: (teacher as any).maxAdvanceBookingHours || 720,
@@ -1664,7 +1799,12 @@ export class TeacherService {
     };
   }
 
-  private async calculateAvailableSlots(teacher: any, startDate: Date, endDate: Date): Promise<any[]> {
+  private async calculateAvailableSlots(
+    teacher: any,
+    startDate: Date,
+    endDate: Date,
+    timezone: string,
+  ): Promise<any[]> {
     const slots: any[] = [];
     const availabilities = teacher.availabilities || [];
 
@@ -1682,13 +1822,30 @@ export class TeacherService {
       },
     });
 
-    // Generate slots for each day in the range
-    for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-      const dayOfWeek = d.getDay();
-      const dayAvailabilities = availabilities.filter((avail: any) => avail.dayOfWeek === dayOfWeek);
+    // Generate slots for each day of the teacher's calendar in the range
+    const days = eachDay(
+      getZonedParts(startDate, timezone).date,
+      getZonedParts(endDate, timezone).date,
+    );
+
+    for (const day of days) {
+      const dayAvailabilities = getAvailabilityIntervals(
+        availabilities,
+        day,
+        timezone,
+      );
 
       for (const availability of dayAvailabilities) {
-        const daySlots = this.generateSlotsForDay(d, availability, existingBookings, teacher);
+        const daySlots = this.generateSlotsForDay(
+          availability,
+          existingBookings,
+          teacher,
+          timezone,
+        ).filter(
+          (slot) =>
+            new Date(slot.startTime) >= startDate &&
+            new Date(slot.startTime) < endDate,
+        );
         slots.push(...daySlots);
       }
     }
@@ -1696,16 +1853,15 @@ export class TeacherService {
     return slots.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
   }
 
-  private generateSlotsForDay(date: Date, availability: any, existingBookings: any[], teacher: any): any[] {
+  private generateSlotsForDay(
+    availability: AvailabilityInterval,
+    existingBookings: any[],
+    teacher: any,
+    timezone: string,
+  ): any[] {
     const slots: any[] = [];
-    const [startHour, startMinute] = availability.startTime.split(':').map(Number);
-    const [endHour, endMinute] = availability.endTime.split(':').map(Number);
-
-    const slotStartTime = new Date(date);
-    slotStartTime.setHours(startHour, startMinute, 0, 0);
-
-    const slotEndTime = new Date(date);
-    slotEndTime.setHours(endHour, endMinute, 0, 0);
+    const slotStartTime = availability.start;
+    const slotEndTime = availability.end;
 
     // Check if slot is in the future considering advance notice
     const now = new Date();
@@ -1721,9 +1877,12 @@ export class TeacherService {
 
       // Check if slot is available
       if (slotStart >= minBookingTime && !this.isSlotBooked(slotStart, slotEnd, existingBookings)) {
+        const local = getZonedParts(slotStart, timezone);
         slots.push({
           startTime: slotStart.toISOString(),
           endTime: slotEnd.toISOString(),
+          localDate: local.date,
+          localStartTime: local.time,
           available: true,
           duration: 30, // minutes
         });
@@ -1808,7 +1967,7 @@ export class TeacherService {
 
   async getTeacherRecentReviews(teacherId: string, limit: number = 5): Promise<any[]> {
     const reviews = await this.prisma.review.findMany({
-      where: { teacherId },
+      where: { teacherId, hiddenAt: null },
       include: {
         student: {
           select: {
@@ -2059,6 +2218,31 @@ export class TeacherService {
       });
     }
 
+    // Option 2b: Buy a lesson package
+    if (interestInfo.actionOptions.canBookRegularLesson) {
+      options.push({
+        action: 'BUY_LESSON_PACKAGE',
+        title: 'Buy a Lesson Package',
+        description: 'Save up to 15% with a 5, 10 or 20 lesson package',
+        buttonText: 'View Packages',
+        buttonStyle: 'secondary',
+        benefits: [
+          'Lower price per lesson',
+          'Schedule lessons at your own pace',
+        ],
+        endpoint: `/students/teachers/${teacherId}/packages`,
+        method: 'GET',
+        checkout: {
+          endpoint: '/payments/packages',
+          method: 'POST',
+          payload: {
+            teacherId,
+            packageType: 'PACKAGE_10',
+          },
+        },
+      });
+    }
+
     // Option 3: View Available Times
     options.push({
       action: 'VIEW_AVAILABILITY',
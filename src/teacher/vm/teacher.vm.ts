@@ -684,3 +684,23 @@ export class TeacherOnboardingStatusVm {
   })
   canGoLive: boolean;
 }
+
+export class SavedTeacherVm {
+  @ApiProperty({
+    description: 'Saved teacher',
+    type: TeacherVm,
+  })
+  teacher: TeacherVm;
+
+  @ApiProperty({
+    description: 'Notify the student when the teacher opens new slots',
+    example: true,
+  })
+  notifyOnNewSlots: boolean;
+
+  @ApiProperty({
+    description: 'When the teacher was saved',
+    example: '2024-01-15T10:30:00Z',
+  })
+  savedAt: Date;
+}
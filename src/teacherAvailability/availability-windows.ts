@@ -0,0 +1,162 @@
+import { AvailabilityType, TeacherAvailability } from '@prisma/client';
+import {
+  getDayOfWeek,
+  getZonedParts,
+  zonedTimeToUtc,
+} from '../common/timezone/timezone.util';
+
+export interface AvailabilityWindow {
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface AvailabilityInterval {
+  start: Date;
+  end: Date;
+}
+
+type AvailabilityRule = Pick<
+  TeacherAvailability,
+  | 'dayOfWeek'
+  | 'startTime'
+  | 'endTime'
+  | 'type'
+  | 'isActive'
+  | 'date'
+  | 'endDate'
+>;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * A BLACKOUT ending at 23:59 blocks the rest of the day, since HH:mm
+ * cannot express midnight as an end time
+ */
+const END_OF_DAY = '23:59';
+
+/**
+ * `@db.Date` columns come back as UTC midnight of the stored day
+ */
+function storedDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function appliesOnDate(
+  rule: AvailabilityRule,
+  dateKey: string,
+  dayOfWeek: number,
+): boolean {
+  if (!rule.isActive) return false;
+
+  switch (rule.type) {
+    case AvailabilityType.ONE_TIME:
+      return !!rule.date && storedDateKey(rule.date) === dateKey;
+    case AvailabilityType.BLACKOUT: {
+      if (!rule.date) return false;
+      const from = storedDateKey(rule.date);
+      const to = storedDateKey(rule.endDate ?? rule.date);
+      return dateKey >= from && dateKey <= to;
+    }
+    default:
+      return rule.dayOfWeek === dayOfWeek;
+  }
+}
+
+/**
+ * Resolve the windows a teacher can be booked in on a day of their own
+ * calendar (YYYY-MM-DD): weekly REGULAR rows for that weekday plus ONE_TIME
+ * rows for that date, merged, with every BLACKOUT covering the date cut out
+ */
+export function getAvailabilityWindows(
+  availabilities: AvailabilityRule[],
+  dateKey: string,
+): AvailabilityWindow[] {
+  const dayOfWeek = getDayOfWeek(dateKey);
+  const rules = availabilities.filter((rule) =>
+    appliesOnDate(rule, dateKey, dayOfWeek),
+  );
+
+  const open = rules
+    .filter((rule) => rule.type !== AvailabilityType.BLACKOUT)
+    .map((rule) => [toMinutes(rule.startTime), toMinutes(rule.endTime)])
+    .filter(([start, end]) => start < end)
+    .sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping windows so a ONE_TIME extension does not duplicate slots
+  const merged: number[][] = [];
+  for (const [start, end] of open) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const blackouts = rules
+    .filter((rule) => rule.type === AvailabilityType.BLACKOUT)
+    .map((rule) => [
+      toMinutes(rule.startTime),
+      rule.endTime === END_OF_DAY ? MINUTES_PER_DAY : toMinutes(rule.endTime),
+    ]);
+
+  let windows = merged;
+  for (const [blockStart, blockEnd] of blackouts) {
+    windows = windows.flatMap(([start, end]) => {
+      if (blockEnd <= start || blockStart >= end) return [[start, end]];
+      const pieces: number[][] = [];
+      if (blockStart > start) pieces.push([start, blockStart]);
+      if (blockEnd < end) pieces.push([blockEnd, end]);
+      return pieces;
+    });
+  }
+
+  return windows.map(([start, end]) => ({
+    startTime: fromMinutes(start),
+    endTime: fromMinutes(end),
+  }));
+}
+
+/**
+ * The windows of a local day as instants, read in the teacher's timezone
+ */
+export function getAvailabilityIntervals(
+  availabilities: AvailabilityRule[],
+  dateKey: string,
+  timezone: string,
+): AvailabilityInterval[] {
+  return getAvailabilityWindows(availabilities, dateKey).map((window) => ({
+    start: zonedTimeToUtc(dateKey, window.startTime, timezone),
+    end: zonedTimeToUtc(dateKey, window.endTime, timezone),
+  }));
+}
+
+/**
+ * Whether `[start, start + duration]` fits entirely inside one window of the
+ * teacher's local day it starts on
+ */
+export function isWithinAvailability(
+  availabilities: AvailabilityRule[],
+  start: Date,
+  durationMinutes: number,
+  timezone: string,
+): boolean {
+  const end = start.getTime() + durationMinutes * 60000;
+  const { date } = getZonedParts(start, timezone);
+
+  return getAvailabilityIntervals(availabilities, date, timezone).some(
+    (interval) =>
+      interval.start.getTime() <= start.getTime() &&
+      interval.end.getTime() >= end,
+  );
+}
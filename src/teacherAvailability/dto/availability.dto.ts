@@ -12,7 +12,8 @@ import {
   IsEnum,
   IsDateString,
   Matches,
-  ArrayNotEmpty
+  ArrayNotEmpty,
+  ValidateIf,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
@@ -24,11 +25,13 @@ export enum AvailabilityType {
 
 export class CreateAvailabilityDto {
   @ApiProperty({
-    description: 'Day of week (0=Sunday, 1=Monday, ..., 6=Saturday)',
+    description:
+      'Day of week (0=Sunday, 1=Monday, ..., 6=Saturday). Required for REGULAR, derived from date otherwise',
     example: 1,
     minimum: 0,
     maximum: 6,
   })
+  @ValidateIf((dto) => !dto.type || dto.type === AvailabilityType.REGULAR)
   @IsNotEmpty()
   @Type(() => Number)
   @IsInt()
@@ -70,6 +73,29 @@ export class CreateAvailabilityDto {
   @IsEnum(AvailabilityType)
   type?: AvailabilityType;
 
+  @ApiPropertyOptional({
+    description:
+      'Specific date (YYYY-MM-DD). Required for ONE_TIME and BLACKOUT, first blocked day for BLACKOUT',
+    example: '2026-02-16',
+  })
+  @ValidateIf(
+    (dto) =>
+      dto.type === AvailabilityType.ONE_TIME ||
+      dto.type === AvailabilityType.BLACKOUT,
+  )
+  @IsNotEmpty()
+  @IsDateString()
+  date?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last blocked day (YYYY-MM-DD, inclusive) of a multi-day BLACKOUT such as Tet',
+    example: '2026-02-22',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
   @ApiPropertyOptional({
     description: 'Whether this availability is active',
     example: true,
@@ -114,6 +140,24 @@ export class UpdateAvailabilityDto {
   @IsEnum(AvailabilityType)
   type?: AvailabilityType;
 
+  @ApiPropertyOptional({
+    description:
+      'Specific date (YYYY-MM-DD) for ONE_TIME and BLACKOUT availability',
+    example: '2026-02-16',
+  })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last blocked day (YYYY-MM-DD, inclusive) of a multi-day BLACKOUT',
+    example: '2026-02-22',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
   @ApiPropertyOptional({
     description: 'Whether this availability is active',
     example: true,
@@ -189,11 +233,13 @@ export class GetAvailabilityQueryDto {
 
 export class AvailabilityConflictCheckDto {
   @ApiProperty({
-    description: 'Day of week (0=Sunday, 1=Monday, ..., 6=Saturday)',
+    description:
+      'Day of week (0=Sunday, 1=Monday, ..., 6=Saturday). Required for REGULAR',
     example: 1,
     minimum: 0,
     maximum: 6,
   })
+  @ValidateIf((dto) => !dto.type || dto.type === AvailabilityType.REGULAR)
   @IsNotEmpty()
   @Type(() => Number)
   @IsInt()
@@ -225,6 +271,27 @@ export class AvailabilityConflictCheckDto {
   })
   endTime: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Type of the availability being checked. BLACKOUT never conflicts',
+    enum: AvailabilityType,
+    example: AvailabilityType.REGULAR,
+    default: AvailabilityType.REGULAR,
+  })
+  @IsOptional()
+  @IsEnum(AvailabilityType)
+  type?: AvailabilityType;
+
+  @ApiPropertyOptional({
+    description:
+      'Specific date (YYYY-MM-DD) of a ONE_TIME availability being checked',
+    example: '2026-02-16',
+  })
+  @ValidateIf((dto) => dto.type === AvailabilityType.ONE_TIME)
+  @IsNotEmpty()
+  @IsDateString()
+  date?: string;
+
   @ApiPropertyOptional({
     description: 'Exclude this availability ID from conflict checking (for updates)',
     example: 'clm123abc456',
@@ -10,7 +10,8 @@ import {
   IsInt,
   ValidateNested,
   IsArray,
-  ArrayNotEmpty
+  ArrayNotEmpty,
+  IsTimeZone,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
@@ -71,6 +72,14 @@ export class GetAvailableTimeSlotsDto {
     return value;
   })
   includeShortNotice?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Student timezone to also show each slot in',
+    example: 'Europe/Berlin',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
 }
 
 export class CheckTeacherAvailableDto {
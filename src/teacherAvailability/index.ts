@@ -4,3 +4,4 @@ export * from './teacher-availability.service';
 export * from './dto/availability.dto';
 export * from './dto/schedule.dto';
 export * from './vm/availability.vm';
+export * from './availability-windows';
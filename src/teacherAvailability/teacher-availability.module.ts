@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../common/prisma/prisma.module';
+import { NotificationModule } from '../notification/notification.module';
 import { TeacherAvailabilityController } from './teacher-availability.controller';
 import { TeacherAvailabilityService } from './teacher-availability.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, NotificationModule],
   controllers: [TeacherAvailabilityController],
   providers: [TeacherAvailabilityService],
   exports: [TeacherAvailabilityService],
@@ -4,8 +4,10 @@ import {
   BadRequestException,
   ConflictException,
   ForbiddenException,
+  Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma/prisma.service';
+import { NotificationInboxService } from '../notification/notification-inbox.service';
 import { 
   CreateAvailabilityDto,
   UpdateAvailabilityDto,
@@ -32,10 +34,42 @@ import {
   AvailabilitySummaryVm
 } from './vm/availability.vm';
 import { TeacherAvailability, BookingStatus } from '@prisma/client';
+import {
+  AvailabilityInterval,
+  getAvailabilityIntervals,
+  isWithinAvailability,
+} from './availability-windows';
+import {
+  addDays,
+  eachDay,
+  getDayOfWeek,
+  getZonedDayRange,
+  getZonedParts,
+  resolveTimeZone,
+  toZonedTime,
+} from '../common/timezone/timezone.util';
+
+/**
+ * Students who asked to hear about a saved teacher's new slots get at most
+ * one notification per teacher in this window
+ */
+const NEW_SLOTS_NOTIFY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface AvailabilityPlacement {
+  type: AvailabilityType;
+  dayOfWeek: number;
+  date: Date | null;
+  endDate: Date | null;
+}
 
 @Injectable()
 export class TeacherAvailabilityService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(TeacherAvailabilityService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationInboxService: NotificationInboxService,
+  ) {}
 
 
   private getDayName(dayOfWeek: number): string {
@@ -54,20 +88,32 @@ export class TeacherAvailabilityService {
     await this.validateTeacherExists(teacherId);
 
     // Check for time conflicts
+    const placement = this.resolvePlacement(createDto);
     await this.validateTimeSlot(createDto.startTime, createDto.endTime);
-    await this.checkTimeConflicts(teacherId, createDto.dayOfWeek, createDto.startTime, createDto.endTime);
+    await this.checkTimeConflicts(
+      teacherId,
+      placement,
+      createDto.startTime,
+      createDto.endTime,
+    );
 
     const availability = await this.prisma.teacherAvailability.create({
       data: {
         teacherId,
-        dayOfWeek: createDto.dayOfWeek,
+        ...placement,
         startTime: createDto.startTime,
         endTime: createDto.endTime,
-        type: createDto.type || AvailabilityType.REGULAR,
         isActive: createDto.isActive ?? true,
       },
     });
 
+    if (
+      availability.isActive &&
+      availability.type !== AvailabilityType.BLACKOUT
+    ) {
+      await this.notifySavedStudents(teacherId);
+    }
+
     return this.toAvailabilityVm(availability);
   }
 
@@ -95,6 +141,8 @@ export class TeacherAvailabilityService {
     const availabilities = await this.prisma.teacherAvailability.findMany({
       where,
       orderBy: [
+        { type: 'asc' },
+        { date: 'asc' },
         { dayOfWeek: 'asc' },
         { startTime: 'asc' }
       ],
@@ -110,25 +158,42 @@ export class TeacherAvailabilityService {
     updateDto: UpdateAvailabilityDto
   ): Promise<TeacherAvailabilityVm> {
     const availability = await this.findAvailabilityByIdAndTeacher(availabilityId, teacherId);
+    const { date, endDate, ...changes } = updateDto;
+
+    const placement = this.resolvePlacement({
+      type: updateDto.type || (availability.type as AvailabilityType),
+      dayOfWeek: availability.dayOfWeek,
+      date: date ?? availability.date?.toISOString().split('T')[0],
+      endDate: endDate ?? availability.endDate?.toISOString().split('T')[0],
+    });
 
     // Validate new time slot if provided
-    if (updateDto.startTime || updateDto.endTime) {
+    if (
+      updateDto.startTime ||
+      updateDto.endTime ||
+      updateDto.type ||
+      date ||
+      endDate
+    ) {
       const startTime = updateDto.startTime || availability.startTime;
       const endTime = updateDto.endTime || availability.endTime;
       
       await this.validateTimeSlot(startTime, endTime);
       await this.checkTimeConflicts(
-        teacherId, 
-        availability.dayOfWeek, 
-        startTime, 
-        endTime, 
-        availabilityId
+        teacherId,
+        placement,
+        startTime,
+        endTime,
+        availabilityId,
       );
     }
 
     const updatedAvailability = await this.prisma.teacherAvailability.update({
       where: { id: availabilityId },
-      data: updateDto,
+      data: {
+        ...changes,
+        ...placement,
+      },
     });
 
     return this.toAvailabilityVm(updatedAvailability);
@@ -158,10 +223,11 @@ export class TeacherAvailabilityService {
       
       try {
         // Validate each slot
+        const placement = this.resolvePlacement(availabilityDto);
         await this.validateTimeSlot(availabilityDto.startTime, availabilityDto.endTime);
         await this.checkTimeConflicts(
           teacherId,
-          availabilityDto.dayOfWeek,
+          placement,
           availabilityDto.startTime,
           availabilityDto.endTime
         );
@@ -169,10 +235,9 @@ export class TeacherAvailabilityService {
         const availability = await this.prisma.teacherAvailability.create({
           data: {
             teacherId,
-            dayOfWeek: availabilityDto.dayOfWeek,
+            ...placement,
             startTime: availabilityDto.startTime,
             endTime: availabilityDto.endTime,
-            type: availabilityDto.type || AvailabilityType.REGULAR,
             isActive: availabilityDto.isActive ?? true,
           },
         });
@@ -187,6 +252,16 @@ export class TeacherAvailabilityService {
       }
     }
 
+    if (
+      successes.some(
+        (availability) =>
+          availability.isActive &&
+          availability.type !== AvailabilityType.BLACKOUT,
+      )
+    ) {
+      await this.notifySavedStudents(teacherId);
+    }
+
     return {
       successCount: successes.length,
       failureCount: failures.length,
@@ -201,12 +276,30 @@ export class TeacherAvailabilityService {
     conflictDto: AvailabilityConflictCheckDto
   ): Promise<AvailabilityConflictVm> {
     await this.validateTeacherExists(teacherId);
-    
-    const where: any = {
-      teacherId,
-      dayOfWeek: conflictDto.dayOfWeek,
-      isActive: true,
-    };
+
+    // Blackouts only remove time, so they can overlap anything
+    if (conflictDto.type === AvailabilityType.BLACKOUT) {
+      return {
+        hasConflict: false,
+        conflictMessage: 'No conflicts found',
+      };
+    }
+
+    // Weekly rows only clash with weekly rows, one-time rows with the same date
+    const where: any =
+      conflictDto.type === AvailabilityType.ONE_TIME
+        ? {
+            teacherId,
+            type: AvailabilityType.ONE_TIME,
+            date: new Date(conflictDto.date),
+            isActive: true,
+          }
+        : {
+            teacherId,
+            type: AvailabilityType.REGULAR,
+            dayOfWeek: conflictDto.dayOfWeek,
+            isActive: true,
+          };
 
     if (conflictDto.excludeId) {
       where.id = { not: conflictDto.excludeId };
@@ -262,13 +355,16 @@ export class TeacherAvailabilityService {
     await this.validateTeacherExists(teacherId);
 
     // Get source day availabilities
-    const sourceAvailabilities = await this.prisma.teacherAvailability.findMany({
-      where: {
-        teacherId,
-        dayOfWeek: copyDto.fromDayOfWeek,
-        isActive: true,
+    const sourceAvailabilities = await this.prisma.teacherAvailability.findMany(
+      {
+        where: {
+          teacherId,
+          dayOfWeek: copyDto.fromDayOfWeek,
+          type: AvailabilityType.REGULAR,
+          isActive: true,
+        },
       },
-    });
+    );
 
     if (sourceAvailabilities.length === 0) {
       throw new BadRequestException('No availability found for source day');
@@ -288,6 +384,7 @@ export class TeacherAvailabilityService {
             where: {
               teacherId,
               dayOfWeek: targetDay,
+              type: AvailabilityType.REGULAR,
             },
           });
         }
@@ -316,6 +413,16 @@ export class TeacherAvailabilityService {
       }
     }
 
+    if (
+      successes.some(
+        (availability) =>
+          availability.isActive &&
+          availability.type !== AvailabilityType.BLACKOUT,
+      )
+    ) {
+      await this.notifySavedStudents(teacherId);
+    }
+
     return {
       successCount: successes.length,
       failureCount: failures.length,
@@ -331,65 +438,65 @@ export class TeacherAvailabilityService {
   ): Promise<AvailabilityTimeSlotVm[]> {
     await this.validateTeacherExists(teacherId);
 
-    const startDate = new Date(slotsDto.startDate);
-    const endDate = new Date(slotsDto.endDate);
     const duration = slotsDto.duration || 60;
     const breakTime = slotsDto.breakTime || 15;
 
     // Get teacher settings for advance notice
     const teacher = await this.prisma.teacher.findUnique({
       where: { id: teacherId },
-      select: { advanceNoticeHours: true },
+      select: { advanceNoticeHours: true, timezone: true },
     });
 
+    const timezone = resolveTimeZone(teacher?.timezone);
     const advanceNoticeHours = teacher?.advanceNoticeHours || 24;
     const minBookingTime = new Date();
     minBookingTime.setHours(minBookingTime.getHours() + advanceNoticeHours);
 
-    const slots: AvailabilityTimeSlotVm[] = [];
-    
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-      const dayOfWeek = date.getDay();
-      
-      // Get availability for this day
-      const dayAvailabilities = await this.prisma.teacherAvailability.findMany({
-        where: {
-          teacherId,
-          dayOfWeek,
-          isActive: true,
-        },
-        orderBy: { startTime: 'asc' },
-      });
+    // The requested dates are days of the teacher's calendar
+    const days = eachDay(
+      slotsDto.startDate.split('T')[0],
+      slotsDto.endDate.split('T')[0],
+    );
+    if (days.length === 0) {
+      return [];
+    }
 
-      // Get existing bookings for this day
-      const dateStart = new Date(date);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
+    const availabilities = await this.prisma.teacherAvailability.findMany({
+      where: { teacherId, isActive: true },
+    });
 
-      const existingBookings = await this.prisma.booking.findMany({
-        where: {
-          teacherId,
-          scheduledAt: {
-            gte: dateStart,
-            lte: dateEnd,
-          },
-          status: {
-            in: [BookingStatus.PENDING, BookingStatus.CONFIRMED],
-          },
+    // Get existing bookings for the whole range
+    const existingBookings = await this.prisma.booking.findMany({
+      where: {
+        teacherId,
+        scheduledAt: {
+          gte: getZonedDayRange(days[0], timezone).start,
+          lt: getZonedDayRange(days[days.length - 1], timezone).end,
         },
-      });
+        status: {
+          in: [BookingStatus.PENDING, BookingStatus.CONFIRMED],
+        },
+      },
+    });
 
-      // Generate slots for each availability period
-      for (const availability of dayAvailabilities) {
+    const slots: AvailabilityTimeSlotVm[] = [];
+
+    for (const day of days) {
+      // Weekly hours plus one-time slots, minus blackouts
+      for (const interval of getAvailabilityIntervals(
+        availabilities,
+        day,
+        timezone,
+      )) {
         const daySlots = this.generateTimeSlotsForAvailability(
-          date,
-          availability,
+          interval,
           duration,
           breakTime,
           existingBookings,
           minBookingTime,
-          slotsDto.includeShortNotice || false
+          slotsDto.includeShortNotice || false,
+          timezone,
+          slotsDto.timezone,
         );
         
         slots.push(...daySlots);
@@ -404,27 +511,23 @@ export class TeacherAvailabilityService {
     teacherId: string,
     checkDto: CheckTeacherAvailableDto
   ): Promise<{ isAvailable: boolean; reason?: string }> {
-    await this.validateTeacherExists(teacherId);
+    const timezone = await this.getTeacherTimeZone(teacherId);
 
     const requestedDateTime = new Date(checkDto.dateTime);
-    const dayOfWeek = requestedDateTime.getDay();
-    const timeString = this.formatTimeToHHMM(requestedDateTime);
-    const endTimeString = this.formatTimeToHHMM(
-      new Date(requestedDateTime.getTime() + checkDto.duration * 60000)
-    );
 
-    // Check if within availability hours
-    const availability = await this.prisma.teacherAvailability.findFirst({
-      where: {
-        teacherId,
-        dayOfWeek,
-        isActive: true,
-        startTime: { lte: timeString },
-        endTime: { gte: endTimeString },
-      },
+    // Check if within availability hours, read in the teacher's timezone
+    const availabilities = await this.prisma.teacherAvailability.findMany({
+      where: { teacherId, isActive: true },
     });
 
-    if (!availability) {
+    if (
+      !isWithinAvailability(
+        availabilities,
+        requestedDateTime,
+        checkDto.duration,
+        timezone,
+      )
+    ) {
       return {
         isAvailable: false,
         reason: 'Teacher is not available at this time',
@@ -480,33 +583,30 @@ export class TeacherAvailabilityService {
     teacherId: string,
     queryDto: WeeklyScheduleQueryDto
   ): Promise<WeeklyAvailabilityVm[]> {
-    await this.validateTeacherExists(teacherId);
+    const timezone = await this.getTeacherTimeZone(teacherId);
 
     const weeks: WeeklyAvailabilityVm[] = [];
     const weeksCount = queryDto.weeksCount || 1;
     const slotDuration = queryDto.slotDuration || 60;
 
-    let startDate: Date;
+    let startDate: string;
     if (queryDto.weekStartDate) {
-      startDate = new Date(queryDto.weekStartDate);
+      startDate = queryDto.weekStartDate.split('T')[0];
     } else {
-      startDate = new Date();
-      startDate.setDate(startDate.getDate() - startDate.getDay()); // Start of current week
+      const today = getZonedParts(new Date(), timezone);
+      startDate = addDays(today.date, -today.dayOfWeek); // Start of current week
     }
 
     for (let weekIndex = 0; weekIndex < weeksCount; weekIndex++) {
-      const weekStart = new Date(startDate);
-      weekStart.setDate(weekStart.getDate() + (weekIndex * 7));
-      
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
+      const weekStart = addDays(startDate, weekIndex * 7);
 
       const weekSchedule = await this.generateWeeklySchedule(
         teacherId,
         weekStart,
-        weekEnd,
+        addDays(weekStart, 6),
         slotDuration,
-        queryDto.includeBookings ?? true
+        queryDto.includeBookings ?? true,
+        timezone,
       );
 
       weeks.push(weekSchedule);
@@ -537,13 +637,19 @@ export class TeacherAvailabilityService {
     });
 
     const activeAvailabilities = availabilities.filter(a => a.isActive);
-    const availableDays = [...new Set(activeAvailabilities.map(a => a.dayOfWeek))];
-    
+    // Weekly figures only count the recurring schedule
+    const weeklyAvailabilities = activeAvailabilities.filter(
+      (a) => a.type === AvailabilityType.REGULAR,
+    );
+    const availableDays = [
+      ...new Set(weeklyAvailabilities.map((a) => a.dayOfWeek)),
+    ];
+
     let totalHoursPerWeek = 0;
     let earliestStart = '23:59';
     let latestEnd = '00:00';
 
-    for (const availability of activeAvailabilities) {
+    for (const availability of weeklyAvailabilities) {
       const startHour = parseInt(availability.startTime.split(':')[0]);
       const startMin = parseInt(availability.startTime.split(':')[1]);
       const endHour = parseInt(availability.endTime.split(':')[0]);
@@ -565,13 +671,54 @@ export class TeacherAvailabilityService {
       activeAvailabilities: activeAvailabilities.length,
       availableDays: availableDays.sort(),
       totalHoursPerWeek,
-      earliestStartTime: activeAvailabilities.length > 0 ? earliestStart : '00:00',
-      latestEndTime: activeAvailabilities.length > 0 ? latestEnd : '00:00',
+      earliestStartTime:
+        weeklyAvailabilities.length > 0 ? earliestStart : '00:00',
+      latestEndTime: weeklyAvailabilities.length > 0 ? latestEnd : '00:00',
       avgHoursPerDay: availableDays.length > 0 ? totalHoursPerWeek / availableDays.length : 0,
     };
   }
 
   // Private helper methods
+  /**
+   * Tell students who saved this teacher with notifyOnNewSlots that new
+   * slots opened. Failures are logged, the availability change stands.
+   */
+  private async notifySavedStudents(teacherId: string): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - NEW_SLOTS_NOTIFY_INTERVAL_MS);
+      const savedBy = await this.prisma.savedTeacher.findMany({
+        where: {
+          teacherId,
+          notifyOnNewSlots: true,
+          OR: [{ lastNotifiedAt: null }, { lastNotifiedAt: { lt: cutoff } }],
+        },
+        include: { teacher: { include: { user: true } } },
+      });
+
+      if (savedBy.length === 0) return;
+
+      await this.prisma.savedTeacher.updateMany({
+        where: { id: { in: savedBy.map((saved) => saved.id) } },
+        data: { lastNotifiedAt: new Date() },
+      });
+
+      const { firstName, lastName } = savedBy[0].teacher.user;
+      for (const saved of savedBy) {
+        await this.notificationInboxService.create({
+          userId: saved.studentId,
+          type: 'SAVED_TEACHER_NEW_SLOTS',
+          title: 'New slots available',
+          message: `${firstName} ${lastName} just opened new time slots`,
+          metadata: { teacherId },
+        });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify students about new slots of teacher ${teacherId}: ${error.message}`,
+      );
+    }
+  }
+
   private async validateTeacherExists(teacherId: string): Promise<void> {
     const teacher = await this.prisma.teacher.findUnique({
       where: { id: teacherId },
@@ -582,6 +729,19 @@ export class TeacherAvailabilityService {
     }
   }
 
+  private async getTeacherTimeZone(teacherId: string): Promise<string> {
+    const teacher = await this.prisma.teacher.findUnique({
+      where: { id: teacherId },
+      select: { timezone: true },
+    });
+
+    if (!teacher) {
+      throw new NotFoundException('Teacher not found');
+    }
+
+    return resolveTimeZone(teacher.timezone);
+  }
+
   private async findAvailabilityByIdAndTeacher(
     availabilityId: string,
     teacherId: string
@@ -612,15 +772,51 @@ export class TeacherAvailabilityService {
     }
   }
 
+  private resolvePlacement(dto: {
+    type?: AvailabilityType;
+    dayOfWeek?: number;
+    date?: string;
+    endDate?: string;
+  }): AvailabilityPlacement {
+    const type = dto.type || AvailabilityType.REGULAR;
+
+    if (type === AvailabilityType.REGULAR) {
+      return { type, dayOfWeek: dto.dayOfWeek, date: null, endDate: null };
+    }
+
+    if (!dto.date) {
+      throw new BadRequestException(
+        `Date is required for ${type} availability`,
+      );
+    }
+
+    const date = new Date(dto.date.split('T')[0]);
+    const endDate =
+      type === AvailabilityType.BLACKOUT && dto.endDate
+        ? new Date(dto.endDate.split('T')[0])
+        : null;
+
+    if (isNaN(date.getTime()) || (endDate && isNaN(endDate.getTime()))) {
+      throw new BadRequestException('Invalid date. Use YYYY-MM-DD format');
+    }
+    if (endDate && endDate < date) {
+      throw new BadRequestException('End date must not be before date');
+    }
+
+    return { type, dayOfWeek: date.getUTCDay(), date, endDate };
+  }
+
   private async checkTimeConflicts(
     teacherId: string,
-    dayOfWeek: number,
+    placement: AvailabilityPlacement,
     startTime: string,
     endTime: string,
     excludeId?: string
   ): Promise<void> {
     const conflictDto: AvailabilityConflictCheckDto = {
-      dayOfWeek,
+      dayOfWeek: placement.dayOfWeek,
+      type: placement.type,
+      date: placement.date?.toISOString(),
       startTime,
       endTime,
       excludeId,
@@ -649,6 +845,8 @@ export class TeacherAvailabilityService {
       startTime: availability.startTime,
       endTime: availability.endTime,
       type: availability.type as AvailabilityType,
+      date: availability.date?.toISOString().split('T')[0],
+      endDate: availability.endDate?.toISOString().split('T')[0],
       isActive: availability.isActive,
       durationHours: Math.round(durationHours * 100) / 100,
       createdAt: availability.createdAt,
@@ -656,25 +854,19 @@ export class TeacherAvailabilityService {
   }
 
   private generateTimeSlotsForAvailability(
-    date: Date,
-    availability: TeacherAvailability,
+    interval: AvailabilityInterval,
     duration: number,
     breakTime: number,
     existingBookings: any[],
     minBookingTime: Date,
-    includeShortNotice: boolean
+    includeShortNotice: boolean,
+    timezone: string,
+    studentTimezone?: string,
   ): AvailabilityTimeSlotVm[] {
     const slots: AvailabilityTimeSlotVm[] = [];
-    const [startHour, startMin] = availability.startTime.split(':').map(Number);
-    const [endHour, endMin] = availability.endTime.split(':').map(Number);
-
-    const slotStart = new Date(date);
-    slotStart.setHours(startHour, startMin, 0, 0);
-    
-    const availabilityEnd = new Date(date);
-    availabilityEnd.setHours(endHour, endMin, 0, 0);
+    const slotStart = new Date(interval.start);
 
-    while (slotStart.getTime() + duration * 60000 <= availabilityEnd.getTime()) {
+    while (slotStart.getTime() + duration * 60000 <= interval.end.getTime()) {
       const slotEnd = new Date(slotStart.getTime() + duration * 60000);
       
       // Check if slot meets advance notice requirement
@@ -703,11 +895,17 @@ export class TeacherAvailabilityService {
         bookingId = conflictingBooking?.id || '';
       }
 
+      const local = getZonedParts(slotStart, timezone);
+
       slots.push({
-        date: date.toISOString().split('T')[0],
-        dayName: this.getDayName(date.getDay()),
-        startTime: this.formatTimeToHHMM(slotStart),
-        endTime: this.formatTimeToHHMM(slotEnd),
+        date: local.date,
+        dayName: this.getDayName(local.dayOfWeek),
+        startTime: local.time,
+        endTime: getZonedParts(slotEnd, timezone).time,
+        timezone,
+        studentLocalTime: studentTimezone
+          ? toZonedTime(slotStart, studentTimezone)
+          : undefined,
         dateTime: slotStart.toISOString(),
         isAvailable: meetsAdvanceNotice && !isBooked,
         unavailableReason: unavailableReason || undefined,
@@ -715,7 +913,7 @@ export class TeacherAvailabilityService {
       });
 
       // Move to next slot
-      slotStart.setMinutes(slotStart.getMinutes() + duration + breakTime);
+      slotStart.setTime(slotStart.getTime() + (duration + breakTime) * 60000);
     }
 
     return slots;
@@ -723,10 +921,11 @@ export class TeacherAvailabilityService {
 
   private async generateWeeklySchedule(
     teacherId: string,
-    weekStart: Date,
-    weekEnd: Date,
+    weekStart: string,
+    weekEnd: string,
     slotDuration: number,
-    includeBookings: boolean
+    includeBookings: boolean,
+    timezone: string,
   ): Promise<WeeklyAvailabilityVm> {
     const days: DailyAvailabilityVm[] = [];
     let totalAvailableHours = 0;
@@ -734,17 +933,19 @@ export class TeacherAvailabilityService {
     let totalAvailableSlots = 0;
     let totalBookedSlots = 0;
 
-    for (let date = new Date(weekStart); date <= weekEnd; date.setDate(date.getDate() + 1)) {
-      const dayOfWeek = date.getDay();
+    const availabilities = await this.prisma.teacherAvailability.findMany({
+      where: { teacherId, isActive: true },
+    });
+
+    for (const date of eachDay(weekStart, weekEnd)) {
+      const dayOfWeek = getDayOfWeek(date);
       
       // Get availability for this day
-      const dayAvailabilities = await this.prisma.teacherAvailability.findMany({
-        where: {
-          teacherId,
-          dayOfWeek,
-          isActive: true,
-        },
-      });
+      const dayAvailabilities = getAvailabilityIntervals(
+        availabilities,
+        date,
+        timezone,
+      );
 
       let dayAvailableHours = 0;
       let dayBookedHours = 0;
@@ -753,28 +954,24 @@ export class TeacherAvailabilityService {
       if (dayAvailabilities.length > 0) {
         // Calculate available hours
         for (const availability of dayAvailabilities) {
-          const startHour = parseInt(availability.startTime.split(':')[0]);
-          const startMin = parseInt(availability.startTime.split(':')[1]);
-          const endHour = parseInt(availability.endTime.split(':')[0]);
-          const endMin = parseInt(availability.endTime.split(':')[1]);
-          
-          const hours = (endHour + endMin/60) - (startHour + startMin/60);
-          dayAvailableHours += hours;
+          dayAvailableHours +=
+            (availability.end.getTime() - availability.start.getTime()) /
+            3600000;
         }
 
         // Get bookings if requested
         if (includeBookings) {
-          const dateStart = new Date(date);
-          dateStart.setHours(0, 0, 0, 0);
-          const dateEnd = new Date(date);
-          dateEnd.setHours(23, 59, 59, 999);
+          const { start: dateStart, end: dateEnd } = getZonedDayRange(
+            date,
+            timezone,
+          );
 
           const dayBookings = await this.prisma.booking.findMany({
             where: {
               teacherId,
               scheduledAt: {
                 gte: dateStart,
-                lte: dateEnd,
+                lt: dateEnd,
               },
               status: {
                 in: [BookingStatus.PENDING, BookingStatus.CONFIRMED],
@@ -789,13 +986,13 @@ export class TeacherAvailabilityService {
           // Generate time slots for visualization
           for (const availability of dayAvailabilities) {
             const slots = this.generateTimeSlotsForAvailability(
-              date,
               availability,
               slotDuration,
               15, // default break time
               dayBookings,
               new Date(),
-              true
+              true,
+              timezone,
             );
             timeSlots.push(...slots);
           }
@@ -806,7 +1003,7 @@ export class TeacherAvailabilityService {
       const bookedSlots = timeSlots.filter(slot => !slot.isAvailable).length;
 
       days.push({
-        date: date.toISOString().split('T')[0],
+        date,
         dayOfWeek,
         dayName: this.getDayName(dayOfWeek),
         timeSlots: timeSlots.sort((a, b) => a.startTime.localeCompare(b.startTime)),
@@ -822,8 +1019,8 @@ export class TeacherAvailabilityService {
     }
 
     return {
-      weekStartDate: weekStart.toISOString().split('T')[0],
-      weekEndDate: weekEnd.toISOString().split('T')[0],
+      weekStartDate: weekStart,
+      weekEndDate: weekEnd,
       days,
       totalAvailableHours: Math.round(totalAvailableHours * 100) / 100,
       totalBookedHours: Math.round(totalBookedHours * 100) / 100,
@@ -831,8 +1028,4 @@ export class TeacherAvailabilityService {
       totalBookedSlots,
     };
   }
-
-  private formatTimeToHHMM(date: Date): string {
-    return date.toTimeString().slice(0, 5);
-  }
 }
@@ -0,0 +1,160 @@
+import { describe, expect, it } from '@jest/globals';
+import { AvailabilityType } from '@prisma/client';
+import {
+  getAvailabilityIntervals,
+  getAvailabilityWindows,
+  isWithinAvailability,
+} from '../availability-windows';
+
+// 2026-03-02 is a Monday
+const MONDAY = '2026-03-02';
+
+const regular = (dayOfWeek: number, startTime: string, endTime: string) => ({
+  type: AvailabilityType.REGULAR,
+  dayOfWeek,
+  startTime,
+  endTime,
+  isActive: true,
+  date: null,
+  endDate: null,
+});
+
+const oneTime = (date: string, startTime: string, endTime: string) => ({
+  type: AvailabilityType.ONE_TIME,
+  dayOfWeek: null,
+  startTime,
+  endTime,
+  isActive: true,
+  date: new Date(`${date}T00:00:00.000Z`),
+  endDate: null,
+});
+
+const blackout = (
+  date: string,
+  startTime: string,
+  endTime: string,
+  endDate?: string,
+) => ({
+  type: AvailabilityType.BLACKOUT,
+  dayOfWeek: null,
+  startTime,
+  endTime,
+  isActive: true,
+  date: new Date(`${date}T00:00:00.000Z`),
+  endDate: endDate ? new Date(`${endDate}T00:00:00.000Z`) : null,
+});
+
+describe('availability-windows', () => {
+  describe('getAvailabilityWindows', () => {
+    it('should use the weekly rows of the weekday', () => {
+      expect(
+        getAvailabilityWindows(
+          [regular(1, '09:00', '12:00'), regular(2, '13:00', '17:00')],
+          MONDAY,
+        ),
+      ).toEqual([{ startTime: '09:00', endTime: '12:00' }]);
+    });
+
+    it('should skip inactive rows', () => {
+      expect(
+        getAvailabilityWindows(
+          [{ ...regular(1, '09:00', '12:00'), isActive: false }],
+          MONDAY,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should merge one-time windows overlapping the weekly ones', () => {
+      expect(
+        getAvailabilityWindows(
+          [
+            regular(1, '09:00', '12:00'),
+            oneTime(MONDAY, '11:00', '14:00'),
+            oneTime('2026-03-09', '18:00', '20:00'),
+          ],
+          MONDAY,
+        ),
+      ).toEqual([{ startTime: '09:00', endTime: '14:00' }]);
+    });
+
+    it('should cut blackouts out of the windows', () => {
+      expect(
+        getAvailabilityWindows(
+          [regular(1, '09:00', '17:00'), blackout(MONDAY, '12:00', '13:00')],
+          MONDAY,
+        ),
+      ).toEqual([
+        { startTime: '09:00', endTime: '12:00' },
+        { startTime: '13:00', endTime: '17:00' },
+      ]);
+    });
+
+    it('should block every day of a multi-day blackout to the end of the day', () => {
+      const rules = [
+        regular(1, '09:00', '17:00'),
+        regular(2, '09:00', '17:00'),
+        blackout('2026-03-01', '00:00', '23:59', '2026-03-03'),
+      ];
+
+      expect(getAvailabilityWindows(rules, MONDAY)).toEqual([]);
+      expect(getAvailabilityWindows(rules, '2026-03-03')).toEqual([]);
+      expect(getAvailabilityWindows(rules, '2026-03-10')).toHaveLength(1);
+    });
+  });
+
+  describe('getAvailabilityIntervals', () => {
+    it('should read the windows in the teacher timezone', () => {
+      expect(
+        getAvailabilityIntervals(
+          [regular(1, '09:00', '12:00')],
+          MONDAY,
+          'Asia/Ho_Chi_Minh',
+        ),
+      ).toEqual([
+        {
+          start: new Date('2026-03-02T02:00:00.000Z'),
+          end: new Date('2026-03-02T05:00:00.000Z'),
+        },
+      ]);
+    });
+  });
+
+  describe('isWithinAvailability', () => {
+    const rules = [regular(1, '09:00', '12:00')];
+    const timezone = 'Asia/Ho_Chi_Minh';
+
+    it('should accept a lesson fully inside a window', () => {
+      expect(
+        isWithinAvailability(
+          rules,
+          new Date('2026-03-02T04:00:00.000Z'),
+          60,
+          timezone,
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject a lesson running past the window', () => {
+      expect(
+        isWithinAvailability(
+          rules,
+          new Date('2026-03-02T04:30:00.000Z'),
+          60,
+          timezone,
+        ),
+      ).toBe(false);
+    });
+
+    it('should use the local day the lesson starts on', () => {
+      // Monday 06:00 in Hanoi is still Sunday in UTC
+      expect(
+        isWithinAvailability(
+          [regular(1, '06:00', '08:00')],
+          new Date('2026-03-01T23:00:00.000Z'),
+          30,
+          timezone,
+        ),
+      ).toBe(true);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { AvailabilityType } from '../dto/availability.dto';
+import { ZonedTimeVm } from '../../common/timezone/zoned-time.vm';
 
 export class TeacherAvailabilityVm {
   @ApiProperty({
@@ -45,6 +46,19 @@ export class TeacherAvailabilityVm {
   })
   type: AvailabilityType;
 
+  @ApiPropertyOptional({
+    description:
+      'Specific date for ONE_TIME, first blocked day for BLACKOUT (YYYY-MM-DD)',
+    example: '2026-02-16',
+  })
+  date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last blocked day of a multi-day BLACKOUT (YYYY-MM-DD)',
+    example: '2026-02-22',
+  })
+  endDate?: string;
+
   @ApiProperty({
     description: 'Whether this availability is active',
     example: true,
@@ -66,7 +80,8 @@ export class TeacherAvailabilityVm {
 
 export class AvailabilityTimeSlotVm {
   @ApiProperty({
-    description: 'Date of the slot in YYYY-MM-DD format',
+    description:
+      'Date of the slot in YYYY-MM-DD format, in the teacher timezone',
     example: '2025-08-25',
   })
   date: string;
@@ -78,17 +93,29 @@ export class AvailabilityTimeSlotVm {
   dayName: string;
 
   @ApiProperty({
-    description: 'Start time in HH:mm format',
+    description: 'Start time in HH:mm format, in the teacher timezone',
     example: '09:00',
   })
   startTime: string;
 
   @ApiProperty({
-    description: 'End time in HH:mm format',
+    description: 'End time in HH:mm format, in the teacher timezone',
     example: '10:00',
   })
   endTime: string;
 
+  @ApiProperty({
+    description: 'Teacher timezone',
+    example: 'Asia/Ho_Chi_Minh',
+  })
+  timezone: string;
+
+  @ApiPropertyOptional({
+    description: 'Slot start in the student timezone, when one is given',
+    type: ZonedTimeVm,
+  })
+  studentLocalTime?: ZonedTimeVm;
+
   @ApiProperty({
     description: 'Full date-time in ISO format',
     example: '2025-08-25T09:00:00.000Z',